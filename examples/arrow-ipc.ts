@@ -2,7 +2,9 @@
  * Arrow IPC example.
  *
  * Demonstrates using the Apache Arrow library to serialise and
- * deserialise data in Arrow IPC format for Flight operations.
+ * deserialise data in Arrow IPC format for Flight operations. The
+ * round-trips run against the sample InMemoryFlightServer, so no other
+ * server is needed.
  *
  * @example
  * ```bash
@@ -11,7 +13,15 @@
  */
 import { tableFromArrays, tableFromIPC, tableToIPC } from "apache-arrow"
 
-import { createFlightClient, pathDescriptor } from "../src/index.js"
+import {
+  collectFlightDataAsIpc,
+  createFlightClient,
+  type Location,
+  pathDescriptor,
+  recordBatchesToFlightData,
+  toFlightDescriptor
+} from "../src/index.js"
+import { startSampleServer } from "./sample-server.js"
 
 async function main(): Promise<void> {
   console.log("=== Arrow IPC Examples ===\n")
@@ -28,13 +38,18 @@ async function main(): Promise<void> {
   console.log("\n--- Example 3: Parse IPC Data ---")
   demonstrateIpcParsing()
 
-  // Example 4: Full round-trip with doPut
-  console.log("\n--- Example 4: Full DoPut Round-Trip ---")
-  await demonstrateDoPutWithArrow()
-
-  // Example 5: Full round-trip with doGet
-  console.log("\n--- Example 5: Full DoGet Round-Trip ---")
-  await demonstrateDoGetWithArrow()
+  const { server, location } = await startSampleServer()
+  try {
+    // Example 4: Full round-trip with doPut
+    console.log("\n--- Example 4: Full DoPut Round-Trip ---")
+    await demonstrateDoPutWithArrow(location)
+
+    // Example 5: Full round-trip with doGet
+    console.log("\n--- Example 5: Full DoGet Round-Trip ---")
+    await demonstrateDoGetWithArrow(location)
+  } finally {
+    await server.close()
+  }
 }
 
 function demonstrateTableCreation(): void {
@@ -125,13 +140,9 @@ function demonstrateIpcParsing(): void {
   }
 }
 
-async function demonstrateDoPutWithArrow(): Promise<void> {
+async function demonstrateDoPutWithArrow(location: Location): Promise<void> {
   try {
-    const client = await createFlightClient({
-      host: "localhost",
-      port: 8815,
-      tls: false
-    })
+    const client = await createFlightClient(location)
 
     // Create Arrow data to upload using typed arrays
     const table = tableFromArrays({
@@ -139,35 +150,26 @@ async function demonstrateDoPutWithArrow(): Promise<void> {
       event_type: ["click", "view", "purchase"]
     })
 
-    // Serialise to IPC format
-    const ipcBytes = tableToIPC(table, "stream")
-    const ipcBuffer = Buffer.from(ipcBytes)
-
     console.log("  Prepared Arrow data:")
     console.log(`    Rows: ${String(table.numRows)}`)
-    console.log(`    IPC bytes: ${String(ipcBuffer.length)}`)
 
     // Create the doPut stream
     const stream = client.doPut()
 
-    // Send descriptor with schema
-    // The first message includes the flight descriptor
-    const descriptor = pathDescriptor("events", "user_actions")
-
-    stream.write({
-      flightDescriptor: {
-        type: 1, // PATH type
-        path: descriptor.path,
-        cmd: Buffer.alloc(0)
-      },
-      // In a full implementation, split IPC into header/body
-      // For simplicity, we send the entire IPC as dataBody
-      dataHeader: Buffer.alloc(0),
-      appMetadata: Buffer.alloc(0),
-      dataBody: ipcBuffer
-    })
+    // recordBatchesToFlightData encodes the table as Arrow IPC and splits
+    // it into one FlightData message per IPC message: the schema, any
+    // dictionaries, then the record batches. Each message carries the IPC
+    // header in dataHeader and the buffers in dataBody, and the first one
+    // carries the flight descriptor.
+    const descriptor = toFlightDescriptor(pathDescriptor("events", "user_actions"))
+
+    let messages = 0
+    for await (const data of recordBatchesToFlightData(table, descriptor)) {
+      stream.write(data)
+      messages++
+    }
 
-    console.log("  Sent Arrow data to server")
+    console.log(`  Sent ${String(messages)} IPC message(s) to server`)
 
     // End the stream
     stream.end()
@@ -179,18 +181,14 @@ async function demonstrateDoPutWithArrow(): Promise<void> {
     client.close()
     console.log("  Connection closed")
   } catch (error) {
-    console.log("  Upload failed (expected if no server running)")
+    console.log("  Upload failed")
     console.log("  Error:", error instanceof Error ? error.message : error)
   }
 }
 
-async function demonstrateDoGetWithArrow(): Promise<void> {
+async function demonstrateDoGetWithArrow(location: Location): Promise<void> {
   try {
-    const client = await createFlightClient({
-      host: "localhost",
-      port: 8815,
-      tls: false
-    })
+    const client = await createFlightClient(location)
 
     console.log("  Requesting flight data...")
 
@@ -200,48 +198,27 @@ async function demonstrateDoGetWithArrow(): Promise<void> {
 
     console.log(`  Flight has ${String(info.endpoint.length)} endpoint(s)`)
 
-    // Collect IPC data from all endpoints
-    const ipcChunks: Buffer[] = []
-
     for (const endpoint of info.endpoint) {
       if (endpoint.ticket === undefined) {
         continue
       }
 
-      for await (const flightData of client.doGet(endpoint.ticket)) {
-        // Collect the IPC data
-        // In Flight, dataHeader contains the IPC message header
-        // and dataBody contains the message body
-        if (flightData.dataBody.length > 0) {
-          ipcChunks.push(flightData.dataBody)
-        }
-      }
-    }
+      // collectFlightDataAsIpc joins the header and body of each FlightData
+      // message back into an Arrow IPC stream
+      const ipcBytes = await collectFlightDataAsIpc(client.doGet(endpoint.ticket))
+      console.log(`  Received ${String(ipcBytes.byteLength)} IPC bytes`)
 
-    console.log(`  Received ${String(ipcChunks.length)} data chunk(s)`)
-
-    // Parse the combined IPC data
-    if (ipcChunks.length > 0) {
-      const combined = Buffer.concat(ipcChunks)
-
-      // Note: Parsing depends on how the server sends data
-      // This is a simplified example - real parsing may need
-      // to handle message framing
-      try {
-        const table = tableFromIPC(combined)
-        const columnNames = table.schema.fields.map((f) => f.name)
-        console.log(`\n  Parsed Arrow table:`)
-        console.log(`    Schema: ${columnNames.join(", ")}`)
-        console.log(`    Rows: ${String(table.numRows)}`)
-      } catch {
-        console.log("  (IPC data requires additional framing to parse)")
-      }
+      const table = tableFromIPC(ipcBytes)
+      const columnNames = table.schema.fields.map((f) => f.name)
+      console.log(`\n  Parsed Arrow table:`)
+      console.log(`    Schema: ${columnNames.join(", ")}`)
+      console.log(`    Rows: ${String(table.numRows)}`)
     }
 
     client.close()
     console.log("  Connection closed")
   } catch (error) {
-    console.log("  Fetch failed (expected if no server running)")
+    console.log("  Fetch failed")
     console.log("  Error:", error instanceof Error ? error.message : error)
   }
 }
@@ -25,6 +25,10 @@ async function main(): Promise<void> {
   // Example 3: List available flights
   console.log("\n--- Example 3: List Flights ---")
   await listFlights()
+
+  // Example 4: Connect using a location URI
+  console.log("\n--- Example 4: Location URI ---")
+  await locationConnection()
 }
 
 async function oneStepConnection(): Promise<void> {
@@ -116,4 +120,17 @@ async function listFlights(): Promise<void> {
   }
 }
 
+async function locationConnection(): Promise<void> {
+  // The URI scheme selects TLS or plaintext, and grpc+unix:// selects a Unix socket
+  const client = await createFlightClient("grpc://localhost:8815")
+  console.log("  Address:", client.address)
+  client.close()
+
+  // FlightClient.fromLocation accepts the remaining options without connecting
+  const socketClient = FlightClient.fromLocation("grpc+unix:///tmp/flight.sock", {
+    defaultTimeoutMs: 5000
+  })
+  console.log("  Unix socket address:", socketClient.address)
+}
+
 main().catch(console.error)
@@ -1,27 +1,86 @@
 /**
  * Browser / gRPC-Web example.
  *
- * Demonstrates connecting to a Flight server from browser environments
- * using gRPC-Web. Requires a gRPC-Web compatible proxy (e.g., Envoy).
- *
- * NOTE: This example is for documentation purposes. It cannot run
- * directly in Node.js/Bun as it requires browser APIs.
+ * Demonstrates connecting to a Flight server through a gRPC-Web proxy
+ * (e.g., Envoy) with the gRPC-Web transport. It imports the client from
+ * the web entry point, which `bun run check:browser` bundles for browsers,
+ * and runs as is in Node.js/Bun; it needs a proxy in front of a Flight
+ * server, configured as shown below.
  *
  * @example
  * ```bash
- * # This file demonstrates browser usage patterns
- * # To test, integrate this code into a browser application
+ * bun run examples/browser-grpc-web.ts
  * ```
  */
+import { createFlightClient, type FlightClient, pathDescriptor } from "../src/web.js"
 
-/**
- * Browser-compatible Flight client setup.
- *
- * In browser environments, you need:
- * 1. A gRPC-Web compatible proxy (Envoy is most common)
- * 2. The @grpc/grpc-web package instead of @grpc/grpc-js
- * 3. Your Flight server configured to work with the proxy
- */
+// Where the gRPC-Web proxy listens
+const proxyUrl = "http://localhost:8080"
+
+async function main(): Promise<void> {
+  console.log("=== gRPC-Web Examples ===\n")
+
+  // Example 1: Binary gRPC-Web
+  console.log("--- Example 1: Binary Format ---")
+  const client = await createFlightClient({
+    host: "localhost",
+    transport: { type: "grpcWeb", baseUrl: proxyUrl }
+  })
+  try {
+    await listFlights(client)
+    await getData(client)
+    await unsupportedMethods(client)
+  } finally {
+    client.close()
+  }
+
+  // Example 2: Text gRPC-Web
+  console.log("\n--- Example 2: Text Format ---")
+  await textFormat()
+}
+
+async function listFlights(client: FlightClient): Promise<void> {
+  // Server-streaming calls work as they do over gRPC
+  for await (const info of client.listFlights()) {
+    console.log("Flight:", info.flightDescriptor?.path.join("/"))
+  }
+}
+
+async function getData(client: FlightClient): Promise<void> {
+  const info = await client.getFlightInfo(pathDescriptor("example", "data"), {
+    headers: { authorization: "Bearer my-token" }
+  })
+
+  // readFlightTable() reads every endpoint with doGet()
+  const table = await client.readFlightTable(info)
+  console.log("Rows:", table.numRows)
+}
+
+async function unsupportedMethods(client: FlightClient): Promise<void> {
+  // gRPC-Web cannot stream requests, so uploads and exchanges are rejected
+  try {
+    await client.putTable(pathDescriptor("uploads"), [])
+  } catch (error) {
+    console.log("DoPut over gRPC-Web:", (error as Error).message)
+  }
+}
+
+async function textFormat(): Promise<void> {
+  // Text mode base64-encodes messages, for proxies that cannot stream binary bodies
+  const client = await createFlightClient({
+    host: "localhost",
+    transport: { type: "grpcWeb", baseUrl: proxyUrl, format: "text" }
+  })
+  try {
+    const actions = []
+    for await (const action of client.listActions()) {
+      actions.push(action.type)
+    }
+    console.log("Actions:", actions)
+  } finally {
+    client.close()
+  }
+}
 
 // =============================================================================
 // ARCHITECTURE OVERVIEW
@@ -76,7 +135,7 @@
 //                           - prefix: "*"
 //                         allow_methods: GET, PUT, DELETE, POST, OPTIONS
 //                         allow_headers: keep-alive,user-agent,cache-control,content-type,content-transfer-encoding,x-accept-content-transfer-encoding,x-accept-response-streaming,x-user-agent,x-grpc-web,grpc-timeout,authorization
-//                         expose_headers: grpc-status,grpc-message,authorization
+//                         expose_headers: grpc-status,grpc-message,grpc-status-details-bin,authorization
 //                         max_age: "1728000"
 //                 http_filters:
 //                   - name: envoy.filters.http.grpc_web
@@ -108,209 +167,15 @@
 // =============================================================================
 
 // =============================================================================
-// BROWSER CLIENT EXAMPLE
-// =============================================================================
-//
-// In your browser application (React, Vue, vanilla JS, etc.):
-//
-// ```typescript
-// // Install browser-compatible packages:
-// // npm install @grpc/grpc-web apache-arrow
-//
-// import { grpc } from "@grpc/grpc-web"
-//
-// // The Flight service client generated for grpc-web
-// // (you'll need to generate this from Flight.proto with grpc-web plugin)
-// import { FlightServiceClient } from "./generated/FlightServiceClientPb"
-//
-// // Create the client pointing to the Envoy proxy
-// const client = new FlightServiceClient("https://your-envoy-proxy.example.com:8080")
-//
-// // List flights
-// async function listFlights() {
-//   const request = new Criteria()
-//   request.setExpression(new Uint8Array())
-//
-//   const stream = client.listFlights(request, {})
-//
-//   stream.on("data", (flightInfo) => {
-//     console.log("Flight:", flightInfo.toObject())
-//   })
-//
-//   stream.on("error", (err) => {
-//     console.error("Error:", err)
-//   })
-//
-//   stream.on("end", () => {
-//     console.log("Done listing flights")
-//   })
-// }
-//
-// // Get flight info
-// async function getFlightInfo(path: string[]) {
-//   const descriptor = new FlightDescriptor()
-//   descriptor.setType(FlightDescriptor.DescriptorType.PATH)
-//   descriptor.setPathList(path)
-//
-//   return new Promise((resolve, reject) => {
-//     client.getFlightInfo(descriptor, {}, (err, response) => {
-//       if (err) reject(err)
-//       else resolve(response)
-//     })
-//   })
-// }
-//
-// // Retrieve data (doGet)
-// async function getData(ticket: Ticket) {
-//   const chunks: Uint8Array[] = []
-//   const stream = client.doGet(ticket, {})
-//
-//   stream.on("data", (flightData) => {
-//     const body = flightData.getDataBody_asU8()
-//     if (body.length > 0) {
-//       chunks.push(body)
-//     }
-//   })
-//
-//   return new Promise((resolve, reject) => {
-//     stream.on("end", () => {
-//       // Parse with Apache Arrow
-//       const combined = concatenateUint8Arrays(chunks)
-//       const table = tableFromIPC(combined)
-//       resolve(table)
-//     })
-//     stream.on("error", reject)
-//   })
-// }
-// ```
-//
-// =============================================================================
-
-// =============================================================================
-// REACT EXAMPLE
-// =============================================================================
-//
-// ```tsx
-// import { useState, useEffect } from "react"
-// import { FlightServiceClient } from "./generated/FlightServiceClientPb"
-// import { Criteria, FlightDescriptor } from "./generated/Flight_pb"
-// import { tableFromIPC } from "apache-arrow"
-//
-// const flightClient = new FlightServiceClient(
-//   import.meta.env.VITE_FLIGHT_PROXY_URL
-// )
-//
-// function FlightDataViewer({ path }: { path: string[] }) {
-//   const [data, setData] = useState<any[]>([])
-//   const [loading, setLoading] = useState(true)
-//   const [error, setError] = useState<Error | null>(null)
-//
-//   useEffect(() => {
-//     async function fetchData() {
-//       try {
-//         setLoading(true)
-//
-//         // Get flight info
-//         const descriptor = new FlightDescriptor()
-//         descriptor.setType(FlightDescriptor.DescriptorType.PATH)
-//         descriptor.setPathList(path)
-//
-//         const info = await new Promise((resolve, reject) => {
-//           flightClient.getFlightInfo(descriptor, {}, (err, res) => {
-//             if (err) reject(err)
-//             else resolve(res)
-//           })
-//         })
-//
-//         // Get data from first endpoint
-//         const ticket = info.getEndpointList()[0].getTicket()
-//         const chunks: Uint8Array[] = []
-//
-//         const stream = flightClient.doGet(ticket, {})
-//
-//         stream.on("data", (flightData) => {
-//           const body = flightData.getDataBody_asU8()
-//           if (body.length > 0) chunks.push(body)
-//         })
-//
-//         await new Promise((resolve, reject) => {
-//           stream.on("end", resolve)
-//           stream.on("error", reject)
-//         })
-//
-//         // Parse Arrow data
-//         const combined = new Uint8Array(
-//           chunks.reduce((acc, c) => acc + c.length, 0)
-//         )
-//         let offset = 0
-//         for (const chunk of chunks) {
-//           combined.set(chunk, offset)
-//           offset += chunk.length
-//         }
-//
-//         const table = tableFromIPC(combined)
-//         setData(table.toArray().map(row => row.toJSON()))
-//
-//       } catch (err) {
-//         setError(err as Error)
-//       } finally {
-//         setLoading(false)
-//       }
-//     }
-//
-//     fetchData()
-//   }, [path])
-//
-//   if (loading) return <div>Loading...</div>
-//   if (error) return <div>Error: {error.message}</div>
-//
-//   return (
-//     <table>
-//       <thead>
-//         <tr>
-//           {Object.keys(data[0] || {}).map(key => (
-//             <th key={key}>{key}</th>
-//           ))}
-//         </tr>
-//       </thead>
-//       <tbody>
-//         {data.map((row, i) => (
-//           <tr key={i}>
-//             {Object.values(row).map((val, j) => (
-//               <td key={j}>{String(val)}</td>
-//             ))}
-//           </tr>
-//         ))}
-//       </tbody>
-//     </table>
-//   )
-// }
-//
-// export default FlightDataViewer
-// ```
-//
-// =============================================================================
-
-// =============================================================================
-// AUTHENTICATION IN BROWSER
+// BROWSER BUNDLES
 // =============================================================================
 //
-// ```typescript
-// // Add authentication headers to gRPC-Web calls
-//
-// const metadata = {
-//   "Authorization": `Bearer ${accessToken}`,
-//   "X-Request-ID": crypto.randomUUID()
-// }
-//
-// // Pass metadata to each call
-// client.getFlightInfo(descriptor, metadata, (err, response) => {
-//   // ...
-// })
-//
-// // For streaming calls
-// const stream = client.doGet(ticket, metadata)
-// ```
+// Applications import `@qualithm/arrow-flight/web`, which loads neither
+// `@grpc/grpc-js` nor Node.js modules. Messages are encoded as Buffers, so
+// the page needs a global `Buffer` (for example from the `buffer`
+// package). In a browser, `fetch` applies the page's CORS rules and
+// certificates: the `tls`, `credentials` and `channelOptions` client
+// options have no effect.
 //
 // =============================================================================
 
@@ -320,10 +185,10 @@
 //
 // gRPC-Web has some limitations compared to native gRPC:
 //
-// 1. **No bidirectional streaming** - doExchange and doPut have limited support
-//    - Server streaming (doGet, listFlights) works
-//    - Client streaming requires server-side buffering
-//    - Full duplex is not possible
+// 1. **No client streaming** - handshake(), doPut() and doExchange() fail
+//    with UNIMPLEMENTED
+//    - Unary calls (getFlightInfo, getSchema, pollFlightInfo) work
+//    - Server streaming (doGet, listFlights, doAction, listActions) works
 //
 // 2. **Performance overhead** - Base64 encoding in text mode adds ~33% size
 //    - Use binary mode when possible (application/grpc-web+proto)
@@ -337,5 +202,4 @@
 //
 // =============================================================================
 
-// This file is documentation-only and does not export runnable code
-export {}
+main().catch(console.error)
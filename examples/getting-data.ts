@@ -3,7 +3,8 @@
  *
  * Demonstrates retrieving flight information, schema, and data
  * from a Flight server using getFlightInfo, getSchema, and doGet.
- * Also covers call options (timeouts, headers) and cancellation.
+ * Also covers call options (timeouts, headers) and cancellation. It
+ * starts the sample InMemoryFlightServer, so no other server is needed.
  *
  * @example
  * ```bash
@@ -17,15 +18,13 @@ import {
   parseLocation,
   pathDescriptor
 } from "../src/index.js"
+import { startSampleServer } from "./sample-server.js"
 
 async function main(): Promise<void> {
   console.log("=== Getting Data Examples ===\n")
 
-  const client = await createFlightClient({
-    host: "localhost",
-    port: 8815,
-    tls: false
-  })
+  const { server, location } = await startSampleServer()
+  const client = await createFlightClient(location)
 
   console.log("Connected to Flight server\n")
 
@@ -57,8 +56,13 @@ async function main(): Promise<void> {
     // Example 7: Stream cancellation
     console.log("\n--- Example 7: Stream Cancellation ---")
     await streamCancellation(client)
+
+    // Example 8: Read every endpoint as record batches
+    console.log("\n--- Example 8: Read Whole Flight ---")
+    await readWholeFlight(client)
   } finally {
     client.close()
+    await server.close()
     console.log("\nConnection closed")
   }
 }
@@ -180,6 +184,29 @@ async function retrieveData(client: Awaited<ReturnType<typeof createFlightClient
   }
 }
 
+async function readWholeFlight(
+  client: Awaited<ReturnType<typeof createFlightClient>>
+): Promise<void> {
+  try {
+    const info = await client.getFlightInfo(pathDescriptor("my", "dataset"))
+
+    // readFlight fetches up to `concurrency` endpoints at once and decodes
+    // the Arrow data; ordered flights are still yielded in endpoint order
+    let totalRows = 0
+    for await (const { batch } of client.readFlight(info, { concurrency: 4 })) {
+      totalRows += batch.numRows
+    }
+    console.log(`  Read ${String(totalRows)} rows from ${String(info.endpoint.length)} endpoint(s)`)
+
+    // Or collect everything into a single Table
+    const table = await client.readFlightTable(info)
+    console.log(`  Table columns: ${table.schema.names.join(", ")}`)
+  } catch (error) {
+    console.log("  Flight read failed (expected if path doesn't exist)")
+    console.log("  Error:", error instanceof Error ? error.message : error)
+  }
+}
+
 function demonstrateLocationUtilities(): void {
   // parseLocation extracts components from Flight URIs
   // Useful when processing endpoint locations from FlightInfo
@@ -0,0 +1,60 @@
+/**
+ * In-memory server example.
+ *
+ * Demonstrates uploading, listing, reading and cancelling flights
+ * against an InMemoryFlightServer, without an external Flight server.
+ *
+ * @example
+ * ```bash
+ * bun run examples/in-memory-server.ts
+ * ```
+ */
+import { tableFromArrays } from "apache-arrow"
+
+import { createFlightClient, InMemoryFlightServer, pathDescriptor } from "../src/index.js"
+
+async function main(): Promise<void> {
+  console.log("=== In-Memory Server Examples ===\n")
+
+  const server = new InMemoryFlightServer()
+  const client = await createFlightClient(await server.listen())
+
+  try {
+    // Example 1: Upload a table
+    console.log("--- Example 1: Upload ---")
+    const table = tableFromArrays({
+      id: Int32Array.from([1, 2, 3]),
+      score: Float64Array.from([0.5, 0.75, 1])
+    })
+    await client.putTable(pathDescriptor("sports", "scores"), table)
+    console.log("  Uploaded rows:", table.numRows)
+
+    // Example 2: List stored flights
+    console.log("\n--- Example 2: List Flights ---")
+    for await (const info of client.listFlights()) {
+      console.log(
+        "  Flight:",
+        info.flightDescriptor?.path.join("/"),
+        "-",
+        info.totalRecords,
+        "rows"
+      )
+    }
+
+    // Example 3: Read a flight back
+    console.log("\n--- Example 3: Read Flight ---")
+    const info = await client.getFlightInfo(pathDescriptor("sports", "scores"))
+    const copy = await client.readFlightTable(info)
+    console.log("  Columns:", copy.schema.names.join(", "))
+    console.log("  Rows:", copy.numRows)
+
+    // Example 4: Cancel a flight, discarding its data
+    console.log("\n--- Example 4: Cancel Flight ---")
+    console.log("  Status:", await client.cancelFlightInfo(info))
+  } finally {
+    client.close()
+    await server.close()
+  }
+}
+
+main().catch(console.error)
@@ -1,23 +1,30 @@
 /**
  * Putting data example.
  *
- * Demonstrates uploading data to a Flight server using doPut.
+ * Demonstrates uploading data to a Flight server using doPut. It
+ * starts the sample InMemoryFlightServer, so no other server is needed.
  *
  * @example
  * ```bash
  * bun run examples/putting-data.ts
  * ```
  */
-import { createFlightClient, pathDescriptor } from "../src/index.js"
+import { type RecordBatch, tableFromArrays } from "apache-arrow"
+
+import {
+  createFlightClient,
+  type FlightData,
+  pathDescriptor,
+  recordBatchesToFlightData,
+  toFlightDescriptor
+} from "../src/index.js"
+import { startSampleServer } from "./sample-server.js"
 
 async function main(): Promise<void> {
   console.log("=== Putting Data Examples ===\n")
 
-  const client = await createFlightClient({
-    host: "localhost",
-    port: 8815,
-    tls: false
-  })
+  const { server, location } = await startSampleServer()
+  const client = await createFlightClient(location)
 
   console.log("Connected to Flight server\n")
 
@@ -33,8 +40,13 @@ async function main(): Promise<void> {
     // Example 3: Upload with app metadata
     console.log("\n--- Example 3: Upload with Metadata ---")
     await uploadWithMetadata(client)
+
+    // Example 4: Upload an Arrow Table
+    console.log("\n--- Example 4: Upload an Arrow Table ---")
+    await tableUpload(client)
   } finally {
     client.close()
+    await server.close()
     console.log("\nConnection closed")
   }
 }
@@ -45,38 +57,22 @@ async function simpleUpload(client: Awaited<ReturnType<typeof createFlightClient
     const stream = client.doPut()
 
     // Convert path descriptor for the message
-    const descriptor = pathDescriptor("uploads", "my-table")
-
-    // Create mock Arrow IPC data
-    // In a real application, you would use the Apache Arrow library
-    // to serialize your data to IPC format
-    const mockSchemaHeader = Buffer.from([0, 0, 0, 0]) // Placeholder
-    const mockDataBody = Buffer.from("mock-arrow-data")
-
-    // Send the first message with the flight descriptor
-    // This tells the server what dataset we're uploading to
-    stream.write({
-      flightDescriptor: {
-        type: 1, // PATH type
-        path: descriptor.path,
-        cmd: Buffer.alloc(0)
-      },
-      dataHeader: mockSchemaHeader,
-      appMetadata: Buffer.alloc(0),
-      dataBody: Buffer.alloc(0)
-    })
+    const descriptor = toFlightDescriptor(pathDescriptor("uploads", "my-table"))
 
-    console.log("  Sent descriptor and schema")
-
-    // Send a data batch
-    stream.write({
-      flightDescriptor: undefined,
-      dataHeader: Buffer.from([1, 0, 0, 0]), // Record batch indicator
-      appMetadata: Buffer.alloc(0),
-      dataBody: mockDataBody
+    // Encode a table as Arrow IPC: a schema message, then a record batch
+    const table = tableFromArrays({
+      id: Int32Array.from([1, 2, 3]),
+      score: Float64Array.from([0.5, 0.75, 1])
     })
 
-    console.log("  Sent data batch")
+    // The first message carries the flight descriptor, which tells the
+    // server what dataset we're uploading to
+    for await (const data of recordBatchesToFlightData(table, descriptor)) {
+      stream.write(data)
+      console.log(
+        `  Sent ${data.flightDescriptor !== undefined ? "descriptor and schema" : "data batch"}`
+      )
+    }
 
     // End the stream
     stream.end()
@@ -95,42 +91,48 @@ async function simpleUpload(client: Awaited<ReturnType<typeof createFlightClient
   }
 }
 
+async function tableUpload(client: Awaited<ReturnType<typeof createFlightClient>>): Promise<void> {
+  try {
+    // putTable encodes the table as Arrow IPC and attaches the descriptor
+    const table = tableFromArrays({
+      id: Int32Array.from([1, 2, 3]),
+      city: ["London", "Paris", "London"]
+    })
+
+    const results = await client.putTable(pathDescriptor("uploads", "cities"), table)
+
+    console.log(`  Uploaded ${String(table.numRows)} rows`)
+    console.log(`  Received ${String(results.length)} acknowledgement(s)`)
+  } catch (error) {
+    console.log("  Table upload failed")
+    console.log("  Error:", error instanceof Error ? error.message : error)
+  }
+}
+
 async function streamingUpload(
   client: Awaited<ReturnType<typeof createFlightClient>>
 ): Promise<void> {
   try {
     const stream = client.doPut()
 
-    const descriptor = pathDescriptor("uploads", "streaming-table")
-
-    // Send descriptor first
-    stream.write({
-      flightDescriptor: {
-        type: 1,
-        path: descriptor.path,
-        cmd: Buffer.alloc(0)
-      },
-      dataHeader: Buffer.from([0, 0, 0, 0]),
-      appMetadata: Buffer.alloc(0),
-      dataBody: Buffer.alloc(0)
-    })
+    const descriptor = toFlightDescriptor(pathDescriptor("uploads", "streaming-table"))
 
     // Simulate streaming multiple batches
     const batchCount = 5
     console.log(`  Streaming ${String(batchCount)} batches...`)
 
-    for (let i = 0; i < batchCount; i++) {
-      // Create batch data (in a real app, this would be Arrow IPC data)
-      const batchData = Buffer.from(`batch-${String(i)}-data`)
-
-      stream.write({
-        flightDescriptor: undefined,
-        dataHeader: Buffer.from([1, 0, 0, 0]),
-        appMetadata: Buffer.alloc(0),
-        dataBody: batchData
-      })
+    // Batches are encoded one at a time, as the source yields them
+    function* batches(): Generator<RecordBatch> {
+      for (let i = 0; i < batchCount; i++) {
+        const [batch] = tableFromArrays({ batch: Int32Array.from([i, i, i]) }).batches
+        yield batch
+        console.log(`    Sent batch ${String(i + 1)}`)
+      }
+    }
 
-      console.log(`    Sent batch ${String(i + 1)}`)
+    for await (const data of recordBatchesToFlightData(batches(), descriptor)) {
+      // Wait until the stream can take more data, so large uploads are not buffered in memory
+      await stream.writeAsync(data)
     }
 
     stream.end()
@@ -156,7 +158,7 @@ async function uploadWithMetadata(
   try {
     const stream = client.doPut()
 
-    const descriptor = pathDescriptor("uploads", "metadata-table")
+    const descriptor = toFlightDescriptor(pathDescriptor("uploads", "metadata-table"))
 
     // Include application metadata with each message
     // This can be used for custom metadata like compression info,
@@ -169,34 +171,27 @@ async function uploadWithMetadata(
       })
     )
 
-    stream.write({
-      flightDescriptor: {
-        type: 1,
-        path: descriptor.path,
-        cmd: Buffer.alloc(0)
-      },
-      dataHeader: Buffer.from([0, 0, 0, 0]),
-      appMetadata,
-      dataBody: Buffer.alloc(0)
-    })
+    const table = tableFromArrays({ value: Float64Array.from([0.5, 1.5, 2.5]) })
+    const messages: FlightData[] = []
+    for await (const message of recordBatchesToFlightData(table, descriptor)) {
+      messages.push(message)
+    }
+    const [schemaMessage, ...batchMessages] = messages
+
+    stream.write({ ...schemaMessage, appMetadata })
 
     console.log("  Sent descriptor with metadata")
 
     // Send data with per-batch metadata
-    for (let i = 0; i < 3; i++) {
+    for (const [i, message] of batchMessages.entries()) {
       const batchMetadata = Buffer.from(
         JSON.stringify({
           batchIndex: i,
-          rowCount: 1000
+          rowCount: table.numRows
         })
       )
 
-      stream.write({
-        flightDescriptor: undefined,
-        dataHeader: Buffer.from([1, 0, 0, 0]),
-        appMetadata: batchMetadata,
-        dataBody: Buffer.from(`batch-${String(i)}-payload`)
-      })
+      stream.write({ ...message, appMetadata: batchMetadata })
 
       console.log(`    Sent batch ${String(i + 1)} with metadata`)
     }
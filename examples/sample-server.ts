@@ -0,0 +1,61 @@
+/**
+ * Sample server for the examples.
+ *
+ * Starts an InMemoryFlightServer holding the flights the data examples
+ * read, so they run without an external Flight server.
+ */
+import { type RecordBatch, type Table, tableFromArrays } from "apache-arrow"
+
+import {
+  createFlightClient,
+  InMemoryFlightServer,
+  type Location,
+  pathDescriptor
+} from "../src/index.js"
+
+/**
+ * A running sample server.
+ */
+export type SampleServer = {
+  server: InMemoryFlightServer
+  location: Location
+}
+
+/**
+ * Starts a sample server on a free local port and uploads its flights.
+ */
+export async function startSampleServer(): Promise<SampleServer> {
+  const server = new InMemoryFlightServer()
+  const location = await server.listen()
+
+  const client = await createFlightClient(location)
+  try {
+    await client.putTable(pathDescriptor("my", "dataset"), readings(0, 1000))
+    await client.putTable(pathDescriptor("database", "schema", "table"), readings(0, 10))
+    await client.putTable(pathDescriptor("sample", "data"), readings(0, 5))
+    await client.putTable(pathDescriptor("large", "dataset"), largeDataset())
+  } finally {
+    client.close()
+  }
+
+  return { server, location }
+}
+
+/**
+ * Creates sensor readings with consecutive ids.
+ */
+function readings(firstId: number, count: number): Table {
+  return tableFromArrays({
+    id: Int32Array.from({ length: count }, (_, index) => firstId + index),
+    value: Float64Array.from({ length: count }, (_, index) => Math.sin(firstId + index))
+  })
+}
+
+/**
+ * Yields 20 batches of 10,000 readings.
+ */
+function* largeDataset(): Generator<RecordBatch> {
+  for (let index = 0; index < 20; index++) {
+    yield* readings(index * 10_000, 10_000).batches
+  }
+}
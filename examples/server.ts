@@ -0,0 +1,85 @@
+/**
+ * Server example.
+ *
+ * Demonstrates serving flights from this process with FlightServer
+ * and reading them back with a client.
+ *
+ * @example
+ * ```bash
+ * bun run examples/server.ts
+ * ```
+ */
+import { tableFromArrays } from "apache-arrow"
+
+import {
+  createFlightClient,
+  FlightError,
+  type FlightInfo,
+  FlightServer,
+  pathDescriptor,
+  recordBatchesToFlightData
+} from "../src/index.js"
+
+const table = tableFromArrays({
+  id: Int32Array.from([1, 2, 3]),
+  score: Float64Array.from([0.5, 0.75, 1])
+})
+
+async function main(): Promise<void> {
+  console.log("=== Server Examples ===\n")
+
+  const server = new FlightServer({
+    getFlightInfo(descriptor): FlightInfo {
+      if (descriptor.path.join("/") !== "scores") {
+        throw new FlightError(`unknown flight: ${descriptor.path.join("/")}`, "NOT_FOUND")
+      }
+      return {
+        schema: Buffer.alloc(0),
+        flightDescriptor: descriptor,
+        endpoint: [
+          {
+            ticket: { ticket: Buffer.from("scores") },
+            location: [],
+            expirationTime: undefined,
+            appMetadata: Buffer.alloc(0)
+          }
+        ],
+        totalRecords: table.numRows,
+        totalBytes: -1,
+        ordered: false,
+        appMetadata: Buffer.alloc(0)
+      }
+    },
+    doGet: () => recordBatchesToFlightData(table)
+  })
+
+  // Example 1: Listen on a free port
+  console.log("--- Example 1: Listen ---")
+  const location = await server.listen("grpc://localhost:0")
+  console.log("  Listening on:", location.uri)
+
+  const client = await createFlightClient(location)
+
+  try {
+    // Example 2: Read a flight from the server
+    console.log("\n--- Example 2: Read Flight ---")
+    const info = await client.getFlightInfo(pathDescriptor("scores"))
+    const result = await client.readFlightTable(info)
+    console.log("  Rows:", result.numRows)
+
+    // Example 3: Errors thrown by handlers reach the client
+    console.log("\n--- Example 3: Handler Errors ---")
+    try {
+      await client.getFlightInfo(pathDescriptor("missing"))
+    } catch (error) {
+      if (error instanceof FlightError) {
+        console.log(`  ${error.code}:`, error.message)
+      }
+    }
+  } finally {
+    client.close()
+    await server.close()
+  }
+}
+
+main().catch(console.error)
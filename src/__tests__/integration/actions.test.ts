@@ -1,7 +1,7 @@
 /**
  * Integration tests for Flight actions: doAction, listActions.
  *
- * Requires a running Arrow Flight server.
+ * Runs against the Arrow Flight server started by `global-setup.ts`.
  */
 import { afterAll, beforeAll, describe, expect, it } from "vitest"
 
@@ -1,7 +1,7 @@
 /**
  * Integration tests for authorization and permissions.
  *
- * Requires a running Arrow Flight server with test users.
+ * Runs against the Arrow Flight server started by `global-setup.ts`.
  */
 import { afterEach, describe, expect, it } from "vitest"
 
@@ -1,16 +1,18 @@
 /**
  * Integration test configuration.
  *
- * Configure the Arrow Flight server connection via environment variables:
- * - FLIGHT_HOST: Host address (default: localhost)
+ * By default the tests run against the InMemoryFlightServer that
+ * `global-setup.ts` starts. To test another Arrow Flight server, configure
+ * it via environment variables:
+ * - FLIGHT_HOST: Host address
  * - FLIGHT_PORT: Port number (default: 50051)
  * - FLIGHT_TLS: Enable TLS (default: false)
  */
 
+import { inject } from "vitest"
+
 export const config = {
-  host: process.env.FLIGHT_HOST ?? "localhost",
-  port: parseInt(process.env.FLIGHT_PORT ?? "50051", 10),
-  tls: process.env.FLIGHT_TLS === "true",
+  ...inject("flightServer"),
 
   // Test credentials (configure for your Flight server)
   credentials: {
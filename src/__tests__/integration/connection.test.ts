@@ -1,7 +1,7 @@
 /**
  * Integration tests for Flight client connection and handshake.
  *
- * Requires a running Arrow Flight server.
+ * Runs against the Arrow Flight server started by `global-setup.ts`.
  *
  * @example
  * ```bash
@@ -1,7 +1,7 @@
 /**
  * Integration tests for data operations: doGet, doPut, doExchange.
  *
- * Requires a running Arrow Flight server with test fixtures.
+ * Runs against the Arrow Flight server started by `global-setup.ts`.
  */
 import { tableFromIPC } from "apache-arrow"
 import { afterAll, beforeAll, describe, expect, it } from "vitest"
@@ -1,7 +1,7 @@
 /**
  * Integration tests for Flight operations: listFlights, getFlightInfo, getSchema.
  *
- * Requires a running Arrow Flight server with test fixtures.
+ * Runs against the Arrow Flight server started by `global-setup.ts`.
  */
 import { afterAll, beforeAll, describe, expect, it } from "vitest"
 
@@ -0,0 +1,173 @@
+/**
+ * Starts the Arrow Flight server of the integration tests.
+ *
+ * Unless FLIGHT_HOST names another server, the tests run against an
+ * InMemoryFlightServer seeded with the flights in `config.ts`. It
+ * authenticates the test users with basic auth handshakes, only lets the
+ * admin upload, and runs the `healthcheck`, `echo` and `error` actions,
+ * rejecting unknown ones with INVALID_ARGUMENT.
+ */
+import { Field, Int32, List, Table, tableFromArrays, vectorFromArray } from "apache-arrow"
+import { randomUUID } from "crypto"
+import type { TestProject } from "vitest/node"
+
+import { BasicAuth } from "../../generated/arrow/flight/protocol/Flight"
+import {
+  createFlightClient,
+  FlightError,
+  type FlightServiceHandlers,
+  InMemoryFlightServer,
+  type Location,
+  parseLocation,
+  pathDescriptor
+} from "../../index"
+
+declare module "vitest" {
+  // eslint-disable-next-line @typescript-eslint/consistent-type-definitions -- merges with vitest's interface
+  export interface ProvidedContext {
+    flightServer: { host: string; port: number; tls: boolean }
+  }
+}
+
+/**
+ * The test users, by name.
+ */
+const USERS = new Map([
+  ["admin", { password: "admin123", canWrite: true }],
+  ["reader", { password: "reader123", canWrite: false }]
+])
+
+const ACTIONS = [
+  { type: "healthcheck", description: "Report the health of the server" },
+  { type: "echo", description: "Return the action body" },
+  { type: "error", description: "Fail with INTERNAL" }
+]
+
+export default async function setup(project: TestProject): Promise<(() => void) | undefined> {
+  if (process.env.FLIGHT_HOST !== undefined) {
+    project.provide("flightServer", {
+      host: process.env.FLIGHT_HOST,
+      port: parseInt(process.env.FLIGHT_PORT ?? "50051", 10),
+      tls: process.env.FLIGHT_TLS === "true"
+    })
+    return undefined
+  }
+
+  const server = new InMemoryFlightServer({ extendHandlers: testHandlers })
+  const location = await server.listen()
+  const { host, port } = parseLocation(location)
+  await seed(location)
+
+  project.provide("flightServer", { host, port: port ?? 0, tls: false })
+  return () => {
+    server.forceClose()
+  }
+}
+
+/**
+ * Adds the test users and actions to the in-memory handlers.
+ */
+function testHandlers(handlers: FlightServiceHandlers): FlightServiceHandlers {
+  // Whether the user of each token may upload
+  const tokens = new Map<string, boolean>()
+
+  return {
+    async *handshake(requests) {
+      for await (const request of requests) {
+        const { username, password } = BasicAuth.decode(request.payload)
+        const user = USERS.get(username)
+        if (user?.password !== password) {
+          throw new FlightError("invalid username or password", "UNAUTHENTICATED")
+        }
+        const token = randomUUID()
+        tokens.set(token, user.canWrite)
+        yield { protocolVersion: 0, payload: Buffer.from(token) }
+      }
+    },
+
+    async *doPut(messages, context) {
+      const [authorization] = context.metadata.get("authorization")
+      if (tokens.get(String(authorization).replace(/^Bearer /, "")) !== true) {
+        throw new FlightError("only the admin user may upload", "PERMISSION_DENIED")
+      }
+      yield* handlers.doPut!(messages, context)
+    },
+
+    async *doAction(action, context) {
+      switch (action.type) {
+        case "healthcheck":
+          yield { body: Buffer.from(JSON.stringify({ status: "ok" })) }
+          return
+        case "echo":
+          yield { body: action.body }
+          return
+        case "error":
+          throw new FlightError("the error action always fails", "INTERNAL")
+        case "CancelFlightInfo":
+          yield* handlers.doAction!(action, context)
+          return
+        default:
+          throw new FlightError(`unknown action: ${action.type}`, "INVALID_ARGUMENT")
+      }
+    },
+
+    async *listActions(context) {
+      yield* ACTIONS
+      yield* handlers.listActions!(context)
+    }
+  }
+}
+
+/**
+ * Uploads the flights the tests read.
+ */
+async function seed(location: Location): Promise<void> {
+  const client = await createFlightClient(location, {
+    auth: { type: "basic", username: "admin", password: "admin123" }
+  })
+  try {
+    await client.handshake()
+    await client.putTable(
+      pathDescriptor("test", "integers"),
+      tableFromArrays({
+        id: Int32Array.from({ length: 10 }, (_, index) => index),
+        value: Float64Array.from({ length: 10 }, (_, index) => index * 1.5)
+      })
+    )
+    await client.putTable(
+      pathDescriptor("test", "strings"),
+      tableFromArrays({ name: Array.from({ length: 100 }, (_, index) => `name-${String(index)}`) })
+    )
+    await client.putTable(
+      pathDescriptor("test", "all-types"),
+      tableFromArrays({
+        int: Int32Array.from([1, -2, 3]),
+        bigint: BigInt64Array.from([1n, -2n, 3n]),
+        float: Float64Array.from([0.5, -1.5, 2.5]),
+        bool: [true, false, true],
+        string: ["a", "b", "c"],
+        date: [new Date(0), new Date(86_400_000), new Date(172_800_000)]
+      })
+    )
+    await client.putTable(
+      pathDescriptor("test", "empty"),
+      tableFromArrays({ id: new Int32Array() })
+    )
+    await client.putTable(
+      pathDescriptor("test", "large"),
+      tableFromArrays({ id: Int32Array.from({ length: 10_000 }, (_, index) => index) })
+    )
+    await client.putTable(
+      pathDescriptor("test", "nested"),
+      new Table({
+        id: vectorFromArray(Int32Array.from({ length: 50 }, (_, index) => index)),
+        items: vectorFromArray(
+          Array.from({ length: 50 }, (_, index) => [index, index + 1]),
+          new List(new Field("item", new Int32()))
+        )
+      })
+    )
+  } finally {
+    client.close()
+  }
+}
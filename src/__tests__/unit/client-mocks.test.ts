@@ -2,10 +2,32 @@
  * Mock tests for client error paths that require simulated server responses.
  */
 import { type ChannelCredentials, Metadata } from "@grpc/grpc-js"
+import { type RecordBatch, tableFromArrays, tableFromIPC } from "apache-arrow"
 import { EventEmitter } from "events"
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
 
-import { FlightClient, FlightError } from "../../index"
+import type { HandshakeResponse } from "../../generated/arrow/flight/protocol/Flight"
+import { GrpcTransport } from "../../grpc-transport"
+import {
+  type CallListener,
+  type ClientMiddlewareFactory,
+  CookieStore,
+  createCookieMiddleware,
+  type DuplexCallListener,
+  FlightClient,
+  type FlightData,
+  flightDataToIpc,
+  type FlightEndpoint,
+  FlightError,
+  type FlightInfo,
+  Metadata as CallMetadata,
+  pathDescriptor,
+  type PollInfo,
+  recordBatchesToFlightData,
+  StatusCode,
+  type TokenRefresh
+} from "../../index"
+import { data } from "./helpers"
 
 // Use vi.hoisted to ensure credentialCalls is available when mock is hoisted
 const credentialCalls = vi.hoisted(() => ({
@@ -17,8 +39,17 @@ const credentialCalls = vi.hoisted(() => ({
 // Mock the gRPC client
 vi.mock("@grpc/grpc-js", async () => {
   const actual = await vi.importActual("@grpc/grpc-js")
+  // Clients of the Flight service connect to nothing
+  class MockFlightServiceClient {
+    waitForReady = vi.fn((_, cb: (err?: Error) => void) => {
+      cb()
+    })
+    close = vi.fn()
+  }
+
   return {
     ...actual,
+    makeGenericClientConstructor: vi.fn(() => MockFlightServiceClient),
     credentials: {
       createInsecure: vi.fn(() => {
         credentialCalls.createInsecure++
@@ -40,182 +71,27 @@ vi.mock("@grpc/grpc-js", async () => {
   }
 })
 
-// Mock the generated FlightServiceClient
-vi.mock("../../generated/arrow/flight/protocol/Flight.js", async () => {
-  const actual = await vi.importActual("../../generated/arrow/flight/protocol/Flight.js")
-
-  // Create a proper constructor function
-  class MockFlightServiceClient {
-    waitForReady = vi.fn((_, cb: (err?: Error) => void) => {
-      cb()
-    })
-    close = vi.fn()
-  }
-
-  return {
-    ...actual,
-    FlightServiceClient: MockFlightServiceClient
-  }
-})
-
-describe("DoExchangeStream error handling", () => {
-  let client: FlightClient
-  let mockStream: EventEmitter & {
-    write: ReturnType<typeof vi.fn>
-    end: ReturnType<typeof vi.fn>
-    cancel: ReturnType<typeof vi.fn>
-  }
-
-  beforeEach(() => {
-    // Create a mock stream
-    mockStream = Object.assign(new EventEmitter(), {
-      write: vi.fn(() => true),
-      end: vi.fn(),
-      cancel: vi.fn()
-    })
-
-    client = new FlightClient({ host: "localhost", port: 8815, tls: false })
-
-    // Mock the internal gRPC client
-    const mockGrpcClient = {
-      doExchange: vi.fn(() => mockStream),
-      waitForReady: vi.fn((_, cb) => cb())
-    }
-    // @ts-expect-error accessing private property for testing
-    client.grpcClient = mockGrpcClient
-    // @ts-expect-error accessing private property for testing
-    client._state = "connected"
-  })
-
-  afterEach(() => {
-    vi.clearAllMocks()
-  })
-
-  it("handles stream error events", async () => {
-    const exchangeStream = client.doExchange()
-
-    // Write some data
-    exchangeStream.write({
-      flightDescriptor: undefined,
-      dataHeader: Buffer.from("test"),
-      dataBody: Buffer.from("data"),
-      appMetadata: Buffer.alloc(0)
-    })
-
-    // Emit error from server
-    const serverError = new Error("Server error")
-    // @ts-expect-error - add gRPC error properties
-    serverError.code = 13 // INTERNAL
-    // @ts-expect-error - add gRPC error properties
-    serverError.details = "Internal server error"
-
-    setTimeout(() => {
-      mockStream.emit("error", serverError)
-    }, 10)
-
-    // Collect results should throw
-    await expect(exchangeStream.collectResults()).rejects.toThrow()
-  })
-
-  it("handles stream end events normally", async () => {
-    const exchangeStream = client.doExchange()
-
-    // Emit data then end
-    setTimeout(() => {
-      mockStream.emit("data", {
-        flightDescriptor: undefined,
-        dataHeader: Buffer.from("response"),
-        dataBody: Buffer.from("data"),
-        appMetadata: Buffer.alloc(0)
-      })
-      mockStream.emit("end")
-    }, 10)
-
-    const results = await exchangeStream.collectResults()
-    expect(results).toHaveLength(1)
-  })
-})
-
-describe("DoPutStream error handling", () => {
-  let client: FlightClient
-  let mockStream: EventEmitter & {
-    write: ReturnType<typeof vi.fn>
-    end: ReturnType<typeof vi.fn>
-    cancel: ReturnType<typeof vi.fn>
-  }
-
-  beforeEach(() => {
-    mockStream = Object.assign(new EventEmitter(), {
-      write: vi.fn(() => true),
-      end: vi.fn(),
-      cancel: vi.fn()
-    })
-
-    client = new FlightClient({ host: "localhost", port: 8815, tls: false })
-
-    const mockGrpcClient = {
-      doPut: vi.fn(() => mockStream),
-      waitForReady: vi.fn((_, cb) => cb())
+/**
+ * Mocks a transport handshake that responds with the given headers and an
+ * empty payload.
+ */
+const respondToHandshake = (headers: unknown): ReturnType<typeof vi.fn> =>
+  vi.fn(
+    (_metadata: unknown, _options: unknown, listener: DuplexCallListener<HandshakeResponse>) => {
+      setTimeout(() => {
+        listener.onMetadata(headers as CallMetadata)
+        void listener.onMessage({ protocolVersion: 0, payload: Buffer.alloc(0) })
+        listener.onStatus({ code: StatusCode.OK, details: "", metadata: new CallMetadata() })
+      }, 5)
+      return { write: vi.fn(() => true), end: vi.fn(), cancel: vi.fn(), getPeer: () => "mock" }
     }
-    // @ts-expect-error accessing private property for testing
-    client.grpcClient = mockGrpcClient
-    // @ts-expect-error accessing private property for testing
-    client._state = "connected"
-  })
-
-  afterEach(() => {
-    vi.clearAllMocks()
-  })
-
-  it("handles put stream error events", async () => {
-    const putStream = client.doPut()
-
-    putStream.write({
-      flightDescriptor: {
-        type: 1,
-        path: ["test"],
-        cmd: Buffer.alloc(0)
-      },
-      dataHeader: Buffer.from("test"),
-      dataBody: Buffer.from("data"),
-      appMetadata: Buffer.alloc(0)
-    })
-
-    putStream.end()
-
-    const serverError = new Error("Put failed")
-    setTimeout(() => {
-      mockStream.emit("error", serverError)
-    }, 10)
-
-    await expect(putStream.collectResults()).rejects.toThrow("Put failed")
-  })
+  )
 
-  it("handles put stream end with results", async () => {
-    const putStream = client.doPut()
-
-    putStream.write({
-      flightDescriptor: {
-        type: 1,
-        path: ["test"],
-        cmd: Buffer.alloc(0)
-      },
-      dataHeader: Buffer.from("test"),
-      dataBody: Buffer.from("data"),
-      appMetadata: Buffer.alloc(0)
-    })
-
-    putStream.end()
-
-    setTimeout(() => {
-      mockStream.emit("data", { appMetadata: Buffer.from("ack") })
-      mockStream.emit("end")
-    }, 10)
-
-    const results = await putStream.collectResults()
-    expect(results).toHaveLength(1)
-  })
-})
+/**
+ * Creates a mock grpc-js unary call.
+ */
+const createUnaryCall = (cancel = vi.fn()): EventEmitter & { cancel: () => void } =>
+  Object.assign(new EventEmitter(), { cancel, getPeer: () => "mock" })
 
 describe("FlightError with Buffer metadata", () => {
   it("handles gRPC errors with Buffer metadata values", () => {
@@ -235,10 +111,9 @@ describe("FlightError with Buffer metadata", () => {
     const flightError = FlightError.fromGrpcError(grpcError)
     expect(flightError).toBeInstanceOf(FlightError)
     expect(flightError.code).toBe("INTERNAL")
-    // The string key should be present, buffer key is skipped
     expect(flightError.metadata?.["string-key"]).toBe("string-value")
-    // Buffer values are not included (extractGrpcMetadata skips them)
-    expect(flightError.metadata?.["binary-key-bin"]).toBeUndefined()
+    // Binary values are kept as Buffers
+    expect(flightError.metadata?.["binary-key-bin"]).toEqual(Buffer.from([0x01, 0x02, 0x03]))
   })
 
   it("handles gRPC errors with only Buffer metadata", () => {
@@ -255,8 +130,21 @@ describe("FlightError with Buffer metadata", () => {
     const flightError = FlightError.fromGrpcError(grpcError)
     expect(flightError).toBeInstanceOf(FlightError)
     expect(flightError.code).toBe("INVALID_ARGUMENT")
-    // No string metadata, so metadata should be undefined
+    expect(flightError.metadata).toEqual({ "only-binary-bin": Buffer.from([0x01, 0x02]) })
+  })
+
+  it("handles gRPC errors with empty metadata", () => {
+    const grpcError = {
+      code: 3,
+      message: "Invalid argument",
+      details: "Invalid argument",
+      metadata: new Metadata()
+    }
+
+    const flightError = FlightError.fromGrpcError(grpcError)
     expect(flightError.metadata).toBeUndefined()
+    expect(flightError.richStatus).toBeUndefined()
+    expect(flightError.arrowStatus).toBeUndefined()
   })
 
   it("handles gRPC errors with no metadata", () => {
@@ -315,7 +203,7 @@ describe("DoPutStream additional methods", () => {
       waitForReady: vi.fn((_, cb) => cb())
     }
     // @ts-expect-error accessing private property for testing
-    client.grpcClient = mockGrpcClient
+    client.grpcClient = new GrpcTransport(mockGrpcClient as never)
     // @ts-expect-error accessing private property for testing
     client._state = "connected"
   })
@@ -370,7 +258,7 @@ describe("DoExchangeStream additional methods", () => {
       waitForReady: vi.fn((_, cb) => cb())
     }
     // @ts-expect-error accessing private property for testing
-    client.grpcClient = mockGrpcClient
+    client.grpcClient = new GrpcTransport(mockGrpcClient as never)
     // @ts-expect-error accessing private property for testing
     client._state = "connected"
   })
@@ -482,7 +370,7 @@ describe("cancelFlightInfo edge cases", () => {
       waitForReady: vi.fn((_, cb) => cb())
     }
     // @ts-expect-error accessing private property for testing
-    client.grpcClient = mockGrpcClient
+    client.grpcClient = new GrpcTransport(mockGrpcClient as never)
     // @ts-expect-error accessing private property for testing
     client._state = "connected"
   })
@@ -562,7 +450,7 @@ describe("auth payload paths", () => {
     // Mock the grpcClient.handshake method
     const mockHandshakeStream = new EventEmitter()
     // @ts-expect-error accessing private property
-    client.grpcClient.handshake = vi.fn(() => {
+    client.grpcClient.client.handshake = vi.fn(() => {
       setTimeout(() => {
         mockHandshakeStream.emit("data", { protocolVersion: 0, payload: Buffer.alloc(0) })
         mockHandshakeStream.emit("end")
@@ -591,7 +479,7 @@ describe("auth payload paths", () => {
     // Mock the grpcClient.handshake method
     const mockHandshakeStream = new EventEmitter()
     // @ts-expect-error accessing private property
-    client.grpcClient.handshake = vi.fn(() => {
+    client.grpcClient.client.handshake = vi.fn(() => {
       setTimeout(() => {
         mockHandshakeStream.emit("data", { protocolVersion: 0, payload: Buffer.alloc(0) })
         mockHandshakeStream.emit("end")
@@ -658,7 +546,7 @@ describe("handshake token extraction", () => {
     mockMetadata.set("auth-token-bin", Buffer.from("binary-token"))
 
     // @ts-expect-error accessing private property
-    client.grpcClient.handshake = vi.fn(() => {
+    client.grpcClient.client.handshake = vi.fn(() => {
       setTimeout(() => {
         mockHandshakeStream.emit("metadata", mockMetadata)
         mockHandshakeStream.emit("data", { protocolVersion: 0, payload: Buffer.alloc(0) })
@@ -679,7 +567,7 @@ describe("handshake token extraction", () => {
     const mockHandshakeStream = new EventEmitter()
 
     // @ts-expect-error accessing private property
-    client.grpcClient.handshake = vi.fn(() => {
+    client.grpcClient.client.handshake = vi.fn(() => {
       setTimeout(() => {
         mockHandshakeStream.emit("data", {
           protocolVersion: 0,
@@ -699,7 +587,6 @@ describe("handshake token extraction", () => {
   })
 
   it("handles string value in auth-token-bin metadata", async () => {
-    const mockHandshakeStream = new EventEmitter()
     // Create a mock metadata object that returns a string for auth-token-bin
     // This tests the defensive typeof === "string" branch
     const mockMetadata = {
@@ -715,17 +602,7 @@ describe("handshake token extraction", () => {
     }
 
     // @ts-expect-error accessing private property
-    client.grpcClient.handshake = vi.fn(() => {
-      setTimeout(() => {
-        mockHandshakeStream.emit("metadata", mockMetadata)
-        mockHandshakeStream.emit("data", { protocolVersion: 0, payload: Buffer.alloc(0) })
-        mockHandshakeStream.emit("end")
-      }, 5)
-      return Object.assign(mockHandshakeStream, {
-        write: vi.fn(),
-        end: vi.fn()
-      })
-    })
+    client.grpcClient.handshake = respondToHandshake(mockMetadata)
 
     const result = await client.handshake()
     expect(result).toBeDefined()
@@ -736,7 +613,6 @@ describe("handshake token extraction", () => {
     // Clear any previous token
     client.clearBearerToken()
 
-    const mockHandshakeStream = new EventEmitter()
     // Create a mock metadata object with non-bearer auth
     const mockMetadata = {
       get: (key: string) => {
@@ -751,17 +627,7 @@ describe("handshake token extraction", () => {
     }
 
     // @ts-expect-error accessing private property
-    client.grpcClient.handshake = vi.fn(() => {
-      setTimeout(() => {
-        mockHandshakeStream.emit("metadata", mockMetadata)
-        mockHandshakeStream.emit("data", { protocolVersion: 0, payload: Buffer.alloc(0) })
-        mockHandshakeStream.emit("end")
-      }, 5)
-      return Object.assign(mockHandshakeStream, {
-        write: vi.fn(),
-        end: vi.fn()
-      })
-    })
+    client.grpcClient.handshake = respondToHandshake(mockMetadata)
 
     const result = await client.handshake()
     expect(result).toBeDefined()
@@ -773,7 +639,6 @@ describe("handshake token extraction", () => {
     // Clear any previous token
     client.clearBearerToken()
 
-    const mockHandshakeStream = new EventEmitter()
     // Create a Buffer that we can verify is truly a Buffer
     const tokenBuffer = Buffer.from("buffer-token-value")
     // Sanity check - ensure this is a real Buffer
@@ -795,17 +660,7 @@ describe("handshake token extraction", () => {
     }
 
     // @ts-expect-error accessing private property
-    client.grpcClient.handshake = vi.fn(() => {
-      setTimeout(() => {
-        mockHandshakeStream.emit("metadata", mockMetadata)
-        mockHandshakeStream.emit("data", { protocolVersion: 0, payload: Buffer.alloc(0) })
-        mockHandshakeStream.emit("end")
-      }, 5)
-      return Object.assign(mockHandshakeStream, {
-        write: vi.fn(),
-        end: vi.fn()
-      })
-    })
+    client.grpcClient.handshake = respondToHandshake(mockMetadata)
 
     const result = await client.handshake()
     expect(result).toBeDefined()
@@ -885,7 +740,6 @@ describe("handshake bearer token from authorization header", () => {
   it("extracts token from bearer authorization header", async () => {
     client.clearBearerToken()
 
-    const mockHandshakeStream = new EventEmitter()
     const mockMetadata = {
       get: (key: string) => {
         if (key === "authorization") {
@@ -899,17 +753,7 @@ describe("handshake bearer token from authorization header", () => {
     }
 
     // @ts-expect-error accessing private property
-    client.grpcClient.handshake = vi.fn(() => {
-      setTimeout(() => {
-        mockHandshakeStream.emit("metadata", mockMetadata)
-        mockHandshakeStream.emit("data", { protocolVersion: 0, payload: Buffer.alloc(0) })
-        mockHandshakeStream.emit("end")
-      }, 5)
-      return Object.assign(mockHandshakeStream, {
-        write: vi.fn(),
-        end: vi.fn()
-      })
-    })
+    client.grpcClient.handshake = respondToHandshake(mockMetadata)
 
     const result = await client.handshake()
     expect(result).toBeDefined()
@@ -934,7 +778,7 @@ describe("handshake error and no-response cases", () => {
     const mockHandshakeStream = new EventEmitter()
 
     // @ts-expect-error accessing private property
-    client.grpcClient.handshake = vi.fn(() => {
+    client.grpcClient.client.handshake = vi.fn(() => {
       setTimeout(() => {
         mockHandshakeStream.emit("error", new Error("connection failed"))
       }, 5)
@@ -951,7 +795,7 @@ describe("handshake error and no-response cases", () => {
     const mockHandshakeStream = new EventEmitter()
 
     // @ts-expect-error accessing private property
-    client.grpcClient.handshake = vi.fn(() => {
+    client.grpcClient.client.handshake = vi.fn(() => {
       setTimeout(() => {
         // Emit "end" without any "data"
         mockHandshakeStream.emit("end")
@@ -966,9 +810,40 @@ describe("handshake error and no-response cases", () => {
   })
 })
 
-describe("getFlightInfo and getSchema coverage", () => {
+describe("multi-step handshake", () => {
   let client: FlightClient
 
+  /**
+   * Mocks a handshake stream that emits the given events a few
+   * milliseconds apart, so that the client can reply in between.
+   */
+  const mockHandshake = (
+    events: [string, unknown?][]
+  ): EventEmitter & {
+    write: ReturnType<typeof vi.fn>
+    end: ReturnType<typeof vi.fn>
+    cancel: ReturnType<typeof vi.fn>
+  } => {
+    const stream = Object.assign(new EventEmitter(), {
+      write: vi.fn(),
+      end: vi.fn(),
+      cancel: vi.fn()
+    })
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.handshake = vi.fn(() => {
+      events.forEach(([event, value], index) => {
+        setTimeout(() => stream.emit(event, value), 5 * (index + 1))
+      })
+      return stream
+    })
+    return stream
+  }
+
+  const response = (payload: string): { protocolVersion: number; payload: Buffer } => ({
+    protocolVersion: 0,
+    payload: Buffer.from(payload)
+  })
+
   beforeEach(async () => {
     client = new FlightClient({ host: "localhost", port: 8815, tls: false })
     await client.connect()
@@ -978,217 +853,95 @@ describe("getFlightInfo and getSchema coverage", () => {
     vi.clearAllMocks()
   })
 
-  it("calls getFlightInfo and resolves with response", async () => {
-    const mockResponse = {
-      schema: Buffer.from("schema"),
-      flightDescriptor: { type: 1, path: ["test"], cmd: Buffer.alloc(0) },
-      endpoint: [],
-      totalRecords: 100,
-      totalBytes: 1000,
-      ordered: false,
-      appMetadata: Buffer.alloc(0)
-    }
+  it("keeps the stream open until the exchange is done", async () => {
+    const stream = mockHandshake([
+      ["data", response("challenge")],
+      ["data", response("token")],
+      ["end"]
+    ])
 
-    // @ts-expect-error accessing private property
-    client.grpcClient.getFlightInfo = vi.fn(
-      (
-        _request: unknown,
-        _metadata: unknown,
-        callback: (err: Error | null, res: unknown) => void
-      ) => {
-        callback(null, mockResponse)
-      }
-    )
+    const result = await client.handshake({
+      payload: Buffer.from("hello"),
+      exchange: async (reply) =>
+        Promise.resolve(reply.payload.toString() === "challenge" ? Buffer.from("answer") : null)
+    })
 
-    const result = await client.getFlightInfo({ type: "path", path: ["test"] })
-    expect(result).toEqual(mockResponse)
+    expect(stream.write.mock.calls.map(([request]) => String(request.payload))).toEqual([
+      "hello",
+      "answer"
+    ])
+    expect(stream.end).toHaveBeenCalledTimes(1)
+    expect(result.token).toBe("token")
   })
 
-  it("calls getFlightInfo and rejects on error", async () => {
-    // @ts-expect-error accessing private property
-    client.grpcClient.getFlightInfo = vi.fn(
-      (
-        _request: unknown,
-        _metadata: unknown,
-        callback: (err: Error | null, res: unknown) => void
-      ) => {
-        callback(new Error("flight not found"), null)
-      }
-    )
+  it("passes responses after the client is done to the exchange without replying", async () => {
+    const stream = mockHandshake([
+      ["data", response("first")],
+      ["data", response("second")],
+      ["end"]
+    ])
+    const exchange = vi.fn(async () => Promise.resolve(null))
 
-    await expect(client.getFlightInfo({ type: "path", path: ["missing"] })).rejects.toThrow(
-      "flight not found"
-    )
+    const result = await client.handshake({ exchange })
+
+    expect(exchange).toHaveBeenCalledTimes(2)
+    expect(stream.write).toHaveBeenCalledTimes(1)
+    expect(stream.end).toHaveBeenCalledTimes(1)
+    expect(result.payload.toString()).toBe("second")
   })
 
-  it("calls getSchema and resolves with response", async () => {
-    const mockResponse = {
-      schema: Buffer.from("schema-bytes")
-    }
+  it("does not write once the server has ended the call", async () => {
+    const stream = mockHandshake([["data", response("token")], ["end"]])
 
-    // @ts-expect-error accessing private property
-    client.grpcClient.getSchema = vi.fn(
-      (
-        _request: unknown,
-        _metadata: unknown,
-        callback: (err: Error | null, res: unknown) => void
-      ) => {
-        callback(null, mockResponse)
+    const result = await client.handshake({
+      exchange: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 20))
+        return Buffer.from("too late")
       }
-    )
+    })
 
-    const result = await client.getSchema({ type: "cmd", cmd: Buffer.from("SELECT 1") })
-    expect(result).toEqual(mockResponse)
+    expect(stream.write).toHaveBeenCalledTimes(1)
+    expect(result.token).toBe("token")
   })
 
-  it("calls getSchema and rejects on error", async () => {
-    // @ts-expect-error accessing private property
-    client.grpcClient.getSchema = vi.fn(
-      (
-        _request: unknown,
-        _metadata: unknown,
-        callback: (err: Error | null, res: unknown) => void
-      ) => {
-        callback(new Error("schema error"), null)
-      }
-    )
+  it("cancels the handshake when the exchange fails", async () => {
+    const stream = mockHandshake([
+      ["data", response("challenge")],
+      ["data", response("ignored")],
+      ["end"]
+    ])
+    const exchange = vi.fn(async () => Promise.reject(new Error("cannot sign")))
 
-    await expect(client.getSchema({ type: "path", path: ["missing"] })).rejects.toThrow(
-      "schema error"
-    )
+    await expect(client.handshake({ exchange })).rejects.toThrow("cannot sign")
+    expect(stream.cancel).toHaveBeenCalledTimes(1)
+    expect(exchange).toHaveBeenCalledTimes(1)
+    expect(client.getBearerToken()).toBeNull()
   })
-})
 
-describe("listFlights with criteria coverage", () => {
-  let client: FlightClient
-  let mockStream: EventEmitter
+  it("wraps non-Error exchange failures", async () => {
+    mockHandshake([["data", response("challenge")]])
 
-  beforeEach(async () => {
-    mockStream = new EventEmitter()
+    await expect(
+      // eslint-disable-next-line @typescript-eslint/prefer-promise-reject-errors
+      client.handshake({ exchange: async () => Promise.reject("cannot sign") })
+    ).rejects.toThrow("cannot sign")
+  })
 
-    client = new FlightClient({ host: "localhost", port: 8815, tls: false })
-    await client.connect()
+  it("fails when the stream errors during the exchange", async () => {
+    mockHandshake([
+      ["data", response("challenge")],
+      ["error", new Error("connection reset")]
+    ])
+    const exchange = vi.fn(async () => Promise.resolve(Buffer.from("answer")))
 
-    // @ts-expect-error accessing private property
-    client.grpcClient.listFlights = vi.fn(() => mockStream)
+    await expect(client.handshake({ exchange })).rejects.toThrow("connection reset")
   })
+})
 
-  afterEach(() => {
-    vi.clearAllMocks()
-  })
-
-  it("calls listFlights with criteria parameter", async () => {
-    const criteria = { expression: Buffer.from("filter") }
-
-    setTimeout(() => {
-      mockStream.emit("data", {
-        schema: Buffer.alloc(0),
-        flightDescriptor: { type: 1, path: ["flight1"], cmd: Buffer.alloc(0) },
-        endpoint: [],
-        totalRecords: 0,
-        totalBytes: 0,
-        ordered: false,
-        appMetadata: Buffer.alloc(0)
-      })
-      mockStream.emit("end")
-    }, 5)
-
-    const results = []
-    for await (const info of client.listFlights(criteria)) {
-      results.push(info)
-    }
-
-    expect(results).toHaveLength(1)
-  })
-
-  it("calls listFlights without criteria (uses default)", async () => {
-    setTimeout(() => {
-      mockStream.emit("data", {
-        schema: Buffer.alloc(0),
-        flightDescriptor: { type: 1, path: ["flight2"], cmd: Buffer.alloc(0) },
-        endpoint: [],
-        totalRecords: 0,
-        totalBytes: 0,
-        ordered: false,
-        appMetadata: Buffer.alloc(0)
-      })
-      mockStream.emit("end")
-    }, 5)
-
-    const results = []
-    for await (const info of client.listFlights()) {
-      results.push(info)
-    }
-
-    expect(results).toHaveLength(1)
-  })
-})
-
-describe("doGet and streamToAsyncIterable coverage", () => {
-  let client: FlightClient
-  let mockStream: EventEmitter
-
-  beforeEach(async () => {
-    mockStream = new EventEmitter()
-
-    client = new FlightClient({ host: "localhost", port: 8815, tls: false })
-    await client.connect()
-
-    // @ts-expect-error accessing private property
-    client.grpcClient.doGet = vi.fn(() => mockStream)
-  })
-
-  afterEach(() => {
-    vi.clearAllMocks()
-  })
-
-  it("iterates doGet results via streamToAsyncIterable", async () => {
-    const ticket = { ticket: Buffer.from("test-ticket") }
-
-    setTimeout(() => {
-      mockStream.emit("data", {
-        flightDescriptor: undefined,
-        dataHeader: Buffer.from("header1"),
-        dataBody: Buffer.from("body1"),
-        appMetadata: Buffer.alloc(0)
-      })
-      mockStream.emit("data", {
-        flightDescriptor: undefined,
-        dataHeader: Buffer.from("header2"),
-        dataBody: Buffer.from("body2"),
-        appMetadata: Buffer.alloc(0)
-      })
-      mockStream.emit("end")
-    }, 5)
-
-    const results = []
-    for await (const data of client.doGet(ticket)) {
-      results.push(data)
-    }
-
-    expect(results).toHaveLength(2)
-  })
-
-  it("handles error in doGet stream", async () => {
-    const ticket = { ticket: Buffer.from("test-ticket") }
-
-    setTimeout(() => {
-      mockStream.emit("error", new Error("stream failed"))
-    }, 5)
-
-    const results = []
-    await expect(async () => {
-      for await (const data of client.doGet(ticket)) {
-        results.push(data)
-      }
-    }).rejects.toThrow("stream failed")
-  })
-})
-
-describe("basic auth payload coverage", () => {
-  beforeEach(() => {
-    credentialCalls.createInsecure = 0
-    credentialCalls.createSsl = 0
+describe("basic auth payload coverage", () => {
+  beforeEach(() => {
+    credentialCalls.createInsecure = 0
+    credentialCalls.createSsl = 0
   })
 
   it("builds BasicAuth payload for basic auth type", async () => {
@@ -1210,7 +963,7 @@ describe("basic auth payload coverage", () => {
     let writtenPayload: Buffer | undefined
 
     // @ts-expect-error accessing private property
-    client.grpcClient.handshake = vi.fn(() => {
+    client.grpcClient.client.handshake = vi.fn(() => {
       setTimeout(() => {
         mockHandshakeStream.emit("data", { protocolVersion: 0, payload: Buffer.alloc(0) })
         mockHandshakeStream.emit("end")
@@ -1253,7 +1006,7 @@ describe("DoExchangeStream cancel coverage", () => {
       waitForReady: vi.fn((_, cb) => cb())
     }
     // @ts-expect-error accessing private property for testing
-    client.grpcClient = mockGrpcClient
+    client.grpcClient = new GrpcTransport(mockGrpcClient as never)
     // @ts-expect-error accessing private property for testing
     client._state = "connected"
   })
@@ -1282,4 +1035,1939 @@ describe("createFlightClient factory function", () => {
     expect(client).toBeInstanceOf(FlightClient)
     expect(client.isConnected).toBe(true)
   })
+
+  it("returns connected client for a location", async () => {
+    const { createFlightClient } = await import("../../client")
+
+    const fromUri = await createFlightClient("grpc+tls://flight.example.com:8443")
+    const fromLocation = await createFlightClient(
+      { uri: "grpc+unix:///var/run/flight.sock" },
+      { defaultTimeoutMs: 1000 }
+    )
+
+    expect(fromUri.isConnected).toBe(true)
+    expect(fromUri.address).toBe("flight.example.com:8443")
+    expect(fromLocation.isConnected).toBe(true)
+    expect(fromLocation.address).toBe("unix:/var/run/flight.sock")
+  })
+})
+
+describe("pollFlightInfo coverage", () => {
+  let client: FlightClient
+
+  const flightInfo = {
+    schema: Buffer.from("schema"),
+    flightDescriptor: { type: 2, path: [], cmd: Buffer.from("query") },
+    endpoint: [],
+    totalRecords: 10,
+    totalBytes: 100,
+    ordered: false,
+    appMetadata: Buffer.alloc(0)
+  }
+
+  const pending = (progress: number, expirationTime?: Date): PollInfo => ({
+    info: flightInfo,
+    flightDescriptor: { type: 2, path: [], cmd: Buffer.from(`retry-${String(progress)}`) },
+    progress,
+    expirationTime
+  })
+
+  const complete: PollInfo = {
+    info: flightInfo,
+    flightDescriptor: undefined,
+    progress: 1,
+    expirationTime: undefined
+  }
+
+  const mockPolls = (responses: (PollInfo | Error)[]): ReturnType<typeof vi.fn> => {
+    const mock = vi.fn(
+      (
+        _request: unknown,
+        _metadata: unknown,
+        _options: unknown,
+        callback: (err: Error | null, res: unknown) => void
+      ) => {
+        const response = responses.shift()
+        if (response instanceof Error) {
+          callback(response, null)
+        } else {
+          callback(null, response)
+        }
+        return createUnaryCall()
+      }
+    )
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.pollFlightInfo = mock
+    return mock
+  }
+
+  beforeEach(async () => {
+    client = new FlightClient({ host: "localhost", port: 8815, tls: false })
+    await client.connect()
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("calls pollFlightInfo and resolves with response", async () => {
+    const mock = mockPolls([complete])
+
+    const result = await client.pollFlightInfo({ type: "cmd", cmd: Buffer.from("query") })
+
+    expect(result).toEqual(complete)
+    expect(mock.mock.calls[0][0]).toEqual({ type: 2, path: [], cmd: Buffer.from("query") })
+  })
+
+  it("calls pollFlightInfo and rejects on error", async () => {
+    mockPolls([new Error("poll error")])
+
+    await expect(client.pollFlightInfo({ type: "path", path: ["missing"] })).rejects.toThrow(
+      "poll error"
+    )
+  })
+
+  it("re-polls with the returned descriptor until complete", async () => {
+    const mock = mockPolls([pending(0.25), pending(0.5), complete])
+
+    const updates = client.pollFlightInfoUpdates(
+      { type: "cmd", cmd: Buffer.from("query") },
+      { intervalMs: 0 }
+    )
+    const progress: (number | undefined)[] = []
+    let next = await updates.next()
+    while (next.done !== true) {
+      progress.push(next.value.progress)
+      next = await updates.next()
+    }
+
+    expect(next.value).toEqual(flightInfo)
+    expect(progress).toEqual([0.25, 0.5, 1])
+    expect(mock).toHaveBeenCalledTimes(3)
+    expect(mock.mock.calls[1][0]).toEqual(pending(0.25).flightDescriptor)
+    expect(mock.mock.calls[2][0]).toEqual(pending(0.5).flightDescriptor)
+  })
+
+  it("waits for the final FlightInfo and reports progress", async () => {
+    mockPolls([pending(0.5), complete])
+    const onProgress = vi.fn()
+
+    const info = await client.waitForFlightInfo(
+      { type: "cmd", cmd: Buffer.from("query") },
+      { intervalMs: 0, onProgress }
+    )
+
+    expect(info).toEqual(flightInfo)
+    expect(onProgress).toHaveBeenCalledTimes(2)
+    expect(onProgress.mock.calls[0][0]).toEqual(pending(0.5))
+  })
+
+  it("waits for the final FlightInfo without a progress callback", async () => {
+    mockPolls([pending(0.5), complete])
+
+    const info = await client.waitForFlightInfo(
+      { type: "cmd", cmd: Buffer.from("query") },
+      { intervalMs: 0 }
+    )
+
+    expect(info).toEqual(flightInfo)
+  })
+
+  it("caps the poll interval at the expiration time", async () => {
+    mockPolls([pending(0.5, new Date(Date.now() + 20)), complete])
+
+    const start = Date.now()
+    const info = await client.waitForFlightInfo({ type: "cmd", cmd: Buffer.from("query") })
+
+    expect(info).toEqual(flightInfo)
+    expect(Date.now() - start).toBeLessThan(1000)
+  })
+
+  it("rejects when the poll descriptor has expired", async () => {
+    mockPolls([pending(0.5, new Date(Date.now() - 1000))])
+
+    await expect(
+      client.waitForFlightInfo({ type: "cmd", cmd: Buffer.from("query") }, { intervalMs: 0 })
+    ).rejects.toMatchObject({ code: "DEADLINE_EXCEEDED" })
+  })
+
+  it("rejects when the query completes without flight info", async () => {
+    mockPolls([{ ...complete, info: undefined }])
+
+    await expect(
+      client.waitForFlightInfo({ type: "cmd", cmd: Buffer.from("query") })
+    ).rejects.toThrow("poll completed without flight info")
+  })
+})
+
+describe("session options", () => {
+  let client: FlightClient
+  let doAction: ReturnType<typeof vi.fn>
+
+  /**
+   * Queues a doAction stream that sends the given headers and result body.
+   */
+  const respondWith = (body: Uint8Array | null, setCookies: string[] = []): void => {
+    doAction.mockImplementationOnce(() => {
+      const stream = new EventEmitter()
+      setTimeout(() => {
+        const headers = new Metadata()
+        for (const cookie of setCookies) {
+          headers.add("set-cookie", cookie)
+        }
+        stream.emit("metadata", headers)
+        if (body !== null) {
+          stream.emit("data", { body: Buffer.from(body) })
+        }
+        stream.emit("end")
+      }, 5)
+      return stream
+    })
+  }
+
+  beforeEach(async () => {
+    client = new FlightClient({ host: "localhost", port: 8815, tls: false })
+    await client.connect()
+
+    doAction = vi.fn()
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.doAction = doAction
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("sets session options and reports per-option errors", async () => {
+    const { SetSessionOptionsRequest, SetSessionOptionsResult } =
+      await import("../../generated/arrow/flight/protocol/Flight.js")
+
+    respondWith(
+      SetSessionOptionsResult.encode({
+        errors: { "bad-name": { value: 1 }, "bad-value": { value: 2 } }
+      }).finish()
+    )
+
+    const result = await client.setSessionOptions({
+      catalog: "analytics",
+      "batch-size": 1024n,
+      "bad-name": true,
+      "bad-value": 0.5,
+      schemas: ["a", "b"],
+      cleared: null
+    })
+
+    expect(result.errors).toEqual({ "bad-name": "invalid-name", "bad-value": "invalid-value" })
+
+    const [action] = doAction.mock.calls[0]
+    expect(action.type).toBe("SetSessionOptions")
+    const request = SetSessionOptionsRequest.decode(action.body)
+    expect(request.sessionOptions.catalog).toEqual({ stringValue: "analytics" })
+    expect(request.sessionOptions["batch-size"]).toEqual({ int64Value: 1024 })
+    expect(request.sessionOptions.schemas.stringListValue?.values).toEqual(["a", "b"])
+    expect(request.sessionOptions.cleared).toEqual({})
+  })
+
+  it("gets session options as public values", async () => {
+    const { GetSessionOptionsResult } =
+      await import("../../generated/arrow/flight/protocol/Flight.js")
+
+    respondWith(
+      GetSessionOptionsResult.encode({
+        sessionOptions: {
+          catalog: { stringValue: "analytics" },
+          "batch-size": { int64Value: 1024 },
+          verbose: { boolValue: true }
+        }
+      }).finish()
+    )
+
+    const options = await client.getSessionOptions()
+
+    expect(options).toEqual({ catalog: "analytics", "batch-size": 1024n, verbose: true })
+    expect(doAction.mock.calls[0][0].type).toBe("GetSessionOptions")
+  })
+
+  it("captures the session cookie and replays it on subsequent calls", async () => {
+    const { GetSessionOptionsResult, SetSessionOptionsResult } =
+      await import("../../generated/arrow/flight/protocol/Flight.js")
+
+    respondWith(SetSessionOptionsResult.encode({ errors: {} }).finish(), [
+      "arrow_flight_session_id=session-1; Path=/; HttpOnly",
+      "tracking=abc",
+      "malformed"
+    ])
+    respondWith(GetSessionOptionsResult.encode({ sessionOptions: {} }).finish())
+
+    await client.setSessionOptions({ catalog: "analytics" })
+    await client.getSessionOptions()
+
+    const [, firstMetadata] = doAction.mock.calls[0]
+    expect((firstMetadata as Metadata).get("cookie")).toEqual([])
+
+    const [, secondMetadata] = doAction.mock.calls[1]
+    expect((secondMetadata as Metadata).get("cookie")).toEqual([
+      "arrow_flight_session_id=session-1; tracking=abc"
+    ])
+    expect(client.createMetadata().get("cookie")).toEqual([
+      "arrow_flight_session_id=session-1; tracking=abc"
+    ])
+  })
+
+  it("removes cookies the server expires", async () => {
+    const { GetSessionOptionsResult } =
+      await import("../../generated/arrow/flight/protocol/Flight.js")
+    const body = GetSessionOptionsResult.encode({ sessionOptions: {} }).finish()
+
+    respondWith(body, ["arrow_flight_session_id=session-1", "tracking=abc"])
+    respondWith(body, ["arrow_flight_session_id=session-1; Max-Age=0", "tracking="])
+
+    await client.getSessionOptions()
+    await client.getSessionOptions()
+
+    expect(client.createMetadata().get("cookie")).toEqual([])
+  })
+
+  it("closes the session and discards the session cookie", async () => {
+    const { CloseSessionResult, SetSessionOptionsResult } =
+      await import("../../generated/arrow/flight/protocol/Flight.js")
+
+    respondWith(SetSessionOptionsResult.encode({ errors: {} }).finish(), [
+      "arrow_flight_session_id=session-1"
+    ])
+    respondWith(CloseSessionResult.encode({ status: 1 }).finish())
+
+    await client.setSessionOptions({ catalog: "analytics" })
+    const status = await client.closeSession()
+
+    expect(status).toBe("closed")
+    expect(doAction.mock.calls[1][0].type).toBe("CloseSession")
+    expect(client.createMetadata().get("cookie")).toEqual([])
+  })
+
+  it("keeps the session cookie while the session is still closing", async () => {
+    const { CloseSessionResult, SetSessionOptionsResult } =
+      await import("../../generated/arrow/flight/protocol/Flight.js")
+
+    respondWith(SetSessionOptionsResult.encode({ errors: {} }).finish(), [
+      "arrow_flight_session_id=session-1"
+    ])
+    respondWith(CloseSessionResult.encode({ status: 2 }).finish())
+
+    await client.setSessionOptions({ catalog: "analytics" })
+    const status = await client.closeSession()
+
+    expect(status).toBe("closing")
+    expect(client.createMetadata().get("cookie")).toEqual(["arrow_flight_session_id=session-1"])
+  })
+
+  it("clears session cookies when the client is closed", async () => {
+    const { SetSessionOptionsResult } =
+      await import("../../generated/arrow/flight/protocol/Flight.js")
+
+    respondWith(SetSessionOptionsResult.encode({ errors: {} }).finish(), [
+      "arrow_flight_session_id=session-1"
+    ])
+
+    await client.setSessionOptions({ catalog: "analytics" })
+    client.close()
+
+    expect(client.createMetadata().get("cookie")).toEqual([])
+  })
+
+  it("shares the store of a cookie middleware", async () => {
+    const { CloseSessionResult, SetSessionOptionsResult } =
+      await import("../../generated/arrow/flight/protocol/Flight.js")
+    const store = new CookieStore()
+    store.setCookies(["lb=node-1"])
+    client = new FlightClient({
+      host: "localhost",
+      port: 8815,
+      tls: false,
+      middleware: [createCookieMiddleware(store)]
+    })
+    await client.connect()
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.doAction = doAction
+
+    respondWith(SetSessionOptionsResult.encode({ errors: {} }).finish(), [
+      "arrow_flight_session_id=session-1"
+    ])
+    respondWith(CloseSessionResult.encode({ status: 1 }).finish())
+    respondWith(SetSessionOptionsResult.encode({ errors: {} }).finish())
+
+    await client.setSessionOptions({ catalog: "analytics" })
+    await client.closeSession()
+    await client.setSessionOptions({ catalog: "analytics" })
+
+    const cookies = doAction.mock.calls.map(([, metadata]) => (metadata as Metadata).get("cookie"))
+    expect(cookies).toEqual([
+      ["lb=node-1"],
+      ["lb=node-1; arrow_flight_session_id=session-1"],
+      ["lb=node-1"]
+    ])
+    expect(store.cookieHeader()).toBe("lb=node-1")
+
+    client.close()
+    expect(store.cookieHeader()).toBe("lb=node-1")
+  })
+
+  it("rejects when no result returned", async () => {
+    respondWith(null)
+
+    await expect(client.closeSession()).rejects.toThrow(
+      "no result received for CloseSession action"
+    )
+  })
+})
+
+describe("call deadlines", () => {
+  let client: FlightClient
+
+  beforeEach(async () => {
+    client = new FlightClient({ host: "localhost", port: 8815, tls: false, defaultTimeoutMs: 5000 })
+    await client.connect()
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("passes the deadline to unary calls", async () => {
+    const getFlightInfo = vi.fn(
+      (
+        _request: unknown,
+        _metadata: unknown,
+        _options: unknown,
+        callback: (err: Error | null, res: unknown) => void
+      ) => {
+        callback(null, {})
+        return createUnaryCall()
+      }
+    )
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.getFlightInfo = getFlightInfo
+
+    const before = Date.now()
+    await client.getFlightInfo({ type: "path", path: ["test"] }, { timeoutMs: 250 })
+
+    const options = getFlightInfo.mock.calls[0][2] as { deadline: number }
+    expect(options.deadline).toBeGreaterThanOrEqual(before + 250)
+    expect(options.deadline).toBeLessThan(before + 5000)
+  })
+
+  it("passes the client default deadline to streaming calls", async () => {
+    const stream = new EventEmitter()
+    const doGet = vi.fn(() => {
+      setTimeout(() => stream.emit("end"), 5)
+      return stream
+    })
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.doGet = doGet
+
+    const before = Date.now()
+    for await (const _ of client.doGet({ ticket: Buffer.from("ticket") })) {
+      // drain
+    }
+
+    const [, , options] = doGet.mock.calls[0] as unknown as [unknown, unknown, { deadline: number }]
+    expect(options.deadline).toBeGreaterThanOrEqual(before + 5000)
+  })
+
+  it("passes the deadline to bidirectional calls", () => {
+    const doPut = vi.fn(() => new EventEmitter())
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.doPut = doPut
+
+    const before = Date.now()
+    client.doPut({ timeoutMs: 1000 })
+
+    const [, options] = doPut.mock.calls[0] as unknown as [unknown, { deadline: number }]
+    expect(options.deadline).toBeGreaterThanOrEqual(before + 1000)
+    expect(options.deadline).toBeLessThan(before + 5000)
+  })
+
+  it("surfaces DEADLINE_EXCEEDED as a FlightError", async () => {
+    const deadlineError = Object.assign(new Error("4 DEADLINE_EXCEEDED: Deadline exceeded"), {
+      code: 4,
+      details: "Deadline exceeded",
+      metadata: new Metadata()
+    })
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.getSchema = vi.fn(
+      (
+        _request: unknown,
+        _metadata: unknown,
+        _options: unknown,
+        callback: (err: Error | null, res: unknown) => void
+      ) => {
+        callback(deadlineError, null)
+        return createUnaryCall()
+      }
+    )
+
+    const error: unknown = await client
+      .getSchema({ type: "path", path: ["slow"] }, { timeoutMs: 10 })
+      .catch((e: unknown) => e)
+
+    expect(FlightError.isDeadlineExceeded(error)).toBe(true)
+  })
+})
+
+describe("unary calls without a response", () => {
+  it("fail with UNIMPLEMENTED when the call succeeds", async () => {
+    const client = new FlightClient({ host: "localhost", port: 8815, tls: false })
+    await client.connect()
+    // @ts-expect-error accessing private property
+    client.grpcClient.getSchema = vi.fn(
+      (_request: unknown, _metadata: unknown, _options: unknown, listener: CallListener<never>) => {
+        setTimeout(() => {
+          listener.onStatus({ code: StatusCode.OK, details: "", metadata: new CallMetadata() })
+        }, 1)
+        return { cancel: vi.fn(), getPeer: () => "mock" }
+      }
+    )
+
+    await expect(client.getSchema(pathDescriptor("a"))).rejects.toMatchObject({
+      code: "UNIMPLEMENTED",
+      message: expect.stringContaining("No message received")
+    })
+  })
+})
+
+describe("AbortSignal cancellation", () => {
+  let client: FlightClient
+
+  type MockStream = EventEmitter & {
+    write: ReturnType<typeof vi.fn>
+    end: ReturnType<typeof vi.fn>
+    cancel: ReturnType<typeof vi.fn>
+  }
+
+  const createMockStream = (): MockStream =>
+    Object.assign(new EventEmitter(), {
+      write: vi.fn(() => true),
+      end: vi.fn(),
+      cancel: vi.fn()
+    })
+
+  beforeEach(async () => {
+    client = new FlightClient({ host: "localhost", port: 8815, tls: false })
+    await client.connect()
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("rejects a unary call without starting it when already aborted", async () => {
+    const getFlightInfo = vi.fn()
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.getFlightInfo = getFlightInfo
+
+    const controller = new AbortController()
+    controller.abort()
+
+    const error: unknown = await client
+      .getFlightInfo({ type: "path", path: ["test"] }, { signal: controller.signal })
+      .catch((e: unknown) => e)
+
+    expect(FlightError.isCancelled(error)).toBe(true)
+    expect((error as FlightError).cause).toBe(controller.signal.reason)
+    expect(getFlightInfo).not.toHaveBeenCalled()
+  })
+
+  it("cancels a pending unary call when aborted", async () => {
+    const cancel = vi.fn()
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.getSchema = vi.fn(() => createUnaryCall(cancel))
+
+    const controller = new AbortController()
+    const promise = client.getSchema(
+      { type: "path", path: ["test"] },
+      { signal: controller.signal }
+    )
+    controller.abort("caller went away")
+
+    const error: unknown = await promise.catch((e: unknown) => e)
+    expect(FlightError.isCancelled(error)).toBe(true)
+    expect((error as FlightError).cause).toBeUndefined()
+    expect(cancel).toHaveBeenCalled()
+  })
+
+  it("removes the abort listener once a unary call completes", async () => {
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.getFlightInfo = vi.fn(
+      (
+        _request: unknown,
+        _metadata: unknown,
+        _options: unknown,
+        callback: (err: Error | null, res: unknown) => void
+      ) => {
+        callback(null, { endpoint: [] })
+        return createUnaryCall()
+      }
+    )
+
+    const controller = new AbortController()
+    const removeListener = vi.spyOn(controller.signal, "removeEventListener")
+
+    await client.getFlightInfo({ type: "path", path: ["test"] }, { signal: controller.signal })
+
+    expect(removeListener).toHaveBeenCalledWith("abort", expect.any(Function))
+  })
+
+  it("cancels a server stream and throws CANCELLED when aborted", async () => {
+    const stream = createMockStream()
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.doGet = vi.fn(() => stream)
+
+    const controller = new AbortController()
+    setTimeout(() => {
+      stream.emit("data", { dataHeader: Buffer.alloc(0), dataBody: Buffer.from("body") })
+    }, 5)
+
+    const received: unknown[] = []
+    const error: unknown = await (async () => {
+      for await (const data of client.doGet(
+        { ticket: Buffer.from("ticket") },
+        { signal: controller.signal }
+      )) {
+        received.push(data)
+        controller.abort()
+      }
+    })().catch((e: unknown) => e)
+
+    expect(received).toHaveLength(1)
+    expect(FlightError.isCancelled(error)).toBe(true)
+    expect(stream.cancel).toHaveBeenCalled()
+  })
+
+  it("throws CANCELLED from a server stream that is already aborted", async () => {
+    const stream = createMockStream()
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.listActions = vi.fn(() => stream)
+
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(async () => {
+      for await (const _ of client.listActions({ signal: controller.signal })) {
+        // drain
+      }
+    }).rejects.toMatchObject({ code: "CANCELLED" })
+    expect(stream.cancel).toHaveBeenCalled()
+  })
+
+  it("removes the abort listener when a server stream ends", async () => {
+    const stream = createMockStream()
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.listFlights = vi.fn(() => {
+      setTimeout(() => stream.emit("end"), 5)
+      return stream
+    })
+
+    const controller = new AbortController()
+    for await (const _ of client.listFlights(undefined, { signal: controller.signal })) {
+      // drain
+    }
+    controller.abort()
+
+    expect(stream.cancel).not.toHaveBeenCalled()
+  })
+
+  it("cancels a handshake when aborted", async () => {
+    const stream = createMockStream()
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.handshake = vi.fn(() => stream)
+
+    const controller = new AbortController()
+    const promise = client.handshake({ signal: controller.signal })
+    controller.abort()
+
+    await expect(promise).rejects.toMatchObject({ code: "CANCELLED" })
+    expect(stream.cancel).toHaveBeenCalled()
+  })
+
+  it("rejects a handshake without starting it when already aborted", async () => {
+    const handshake = vi.fn()
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.handshake = handshake
+
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(client.handshake({ signal: controller.signal })).rejects.toMatchObject({
+      code: "CANCELLED"
+    })
+    expect(handshake).not.toHaveBeenCalled()
+  })
+
+  it("cancels a DoPut stream when aborted", () => {
+    const stream = createMockStream()
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.doPut = vi.fn(() => stream)
+
+    const controller = new AbortController()
+    client.doPut({ signal: controller.signal })
+    controller.abort()
+
+    expect(stream.cancel).toHaveBeenCalledTimes(1)
+  })
+
+  it("cancels a DoExchange stream immediately when already aborted", () => {
+    const stream = createMockStream()
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.doExchange = vi.fn(() => stream)
+
+    const controller = new AbortController()
+    controller.abort()
+    client.doExchange({ signal: controller.signal })
+
+    expect(stream.cancel).toHaveBeenCalledTimes(1)
+  })
+
+  it("stops listening for aborts once a DoExchange call finishes", () => {
+    const stream = createMockStream()
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.doExchange = vi.fn(() => stream)
+
+    const controller = new AbortController()
+    client.doExchange({ signal: controller.signal })
+    stream.emit("status", { code: 0, details: "", metadata: new Metadata() })
+    stream.emit("end")
+    controller.abort()
+
+    expect(stream.cancel).not.toHaveBeenCalled()
+  })
+
+  it("stops polling when aborted while waiting between polls", async () => {
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.pollFlightInfo = vi.fn(
+      (
+        _request: unknown,
+        _metadata: unknown,
+        _options: unknown,
+        callback: (err: Error | null, res: unknown) => void
+      ) => {
+        callback(null, {
+          info: undefined,
+          flightDescriptor: { type: 2, path: [], cmd: Buffer.from("retry") },
+          expirationTime: undefined
+        })
+        return createUnaryCall()
+      }
+    )
+
+    const controller = new AbortController()
+    const promise = client.waitForFlightInfo(
+      { type: "cmd", cmd: Buffer.from("query") },
+      { intervalMs: 60000, signal: controller.signal }
+    )
+    setTimeout(() => {
+      controller.abort()
+    }, 5)
+
+    await expect(promise).rejects.toMatchObject({ code: "CANCELLED" })
+  })
+
+  it("stops polling when aborted between iterations", async () => {
+    const pollFlightInfo = vi.fn(
+      (
+        _request: unknown,
+        _metadata: unknown,
+        _options: unknown,
+        callback: (err: Error | null, res: unknown) => void
+      ) => {
+        callback(null, {
+          info: undefined,
+          flightDescriptor: { type: 2, path: [], cmd: Buffer.from("retry") },
+          expirationTime: undefined
+        })
+        return createUnaryCall()
+      }
+    )
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.pollFlightInfo = pollFlightInfo
+
+    const controller = new AbortController()
+    const updates = client.pollFlightInfoUpdates(
+      { type: "cmd", cmd: Buffer.from("query") },
+      { intervalMs: 0, signal: controller.signal }
+    )
+
+    await updates.next()
+    controller.abort()
+
+    await expect(updates.next()).rejects.toMatchObject({ code: "CANCELLED" })
+    expect(pollFlightInfo).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe("retry policy", () => {
+  const retry = { initialBackoffMs: 1, jitter: 0 }
+
+  const unavailable = (): Error =>
+    Object.assign(new Error("14 UNAVAILABLE: connection refused"), {
+      code: 14,
+      details: "connection refused",
+      metadata: new Metadata()
+    })
+
+  const createClient = async (options: object = retry): Promise<FlightClient> => {
+    const client = new FlightClient({ host: "localhost", port: 8815, tls: false, retry: options })
+    await client.connect()
+    return client
+  }
+
+  /**
+   * Mocks a unary method that fails with the given errors before succeeding.
+   */
+  const failThenSucceed = (failures: Error[], response: unknown): ReturnType<typeof vi.fn> =>
+    vi.fn(
+      (
+        _request: unknown,
+        _metadata: unknown,
+        _options: unknown,
+        callback: (err: Error | null, res: unknown) => void
+      ) => {
+        const failure = failures.shift()
+        if (failure !== undefined) {
+          callback(failure, null)
+        } else {
+          callback(null, response)
+        }
+        return createUnaryCall()
+      }
+    )
+
+  /**
+   * Mocks a streaming method whose attempts emit the given events.
+   */
+  const streamAttempts = (
+    attempts: { data: unknown[]; error?: Error }[]
+  ): ReturnType<typeof vi.fn> =>
+    vi.fn(() => {
+      const { data, error } = attempts.shift()!
+      const stream = Object.assign(new EventEmitter(), { cancel: vi.fn() })
+      setTimeout(() => {
+        for (const item of data) {
+          stream.emit("data", item)
+        }
+        if (error !== undefined) {
+          stream.emit("error", error)
+        } else {
+          stream.emit("end")
+        }
+      }, 1)
+      return stream
+    })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("retries a unary call until it succeeds", async () => {
+    const client = await createClient()
+    const getFlightInfo = failThenSucceed([unavailable(), unavailable()], { endpoint: [] })
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.getFlightInfo = getFlightInfo
+
+    const info = await client.getFlightInfo({ type: "path", path: ["test"] })
+
+    expect(info).toEqual({ endpoint: [] })
+    expect(getFlightInfo).toHaveBeenCalledTimes(3)
+  })
+
+  it("gives up after maxAttempts", async () => {
+    const client = await createClient({ ...retry, maxAttempts: 2 })
+    const getSchema = failThenSucceed([unavailable(), unavailable()], {})
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.getSchema = getSchema
+
+    await expect(client.getSchema({ type: "path", path: ["test"] })).rejects.toMatchObject({
+      code: "UNAVAILABLE"
+    })
+    expect(getSchema).toHaveBeenCalledTimes(2)
+  })
+
+  it("does not retry non-retriable errors", async () => {
+    const client = await createClient()
+    const notFound = Object.assign(new Error("5 NOT_FOUND: missing"), {
+      code: 5,
+      details: "missing",
+      metadata: new Metadata()
+    })
+    const getFlightInfo = failThenSucceed([notFound], {})
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.getFlightInfo = getFlightInfo
+
+    await expect(client.getFlightInfo({ type: "path", path: ["test"] })).rejects.toMatchObject({
+      code: "NOT_FOUND"
+    })
+    expect(getFlightInfo).toHaveBeenCalledTimes(1)
+  })
+
+  it("does not retry when no policy is configured", async () => {
+    const client = new FlightClient({ host: "localhost", port: 8815, tls: false })
+    await client.connect()
+    const getFlightInfo = failThenSucceed([unavailable()], {})
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.getFlightInfo = getFlightInfo
+
+    await expect(client.getFlightInfo({ type: "path", path: ["test"] })).rejects.toMatchObject({
+      code: "UNAVAILABLE"
+    })
+    expect(getFlightInfo).toHaveBeenCalledTimes(1)
+  })
+
+  it("retries a stream that fails before yielding", async () => {
+    const client = await createClient()
+    const listActions = streamAttempts([
+      { data: [], error: unavailable() },
+      { data: [{ type: "clear", description: "" }] }
+    ])
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.listActions = listActions
+
+    const actions = []
+    for await (const action of client.listActions()) {
+      actions.push(action)
+    }
+
+    expect(actions).toEqual([{ type: "clear", description: "" }])
+    expect(listActions).toHaveBeenCalledTimes(2)
+  })
+
+  it("does not retry a stream that already yielded", async () => {
+    const client = await createClient()
+    const listFlights = streamAttempts([
+      { data: [{ endpoint: [] }], error: unavailable() },
+      { data: [{ endpoint: [] }] }
+    ])
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.listFlights = listFlights
+
+    const flights: unknown[] = []
+    await expect(async () => {
+      for await (const info of client.listFlights()) {
+        flights.push(info)
+      }
+    }).rejects.toMatchObject({ code: "UNAVAILABLE" })
+
+    expect(flights).toHaveLength(1)
+    expect(listFlights).toHaveBeenCalledTimes(1)
+  })
+
+  it("retries doGet only when opted in", async () => {
+    const ticket = { ticket: Buffer.from("ticket") }
+    const data = { dataHeader: Buffer.alloc(0), dataBody: Buffer.from("body") }
+
+    const defaultClient = await createClient()
+    // @ts-expect-error accessing private property
+    defaultClient.grpcClient.client.doGet = streamAttempts([{ data: [], error: unavailable() }])
+    await expect(async () => {
+      for await (const _ of defaultClient.doGet(ticket)) {
+        // drain
+      }
+    }).rejects.toMatchObject({ code: "UNAVAILABLE" })
+
+    const optedIn = await createClient({ ...retry, methods: ["doGet"] })
+    const doGet = streamAttempts([{ data: [], error: unavailable() }, { data: [data] }])
+    // @ts-expect-error accessing private property
+    optedIn.grpcClient.client.doGet = doGet
+
+    const received = []
+    for await (const item of optedIn.doGet(ticket)) {
+      received.push(item)
+    }
+    expect(received).toEqual([data])
+    expect(doGet).toHaveBeenCalledTimes(2)
+  })
+
+  it("stops retrying when the call is aborted during backoff", async () => {
+    const client = await createClient({ ...retry, initialBackoffMs: 60000 })
+    const getFlightInfo = failThenSucceed([unavailable()], {})
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.getFlightInfo = getFlightInfo
+
+    const controller = new AbortController()
+    const promise = client.getFlightInfo(
+      { type: "path", path: ["test"] },
+      { signal: controller.signal }
+    )
+    setTimeout(() => {
+      controller.abort()
+    }, 5)
+
+    await expect(promise).rejects.toMatchObject({ code: "CANCELLED" })
+    expect(getFlightInfo).toHaveBeenCalledTimes(1)
+  })
+
+  it("rejects an invalid policy at construction", () => {
+    expect(() => new FlightClient({ host: "localhost", retry: { maxAttempts: 0 } })).toThrow(
+      "retry maxAttempts must be a positive integer"
+    )
+  })
+})
+
+describe("client middleware", () => {
+  const createClient = async (middleware: ClientMiddlewareFactory[]): Promise<FlightClient> => {
+    const client = new FlightClient({ host: "localhost", port: 8815, tls: false, middleware })
+    await client.connect()
+    return client
+  }
+
+  /**
+   * Creates an emitter that completes like a grpc-js call.
+   */
+  const createCall = (): EventEmitter & { cancel: () => void; write: () => boolean } =>
+    Object.assign(new EventEmitter(), { cancel: vi.fn(), write: vi.fn(() => true) })
+
+  const completeCall = (call: EventEmitter, code = 0): void => {
+    const headers = new Metadata()
+    headers.set("x-server", "mock")
+    call.emit("metadata", headers)
+    const status = { code, details: "", metadata: new Metadata() }
+    // grpc-js emits the error of a failed call before its status
+    if (code !== 0) {
+      call.emit("error", Object.assign(new Error(String(code)), status))
+    }
+    call.emit("status", status)
+  }
+
+  it("observes unary calls", async () => {
+    const seen: string[] = []
+    const client = await createClient([
+      ({ method }) => ({
+        sendingHeaders: (headers) => {
+          headers.set("x-trace-id", "trace-1")
+        },
+        receivedHeaders: (headers) => seen.push(`${method} ${String(headers.get("x-server")[0])}`),
+        callCompleted: ({ code }) => seen.push(`${method} ${code}`)
+      })
+    ])
+    let sentMetadata: Metadata | undefined
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.getFlightInfo = vi.fn(
+      (
+        _request: unknown,
+        metadata: Metadata,
+        _options: unknown,
+        callback: (err: Error | null, res: unknown) => void
+      ) => {
+        sentMetadata = metadata
+        const call = createCall()
+        setTimeout(() => {
+          completeCall(call)
+          callback(null, { endpoint: [] })
+        }, 1)
+        return call
+      }
+    )
+
+    await client.getFlightInfo({ type: "path", path: ["test"] })
+
+    expect(sentMetadata?.get("x-trace-id")).toEqual(["trace-1"])
+    expect(seen).toEqual(["GetFlightInfo mock", "GetFlightInfo OK"])
+  })
+
+  it("observes streaming calls", async () => {
+    const callCompleted = vi.fn()
+    const client = await createClient([() => ({ callCompleted })])
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.listActions = vi.fn(() => {
+      const call = createCall()
+      setTimeout(() => {
+        call.emit("end")
+        completeCall(call)
+      }, 1)
+      return call
+    })
+
+    for await (const _ of client.listActions()) {
+      // drain
+    }
+    await new Promise((resolve) => setTimeout(resolve, 5))
+
+    expect(callCompleted).toHaveBeenCalledWith(expect.objectContaining({ code: "OK" }))
+  })
+
+  it("observes bidirectional calls and reports failures", async () => {
+    const methods: string[] = []
+    const callCompleted = vi.fn()
+    const client = await createClient([
+      ({ method }) => {
+        methods.push(method)
+        return { callCompleted }
+      }
+    ])
+    const call = createCall()
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.doPut = vi.fn(() => call)
+
+    client.doPut()
+    completeCall(call, 14)
+
+    expect(methods).toEqual(["DoPut"])
+    expect(callCompleted).toHaveBeenCalledWith(expect.objectContaining({ code: "UNAVAILABLE" }))
+  })
+})
+
+describe("putTable", () => {
+  const createPutCall = (): EventEmitter & {
+    written: FlightData[]
+    write: (data: FlightData) => boolean
+    end: () => void
+    cancel: () => void
+  } => {
+    const call = Object.assign(new EventEmitter(), {
+      written: [] as FlightData[],
+      write: vi.fn((data: FlightData) => {
+        call.written.push(data)
+        return true
+      }),
+      end: vi.fn(() => {
+        setTimeout(() => {
+          call.emit("data", { appMetadata: Buffer.from("ack") })
+          call.emit("end")
+        }, 1)
+      }),
+      cancel: vi.fn()
+    })
+    return call
+  }
+
+  const createClient = async (): Promise<FlightClient> => {
+    const client = new FlightClient({ host: "localhost", port: 8815, tls: false })
+    await client.connect()
+    return client
+  }
+
+  it("writes the encoded table and returns the acknowledgements", async () => {
+    const client = await createClient()
+    const call = createPutCall()
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.doPut = vi.fn(() => call)
+
+    const table = tableFromArrays({ id: Int32Array.from([1, 2, 3]) })
+    const results = await client.putTable({ type: "path", path: ["my", "table"] }, table)
+
+    expect(results).toEqual([{ appMetadata: Buffer.from("ack") }])
+    expect(call.written).toHaveLength(2)
+    expect(call.written[0].flightDescriptor?.path).toEqual(["my", "table"])
+    expect(tableFromIPC(flightDataToIpc(call.written)).numRows).toBe(3)
+    expect(call.end).toHaveBeenCalled()
+  })
+
+  it("rejects with the server error", async () => {
+    const client = await createClient()
+    const call = createPutCall()
+    call.end = vi.fn(() => {
+      call.emit(
+        "error",
+        Object.assign(new Error("13 INTERNAL: disk full"), {
+          code: 13,
+          details: "disk full",
+          metadata: new Metadata()
+        })
+      )
+    })
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.doPut = vi.fn(() => call)
+
+    const table = tableFromArrays({ id: Int32Array.from([1]) })
+
+    await expect(client.putTable({ type: "path", path: ["t"] }, table)).rejects.toMatchObject({
+      code: "INTERNAL"
+    })
+  })
+
+  it("cancels the upload when the source fails", async () => {
+    const client = await createClient()
+    const call = createPutCall()
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.doPut = vi.fn(() => call)
+
+    const batch = tableFromArrays({ id: Int32Array.from([1]) }).batches[0]
+    async function* failing(): AsyncGenerator<RecordBatch> {
+      yield await Promise.resolve(batch)
+      throw new Error("source failed")
+    }
+
+    await expect(client.putTable({ type: "path", path: ["t"] }, failing())).rejects.toThrow(
+      "source failed"
+    )
+    expect(call.cancel).toHaveBeenCalled()
+    expect(call.end).not.toHaveBeenCalled()
+  })
+})
+
+describe("doGetRecordBatches", () => {
+  it("decodes the doGet stream into record batches", async () => {
+    const client = new FlightClient({ host: "localhost", port: 8815, tls: false })
+    await client.connect()
+
+    const messages: FlightData[] = []
+    for await (const data of recordBatchesToFlightData(
+      tableFromArrays({ id: Int32Array.from([1, 2, 3]) })
+    )) {
+      messages.push(data)
+    }
+
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.doGet = vi.fn(() => {
+      const stream = Object.assign(new EventEmitter(), { cancel: vi.fn() })
+      setTimeout(() => {
+        for (const data of messages) {
+          stream.emit("data", data)
+        }
+        stream.emit("end")
+      }, 1)
+      return stream
+    })
+
+    const stream = await client.doGetRecordBatches({ ticket: Buffer.from("ticket") })
+    const rows: number[] = []
+    for await (const { batch } of stream) {
+      rows.push(...batch.getChild("id")!.toArray())
+    }
+
+    expect(stream.schema.names).toEqual(["id"])
+    expect(rows).toEqual([1, 2, 3])
+  })
+})
+
+describe("readFlight", () => {
+  const encodeTable = async (ids: number[]): Promise<FlightData[]> => {
+    const messages: FlightData[] = []
+    for await (const data of recordBatchesToFlightData(
+      tableFromArrays({ id: Int32Array.from(ids) })
+    )) {
+      messages.push(data)
+    }
+    return messages
+  }
+
+  /**
+   * Mocks doGet to serve each ticket's messages after the given delay.
+   */
+  const serveTickets = (
+    client: FlightClient,
+    responses: Record<string, { messages: FlightData[]; delayMs: number }>
+  ): ReturnType<typeof vi.fn> => {
+    const doGet = vi.fn((ticket: { ticket: Buffer }) => {
+      const { messages, delayMs } = responses[ticket.ticket.toString()]
+      const stream = Object.assign(new EventEmitter(), {
+        cancel: vi.fn(() => {
+          clearTimeout(timer)
+          stream.emit(
+            "error",
+            Object.assign(new Error("1 CANCELLED"), {
+              code: 1,
+              details: "cancelled",
+              metadata: new Metadata()
+            })
+          )
+        })
+      })
+      const timer = setTimeout(() => {
+        for (const data of messages) {
+          stream.emit("data", data)
+        }
+        stream.emit("end")
+      }, delayMs)
+      return stream
+    })
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.doGet = doGet
+    return doGet
+  }
+
+  const flightInfo = (tickets: string[], ordered: boolean): FlightInfo => ({
+    schema: Buffer.alloc(0),
+    flightDescriptor: undefined,
+    endpoint: tickets.map((ticket) => ({
+      ticket: { ticket: Buffer.from(ticket) },
+      location: [],
+      expirationTime: undefined,
+      appMetadata: Buffer.alloc(0)
+    })),
+    totalRecords: -1,
+    totalBytes: -1,
+    ordered,
+    appMetadata: Buffer.alloc(0)
+  })
+
+  const createClient = async (): Promise<FlightClient> => {
+    const client = new FlightClient({ host: "localhost", port: 8815, tls: false })
+    await client.connect()
+    return client
+  }
+
+  it("reads ordered endpoints in order while fetching them concurrently", async () => {
+    const client = await createClient()
+    const doGet = serveTickets(client, {
+      first: { messages: await encodeTable([1, 2]), delayMs: 20 },
+      second: { messages: await encodeTable([3]), delayMs: 1 }
+    })
+
+    const ids: number[] = []
+    for await (const { batch } of client.readFlight(flightInfo(["first", "second"], true))) {
+      ids.push(...batch.getChild("id")!.toArray())
+    }
+
+    expect(ids).toEqual([1, 2, 3])
+    expect(doGet).toHaveBeenCalledTimes(2)
+  })
+
+  it("yields unordered endpoints as they arrive", async () => {
+    const client = await createClient()
+    serveTickets(client, {
+      first: { messages: await encodeTable([1, 2]), delayMs: 20 },
+      second: { messages: await encodeTable([3]), delayMs: 1 }
+    })
+
+    const table = await client.readFlightTable(flightInfo(["first", "second"], false))
+
+    expect([...table.getChild("id")!.toArray()]).toEqual([3, 1, 2])
+  })
+
+  it("cancels the remaining endpoints when reading stops early", async () => {
+    const client = await createClient()
+    const doGet = serveTickets(client, {
+      first: { messages: await encodeTable([1]), delayMs: 1 },
+      second: { messages: await encodeTable([2]), delayMs: 50 }
+    })
+
+    for await (const { batch } of client.readFlight(flightInfo(["first", "second"], true), {
+      signal: new AbortController().signal
+    })) {
+      expect(batch.numRows).toBe(1)
+      break
+    }
+
+    const second = doGet.mock.results[1].value as { cancel: ReturnType<typeof vi.fn> }
+    expect(second.cancel).toHaveBeenCalled()
+  })
+
+  it("rejects endpoints without a ticket", async () => {
+    const client = await createClient()
+    const info = flightInfo(["first"], false)
+    info.endpoint[0].ticket = undefined
+
+    await expect(client.readFlightTable(info)).rejects.toThrow("flight endpoint has no ticket")
+  })
+
+  it("rejects an invalid concurrency", async () => {
+    const client = await createClient()
+
+    await expect(client.readFlightTable(flightInfo([], false), { concurrency: 0 })).rejects.toThrow(
+      "concurrency must be a positive integer"
+    )
+  })
+})
+
+describe("endpoint locations", () => {
+  const createClient = async (): Promise<FlightClient> => {
+    const client = new FlightClient({ host: "localhost", port: 8815, tls: false })
+    await client.connect()
+    return client
+  }
+
+  const unavailable = (): Error =>
+    Object.assign(new Error("14 UNAVAILABLE: connection refused"), {
+      code: 14,
+      details: "connection refused",
+      metadata: new Metadata()
+    })
+
+  const endpoint = (...uris: string[]): FlightEndpoint => ({
+    ticket: { ticket: Buffer.from("ticket") },
+    location: uris.map((uri) => ({ uri })),
+    expirationTime: undefined,
+    appMetadata: Buffer.alloc(0)
+  })
+
+  const data = (body: string): FlightData => ({
+    flightDescriptor: undefined,
+    dataHeader: Buffer.alloc(0),
+    dataBody: Buffer.from(body),
+    appMetadata: Buffer.alloc(0)
+  })
+
+  /**
+   * Serves doGet per client address; a missing address fails the call.
+   */
+  const serveByAddress = (
+    responses: Record<string, FlightData[] | "fail-after-first">
+  ): { addresses: string[] } => {
+    const addresses: string[] = []
+    vi.spyOn(FlightClient.prototype, "doGet").mockImplementation(async function* (
+      this: FlightClient
+    ) {
+      addresses.push(this.address)
+      await Promise.resolve()
+      const response = responses[this.address] as FlightData[] | "fail-after-first" | undefined
+      if (response === undefined) {
+        throw FlightError.fromGrpcError(unavailable())
+      }
+      if (response === "fail-after-first") {
+        yield data("partial")
+        throw FlightError.fromGrpcError(unavailable())
+      }
+      yield* response
+    })
+    return { addresses }
+  }
+
+  const collect = async (source: AsyncIterable<FlightData>): Promise<string[]> => {
+    const bodies: string[] = []
+    for await (const item of source) {
+      bodies.push(item.dataBody.toString())
+    }
+    return bodies
+  }
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("returns itself for reuse and own locations", async () => {
+    const client = await createClient()
+
+    expect(await client.getLocationClient("")).toBe(client)
+    expect(await client.getLocationClient("arrow-flight-reuse-connection://?")).toBe(client)
+    expect(await client.getLocationClient({ uri: "grpc://localhost:8815" })).toBe(client)
+  })
+
+  it("caches one connected client per target and shares the bearer token", async () => {
+    const client = await createClient()
+    client.setBearerToken("token-1")
+
+    const [first, second] = await Promise.all([
+      client.getLocationClient("grpc://data.example.com:9000"),
+      client.getLocationClient("grpc://data.example.com:9000")
+    ])
+
+    expect(first).not.toBe(client)
+    expect(first).toBe(second)
+    expect(first.isConnected).toBe(true)
+    expect(first.address).toBe("data.example.com:9000")
+    expect(first.getBearerToken()).toBe("token-1")
+
+    client.clearBearerToken()
+    await client.getLocationClient("grpc://data.example.com:9000")
+    expect(first.getBearerToken()).toBeNull()
+  })
+
+  it("does not share credentials or the TLS server name", async () => {
+    const client = new FlightClient({
+      host: "localhost",
+      port: 8815,
+      tls: { rootCerts: "ca", serverNameOverride: "origin" },
+      credentials: { _credentials: "mock" } as unknown as ChannelCredentials
+    })
+    await client.connect()
+
+    const remote = await client.getLocationClient("grpc+tls://data.example.com:9000")
+
+    // @ts-expect-error accessing private property
+    expect(remote.options).toMatchObject({
+      tls: { rootCerts: "ca", serverNameOverride: undefined },
+      credentials: undefined
+    })
+  })
+
+  it("pools Unix domain socket locations", async () => {
+    const client = await createClient()
+
+    const unix = await client.getLocationClient("grpc+unix:///var/run/flight.sock")
+
+    expect(unix).not.toBe(client)
+    expect(unix.address).toBe("unix:/var/run/flight.sock")
+    expect(await client.getLocationClient("grpc+unix:///var/run/flight.sock")).toBe(unix)
+    expect(await unix.getLocationClient("grpc+unix:///var/run/flight.sock")).toBe(unix)
+  })
+
+  it("connects with TLS to secure locations", async () => {
+    const client = await createClient()
+
+    const secure = await client.getLocationClient("grpc+tls://data.example.com:9000")
+    const plain = await client.getLocationClient("grpc://data.example.com:9000")
+
+    expect(secure).not.toBe(plain)
+    expect(secure.address).toBe("data.example.com:9000")
+  })
+
+  it("reconnects after a failed connection attempt", async () => {
+    const client = await createClient()
+    const connect = vi
+      .spyOn(FlightClient.prototype, "connect")
+      .mockRejectedValueOnce(new FlightError("connection refused", "UNAVAILABLE"))
+
+    await expect(client.getLocationClient("grpc://down.example.com:1")).rejects.toThrow(
+      "connection refused"
+    )
+    const remote = await client.getLocationClient("grpc://down.example.com:1")
+
+    expect(remote.address).toBe("down.example.com:1")
+    expect(connect).toHaveBeenCalledTimes(2)
+  })
+
+  it("closes location clients when closed", async () => {
+    const client = await createClient()
+    const remote = await client.getLocationClient("grpc://data.example.com:9000")
+
+    client.close()
+    await Promise.resolve()
+
+    expect(remote.state).toBe("closed")
+    await expect(client.getLocationClient("grpc://data.example.com:9000")).rejects.toThrow(
+      "client has been closed"
+    )
+  })
+
+  it("ignores location clients that fail to connect while closing", async () => {
+    const client = await createClient()
+    vi.spyOn(FlightClient.prototype, "connect").mockRejectedValueOnce(
+      new FlightError("connection refused", "UNAVAILABLE")
+    )
+
+    const pending = client.getLocationClient("grpc://down.example.com:1")
+    client.close()
+
+    await expect(pending).rejects.toThrow("connection refused")
+  })
+
+  it("reads endpoints without locations from this client", async () => {
+    const client = await createClient()
+    const { addresses } = serveByAddress({ "localhost:8815": [data("local")] })
+
+    expect(await collect(client.doGetEndpoint(endpoint()))).toEqual(["local"])
+    expect(addresses).toEqual(["localhost:8815"])
+  })
+
+  it("falls back to alternate locations", async () => {
+    const client = await createClient()
+    const { addresses } = serveByAddress({ "backup.example.com:9000": [data("backup")] })
+
+    const bodies = await collect(
+      client.doGetEndpoint(
+        endpoint("grpc://primary.example.com:9000", "grpc://backup.example.com:9000")
+      )
+    )
+
+    expect(bodies).toEqual(["backup"])
+    expect(addresses).toEqual(["primary.example.com:9000", "backup.example.com:9000"])
+  })
+
+  it("throws the last error when every location fails", async () => {
+    const client = await createClient()
+    serveByAddress({})
+
+    await expect(
+      collect(client.doGetEndpoint(endpoint("grpc://a.example.com:1", "unknown://b")))
+    ).rejects.toThrow("unsupported scheme: unknown")
+  })
+
+  it("does not fall back once data has been received", async () => {
+    const client = await createClient()
+    const { addresses } = serveByAddress({
+      "primary.example.com:9000": "fail-after-first",
+      "backup.example.com:9000": [data("backup")]
+    })
+
+    const bodies: string[] = []
+    await expect(async () => {
+      for await (const item of client.doGetEndpoint(
+        endpoint("grpc://primary.example.com:9000", "grpc://backup.example.com:9000")
+      )) {
+        bodies.push(item.dataBody.toString())
+      }
+    }).rejects.toMatchObject({ code: "UNAVAILABLE" })
+
+    expect(bodies).toEqual(["partial"])
+    expect(addresses).toEqual(["primary.example.com:9000"])
+  })
+
+  it("does not fall back once the call is aborted", async () => {
+    const client = await createClient()
+    const { addresses } = serveByAddress({})
+    const controller = new AbortController()
+    controller.abort()
+
+    await expect(
+      collect(
+        client.doGetEndpoint(endpoint("grpc://a.example.com:1", "grpc://b.example.com:1"), {
+          signal: controller.signal
+        })
+      )
+    ).rejects.toMatchObject({ code: "UNAVAILABLE" })
+    expect(addresses).toEqual(["a.example.com:1"])
+  })
+
+  it("rejects endpoints without a ticket", async () => {
+    const client = await createClient()
+
+    await expect(
+      collect(client.doGetEndpoint({ ...endpoint(), ticket: undefined }))
+    ).rejects.toThrow("flight endpoint has no ticket")
+  })
+})
+
+describe("token refresh", () => {
+  const unauthenticated = (): Error =>
+    Object.assign(new Error("16 UNAUTHENTICATED: token expired"), {
+      code: 16,
+      details: "token expired",
+      metadata: new Metadata()
+    })
+
+  const createClient = async (tokenRefresh?: TokenRefresh): Promise<FlightClient> => {
+    const client = new FlightClient({ host: "localhost", port: 8815, tls: false, tokenRefresh })
+    await client.connect()
+    client.setBearerToken("expired")
+    return client
+  }
+
+  /**
+   * Mocks a unary method that rejects the expired token, recording the
+   * authorization header of every call.
+   */
+  const unaryRejectingExpired = (
+    headers: string[],
+    response: unknown = {}
+  ): ReturnType<typeof vi.fn> =>
+    vi.fn(
+      (
+        _request: unknown,
+        metadata: Metadata,
+        _options: unknown,
+        callback: (err: Error | null, res: unknown) => void
+      ) => {
+        const header = String(metadata.get("authorization")[0])
+        headers.push(header)
+        setTimeout(() => {
+          if (header === "Bearer expired") {
+            callback(unauthenticated(), null)
+          } else {
+            callback(null, response)
+          }
+        }, 1)
+        return new EventEmitter()
+      }
+    )
+
+  /**
+   * Mocks a server-streaming method that rejects the expired token,
+   * optionally after yielding some data.
+   */
+  const streamRejectingExpired = (
+    headers: string[],
+    data: unknown[],
+    dataBeforeError: unknown[] = []
+  ): ReturnType<typeof vi.fn> =>
+    vi.fn((_request: unknown, metadata: Metadata) => {
+      const header = String(metadata.get("authorization")[0])
+      headers.push(header)
+      const stream = Object.assign(new EventEmitter(), { cancel: vi.fn() })
+      setTimeout(() => {
+        if (header === "Bearer expired") {
+          for (const item of dataBeforeError) {
+            stream.emit("data", item)
+          }
+          stream.emit("error", unauthenticated())
+        } else {
+          for (const item of data) {
+            stream.emit("data", item)
+          }
+          stream.emit("end")
+        }
+      }, 1)
+      return stream
+    })
+
+  const mockHandshake = (client: FlightClient, token: string): ReturnType<typeof vi.fn> => {
+    const handshake = vi.fn((metadata: Metadata) => {
+      const stream = Object.assign(new EventEmitter(), { write: vi.fn(), end: vi.fn() })
+      setTimeout(() => {
+        const headers = new Metadata()
+        headers.set("authorization", `Bearer ${token}`)
+        stream.emit("metadata", headers)
+        stream.emit("data", {
+          protocolVersion: 0,
+          payload: Buffer.from(String(metadata.get("authorization").length))
+        })
+        stream.emit("end")
+      }, 1)
+      return stream
+    })
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.handshake = handshake
+    return handshake
+  }
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it("does not refresh tokens unless enabled", async () => {
+    const client = await createClient()
+    const headers: string[] = []
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.getFlightInfo = unaryRejectingExpired(headers)
+
+    await expect(client.getFlightInfo(pathDescriptor("a"))).rejects.toMatchObject({
+      code: "UNAUTHENTICATED"
+    })
+    expect(headers).toEqual(["Bearer expired"])
+  })
+
+  it("re-runs the handshake and replays a unary call", async () => {
+    const client = await createClient("handshake")
+    const handshake = mockHandshake(client, "fresh")
+    const headers: string[] = []
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.getFlightInfo = unaryRejectingExpired(headers, { endpoint: [] })
+
+    const info = await client.getFlightInfo(pathDescriptor("a"))
+
+    expect(info).toEqual({ endpoint: [] })
+    expect(headers).toEqual(["Bearer expired", "Bearer fresh"])
+    expect(handshake).toHaveBeenCalledTimes(1)
+    // The expired token is not sent with the handshake
+    expect(handshake.mock.calls[0][0].get("authorization")).toEqual([])
+    expect(client.getBearerToken()).toBe("fresh")
+  })
+
+  it("uses the token provider and replays an unstarted stream", async () => {
+    const tokenProvider = vi.fn(async () => Promise.resolve("fresh"))
+    const client = await createClient(tokenProvider)
+    const headers: string[] = []
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.doAction = streamRejectingExpired(headers, [
+      { body: Buffer.from("ok") }
+    ])
+
+    const results: string[] = []
+    for await (const result of client.doAction({ type: "ping", body: Buffer.alloc(0) })) {
+      results.push(result.body.toString())
+    }
+
+    expect(results).toEqual(["ok"])
+    expect(headers).toEqual(["Bearer expired", "Bearer fresh"])
+    expect(tokenProvider).toHaveBeenCalledTimes(1)
+  })
+
+  it("refreshes tokens for retried and session calls", async () => {
+    const { CloseSessionResult } = await import("../../generated/arrow/flight/protocol/Flight.js")
+    const client = await createClient(async () => Promise.resolve("fresh"))
+    const headers: string[] = []
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.pollFlightInfo = unaryRejectingExpired(headers, { progress: 1 })
+
+    expect(await client.pollFlightInfo(pathDescriptor("a"))).toEqual({ progress: 1 })
+
+    client.setBearerToken("expired")
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.listActions = streamRejectingExpired(headers, [{ type: "ping" }])
+    const actions: string[] = []
+    for await (const action of client.listActions()) {
+      actions.push(action.type)
+    }
+
+    client.setBearerToken("expired")
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.doAction = streamRejectingExpired(headers, [
+      { body: Buffer.from(CloseSessionResult.encode({ status: 1 }).finish()) }
+    ])
+    const status = await client.closeSession()
+
+    expect(actions).toEqual(["ping"])
+    expect(status).toBe("closed")
+    expect(headers).toEqual([
+      "Bearer expired",
+      "Bearer fresh",
+      "Bearer expired",
+      "Bearer fresh",
+      "Bearer expired",
+      "Bearer fresh"
+    ])
+  })
+
+  it("does not replay streams that already yielded data", async () => {
+    const tokenProvider = vi.fn(async () => Promise.resolve("fresh"))
+    const client = await createClient(tokenProvider)
+    const headers: string[] = []
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.doGet = streamRejectingExpired(
+      headers,
+      [],
+      [{ dataBody: Buffer.alloc(0) }]
+    )
+
+    await expect(async () => {
+      for await (const data of client.doGet({ ticket: Buffer.from("t") })) {
+        expect(data).toBeDefined()
+      }
+    }).rejects.toMatchObject({ code: "UNAUTHENTICATED" })
+    expect(headers).toEqual(["Bearer expired"])
+    expect(tokenProvider).not.toHaveBeenCalled()
+  })
+
+  it("replays a call only once", async () => {
+    const client = await createClient(async () => Promise.resolve("expired"))
+    const headers: string[] = []
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.getSchema = unaryRejectingExpired(headers)
+
+    await expect(client.getSchema(pathDescriptor("a"))).rejects.toMatchObject({
+      code: "UNAUTHENTICATED"
+    })
+    expect(headers).toEqual(["Bearer expired", "Bearer expired"])
+  })
+
+  it("shares one refresh between concurrent calls", async () => {
+    const tokenProvider = vi.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      return "fresh"
+    })
+    const client = await createClient(tokenProvider)
+    const headers: string[] = []
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.getFlightInfo = unaryRejectingExpired(headers, { endpoint: [] })
+
+    await Promise.all([
+      client.getFlightInfo(pathDescriptor("a")),
+      client.getFlightInfo(pathDescriptor("b"))
+    ])
+
+    expect(tokenProvider).toHaveBeenCalledTimes(1)
+    expect(headers.filter((header) => header === "Bearer fresh")).toHaveLength(2)
+  })
+
+  it("fails with the refresh error when the refresh fails", async () => {
+    const client = await createClient(async () =>
+      Promise.reject(new FlightError("identity provider down", "UNAVAILABLE"))
+    )
+    const headers: string[] = []
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.getFlightInfo = unaryRejectingExpired(headers)
+
+    await expect(client.getFlightInfo(pathDescriptor("a"))).rejects.toThrow(
+      "identity provider down"
+    )
+    // A later failure starts a new refresh
+    await expect(client.getFlightInfo(pathDescriptor("a"))).rejects.toThrow(
+      "identity provider down"
+    )
+  })
+})
+
+describe("token provider", () => {
+  const createClient = async (getToken: () => Promise<string>): Promise<FlightClient> => {
+    const client = new FlightClient({
+      host: "localhost",
+      port: 8815,
+      tls: false,
+      auth: { type: "tokenProvider", getToken }
+    })
+    await client.connect()
+    return client
+  }
+
+  /**
+   * Mocks a bidirectional method, recording the metadata of every call.
+   */
+  const mockBidi = (client: FlightClient, method: "doPut" | "doExchange"): Metadata[] => {
+    const calls: Metadata[] = []
+    // @ts-expect-error accessing private property
+    client.grpcClient.client[method] = vi.fn((metadata: Metadata) => {
+      calls.push(metadata)
+      return Object.assign(new EventEmitter(), {
+        write: vi.fn(() => true),
+        end: vi.fn(),
+        cancel: vi.fn()
+      })
+    })
+    return calls
+  }
+
+  it("starts streams once the provider's token is in their metadata", async () => {
+    const getToken = vi.fn(async () => Promise.resolve("fresh"))
+    const client = await createClient(getToken)
+    const calls = mockBidi(client, "doPut")
+
+    const first = client.doPut()
+    const written = first.writeAsync(data("held"))
+    expect(calls).toHaveLength(0)
+    await written
+    // The token is now cached, so the next stream starts at once
+    client.doPut()
+
+    expect(calls.map((metadata) => metadata.get("authorization"))).toEqual([
+      ["Bearer fresh"],
+      ["Bearer fresh"]
+    ])
+    expect(getToken).toHaveBeenCalledTimes(1)
+  })
+
+  it("fails streams when the provider fails", async () => {
+    const client = await createClient(async () => Promise.reject(new Error("provider down")))
+    const calls = mockBidi(client, "doExchange")
+
+    const stream = client.doExchange()
+
+    await expect(stream.collectResults()).rejects.toThrow("provider down")
+    await expect(stream.writeAsync(data("late"))).rejects.toThrow("provider down")
+    expect(calls).toHaveLength(0)
+  })
+
+  it("wraps non-Error provider failures", async () => {
+    // eslint-disable-next-line @typescript-eslint/prefer-promise-reject-errors
+    const client = await createClient(async () => Promise.reject("provider down"))
+    mockBidi(client, "doExchange")
+
+    await expect(client.doExchange().collectResults()).rejects.toThrow("provider down")
+  })
+
+  it("does not ask the provider for a token for the handshake", async () => {
+    const getToken = vi.fn(async () => Promise.resolve("fresh"))
+    const client = await createClient(getToken)
+    const handshake = respondToHandshake(new CallMetadata())
+    // @ts-expect-error accessing private property
+    client.grpcClient.handshake = handshake
+
+    await client.handshake()
+
+    expect(handshake.mock.calls[0][0].get("authorization")).toEqual([])
+    expect(getToken).not.toHaveBeenCalled()
+  })
+
+  it("lets a bearer token take precedence over the provider", async () => {
+    const getToken = vi.fn(async () => Promise.resolve("provided"))
+    const client = await createClient(getToken)
+    client.setBearerToken("manual")
+    const calls = mockBidi(client, "doPut")
+    // @ts-expect-error accessing private property
+    client.grpcClient.client.getSchema = vi.fn(
+      (
+        _request: unknown,
+        metadata: Metadata,
+        _options: unknown,
+        callback: (err: Error | null, res: unknown) => void
+      ) => {
+        callback(null, { schema: Buffer.from(String(metadata.get("authorization")[0])) })
+        return new EventEmitter()
+      }
+    )
+
+    const { schema } = await client.getSchema(pathDescriptor("a"))
+    client.doPut()
+
+    expect(schema.toString()).toBe("Bearer manual")
+    expect(calls[0].get("authorization")).toEqual(["Bearer manual"])
+    expect(getToken).not.toHaveBeenCalled()
+  })
 })
@@ -1,6 +1,8 @@
 import { describe, expect, it } from "vitest"
 
 import { createFlightClient, FlightClient } from "../../client"
+import { createDefaultTransport } from "../../default-transport.browser"
+import { LocationParseError } from "../../location"
 
 describe("FlightClient", () => {
   describe("constructor", () => {
@@ -33,6 +35,41 @@ describe("FlightClient", () => {
       // tls object is truthy, so it should use TLS port
       expect(client.address).toBe("localhost:443")
     })
+
+    it("computes address for a Unix domain socket", () => {
+      const client = new FlightClient({ host: "localhost", socketPath: "/tmp/flight.sock" })
+      expect(client.address).toBe("unix:/tmp/flight.sock")
+    })
+  })
+
+  describe("fromLocation", () => {
+    it("maps each scheme to its target", () => {
+      expect(FlightClient.fromLocation("grpc://localhost:8815").address).toBe("localhost:8815")
+      expect(FlightClient.fromLocation("grpc+tls://flight.example.com").address).toBe(
+        "flight.example.com:443"
+      )
+      expect(FlightClient.fromLocation("http://localhost").address).toBe("localhost:80")
+      expect(FlightClient.fromLocation({ uri: "https://flight.example.com:8443" }).address).toBe(
+        "flight.example.com:8443"
+      )
+      expect(FlightClient.fromLocation("grpc+unix:///tmp/flight.sock").address).toBe(
+        "unix:/tmp/flight.sock"
+      )
+    })
+
+    it("creates a disconnected client with the given options", () => {
+      const client = FlightClient.fromLocation("grpc://localhost:8815", {
+        auth: { type: "bearer", token: "token" }
+      })
+
+      expect(client.state).toBe("disconnected")
+      expect(client.createMetadata().get("authorization")).toEqual(["Bearer token"])
+    })
+
+    it("rejects locations without an address", () => {
+      expect(() => FlightClient.fromLocation("")).toThrow(LocationParseError)
+      expect(() => FlightClient.fromLocation("ftp://localhost")).toThrow("unsupported scheme: ftp")
+    })
   })
 
   describe("bearer token management", () => {
@@ -97,6 +134,35 @@ describe("FlightClient", () => {
     })
   })
 
+  describe("createCallOptions", () => {
+    it("sets no deadline when no timeout configured", () => {
+      const client = new FlightClient({ host: "localhost" })
+      expect(client.createCallOptions()).toEqual({})
+    })
+
+    it("derives the deadline from the call timeout", () => {
+      const client = new FlightClient({ host: "localhost" })
+      const before = Date.now()
+      const options = client.createCallOptions({ timeoutMs: 5000 })
+      expect(options.deadline).toBeGreaterThanOrEqual(before + 5000)
+      expect(options.deadline).toBeLessThanOrEqual(Date.now() + 5000)
+    })
+
+    it("falls back to the client default timeout", () => {
+      const client = new FlightClient({ host: "localhost", defaultTimeoutMs: 2000 })
+      const before = Date.now()
+      const options = client.createCallOptions({ headers: { "x-custom-header": "value" } })
+      expect(options.deadline).toBeGreaterThanOrEqual(before + 2000)
+      expect(options.deadline).toBeLessThanOrEqual(Date.now() + 2000)
+    })
+
+    it("prefers the call timeout over the client default", () => {
+      const client = new FlightClient({ host: "localhost", defaultTimeoutMs: 60000 })
+      const options = client.createCallOptions({ timeoutMs: 100 })
+      expect(options.deadline).toBeLessThanOrEqual(Date.now() + 100)
+    })
+  })
+
   describe("close", () => {
     it("transitions to closed state", () => {
       const client = new FlightClient({ host: "localhost" })
@@ -124,6 +190,13 @@ describe("FlightClient", () => {
         expect((error as Error).message).toBe("client has been closed")
       }
     })
+
+    it("rejects the default transport in browser bundles", async () => {
+      await expect(createDefaultTransport()).rejects.toMatchObject({
+        code: "UNIMPLEMENTED",
+        message: expect.stringContaining('use the "grpcWeb" or "connect" transport') as unknown
+      })
+    })
   })
 
   describe("handshake", () => {
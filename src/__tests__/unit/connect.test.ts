@@ -0,0 +1,785 @@
+import {
+  type Client,
+  type ClientReadableStream,
+  Metadata as GrpcMetadata,
+  type ServiceError,
+  status as GrpcStatus,
+  type StatusObject
+} from "@grpc/grpc-js"
+import { tableFromArrays } from "apache-arrow"
+import type { IncomingMessage, Server, ServerResponse } from "http"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import {
+  Action,
+  ActionType,
+  Criteria,
+  Empty,
+  FlightData as FlightDataMessage,
+  FlightDescriptor,
+  FlightInfo as FlightInfoMessage,
+  type MessageFns,
+  PollInfo,
+  Result,
+  SchemaResult,
+  Ticket
+} from "../../generated/arrow/flight/protocol/Flight"
+import { RetryInfo } from "../../generated/google/rpc/error_details"
+import { Status } from "../../generated/google/rpc/status"
+import {
+  createFlightClient,
+  type FetchFunction,
+  FlightClient,
+  FlightError,
+  FlightServer,
+  type FlightServiceHandlers,
+  Metadata,
+  pathDescriptor,
+  recordBatchesToFlightData,
+  StatusCode
+} from "../../index"
+import {
+  collect,
+  data,
+  flightInfo,
+  frame,
+  ignoreCall,
+  readBody,
+  respondWith,
+  startProxy,
+  tick
+} from "./helpers"
+
+const endStream = (message: unknown): Buffer => frame(0x02, JSON.stringify(message))
+
+/** Message types of the methods the gateway serves, by path. */
+const GATEWAY_METHODS = new Map<string, [MessageFns<unknown>, MessageFns<unknown>, boolean]>(
+  (
+    [
+      ["ListFlights", Criteria, FlightInfoMessage, true],
+      ["GetFlightInfo", FlightDescriptor, FlightInfoMessage, false],
+      ["PollFlightInfo", FlightDescriptor, PollInfo, false],
+      ["GetSchema", FlightDescriptor, SchemaResult, false],
+      ["DoGet", Ticket, FlightDataMessage, true],
+      ["DoAction", Action, Result, true],
+      ["ListActions", Empty, ActionType, true]
+    ] as [string, MessageFns<unknown>, MessageFns<unknown>, boolean][]
+  ).map(([name, request, response, streaming]) => [
+    `/arrow.flight.protocol.FlightService/${name}`,
+    [request, response, streaming]
+  ])
+)
+
+/**
+ * Converts metadata to the JSON record of a Connect end-stream message.
+ */
+const metadataToRecord = (metadata: GrpcMetadata): Record<string, string[]> =>
+  Object.fromEntries(
+    Object.entries(metadata.toJSON()).map(([key, values]) => [
+      key,
+      values.map((value) => (typeof value === "string" ? value : value.toString("base64")))
+    ])
+  )
+
+/**
+ * Converts a gRPC status to a Connect error, with the details of its
+ * `grpc-status-details-bin` trailer.
+ */
+const connectError = (status: StatusObject): Record<string, unknown> => {
+  const [details] = status.metadata.get("grpc-status-details-bin")
+  return {
+    code: GrpcStatus[status.code].toLowerCase(),
+    message: status.details,
+    details: Buffer.isBuffer(details)
+      ? Status.decode(details).details.map((detail) => ({
+          type: detail.typeUrl.replace("type.googleapis.com/", ""),
+          value: Buffer.from(detail.value).toString("base64").replace(/=+$/, "")
+        }))
+      : undefined
+  }
+}
+
+/**
+ * Translates a Connect request to a gRPC call, standing in for a Connect
+ * gateway in front of a Flight server.
+ */
+const gateway = async (
+  upstream: Client,
+  request: IncomingMessage,
+  response: ServerResponse
+): Promise<void> => {
+  const contentType = String(request.headers["content-type"])
+  const json = contentType.endsWith("json")
+  const path = String(request.url).replace(/^\/flight/, "")
+  const method = GATEWAY_METHODS.get(path)
+  if (method === undefined) {
+    response.writeHead(404).end()
+    return
+  }
+  const [requestType, responseType, streaming] = method
+  const body = await readBody(request)
+  const payload = streaming ? body.subarray(5) : body
+  const message = Buffer.from(
+    requestType
+      .encode(
+        json ? requestType.fromJSON(JSON.parse(payload.toString())) : requestType.decode(payload)
+      )
+      .finish()
+  )
+  const encode = (reply: Buffer): Buffer => {
+    const decoded = responseType.decode(reply)
+    return json ? Buffer.from(JSON.stringify(responseType.toJSON(decoded))) : reply
+  }
+
+  const metadata = new GrpcMetadata()
+  for (const [key, value] of Object.entries(request.headers)) {
+    if (key.startsWith("x-") && typeof value === "string") {
+      metadata.set(key, key.endsWith("-bin") ? Buffer.from(value, "base64") : value)
+    }
+  }
+  const timeout = request.headers["connect-timeout-ms"]
+  const options =
+    typeof timeout === "string" ? { deadline: Date.now() + parseInt(timeout, 10) } : {}
+  const identity = (chunk: Buffer): Buffer => chunk
+
+  if (!streaming) {
+    let reply: Buffer | undefined
+    const call = upstream.makeUnaryRequest(
+      path,
+      identity,
+      identity,
+      message,
+      metadata,
+      options,
+      (_error: ServiceError | null, received?: Buffer) => {
+        reply = received
+      }
+    )
+    call.on("status", (status: StatusObject) => {
+      if (status.code !== GrpcStatus.OK || reply === undefined) {
+        response
+          .writeHead(status.code === GrpcStatus.NOT_FOUND ? 404 : 500, {
+            "content-type": "application/json"
+          })
+          .end(JSON.stringify(connectError(status)))
+        return
+      }
+      const trailers = Object.entries(metadataToRecord(status.metadata)).map(
+        ([key, values]) => [`trailer-${key}`, values.join(",")] as const
+      )
+      response
+        .writeHead(200, { "content-type": contentType, ...Object.fromEntries(trailers) })
+        .end(encode(reply))
+    })
+    return
+  }
+
+  const call: ClientReadableStream<Buffer> = upstream.makeServerStreamRequest(
+    path,
+    identity,
+    identity,
+    message,
+    metadata,
+    options
+  )
+  response.writeHead(200, { "content-type": contentType })
+  call.on("data", (reply: Buffer) => {
+    response.write(frame(0x00, encode(reply)))
+  })
+  call.on("error", () => undefined)
+  call.on("status", (status: StatusObject) => {
+    response.end(
+      endStream({
+        error: status.code === GrpcStatus.OK ? undefined : connectError(status),
+        metadata: metadataToRecord(status.metadata)
+      })
+    )
+  })
+  response.on("close", () => {
+    call.cancel()
+  })
+}
+
+describe("Connect transport", () => {
+  describe("through a Connect gateway", () => {
+    let server: FlightServer
+    let gatewayServer: Server
+    let client: FlightClient
+
+    const start = async (
+      handlers: FlightServiceHandlers,
+      format: "proto" | "json" = "proto"
+    ): Promise<void> => {
+      server = new FlightServer(handlers)
+      const location = await server.listen()
+      const started = await startProxy(new URL(location.uri).host, gateway, "/flight/")
+      gatewayServer = started.server
+      client = await createFlightClient({
+        host: "localhost",
+        tls: false,
+        transport: { type: "connect", baseUrl: started.url, format }
+      })
+    }
+
+    afterEach(() => {
+      client.close()
+      gatewayServer.closeAllConnections()
+      gatewayServer.close()
+      server.forceClose()
+    })
+
+    it.each(["proto", "json"] as const)("makes unary calls in %s format", async (format) => {
+      let received: Metadata | undefined
+      await start(
+        {
+          getFlightInfo: (descriptor, context) => {
+            received = context.metadata
+            return flightInfo(descriptor.path)
+          },
+          pollFlightInfo: (descriptor) => ({
+            info: flightInfo(descriptor.path),
+            flightDescriptor: undefined,
+            progress: 1,
+            expirationTime: undefined
+          }),
+          getSchema: () => ({ schema: Buffer.from("schema") })
+        },
+        format
+      )
+
+      const info = await client.getFlightInfo(pathDescriptor("sales", "2024"), {
+        headers: { "x-request-id": "r1" }
+      })
+      const poll = await client.pollFlightInfo(pathDescriptor("sales"))
+      const schema = await client.getSchema(pathDescriptor("sales"))
+
+      expect(info.flightDescriptor?.path).toEqual(["sales", "2024"])
+      expect(received?.get("x-request-id")).toEqual(["r1"])
+      expect(poll.info?.flightDescriptor?.path).toEqual(["sales"])
+      expect(Buffer.from(schema.schema).toString()).toBe("schema")
+    })
+
+    it.each(["proto", "json"] as const)("streams DoGet in %s format", async (format) => {
+      const table = tableFromArrays({ id: Int32Array.from([1, 2, 3]) })
+      await start({ doGet: () => recordBatchesToFlightData(table) }, format)
+
+      const stream = await client.doGetRecordBatches({ ticket: Buffer.from("t") })
+      const batches = await collect(stream)
+
+      expect(batches.map((batch) => batch.batch.getChild("id")?.toArray())).toEqual([
+        Int32Array.from([1, 2, 3])
+      ])
+    })
+
+    it("streams ListFlights, DoAction and ListActions", async () => {
+      await start(
+        {
+          *listFlights() {
+            yield flightInfo(["a"])
+            yield flightInfo(["b"])
+          },
+          *doAction(action) {
+            yield { body: Buffer.from(`${action.type}:1`) }
+            yield { body: Buffer.from(`${action.type}:2`) }
+          },
+          listActions: () => [{ type: "refresh", description: "" }]
+        },
+        "json"
+      )
+
+      const flights = await collect(client.listFlights())
+      const results = await collect(client.doAction({ type: "run", body: Buffer.alloc(0) }))
+      const actions = await collect(client.listActions())
+
+      expect(flights.map((info) => info.flightDescriptor?.path)).toEqual([["a"], ["b"]])
+      expect(results.map((result) => result.body.toString())).toEqual(["run:1", "run:2"])
+      expect(actions.map((action) => action.type)).toEqual(["refresh"])
+    })
+
+    it("reports errors with their message and details", async () => {
+      const details = Buffer.from(
+        Status.encode({
+          code: 5,
+          message: "missing",
+          details: [
+            {
+              typeUrl: "type.googleapis.com/google.rpc.RetryInfo",
+              value: Buffer.from(
+                RetryInfo.encode({ retryDelay: { seconds: 1, nanos: 0 } }).finish()
+              )
+            }
+          ]
+        }).finish()
+      )
+      await start({
+        getFlightInfo: () => {
+          throw new FlightError("no flight", "NOT_FOUND", {
+            metadata: { "grpc-status-details-bin": details }
+          })
+        },
+        *doGet() {
+          yield data("first")
+          throw new FlightError("stream failed", "DATA_LOSS", {
+            metadata: { "x-reason": "gone" }
+          })
+        }
+      })
+
+      const error = await client.getFlightInfo(pathDescriptor("x")).catch((e: unknown) => e)
+      expect(error).toBeInstanceOf(FlightError)
+      expect(error).toMatchObject({ code: "NOT_FOUND", message: "no flight", retryDelayMs: 1000 })
+
+      const received: string[] = []
+      await expect(
+        (async () => {
+          for await (const message of client.doGet({ ticket: Buffer.from("t") })) {
+            received.push(message.dataBody.toString())
+          }
+        })()
+      ).rejects.toMatchObject({
+        code: "DATA_LOSS",
+        message: "stream failed",
+        metadata: { "x-reason": "gone" }
+      })
+      expect(received).toEqual(["first"])
+    })
+
+    it("cancels the call when it is aborted", async () => {
+      let cancelled = false
+      await start({
+        async *doGet(_ticket, context) {
+          context.signal.addEventListener("abort", () => {
+            cancelled = true
+          })
+          for (;;) {
+            await tick(1)
+            yield data("more")
+          }
+        }
+      })
+
+      const controller = new AbortController()
+      const stream = client.doGet({ ticket: Buffer.from("t") }, { signal: controller.signal })
+      await stream.next()
+      controller.abort()
+
+      await expect(collect(stream)).rejects.toMatchObject({ code: "CANCELLED" })
+      await tick(50)
+      expect(cancelled).toBe(true)
+    })
+
+    it("fails a call that outlasts its deadline", async () => {
+      await start({
+        async getFlightInfo(descriptor) {
+          await tick(500)
+          return flightInfo(descriptor.path)
+        }
+      })
+
+      await expect(
+        client.getFlightInfo(pathDescriptor("x"), { timeoutMs: 50 })
+      ).rejects.toMatchObject({ code: "DEADLINE_EXCEEDED" })
+    })
+
+    it("fails methods that need client streaming through their calls", async () => {
+      await start({})
+
+      const put = client.doPut()
+      put.write(data("ignored"))
+      put.end()
+      await expect(put.collectResults()).rejects.toMatchObject({
+        code: "UNIMPLEMENTED",
+        message: "DoPut needs client streaming, which the Connect transport does not support"
+      })
+      const exchange = client.doExchange()
+      exchange.end()
+      await expect(collect(exchange.results())).rejects.toMatchObject({
+        code: "UNIMPLEMENTED",
+        message: "DoExchange needs client streaming, which the Connect transport does not support"
+      })
+      await expect(client.handshake()).rejects.toMatchObject({ code: "UNIMPLEMENTED" })
+    })
+  })
+
+  describe("responses", () => {
+    const descriptor = pathDescriptor("x")
+    const infoMessage = (): Buffer =>
+      Buffer.from(FlightInfoMessage.encode(flightInfo(["x"])).finish())
+    let client: FlightClient
+
+    const connect = async (fetch: FetchFunction, format?: "proto" | "json"): Promise<void> => {
+      client = await createFlightClient({
+        host: "flight.example.com",
+        transport: { type: "connect", fetch, format },
+        middleware: [
+          () => ({
+            sendingHeaders: (headers) => {
+              headers.set("x-trace-bin", Buffer.from([1, 2]))
+            }
+          })
+        ]
+      })
+    }
+
+    beforeEach(() => {
+      client = new FlightClient({ host: "localhost" })
+    })
+
+    afterEach(() => {
+      client.close()
+    })
+
+    it("sends unary requests to the default URL of the server", async () => {
+      let request: { url: string; headers: Headers; body: unknown } | undefined
+      await connect(
+        respondWith((url, init) => {
+          request = { url, headers: new Headers(init.headers), body: init.body }
+          return new Response(infoMessage())
+        })
+      )
+
+      await client.getFlightInfo(descriptor, { timeoutMs: 5000 })
+
+      expect(request?.url).toBe(
+        "https://flight.example.com:443/arrow.flight.protocol.FlightService/GetFlightInfo"
+      )
+      expect(request?.headers.get("content-type")).toBe("application/proto")
+      expect(request?.headers.get("connect-protocol-version")).toBe("1")
+      expect(request?.headers.get("connect-timeout-ms")).toMatch(/^\d+$/)
+      expect(request?.headers.get("x-trace-bin")).toBe("AQI=")
+      expect(FlightDescriptor.decode(request?.body as Buffer).path).toEqual(["x"])
+    })
+
+    it("sends streaming requests in an envelope", async () => {
+      let request: { headers: Headers; body: unknown } | undefined
+      await connect(
+        respondWith((_url, init) => {
+          request = { headers: new Headers(init.headers), body: init.body }
+          return new Response(endStream({}))
+        }),
+        "json"
+      )
+
+      await collect(client.doGet({ ticket: Buffer.from("t") }))
+
+      const body = request?.body as Buffer
+      expect(request?.headers.get("content-type")).toBe("application/connect+json")
+      expect(request?.headers.get("connect-timeout-ms")).toBeNull()
+      expect(body[0]).toBe(0)
+      expect(JSON.parse(body.subarray(5).toString())).toEqual({ ticket: "dA==" })
+    })
+
+    it("sends calls for other locations to their own server", async () => {
+      const urls: string[] = []
+      client = await createFlightClient({
+        host: "flight.example.com",
+        transport: {
+          type: "connect",
+          baseUrl: "https://gateway.example.com/flight/",
+          fetch: respondWith((url) => {
+            urls.push(url)
+            return new Response(JSON.stringify({ code: "not_found" }), { status: 404 })
+          })
+        }
+      })
+
+      const remote = await client.getLocationClient("grpc+tls://replica.example.com:8815")
+      await expect(client.getFlightInfo(descriptor)).rejects.toThrow(FlightError)
+      await expect(remote.getFlightInfo(descriptor)).rejects.toThrow(FlightError)
+
+      expect(urls).toEqual([
+        "https://gateway.example.com/flight/arrow.flight.protocol.FlightService/GetFlightInfo",
+        "https://replica.example.com:8815/arrow.flight.protocol.FlightService/GetFlightInfo"
+      ])
+    })
+
+    it("falls back to the global fetch", async () => {
+      const insecure = new FlightClient({
+        host: "localhost",
+        port: 1,
+        tls: false,
+        transport: { type: "connect" }
+      })
+      await insecure.connect()
+
+      await expect(insecure.getFlightInfo(descriptor)).rejects.toMatchObject({
+        code: "UNAVAILABLE"
+      })
+      insecure.close()
+    })
+
+    it("needs a base URL for a Unix domain socket", async () => {
+      const unix = new FlightClient({
+        host: "localhost",
+        socketPath: "/tmp/flight.sock",
+        transport: { type: "connect" }
+      })
+
+      await expect(unix.connect()).rejects.toMatchObject({ code: "INVALID_ARGUMENT" })
+    })
+
+    it("reads the headers and trailers of unary responses", async () => {
+      await connect(
+        respondWith(
+          () =>
+            new Response(infoMessage(), {
+              headers: {
+                "content-type": "application/proto",
+                "x-server": "a",
+                "trailer-x-elapsed": "12",
+                "trailer-x-debug-bin": Buffer.from("b").toString("base64")
+              }
+            })
+        )
+      )
+      let headers: Metadata | undefined
+      let trailers: Metadata | undefined
+
+      await client.getFlightInfo(descriptor, {
+        onHeaders: (received) => {
+          headers = received
+        },
+        onTrailers: (received) => {
+          trailers = received
+        }
+      })
+
+      expect(headers?.get("x-server")).toEqual(["a"])
+      expect(headers?.get("content-type")).toEqual([])
+      expect(headers?.get("trailer-x-elapsed")).toEqual([])
+      expect(trailers?.get("x-elapsed")).toEqual(["12"])
+      expect(trailers?.get("x-debug-bin")).toEqual([Buffer.from("b")])
+    })
+
+    it("reads errors with their details and metadata", async () => {
+      const retryInfo = Buffer.from(
+        RetryInfo.encode({ retryDelay: { seconds: 2, nanos: 0 } }).finish()
+      )
+      await connect(
+        respondWith(
+          () =>
+            new Response(
+              JSON.stringify({
+                code: "resource_exhausted",
+                message: "slow down",
+                details: [
+                  { type: "google.rpc.RetryInfo", value: retryInfo.toString("base64") },
+                  { type: "google.rpc.Unknown" },
+                  null
+                ]
+              }),
+              {
+                status: 429,
+                headers: { "x-limit": "10", "trailer-x-reset": "60" }
+              }
+            )
+        )
+      )
+
+      const error = await client.getFlightInfo(descriptor).catch((e: unknown) => e)
+
+      expect(error).toMatchObject({
+        code: "RESOURCE_EXHAUSTED",
+        message: "slow down",
+        retryDelayMs: 2000,
+        metadata: { "x-limit": "10", "x-reset": "60" }
+      })
+      expect((error as FlightError).richStatus?.details).toHaveLength(1)
+    })
+
+    it("maps error codes and HTTP statuses", async () => {
+      const cases: [Response, string, string][] = [
+        [new Response(JSON.stringify({ code: "canceled" }), { status: 499 }), "CANCELLED", ""],
+        [
+          new Response(JSON.stringify({ code: "teapot", message: 1, details: {} }), {
+            status: 500
+          }),
+          "UNKNOWN",
+          ""
+        ],
+        [new Response(JSON.stringify({ code: 5 }), { status: 404 }), "UNKNOWN", ""],
+        [new Response("busy", { status: 503 }), "UNAVAILABLE", "Received HTTP status 503"],
+        [new Response("{}", { status: 401 }), "UNAUTHENTICATED", "Received HTTP status 401"],
+        [new Response("null", { status: 500 }), "UNKNOWN", "Received HTTP status 500"]
+      ]
+
+      for (const [response, code, message] of cases) {
+        await connect(respondWith(() => response))
+        const error = await client.getFlightInfo(descriptor).catch((e: unknown) => e)
+        expect(error).toBeInstanceOf(FlightError)
+        expect((error as FlightError).code).toBe(code)
+        expect((error as FlightError).message).toContain(message)
+        client.close()
+      }
+    })
+
+    it("reads the end-stream message of streaming responses", async () => {
+      await connect(
+        respondWith(
+          () =>
+            new Response(
+              endStream({
+                error: { code: "aborted", message: "conflict" },
+                metadata: {
+                  "x-reason": ["retry", 1],
+                  "x-debug-bin": [Buffer.from("d").toString("base64")],
+                  "x-single": "ignored",
+                  "x-bad!": ["ignored"]
+                }
+              })
+            )
+        )
+      )
+
+      const error = await collect(client.doGet({ ticket: Buffer.from("t") })).catch(
+        (e: unknown) => e
+      )
+
+      expect(error).toMatchObject({ code: "ABORTED", message: "conflict" })
+      expect((error as FlightError).metadata).toEqual({
+        "x-reason": "retry",
+        "x-debug-bin": Buffer.from("d")
+      })
+    })
+
+    it("reads streaming responses that end without trailers", async () => {
+      await connect(
+        respondWith(
+          () =>
+            new Response(
+              Buffer.concat([
+                frame(0x00, JSON.stringify({ type: "refresh", description: "" })),
+                endStream({})
+              ])
+            )
+        ),
+        "json"
+      )
+
+      const actions = await collect(client.listActions())
+
+      expect(actions).toEqual([{ type: "refresh", description: "" }])
+    })
+
+    it("fails streaming responses that break the protocol", async () => {
+      const cases: [Response, string, string][] = [
+        [new Response(null), "INTERNAL", "Response ended without an end-stream message"],
+        [new Response(frame(0x00, "")), "INTERNAL", "without an end-stream message"],
+        [new Response(frame(0x00, "").subarray(0, 3)), "INTERNAL", "ended inside a frame"],
+        [
+          new Response(frame(0x01, "packed")),
+          "INTERNAL",
+          "Received a compressed message, which the Connect transport does not support"
+        ],
+        [new Response(frame(0x02, "{")), "INTERNAL", "JSON"],
+        [new Response(frame(0x00, Buffer.from([0x0a, 0xff]))), "INTERNAL", ""]
+      ]
+
+      for (const [response, code, message] of cases) {
+        await connect(respondWith(() => response))
+        const error = await collect(client.doGet({ ticket: Buffer.from("t") })).catch(
+          (e: unknown) => e
+        )
+        expect(error).toBeInstanceOf(FlightError)
+        expect((error as FlightError).code).toBe(code)
+        expect((error as FlightError).message).toContain(message)
+        client.close()
+      }
+    })
+
+    it("fails when the request cannot be sent", async () => {
+      await connect(async () => Promise.reject(new TypeError("fetch failed")))
+
+      await expect(client.getFlightInfo(descriptor)).rejects.toMatchObject({
+        code: "UNAVAILABLE",
+        message: "fetch failed"
+      })
+    })
+
+    it("fails a call that outlasts its deadline", async () => {
+      await connect(async () => new Promise(() => undefined))
+
+      await expect(client.getFlightInfo(descriptor, { timeoutMs: 20 })).rejects.toMatchObject({
+        code: "DEADLINE_EXCEEDED"
+      })
+    })
+
+    it("cancels a call before the response arrives", async () => {
+      let aborted = false
+      let respond: ((response: Response) => void) | undefined
+      await connect(async (_url, init) => {
+        init.signal?.addEventListener("abort", () => {
+          aborted = true
+        })
+        return new Promise((resolve) => {
+          respond = resolve
+        })
+      })
+      const controller = new AbortController()
+
+      const info = client.getFlightInfo(descriptor, { signal: controller.signal })
+      await tick()
+      controller.abort()
+      respond?.(new Response(infoMessage()))
+
+      await expect(info).rejects.toMatchObject({ code: "CANCELLED" })
+      expect(aborted).toBe(true)
+    })
+
+    it("fails client streaming the same way with a token provider", async () => {
+      client = await createFlightClient({
+        host: "flight.example.com",
+        transport: { type: "connect", fetch: respondWith(() => new Response(null)) },
+        auth: { type: "tokenProvider", getToken: async () => Promise.resolve("secret") }
+      })
+
+      const put = client.doPut()
+      put.end()
+
+      await expect(put.collectResults()).rejects.toMatchObject({ code: "UNIMPLEMENTED" })
+    })
+
+    it("ends a client streaming call cancelled before it fails", async () => {
+      await connect(respondWith(() => new Response(null)))
+      const statuses: number[] = []
+      const call = client.getGrpcClient().doPut(
+        new Metadata(),
+        { deadline: Infinity },
+        {
+          ...ignoreCall,
+          onStatus: (status) => {
+            statuses.push(status.code)
+          }
+        }
+      )
+
+      expect(call.getPeer()).toBe("flight.example.com")
+      expect(call.write(data("ignored"))).toBe(true)
+      call.end()
+      call.cancel()
+      await tick()
+
+      expect(statuses).toEqual([StatusCode.CANCELLED])
+    })
+
+    it("reports the peer", async () => {
+      await connect(respondWith(() => new Response(null)))
+      const call = client
+        .getGrpcClient()
+        .doGet({ ticket: Buffer.alloc(0) }, new Metadata(), { deadline: Infinity }, ignoreCall)
+      const unary = client
+        .getGrpcClient()
+        .getSchema(
+          { type: 0, cmd: Buffer.alloc(0), path: [] },
+          new Metadata(),
+          { deadline: new Date(Date.now() + 5000) },
+          ignoreCall
+        )
+
+      expect(call.getPeer()).toBe("flight.example.com")
+      expect(unary.getPeer()).toBe("flight.example.com")
+      call.cancel()
+      unary.cancel()
+    })
+  })
+})
@@ -0,0 +1,204 @@
+import { afterEach, describe, expect, it } from "vitest"
+
+import {
+  CookieStore,
+  createCookieMiddleware,
+  createFlightClient,
+  type FlightClient,
+  FlightServer,
+  Metadata,
+  StatusCode
+} from "../../index"
+import { startCallMiddleware } from "../../middleware"
+import { ignoreCall } from "./helpers"
+
+const NOW = Date.parse("2026-01-01T00:00:00Z")
+
+describe("CookieStore", () => {
+  it("sends stored cookies in the order they were set", () => {
+    const store = new CookieStore()
+
+    store.setCookies(["session=abc; HttpOnly; Secure", "region=eu; Domain=example.com"], NOW)
+
+    expect(store.cookieHeader("/", NOW)).toBe("session=abc; region=eu")
+  })
+
+  it("ignores malformed cookies and attributes", () => {
+    const store = new CookieStore()
+
+    store.setCookies(
+      ["malformed", "=value", "a=1; Max-Age=soon; Expires=never; Path=relative"],
+      NOW
+    )
+
+    expect(store.cookieHeader("/other", NOW + 1e12)).toBe("a=1")
+  })
+
+  it("honours Max-Age and Expires, preferring Max-Age", () => {
+    const store = new CookieStore()
+
+    store.setCookies(
+      [
+        "short=1; Max-Age=60",
+        `dated=2; Expires=${new Date(NOW + 120_000).toUTCString()}`,
+        `both=3; Max-Age=180; Expires=${new Date(NOW + 10_000).toUTCString()}`
+      ],
+      NOW
+    )
+
+    expect(store.cookieHeader("/", NOW + 30_000)).toBe("short=1; dated=2; both=3")
+    expect(store.cookieHeader("/", NOW + 90_000)).toBe("dated=2; both=3")
+    expect(store.cookieHeader("/", NOW + 150_000)).toBe("both=3")
+    expect(store.cookieHeader("/", NOW + 180_000)).toBeNull()
+  })
+
+  it("replaces and removes cookies", () => {
+    const store = new CookieStore()
+    store.setCookies(["a=1", "b=2", "c=3"], NOW)
+
+    store.setCookies(
+      ["a=updated", "b=; Max-Age=100", `c=3; Expires=${new Date(NOW - 1000).toUTCString()}`],
+      NOW
+    )
+    const names = store.setCookies(["unknown=; Max-Age=0", "=nameless"], NOW)
+
+    expect(names).toEqual(["unknown"])
+
+    expect(store.cookieHeader("/", NOW)).toBe("a=updated")
+
+    store.setCookies(["d=4; Path=/a", "d=5; Path=/b", "e=6"], NOW)
+    store.delete("d")
+    expect(store.cookieHeader("/a/b", NOW)).toBe("a=updated; e=6")
+
+    store.clear()
+    expect(store.cookieHeader("/", NOW)).toBeNull()
+  })
+
+  it("matches cookie paths against the request path", () => {
+    const store = new CookieStore()
+    store.setCookies(
+      ["root=1", "service=2; Path=/svc", "method=3; Path=/svc/Get", "slash=4; Path=/svc/"],
+      NOW
+    )
+
+    expect(store.cookieHeader("/svc/Get", NOW)).toBe("method=3; slash=4; service=2; root=1")
+    expect(store.cookieHeader("/svc", NOW)).toBe("service=2; root=1")
+    expect(store.cookieHeader("/svcx", NOW)).toBe("root=1")
+    expect(store.cookieHeader(undefined, NOW)).toBe("root=1")
+  })
+
+  it("keeps cookies with the same name but different paths apart", () => {
+    const store = new CookieStore()
+    store.setCookies(["id=root", "id=get; Path=/svc/Get"], NOW)
+    store.setCookies(["id=; Path=/svc/Get"], NOW)
+
+    expect(store.cookieHeader("/svc/Get", NOW)).toBe("id=root")
+  })
+})
+
+describe("createCookieMiddleware", () => {
+  const call = (
+    middleware: ReturnType<typeof createCookieMiddleware>,
+    headers: Metadata,
+    response: { headers?: string[]; trailers?: string[] } = {}
+  ): void => {
+    const listener = startCallMiddleware([middleware], "DoGet", headers)(ignoreCall)
+    const responseHeaders = new Metadata()
+    for (const cookie of response.headers ?? []) {
+      responseHeaders.add("set-cookie", cookie)
+    }
+    const trailers = new Metadata()
+    for (const cookie of response.trailers ?? []) {
+      trailers.add("set-cookie", cookie)
+    }
+    listener.onMetadata(responseHeaders)
+    listener.onStatus({ code: StatusCode.OK, details: "", metadata: trailers })
+  }
+
+  it("stores cookies from headers and trailers and sends them", () => {
+    const store = new CookieStore()
+    const middleware = createCookieMiddleware(store)
+    const first = new Metadata()
+    const second = new Metadata()
+
+    call(middleware, first, { headers: ["a=1"], trailers: ["b=2"] })
+    call(middleware, second)
+
+    expect(first.get("cookie")).toEqual([])
+    expect(second.get("cookie")).toEqual(["a=1; b=2"])
+    expect(store.cookieHeader()).toBe("a=1; b=2")
+  })
+
+  it("sends only cookies whose path matches the method", () => {
+    const middleware = createCookieMiddleware()
+    const headers = new Metadata()
+
+    call(middleware, new Metadata(), {
+      headers: [
+        "get=1; Path=/arrow.flight.protocol.FlightService/DoGet",
+        "put=2; Path=/arrow.flight.protocol.FlightService/DoPut"
+      ]
+    })
+    call(middleware, headers)
+
+    expect(headers.get("cookie")).toEqual(["get=1"])
+  })
+
+  it("keeps cookies already set on the call", () => {
+    const middleware = createCookieMiddleware()
+    const headers = new Metadata()
+    headers.set("cookie", "arrow_flight_session_id=s1")
+
+    call(middleware, new Metadata(), { headers: ["a=1"] })
+    call(middleware, headers)
+
+    expect(headers.get("cookie")).toEqual(["arrow_flight_session_id=s1; a=1"])
+  })
+
+  it("does not repeat cookies already set on the call", () => {
+    const middleware = createCookieMiddleware()
+    const partial = new Metadata()
+    const complete = new Metadata()
+    partial.set("cookie", "a=0; other=x")
+    complete.set("cookie", "b=0;a=0")
+
+    call(middleware, new Metadata(), { headers: ["a=1", "b=2"] })
+    call(middleware, partial)
+    call(middleware, complete)
+
+    expect(partial.get("cookie")).toEqual(["a=0; other=x; b=2"])
+    expect(complete.get("cookie")).toEqual(["b=0;a=0"])
+  })
+})
+
+describe("cookie middleware with a server", () => {
+  let server: FlightServer | undefined
+  let client: FlightClient | undefined
+
+  afterEach(() => {
+    client?.close()
+    server?.forceClose()
+  })
+
+  it("keeps a server session across calls", async () => {
+    const sessions: string[] = []
+    server = new FlightServer({
+      // Records the cookie sent with each call
+      getSchema: (_descriptor, context) => {
+        sessions.push(String(context.metadata.get("cookie")[0]))
+        return { schema: Buffer.alloc(0) }
+      }
+    })
+    const store = new CookieStore()
+    store.setCookies(["session=s1"])
+    client = await createFlightClient(await server.listen(), {
+      middleware: [createCookieMiddleware(store)]
+    })
+
+    await client.getSchema({ type: "path", path: ["a"] })
+    store.setCookies(["session=s2"])
+    await client.getSchema({ type: "path", path: ["a"] })
+
+    expect(sessions).toEqual(["session=s1", "session=s2"])
+  })
+})
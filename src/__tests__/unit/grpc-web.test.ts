@@ -0,0 +1,674 @@
+import {
+  type Client,
+  type ClientReadableStream,
+  type ClientUnaryCall,
+  Metadata as GrpcMetadata,
+  type StatusObject
+} from "@grpc/grpc-js"
+import { tableFromArrays } from "apache-arrow"
+import type { IncomingMessage, Server, ServerResponse } from "http"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import { RetryInfo } from "../../generated/google/rpc/error_details"
+import { Status } from "../../generated/google/rpc/status"
+import { httpStatusToGrpc } from "../../http"
+import {
+  createFlightClient,
+  type FetchFunction,
+  FlightClient,
+  FlightError,
+  FlightServer,
+  type FlightServiceHandlers,
+  Metadata,
+  pathDescriptor,
+  recordBatchesToFlightData,
+  StatusCode
+} from "../../index"
+import { FlightServiceService } from "../../service"
+import {
+  collect,
+  data,
+  flightInfo,
+  frame,
+  ignoreCall,
+  readBody,
+  respondWith,
+  startProxy,
+  tick
+} from "./helpers"
+
+const trailers = (lines: string[]): Buffer =>
+  frame(0x80, Buffer.from(lines.map((line) => `${line}\r\n`).join("")))
+
+/**
+ * Converts metadata to HTTP header values, base64-encoding binary values.
+ */
+const metadataToHeaders = (metadata: GrpcMetadata): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(metadata.toJSON()).map(([key, values]) => [
+      key,
+      values
+        .map((value) => (typeof value === "string" ? value : value.toString("base64")))
+        .join(",")
+    ])
+  )
+
+const statusHeaders = (status: StatusObject): Record<string, string> => ({
+  ...metadataToHeaders(status.metadata),
+  "grpc-status": String(status.code),
+  "grpc-message": encodeURIComponent(status.details)
+})
+
+/**
+ * Translates a gRPC-Web request to a gRPC call, standing in for Envoy.
+ */
+const proxy = async (
+  upstream: Client,
+  request: IncomingMessage,
+  response: ServerResponse
+): Promise<void> => {
+  const contentType = String(request.headers["content-type"])
+  const text = contentType === "application/grpc-web-text"
+  const encode = (chunk: Buffer): Buffer | string => (text ? chunk.toString("base64") : chunk)
+  const path = String(request.url)
+  const body = await readBody(request)
+  const requestFrame = text ? Buffer.from(body.toString(), "base64") : body
+  const message = requestFrame.subarray(5, 5 + requestFrame.readUInt32BE(1))
+
+  const metadata = new GrpcMetadata()
+  for (const [key, value] of Object.entries(request.headers)) {
+    if (key.startsWith("x-") && key !== "x-grpc-web" && typeof value === "string") {
+      metadata.set(key, key.endsWith("-bin") ? Buffer.from(value, "base64") : value)
+    }
+  }
+  const timeout = request.headers["grpc-timeout"]
+  const options =
+    typeof timeout === "string" ? { deadline: Date.now() + parseInt(timeout, 10) } : {}
+  const identity = (chunk: Buffer): Buffer => chunk
+
+  const call: ClientUnaryCall | ClientReadableStream<Buffer> = Object.values(
+    FlightServiceService
+  ).some((method) => method.path === path && method.responseStream)
+    ? upstream.makeServerStreamRequest(path, identity, identity, message, metadata, options)
+    : upstream.makeUnaryRequest(
+        path,
+        identity,
+        identity,
+        message,
+        metadata,
+        options,
+        (_error, reply?: Buffer) => {
+          if (reply !== undefined) {
+            response.write(encode(frame(0x00, reply)))
+          }
+        }
+      )
+
+  call.on("metadata", (headers: GrpcMetadata) => {
+    response.writeHead(200, { "content-type": contentType, ...metadataToHeaders(headers) })
+  })
+  // Only streaming calls emit data, and they wait while the client is behind
+  const stream = call as ClientReadableStream<Buffer>
+  stream.on("data", (reply: Buffer) => {
+    if (!response.write(encode(frame(0x00, reply)))) {
+      stream.pause()
+      response.once("drain", () => {
+        stream.resume()
+      })
+    }
+  })
+  call.on("error", () => undefined)
+  call.on("status", (status: StatusObject) => {
+    if (response.headersSent) {
+      const lines = Object.entries(statusHeaders(status)).map(([key, value]) => `${key}: ${value}`)
+      response.end(encode(trailers(lines)))
+    } else {
+      response.writeHead(200, { "content-type": contentType, ...statusHeaders(status) }).end()
+    }
+  })
+  response.on("close", () => {
+    call.cancel()
+  })
+}
+
+/**
+ * Creates a response body that sends each chunk separately.
+ */
+const chunked = (chunks: (Buffer | string)[]): ReadableStream<Uint8Array> =>
+  new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(Buffer.from(chunk))
+      }
+      controller.close()
+    }
+  })
+
+describe("gRPC-Web transport", () => {
+  describe("through a gRPC-Web proxy", () => {
+    let server: FlightServer
+    let proxyServer: Server
+    let client: FlightClient
+
+    const start = async (
+      handlers: FlightServiceHandlers,
+      format: "binary" | "text" = "binary",
+      readQueueSize?: number
+    ): Promise<void> => {
+      server = new FlightServer(handlers)
+      const location = await server.listen()
+      const started = await startProxy(new URL(location.uri).host, proxy)
+      proxyServer = started.server
+      client = await createFlightClient({
+        host: "localhost",
+        tls: false,
+        transport: { type: "grpcWeb", baseUrl: started.url, format },
+        readQueueSize
+      })
+    }
+
+    afterEach(() => {
+      client.close()
+      proxyServer.closeAllConnections()
+      proxyServer.close()
+      server.forceClose()
+    })
+
+    it("makes unary calls with the call headers", async () => {
+      let received: Metadata | undefined
+      await start({
+        getFlightInfo: (descriptor, context) => {
+          received = context.metadata
+          return flightInfo(descriptor.path)
+        },
+        pollFlightInfo: (descriptor) => ({
+          info: flightInfo(descriptor.path),
+          flightDescriptor: undefined,
+          progress: 1,
+          expirationTime: undefined
+        })
+      })
+
+      const info = await client.getFlightInfo(pathDescriptor("sales", "2024"), {
+        headers: { "x-request-id": "r1" }
+      })
+      const poll = await client.pollFlightInfo(pathDescriptor("sales"))
+
+      expect(info.flightDescriptor?.path).toEqual(["sales", "2024"])
+      expect(received?.get("x-request-id")).toEqual(["r1"])
+      expect(poll.info?.flightDescriptor?.path).toEqual(["sales"])
+    })
+
+    it.each(["binary", "text"] as const)("streams DoGet in %s format", async (format) => {
+      const table = tableFromArrays({ id: Int32Array.from([1, 2, 3]) })
+      await start({ doGet: () => recordBatchesToFlightData(table) }, format)
+
+      const stream = await client.doGetRecordBatches({ ticket: Buffer.from("t") })
+      const batches = await collect(stream)
+
+      expect(batches.map((batch) => batch.batch.getChild("id")?.toArray())).toEqual([
+        Int32Array.from([1, 2, 3])
+      ])
+    })
+
+    it("streams ListFlights, DoAction and ListActions", async () => {
+      await start({
+        *listFlights() {
+          yield flightInfo(["a"])
+          yield flightInfo(["b"])
+        },
+        *doAction(action) {
+          yield { body: Buffer.from(`${action.type}:1`) }
+          yield { body: Buffer.from(`${action.type}:2`) }
+        },
+        listActions: () => [{ type: "refresh", description: "" }]
+      })
+
+      const flights = await collect(client.listFlights())
+      const results = await collect(client.doAction({ type: "run", body: Buffer.alloc(0) }))
+      const actions = await collect(client.listActions())
+
+      expect(flights.map((info) => info.flightDescriptor?.path)).toEqual([["a"], ["b"]])
+      expect(results.map((result) => result.body.toString())).toEqual(["run:1", "run:2"])
+      expect(actions.map((action) => action.type)).toEqual(["refresh"])
+    })
+
+    it("reports errors with their message and details", async () => {
+      const details = Buffer.from(
+        Status.encode({
+          code: 5,
+          message: "missing",
+          details: [
+            {
+              typeUrl: "type.googleapis.com/google.rpc.RetryInfo",
+              value: Buffer.from(
+                RetryInfo.encode({ retryDelay: { seconds: 1, nanos: 0 } }).finish()
+              )
+            }
+          ]
+        }).finish()
+      )
+      await start({
+        getFlightInfo: () => {
+          throw new FlightError("no flight at 100% / café", "NOT_FOUND", {
+            metadata: { "grpc-status-details-bin": details, "x-reason": "gone" }
+          })
+        },
+        *doGet() {
+          yield data("first")
+          throw new FlightError("stream failed", "DATA_LOSS")
+        }
+      })
+
+      const error = await client.getFlightInfo(pathDescriptor("x")).catch((e: unknown) => e)
+      expect(error).toBeInstanceOf(FlightError)
+      expect(error).toMatchObject({
+        code: "NOT_FOUND",
+        message: "no flight at 100% / café",
+        retryDelayMs: 1000,
+        metadata: { "x-reason": "gone" }
+      })
+
+      const received: string[] = []
+      await expect(
+        (async () => {
+          for await (const message of client.doGet({ ticket: Buffer.from("t") })) {
+            received.push(message.dataBody.toString())
+          }
+        })()
+      ).rejects.toMatchObject({ code: "DATA_LOSS", message: "stream failed" })
+      expect(received).toEqual(["first"])
+    })
+
+    it("reports the response headers and trailers", async () => {
+      await start({ getFlightInfo: (descriptor) => flightInfo(descriptor.path) })
+      let headers: Metadata | undefined
+      let trailerMetadata: Metadata | undefined
+
+      await client.getFlightInfo(pathDescriptor("x"), {
+        onHeaders: (received) => {
+          headers = received
+        },
+        onTrailers: (received) => {
+          trailerMetadata = received
+        }
+      })
+
+      expect(headers).toBeInstanceOf(Metadata)
+      expect(trailerMetadata).toBeInstanceOf(Metadata)
+      expect(headers?.get("content-type")).toEqual([])
+    })
+
+    it("cancels the call when it is aborted", async () => {
+      let cancelled = false
+      await start({
+        async *doGet(_ticket, context) {
+          context.signal.addEventListener("abort", () => {
+            cancelled = true
+          })
+          for (;;) {
+            await tick(1)
+            yield data("more")
+          }
+        }
+      })
+
+      const controller = new AbortController()
+      const stream = client.doGet({ ticket: Buffer.from("t") }, { signal: controller.signal })
+      await stream.next()
+      controller.abort()
+
+      await expect(collect(stream)).rejects.toMatchObject({ code: "CANCELLED" })
+      await tick(50)
+      expect(cancelled).toBe(true)
+    })
+
+    it("fails a call that outlasts its deadline", async () => {
+      await start({
+        async getFlightInfo(descriptor) {
+          await tick(500)
+          return flightInfo(descriptor.path)
+        }
+      })
+
+      await expect(
+        client.getFlightInfo(pathDescriptor("x"), { timeoutMs: 50 })
+      ).rejects.toMatchObject({ code: "DEADLINE_EXCEEDED" })
+    })
+
+    it("stops reading the response while the consumer is behind", async () => {
+      const messageCount = 200
+      let sent = 0
+      await start(
+        {
+          async *doGet() {
+            for (let index = 0; index < messageCount; index++) {
+              await Promise.resolve()
+              sent++
+              yield data(Buffer.alloc(64 * 1024))
+            }
+          }
+        },
+        "binary",
+        1
+      )
+
+      const reader = client.doGet({ ticket: Buffer.from("large") })
+      await reader.next()
+      await tick(200)
+      const sentWhilePaused = sent
+      const rest = await collect(reader)
+
+      expect(sentWhilePaused).toBeLessThan(messageCount)
+      expect(rest).toHaveLength(messageCount - 1)
+    })
+
+    it("fails methods that need client streaming through their calls", async () => {
+      await start({})
+
+      const put = client.doPut()
+      put.write(data("ignored"))
+      put.end()
+      await expect(put.collectResults()).rejects.toMatchObject({
+        code: "UNIMPLEMENTED",
+        message: "DoPut needs client streaming, which the gRPC-Web transport does not support"
+      })
+      const exchange = client.doExchange()
+      exchange.end()
+      await expect(collect(exchange.results())).rejects.toMatchObject({
+        code: "UNIMPLEMENTED",
+        message: "DoExchange needs client streaming, which the gRPC-Web transport does not support"
+      })
+      await expect(client.handshake()).rejects.toMatchObject({ code: "UNIMPLEMENTED" })
+    })
+  })
+
+  describe("responses", () => {
+    const descriptor = pathDescriptor("x")
+    let client: FlightClient
+
+    const connect = async (fetch: FetchFunction, format?: "binary" | "text"): Promise<void> => {
+      client = await createFlightClient({
+        host: "flight.example.com",
+        transport: { type: "grpcWeb", fetch, format },
+        middleware: [
+          () => ({
+            sendingHeaders: (headers) => {
+              headers.set("x-trace-bin", Buffer.from([1, 2]))
+            }
+          })
+        ]
+      })
+    }
+
+    const infoFrame = (): Buffer =>
+      frame(0x00, FlightServiceService.getFlightInfo.responseSerialize(flightInfo(["x"])))
+
+    beforeEach(() => {
+      client = new FlightClient({ host: "localhost" })
+    })
+
+    afterEach(() => {
+      client.close()
+    })
+
+    it("sends the request to the default URL of the server", async () => {
+      let request: { url: string; headers: Headers } | undefined
+      await connect(
+        respondWith((url, init) => {
+          request = { url, headers: new Headers(init.headers) }
+          return new Response(Buffer.concat([infoFrame(), trailers(["grpc-status: 0"])]))
+        })
+      )
+
+      await client.getFlightInfo(descriptor, { timeoutMs: 5000 })
+
+      expect(request?.url).toBe(
+        "https://flight.example.com:443/arrow.flight.protocol.FlightService/GetFlightInfo"
+      )
+      expect(request?.headers.get("content-type")).toBe("application/grpc-web+proto")
+      expect(request?.headers.get("x-grpc-web")).toBe("1")
+      expect(request?.headers.get("grpc-timeout")).toMatch(/^\d+m$/)
+      expect(request?.headers.get("x-trace-bin")).toBe("AQI=")
+    })
+
+    it("sends long deadlines in larger units", async () => {
+      const timeouts: (string | null)[] = []
+      await connect(
+        respondWith((_url, init) => {
+          timeouts.push(new Headers(init.headers).get("grpc-timeout"))
+          return new Response(Buffer.concat([infoFrame(), trailers(["grpc-status: 0"])]))
+        })
+      )
+
+      await client.getFlightInfo(descriptor, { timeoutMs: 30 * 60 * 60 * 1000 })
+      await client.getFlightInfo(descriptor, { timeoutMs: 99_999_999 })
+
+      expect(timeouts).toEqual(["108000S", "99999999m"])
+    })
+
+    it("sends calls for other locations to their own server", async () => {
+      const urls: string[] = []
+      client = await createFlightClient({
+        host: "flight.example.com",
+        transport: {
+          type: "grpcWeb",
+          baseUrl: "https://proxy.example.com/flight/",
+          fetch: respondWith((url) => {
+            urls.push(url)
+            return new Response(null, { headers: { "grpc-status": "5" } })
+          })
+        }
+      })
+
+      const remote = await client.getLocationClient("grpc+tls://replica.example.com:8815")
+      await expect(client.getFlightInfo(descriptor)).rejects.toThrow(FlightError)
+      await expect(remote.getFlightInfo(descriptor)).rejects.toThrow(FlightError)
+
+      expect(urls).toEqual([
+        "https://proxy.example.com/flight/arrow.flight.protocol.FlightService/GetFlightInfo",
+        "https://replica.example.com:8815/arrow.flight.protocol.FlightService/GetFlightInfo"
+      ])
+    })
+
+    it("falls back to the global fetch", async () => {
+      const insecure = new FlightClient({
+        host: "localhost",
+        port: 1,
+        tls: false,
+        transport: { type: "grpcWeb" }
+      })
+      await insecure.connect()
+
+      await expect(insecure.getFlightInfo(descriptor)).rejects.toMatchObject({
+        code: "UNAVAILABLE"
+      })
+      insecure.close()
+    })
+
+    it("needs a base URL for a Unix domain socket", async () => {
+      const unix = new FlightClient({
+        host: "localhost",
+        socketPath: "/tmp/flight.sock",
+        transport: { type: "grpcWeb" }
+      })
+
+      await expect(unix.connect()).rejects.toMatchObject({ code: "INVALID_ARGUMENT" })
+    })
+
+    it("decodes text responses split at any point", async () => {
+      const body = infoFrame().toString("base64") + trailers(["grpc-status: 0"]).toString("base64")
+      await connect(
+        respondWith(
+          () => new Response(chunked([body.slice(0, 5), body.slice(5, 11), body.slice(11)]))
+        ),
+        "text"
+      )
+
+      const info = await client.getFlightInfo(descriptor)
+
+      expect(info.flightDescriptor?.path).toEqual(["x"])
+    })
+
+    it("reads trailers-only responses", async () => {
+      await connect(
+        respondWith(
+          () =>
+            new Response(null, {
+              headers: {
+                "grpc-status": "7",
+                "grpc-message": "100%",
+                "x-debug-bin": `${Buffer.from("a").toString("base64")}, ${Buffer.from("b").toString("base64")}`,
+                "x-bad!": "ignored"
+              }
+            })
+        )
+      )
+
+      const error = await client.getFlightInfo(descriptor).catch((e: unknown) => e)
+
+      expect(error).toMatchObject({ code: "PERMISSION_DENIED", message: "100%" })
+      expect((error as FlightError).metadata).toEqual({ "x-debug-bin": Buffer.from("a") })
+    })
+
+    it("maps HTTP errors to status codes", async () => {
+      await connect(respondWith(() => new Response("busy", { status: 503 })))
+
+      await expect(client.getFlightInfo(descriptor)).rejects.toMatchObject({
+        code: "UNAVAILABLE",
+        message: "Received HTTP status 503"
+      })
+      expect(
+        [400, 401, 403, 404, 429, 502, 504, 500].map((status) => httpStatusToGrpc(status))
+      ).toEqual([13, 16, 7, 12, 14, 14, 14, 2])
+    })
+
+    it("fails responses that break the protocol", async () => {
+      const cases: [Response, string, string][] = [
+        [new Response(null), "INTERNAL", "Response ended without trailers"],
+        [new Response(infoFrame().subarray(0, 8)), "INTERNAL", "Response ended inside a frame"],
+        [new Response(infoFrame()), "INTERNAL", "Response ended without trailers"],
+        [new Response(trailers(["grpc-status: 0"])), "UNIMPLEMENTED", "No message received"],
+        [
+          new Response(Buffer.concat([infoFrame(), infoFrame(), trailers(["grpc-status: 0"])])),
+          "UNIMPLEMENTED",
+          "Too many responses received"
+        ],
+        [new Response(trailers(["grpc-message: lost", "invalid"])), "UNKNOWN", "lost"],
+        [new Response(trailers(["grpc-status: 99"])), "UNKNOWN", "UNKNOWN"]
+      ]
+
+      for (const [response, code, message] of cases) {
+        await connect(respondWith(() => response))
+        const error = await client.getFlightInfo(descriptor).catch((e: unknown) => e)
+        expect(error).toBeInstanceOf(FlightError)
+        expect((error as FlightError).code).toBe(code)
+        expect((error as FlightError).message).toContain(message)
+        client.close()
+      }
+    })
+
+    it("fails when the request cannot be sent", async () => {
+      await connect(async () => Promise.reject(new TypeError("fetch failed")))
+
+      await expect(client.getFlightInfo(descriptor)).rejects.toMatchObject({
+        code: "UNAVAILABLE",
+        message: "fetch failed"
+      })
+
+      // eslint-disable-next-line @typescript-eslint/prefer-promise-reject-errors
+      await connect(async () => Promise.reject("offline"))
+
+      await expect(collect(client.doGet({ ticket: Buffer.from("t") }))).rejects.toMatchObject({
+        code: "UNAVAILABLE",
+        message: "offline"
+      })
+    })
+
+    it("fails when a message cannot be decoded", async () => {
+      await connect(
+        respondWith(
+          () => new Response(Buffer.concat([frame(0x00, Buffer.from([0x0a, 0xff])), trailers([])]))
+        )
+      )
+
+      await expect(collect(client.doGet({ ticket: Buffer.from("t") }))).rejects.toMatchObject({
+        code: "INTERNAL"
+      })
+    })
+
+    it("cancels a call before the response arrives", async () => {
+      let aborted = false
+      await connect(async (_url, init) => {
+        init.signal?.addEventListener("abort", () => {
+          aborted = true
+        })
+        return new Promise(() => undefined)
+      })
+      const controller = new AbortController()
+
+      const info = client.getFlightInfo(descriptor, { signal: controller.signal })
+      await tick()
+      controller.abort()
+
+      await expect(info).rejects.toMatchObject({ code: "CANCELLED" })
+      expect(aborted).toBe(true)
+    })
+
+    it("fails client streaming the same way with a token provider", async () => {
+      client = await createFlightClient({
+        host: "flight.example.com",
+        transport: { type: "grpcWeb", fetch: respondWith(() => new Response(null)) },
+        auth: { type: "tokenProvider", getToken: async () => Promise.resolve("secret") }
+      })
+
+      const put = client.doPut()
+      put.end()
+
+      await expect(put.collectResults()).rejects.toMatchObject({ code: "UNIMPLEMENTED" })
+    })
+
+    it("ends a client streaming call cancelled before it fails", async () => {
+      await connect(respondWith(() => new Response(null)))
+      const statuses: number[] = []
+      const call = client.getGrpcClient().doPut(
+        new Metadata(),
+        { deadline: Infinity },
+        {
+          ...ignoreCall,
+          onStatus: (status) => {
+            statuses.push(status.code)
+          }
+        }
+      )
+
+      expect(call.getPeer()).toBe("flight.example.com")
+      expect(call.write(data("ignored"))).toBe(true)
+      call.end()
+      call.cancel()
+      await tick()
+
+      expect(statuses).toEqual([StatusCode.CANCELLED])
+    })
+
+    it("reports the peer", async () => {
+      await connect(respondWith(() => new Response(null)))
+      const call = client
+        .getGrpcClient()
+        .doGet({ ticket: Buffer.alloc(0) }, new Metadata(), { deadline: Infinity }, ignoreCall)
+      const unary = client
+        .getGrpcClient()
+        .getSchema(
+          { type: 0, cmd: Buffer.alloc(0), path: [] },
+          new Metadata(),
+          { deadline: new Date(Date.now() + 5000) },
+          ignoreCall
+        )
+
+      expect(call.getPeer()).toBe("flight.example.com")
+      expect(unary.getPeer()).toBe("flight.example.com")
+      call.cancel()
+      unary.cancel()
+    })
+  })
+})
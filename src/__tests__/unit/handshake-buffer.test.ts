@@ -2,31 +2,42 @@
  * Test specifically for Buffer token extraction in handshake.
  * This file does NOT use vi.mock to ensure real behavior.
  */
-import { Metadata } from "@grpc/grpc-js"
-import { EventEmitter } from "events"
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
 
 import { FlightClient } from "../../client"
+import type { HandshakeResponse } from "../../generated/arrow/flight/protocol/Flight"
+import { type DuplexCallListener, Metadata, StatusCode } from "../../index"
+import { ignoreCall } from "./helpers"
 
 describe("Handshake Buffer token extraction", () => {
   let client: FlightClient
-  let mockHandshakeStream: EventEmitter & {
-    write: ReturnType<typeof vi.fn>
-    end: ReturnType<typeof vi.fn>
+  let listener: DuplexCallListener<HandshakeResponse> = ignoreCall
+
+  /**
+   * Responds to the handshake with the given headers.
+   */
+  const respond = (headers: Metadata): void => {
+    listener.onDrain()
+    listener.onMetadata(headers)
+    void listener.onMessage({ protocolVersion: 0, payload: Buffer.alloc(0) })
+    listener.onStatus({ code: StatusCode.OK, details: "", metadata: new Metadata() })
   }
 
   beforeEach(() => {
     client = new FlightClient({ host: "localhost", port: 8815, tls: false })
 
-    // Create a mock stream
-    mockHandshakeStream = Object.assign(new EventEmitter(), {
-      write: vi.fn(),
-      end: vi.fn()
-    })
-
-    // Mock the grpc client with minimal setup
+    // Mock the transport with minimal setup
     const mockGrpcClient = {
-      handshake: vi.fn(() => mockHandshakeStream),
+      handshake: vi.fn(
+        (
+          _metadata: Metadata,
+          _options: unknown,
+          started: DuplexCallListener<HandshakeResponse>
+        ) => {
+          listener = started
+          return { write: vi.fn(() => true), end: vi.fn(), cancel: vi.fn(), getPeer: () => "mock" }
+        }
+      ),
       waitForReady: vi.fn((_, cb) => cb())
     }
 
@@ -58,9 +69,7 @@ describe("Handshake Buffer token extraction", () => {
 
     // Emit events asynchronously
     setTimeout(() => {
-      mockHandshakeStream.emit("metadata", metadata)
-      mockHandshakeStream.emit("data", { protocolVersion: 0, payload: Buffer.alloc(0) })
-      mockHandshakeStream.emit("end")
+      respond(metadata)
     }, 5)
 
     const result = await handshakePromise
@@ -92,9 +101,7 @@ describe("Handshake Buffer token extraction", () => {
 
     // Emit events asynchronously
     setTimeout(() => {
-      mockHandshakeStream.emit("metadata", mockMetadata)
-      mockHandshakeStream.emit("data", { protocolVersion: 0, payload: Buffer.alloc(0) })
-      mockHandshakeStream.emit("end")
+      respond(mockMetadata as unknown as Metadata)
     }, 5)
 
     const result = await handshakePromise
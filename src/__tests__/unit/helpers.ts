@@ -0,0 +1,112 @@
+/**
+ * Fixtures shared by the unit tests.
+ */
+import { Client, credentials } from "@grpc/grpc-js"
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http"
+import type { AddressInfo } from "net"
+
+import type { DuplexCallListener, FetchFunction, FlightData, FlightInfo } from "../../index"
+
+/**
+ * Creates a message that carries only a body.
+ */
+export const data = (body: string | Buffer): FlightData => ({
+  flightDescriptor: undefined,
+  dataHeader: Buffer.alloc(0),
+  dataBody: Buffer.from(body),
+  appMetadata: Buffer.alloc(0)
+})
+
+/**
+ * Creates the info of a flight with a path descriptor and no endpoints.
+ */
+export const flightInfo = (path: string[]): FlightInfo => ({
+  schema: Buffer.alloc(0),
+  flightDescriptor: { type: 1, cmd: Buffer.alloc(0), path },
+  endpoint: [],
+  totalRecords: -1,
+  totalBytes: -1,
+  ordered: false,
+  appMetadata: Buffer.alloc(0)
+})
+
+/**
+ * A listener that ignores every event of a call.
+ */
+export const ignoreCall: DuplexCallListener<unknown> = {
+  onMetadata: () => undefined,
+  onMessage: () => undefined,
+  onStatus: () => undefined,
+  onDrain: () => undefined
+}
+
+export const tick = async (ms = 10): Promise<void> =>
+  new Promise((resolve) => {
+    setTimeout(resolve, ms)
+  })
+
+export const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = []
+  for await (const item of iterable) {
+    items.push(item)
+  }
+  return items
+}
+
+/**
+ * Prefixes a payload with the flags byte and length prefix that gRPC-Web
+ * frames and Connect envelopes share.
+ */
+export const frame = (flags: number, payload: Buffer | string): Buffer => {
+  const body = Buffer.from(payload)
+  const header = Buffer.alloc(5)
+  header.writeUInt8(flags, 0)
+  header.writeUInt32BE(body.length, 1)
+  return Buffer.concat([header, body])
+}
+
+export const readBody = async (request: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = []
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Creates a fetch function that answers every request with a response.
+ */
+export const respondWith =
+  (respond: (url: string, init: RequestInit) => Response): FetchFunction =>
+  async (url, init) =>
+    Promise.resolve(respond(url, init))
+
+/**
+ * Starts an HTTP server that translates requests to calls on a gRPC server.
+ *
+ * @param target - Address of the gRPC server
+ * @param translate - Serves one request with calls on the upstream client
+ * @param path - Path under which the server is reached
+ */
+export const startProxy = async (
+  target: string,
+  translate: (
+    upstream: Client,
+    request: IncomingMessage,
+    response: ServerResponse
+  ) => Promise<void>,
+  path = "/"
+): Promise<{ url: string; server: Server }> => {
+  const upstream = new Client(target, credentials.createInsecure())
+  const server = createServer((request, response) => {
+    void translate(upstream, request, response)
+  })
+  server.on("close", () => {
+    upstream.close()
+  })
+  await new Promise<void>((resolve) => {
+    server.listen(0, "127.0.0.1", resolve)
+  })
+  const { port } = server.address() as AddressInfo
+  return { url: `http://127.0.0.1:${String(port)}${path}`, server }
+}
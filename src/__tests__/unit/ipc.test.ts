@@ -1,7 +1,26 @@
+import {
+  Dictionary,
+  Field,
+  Int32,
+  Message,
+  MessageHeader,
+  type RecordBatch,
+  Schema,
+  Table,
+  tableFromArrays,
+  tableFromIPC,
+  Utf8,
+  vectorFromArray
+} from "apache-arrow"
 import { describe, expect, it } from "vitest"
 
 import type { FlightData } from "../../generated/arrow/flight/protocol/Flight.js"
-import { collectFlightDataAsIpc, flightDataToIpc } from "../../ipc"
+import {
+  collectFlightDataAsIpc,
+  flightDataToIpc,
+  FlightRecordBatchStream,
+  recordBatchesToFlightData
+} from "../../ipc"
 
 /**
  * Creates a mock FlightData object for testing.
@@ -198,3 +217,204 @@ describe("collectFlightDataAsIpc", () => {
     expect(result.length).toBe(16)
   })
 })
+
+describe("recordBatchesToFlightData", () => {
+  const descriptor = { type: 1, path: ["test"], cmd: Buffer.alloc(0) }
+
+  const collect = async (source: AsyncIterable<FlightData>): Promise<FlightData[]> => {
+    const messages: FlightData[] = []
+    for await (const data of source) {
+      messages.push(data)
+    }
+    return messages
+  }
+
+  it("encodes a table that round-trips through flightDataToIpc", async () => {
+    const table = tableFromArrays({
+      id: Int32Array.from([1, 2, 3]),
+      score: Float64Array.from([0.5, 1.5, 2.5])
+    })
+
+    const messages = await collect(recordBatchesToFlightData(table, descriptor))
+    const decoded = tableFromIPC(flightDataToIpc(messages))
+
+    expect(messages.map((m) => Message.decode(m.dataHeader).headerType)).toEqual([
+      MessageHeader.Schema,
+      MessageHeader.RecordBatch
+    ])
+    expect(decoded.numRows).toBe(3)
+    expect(decoded.getChild("id")?.toArray()).toEqual(Int32Array.from([1, 2, 3]))
+    expect(decoded.getChild("score")?.toArray()).toEqual(Float64Array.from([0.5, 1.5, 2.5]))
+  })
+
+  it("attaches the descriptor to the first message only", async () => {
+    const table = tableFromArrays({ id: Int32Array.from([1]) })
+
+    const messages = await collect(recordBatchesToFlightData(table, descriptor))
+
+    expect(messages[0].flightDescriptor).toEqual(descriptor)
+    expect(messages.slice(1).every((m) => m.flightDescriptor === undefined)).toBe(true)
+  })
+
+  it("sends dictionary batches before the batches that use them", async () => {
+    const table = new Table({
+      color: vectorFromArray(["red", "green", "red"], new Dictionary(new Utf8(), new Int32()))
+    })
+
+    const messages = await collect(recordBatchesToFlightData(table))
+    const decoded = tableFromIPC(flightDataToIpc(messages))
+
+    expect(messages.map((m) => Message.decode(m.dataHeader).headerType)).toEqual([
+      MessageHeader.Schema,
+      MessageHeader.DictionaryBatch,
+      MessageHeader.RecordBatch
+    ])
+    expect(messages[0].flightDescriptor).toBeUndefined()
+    expect(decoded.getChild("color")?.toJSON()).toEqual(["red", "green", "red"])
+  })
+
+  it("encodes batches from an async iterable as they arrive", async () => {
+    const table = tableFromArrays({ id: Int32Array.from([1, 2]) })
+    const batches = [...table.batches, ...tableFromArrays({ id: Int32Array.from([3]) }).batches]
+
+    async function* source(): AsyncGenerator<RecordBatch> {
+      for (const batch of batches) {
+        yield await Promise.resolve(batch)
+      }
+    }
+
+    const messages = await collect(recordBatchesToFlightData(source(), descriptor))
+    const decoded = tableFromIPC(flightDataToIpc(messages))
+
+    expect(messages).toHaveLength(3)
+    expect(decoded.getChild("id")?.toArray()).toEqual(Int32Array.from([1, 2, 3]))
+  })
+
+  it("sends only the schema for an empty table", async () => {
+    const table = new Table(new Schema([new Field("id", new Int32())]))
+
+    const messages = await collect(recordBatchesToFlightData(table, descriptor))
+
+    expect(messages).toHaveLength(1)
+    expect(Message.decode(messages[0].dataHeader).headerType).toBe(MessageHeader.Schema)
+    expect(tableFromIPC(flightDataToIpc(messages)).schema.fields[0].name).toBe("id")
+  })
+
+  it("sends the descriptor with a schema for a source without batches", async () => {
+    const schema = new Schema([new Field("id", new Int32())])
+
+    const withSchema = await collect(recordBatchesToFlightData([], descriptor, schema))
+    const withoutSchema = await collect(recordBatchesToFlightData([], descriptor))
+
+    expect(withSchema).toHaveLength(1)
+    expect(withSchema[0].flightDescriptor).toEqual(descriptor)
+    expect(tableFromIPC(flightDataToIpc(withSchema)).schema.names).toEqual(["id"])
+    expect(withoutSchema).toHaveLength(1)
+    expect(withoutSchema[0].flightDescriptor).toEqual(descriptor)
+    expect(Message.decode(withoutSchema[0].dataHeader).headerType).toBe(MessageHeader.Schema)
+    expect(tableFromIPC(flightDataToIpc(withoutSchema)).schema.fields).toEqual([])
+  })
+})
+
+describe("FlightRecordBatchStream", () => {
+  const encode = async (table: Table): Promise<FlightData[]> => {
+    const messages: FlightData[] = []
+    for await (const data of recordBatchesToFlightData(table)) {
+      messages.push(data)
+    }
+    return messages
+  }
+
+  async function* replay(messages: FlightData[]): AsyncGenerator<FlightData> {
+    for (const data of messages) {
+      yield await Promise.resolve(data)
+    }
+  }
+
+  it("exposes the schema before reading batches", async () => {
+    const table = tableFromArrays({ id: Int32Array.from([1, 2]) })
+
+    const stream = await FlightRecordBatchStream.from(replay(await encode(table)))
+
+    expect(stream.schema.names).toEqual(["id"])
+  })
+
+  it("yields batches with their app metadata", async () => {
+    const first = tableFromArrays({ id: Int32Array.from([1, 2]), tag: ["a", "b"] })
+    const second = tableFromArrays({ id: Int32Array.from([3]), tag: ["c"] })
+    const table = first.concat(second)
+    const messages = (await encode(table)).map((data, i) => ({
+      ...data,
+      appMetadata: Buffer.from(`message-${String(i)}`)
+    }))
+
+    const received: { rows: unknown[]; appMetadata: string }[] = []
+    for await (const { batch, appMetadata } of await FlightRecordBatchStream.from(
+      replay(messages)
+    )) {
+      received.push({
+        rows: batch.toArray().map((row) => row.toJSON()),
+        appMetadata: appMetadata.toString()
+      })
+    }
+
+    const recordBatchIndexes = messages
+      .map((data, i) => [Message.decode(data.dataHeader).headerType, i] as const)
+      .filter(([type]) => type === MessageHeader.RecordBatch)
+      .map(([, i]) => `message-${String(i)}`)
+    expect(received).toEqual([
+      {
+        rows: [
+          { id: 1, tag: "a" },
+          { id: 2, tag: "b" }
+        ],
+        appMetadata: recordBatchIndexes[0]
+      },
+      { rows: [{ id: 3, tag: "c" }], appMetadata: recordBatchIndexes[1] }
+    ])
+  })
+
+  it("skips messages without a data header", async () => {
+    const messages = await encode(tableFromArrays({ id: Int32Array.from([7]) }))
+    messages.splice(1, 0, createFlightData(new Uint8Array(0)))
+
+    const batches = []
+    for await (const { batch } of await FlightRecordBatchStream.from(replay(messages))) {
+      batches.push(batch)
+    }
+
+    expect(batches).toHaveLength(1)
+    expect(batches[0].getChild("id")?.toArray()).toEqual(Int32Array.from([7]))
+  })
+
+  it("passes on the app metadata of messages without a data header", async () => {
+    const messages = await encode(
+      tableFromArrays({ id: Int32Array.from([1]) }).concat(
+        tableFromArrays({ id: Int32Array.from([2]) })
+      )
+    )
+    const marker = (text: string): FlightData => ({
+      ...createFlightData(new Uint8Array(0)),
+      appMetadata: Buffer.from(text)
+    })
+    messages.splice(2, 0, marker("after-1"))
+    messages.unshift(marker("start"))
+    messages.push(marker("end"), createFlightData(new Uint8Array(0)))
+
+    const events: string[] = []
+    const stream = await FlightRecordBatchStream.from(replay(messages), {
+      onAppMetadata: (appMetadata) => events.push(appMetadata.toString())
+    })
+    for await (const { batch } of stream) {
+      events.push(`batch-${String(batch.get(0)?.toJSON().id)}`)
+    }
+
+    expect(events).toEqual(["start", "batch-1", "after-1", "batch-2", "end"])
+  })
+
+  it("throws when the stream ends before a schema", async () => {
+    await expect(FlightRecordBatchStream.from(replay([]))).rejects.toThrow(
+      "stream ended before a schema was received"
+    )
+  })
+})
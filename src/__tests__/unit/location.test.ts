@@ -1,6 +1,11 @@
 import { describe, expect, it } from "vitest"
 
-import { createLocation, LocationParseError, parseLocation } from "../../location"
+import {
+  createLocation,
+  LocationParseError,
+  locationToClientOptions,
+  parseLocation
+} from "../../location"
 
 describe("parseLocation", () => {
   it("parses grpc:// URI", () => {
@@ -128,3 +133,69 @@ describe("createLocation", () => {
     expect(result).toEqual({ uri: "arrow-flight-reuse-connection://?" })
   })
 })
+
+describe("locationToClientOptions", () => {
+  const options = {
+    tls: { rootCerts: "ca", serverNameOverride: "origin" },
+    auth: { type: "bearer" as const, token: "secret" },
+    defaultTimeoutMs: 1000
+  }
+
+  it("targets plain locations without TLS and keeps other settings", () => {
+    expect(locationToClientOptions(parseLocation("grpc://data.example.com:9000"), options)).toEqual(
+      {
+        host: "data.example.com",
+        port: 9000,
+        tls: false,
+        auth: options.auth,
+        defaultTimeoutMs: 1000
+      }
+    )
+    expect(locationToClientOptions(parseLocation("http://data.example.com"))).toEqual({
+      host: "data.example.com",
+      tls: false
+    })
+  })
+
+  it("uses TLS options for secure locations", () => {
+    const secure = locationToClientOptions(parseLocation("grpc+tls://data.example.com"), options)
+    expect(secure.tls).toBe(options.tls)
+    expect(secure.port).toBeUndefined()
+
+    expect(locationToClientOptions(parseLocation("https://data.example.com:8443")).tls).toBe(true)
+  })
+
+  it("targets Unix domain sockets", () => {
+    const unix = locationToClientOptions(parseLocation("grpc+unix:///tmp/flight.sock"), options)
+
+    expect(unix).toEqual({
+      host: "localhost",
+      socketPath: "/tmp/flight.sock",
+      tls: false,
+      auth: options.auth,
+      defaultTimeoutMs: 1000
+    })
+  })
+
+  it("replaces the address of full client options", () => {
+    const base = {
+      host: "origin.example.com",
+      port: 8815,
+      socketPath: "/tmp/origin.sock",
+      tls: false
+    }
+
+    const plain = locationToClientOptions(parseLocation("grpc://data.example.com:9000"), base)
+    expect(plain.socketPath).toBeUndefined()
+
+    const unix = locationToClientOptions(parseLocation("grpc+unix:///tmp/flight.sock"), base)
+    expect(unix.port).toBeUndefined()
+  })
+
+  it("rejects locations without an address of their own", () => {
+    expect(() => locationToClientOptions(parseLocation(""))).toThrow(LocationParseError)
+    expect(() => locationToClientOptions(parseLocation("grpc+unix://"))).toThrow(
+      "missing socket path: grpc+unix://"
+    )
+  })
+})
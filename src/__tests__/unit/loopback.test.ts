@@ -0,0 +1,584 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import {
+  createFlightClient,
+  type FlightClient,
+  type FlightClientOptions,
+  type FlightData,
+  FlightError,
+  FlightServer,
+  type FlightServiceHandlers,
+  LoopbackTransport,
+  Metadata,
+  type ServerCallContext
+} from "../../index"
+import { data, flightInfo, ignoreCall, tick } from "./helpers"
+
+const clients: FlightClient[] = []
+
+/**
+ * Connects a client whose calls are served by the handlers in-process.
+ */
+const connect = async (
+  handlers: FlightServiceHandlers,
+  options: Partial<FlightClientOptions> = {}
+): Promise<FlightClient> => {
+  const client = await createFlightClient({
+    host: "localhost",
+    transport: { type: "custom", createTransport: () => new LoopbackTransport(handlers) },
+    ...options
+  })
+  clients.push(client)
+  return client
+}
+
+afterEach(() => {
+  for (const client of clients.splice(0)) {
+    client.close()
+  }
+})
+
+describe("LoopbackTransport", () => {
+  it("passes requests, metadata and the peer to the handlers", async () => {
+    let context: ServerCallContext | undefined
+    const client = await connect({
+      getFlightInfo(descriptor, callContext) {
+        context = callContext
+        return { ...flightInfo(["test"]), flightDescriptor: descriptor, totalRecords: 100 }
+      }
+    })
+
+    const info = await client.getFlightInfo(
+      { type: "path", path: ["a", "b"] },
+      { headers: { "x-tenant": "acme" } }
+    )
+
+    expect(info.flightDescriptor?.path).toEqual(["a", "b"])
+    expect(info.totalRecords).toBe(100)
+    expect(context?.metadata.get("x-tenant")).toEqual(["acme"])
+    expect(context?.peer).toBe("loopback")
+  })
+
+  it("fails calls to methods without a handler with UNIMPLEMENTED", async () => {
+    const client = await connect({})
+
+    await expect(client.getSchema({ type: "path", path: ["a"] })).rejects.toMatchObject({
+      code: "UNIMPLEMENTED",
+      message: expect.stringContaining("/arrow.flight.protocol.FlightService/GetSchema")
+    })
+    await expect(client.listActions().next()).rejects.toMatchObject({ code: "UNIMPLEMENTED" })
+    await expect(client.doExchange().collectResults()).rejects.toMatchObject({
+      code: "UNIMPLEMENTED"
+    })
+  })
+
+  it("fails calls with the code and metadata of a handler's FlightError", async () => {
+    const client = await connect({
+      doAction() {
+        throw new FlightError("no such action", "NOT_FOUND", { metadata: { "x-reason": "gone" } })
+      }
+    })
+
+    let trailers: Metadata | undefined
+    const error = await client
+      .doAction(
+        { type: "missing", body: Buffer.alloc(0) },
+        {
+          onTrailers: (metadata) => {
+            trailers = metadata
+          }
+        }
+      )
+      .next()
+      .catch((caught: unknown) => caught)
+
+    expect(error).toMatchObject({ code: "NOT_FOUND", message: "no such action" })
+    expect(trailers?.get("x-reason")).toEqual(["gone"])
+  })
+
+  it("calls listActions with only the context", async () => {
+    const client = await connect({
+      *listActions(context) {
+        yield { type: context.peer, description: "peer" }
+      }
+    })
+
+    const actions = []
+    for await (const action of client.listActions()) {
+      actions.push(action)
+    }
+
+    expect(actions).toEqual([{ type: "loopback", description: "peer" }])
+  })
+
+  it("aborts the handler's signal when the call is cancelled", async () => {
+    let aborted = false
+    const client = await connect({
+      async *doGet(_ticket, context) {
+        context.signal.addEventListener("abort", () => {
+          aborted = true
+        })
+        for (;;) {
+          yield data("more")
+          await tick(1)
+        }
+      }
+    })
+
+    const controller = new AbortController()
+    const reader = client.doGet({ ticket: Buffer.from("t") }, { signal: controller.signal })
+    await reader.next()
+    controller.abort()
+
+    await expect(reader.next()).rejects.toMatchObject({ code: "CANCELLED" })
+    expect(aborted).toBe(true)
+  })
+
+  it("ends calls still running at their deadline", async () => {
+    let aborted = false
+    const client = await connect({
+      async pollFlightInfo(_descriptor, context) {
+        await new Promise((resolve) => {
+          context.signal.addEventListener("abort", resolve)
+        })
+        aborted = true
+        return {
+          info: undefined,
+          flightDescriptor: undefined,
+          progress: 0,
+          expirationTime: undefined
+        }
+      }
+    })
+
+    await expect(
+      client.pollFlightInfo({ type: "path", path: ["slow"] }, { timeoutMs: 20 })
+    ).rejects.toMatchObject({ code: "DEADLINE_EXCEEDED" })
+    expect(aborted).toBe(true)
+  })
+
+  it("does not start a call cancelled as it is made", async () => {
+    const doExchange = vi.fn(async function* (messages: AsyncIterable<FlightData>) {
+      yield* messages
+    })
+    const client = await connect({ doExchange })
+
+    const controller = new AbortController()
+    controller.abort()
+    const exchange = client.doExchange({ signal: controller.signal })
+
+    await expect(exchange.collectResults()).rejects.toMatchObject({ code: "CANCELLED" })
+    expect(doExchange).not.toHaveBeenCalled()
+  })
+
+  it("holds back writes until the handler reads them", async () => {
+    let startReading = (): void => undefined
+    const reading = new Promise<void>((resolve) => {
+      startReading = resolve
+    })
+    const client = await connect({
+      async *doPut(messages) {
+        await reading
+        let count = 0
+        for await (const message of messages) {
+          count += message.dataBody.length
+        }
+        yield { appMetadata: Buffer.from(String(count)) }
+      }
+    })
+
+    const stream = client.doPut()
+    const results = stream.collectResults()
+    let written = 0
+    const upload = (async () => {
+      for (let index = 0; index < 100; index++) {
+        await stream.writeAsync(data("x"))
+        written++
+      }
+      stream.end()
+    })()
+
+    await tick()
+    const writtenWhileBlocked = written
+    startReading()
+    await upload
+
+    expect(writtenWhileBlocked).toBeLessThan(100)
+    expect((await results)[0].appMetadata.toString()).toBe("100")
+  })
+
+  it("stops the handler from sending while the consumer is behind", async () => {
+    let sent = 0
+    const client = await connect(
+      {
+        async *doExchange() {
+          for (let index = 0; index < 100; index++) {
+            await Promise.resolve()
+            sent++
+            yield data(String(index))
+          }
+        }
+      },
+      { readQueueSize: 1 }
+    )
+
+    const exchange = client.doExchange()
+    exchange.end()
+    const results = exchange.results()
+    await results.next()
+    await tick()
+    const sentWhilePaused = sent
+
+    let received = 1
+    for await (const message of results) {
+      expect(message.dataBody.toString()).toBe(String(received))
+      received++
+    }
+
+    expect(sentWhilePaused).toBeLessThan(100)
+    expect(received).toBe(100)
+  })
+
+  it("completes writes the handler leaves unread", async () => {
+    const client = await connect({
+      async *doPut(messages) {
+        for await (const message of messages) {
+          yield { appMetadata: message.dataBody }
+          return
+        }
+      }
+    })
+
+    const stream = client.doPut()
+    const results = stream.collectResults()
+    await stream.writeAsync(data("first"))
+    await stream.writeAsync(data("second"))
+    await tick()
+    await stream.writeAsync(data("after the call"))
+    stream.end()
+
+    expect((await results).map((result) => result.appMetadata.toString())).toEqual(["first"])
+  })
+
+  it("runs a handshake", async () => {
+    const client = await connect({
+      async *handshake(requests) {
+        for await (const request of requests) {
+          yield { protocolVersion: 1, payload: Buffer.from(`${request.payload.toString()}-ok`) }
+        }
+      }
+    })
+
+    const result = await client.handshake({ payload: Buffer.from("hello") })
+
+    expect(result.payload.toString()).toBe("hello-ok")
+  })
+
+  it("reports its peer", () => {
+    const transport = new LoopbackTransport({})
+    const metadata = new Metadata()
+
+    const call = transport.doGet({ ticket: Buffer.alloc(0) }, metadata, {}, ignoreCall)
+    const unary = transport.getFlightInfo(
+      { type: 1, path: [], cmd: Buffer.alloc(0) },
+      metadata,
+      {},
+      ignoreCall
+    )
+    const exchange = transport.doPut(metadata, {}, ignoreCall)
+
+    for (const started of [call, unary, exchange]) {
+      expect(started.getPeer()).toBe("loopback")
+      started.cancel()
+      started.cancel()
+    }
+  })
+
+  it("sends the token of a token provider with streams of requests", async () => {
+    const authorization: string[] = []
+    const client = await connect(
+      {
+        async *doPut(requests, context) {
+          authorization.push(String(context.metadata.get("authorization")[0]))
+          for await (const request of requests) {
+            yield { appMetadata: request.appMetadata }
+          }
+        }
+      },
+      { auth: { type: "tokenProvider", getToken: async () => Promise.resolve("secret") } }
+    )
+
+    const stream = client.doPut()
+    stream.write(data("batch"))
+    stream.end()
+    const results = await stream.collectResults()
+
+    expect(results).toHaveLength(1)
+    expect(authorization).toEqual(["Bearer secret"])
+  })
+})
+
+describe("transport option", () => {
+  it("creates a custom transport with the options of each location client", async () => {
+    const createTransport = vi.fn(() => new LoopbackTransport({}))
+    const client = await connect({}, { transport: { type: "custom", createTransport } })
+
+    await client.getLocationClient("grpc://other.example.com:9000")
+
+    expect(createTransport).toHaveBeenCalledTimes(2)
+    expect(createTransport).toHaveBeenLastCalledWith(
+      expect.objectContaining({ host: "other.example.com", port: 9000 })
+    )
+  })
+
+  it("makes grpc-js calls when the grpc transport is selected", async () => {
+    const server = new FlightServer({ getSchema: () => ({ schema: Buffer.from("s") }) })
+    const location = await server.listen()
+    try {
+      const client = await createFlightClient(location, { transport: { type: "grpc" } })
+      clients.push(client)
+
+      const result = await client.getSchema({ type: "path", path: ["a"] })
+
+      expect(result.schema.toString()).toBe("s")
+    } finally {
+      server.forceClose()
+    }
+  })
+})
+
+describe("getFlightInfo and getSchema coverage", () => {
+  it("calls getFlightInfo and resolves with response", async () => {
+    const client = await connect({ getFlightInfo: () => flightInfo(["test"]) })
+
+    const result = await client.getFlightInfo({ type: "path", path: ["test"] })
+    expect(result).toEqual(flightInfo(["test"]))
+  })
+
+  it("calls getFlightInfo and rejects on error", async () => {
+    const client = await connect({
+      getFlightInfo: () => {
+        throw new Error("flight not found")
+      }
+    })
+
+    await expect(client.getFlightInfo({ type: "path", path: ["missing"] })).rejects.toThrow(
+      "flight not found"
+    )
+  })
+
+  it("calls getSchema and resolves with response", async () => {
+    const client = await connect({
+      getSchema: (descriptor) => ({ schema: descriptor.cmd })
+    })
+
+    const result = await client.getSchema({ type: "cmd", cmd: Buffer.from("SELECT 1") })
+    expect(result).toEqual({ schema: Buffer.from("SELECT 1") })
+  })
+
+  it("calls getSchema and rejects on error", async () => {
+    const client = await connect({
+      getSchema: () => {
+        throw new Error("schema error")
+      }
+    })
+
+    await expect(client.getSchema({ type: "path", path: ["missing"] })).rejects.toThrow(
+      "schema error"
+    )
+  })
+})
+
+describe("listFlights with criteria coverage", () => {
+  const handlers: FlightServiceHandlers = {
+    *listFlights(criteria) {
+      yield {
+        ...flightInfo(["test"]),
+        flightDescriptor: { type: 1, path: [criteria.expression.toString()], cmd: Buffer.alloc(0) }
+      }
+    }
+  }
+
+  it("calls listFlights with criteria parameter", async () => {
+    const client = await connect(handlers)
+
+    const results = []
+    for await (const info of client.listFlights({ expression: Buffer.from("filter") })) {
+      results.push(info)
+    }
+
+    expect(results.map((info) => info.flightDescriptor?.path)).toEqual([["filter"]])
+  })
+
+  it("calls listFlights without criteria (uses default)", async () => {
+    const client = await connect(handlers)
+
+    const results = []
+    for await (const info of client.listFlights()) {
+      results.push(info)
+    }
+
+    expect(results.map((info) => info.flightDescriptor?.path)).toEqual([[""]])
+  })
+})
+
+describe("doGet and streamToAsyncIterable coverage", () => {
+  it("iterates doGet results via streamToAsyncIterable", async () => {
+    const client = await connect({
+      *doGet(ticket) {
+        yield data(`${ticket.ticket.toString()}-1`)
+        yield data(`${ticket.ticket.toString()}-2`)
+      }
+    })
+
+    const results = []
+    for await (const message of client.doGet({ ticket: Buffer.from("test-ticket") })) {
+      results.push(message.dataBody.toString())
+    }
+
+    expect(results).toEqual(["test-ticket-1", "test-ticket-2"])
+  })
+
+  it("handles error in doGet stream", async () => {
+    const client = await connect({
+      // eslint-disable-next-line require-yield
+      *doGet() {
+        throw new Error("stream failed")
+      }
+    })
+
+    await expect(async () => {
+      for await (const message of client.doGet({ ticket: Buffer.from("test-ticket") })) {
+        expect(message).toBeUndefined()
+      }
+    }).rejects.toThrow("stream failed")
+  })
+})
+
+describe("DoExchangeStream error handling", () => {
+  it("handles stream error events", async () => {
+    const client = await connect({
+      async *doExchange(messages) {
+        for await (const message of messages) {
+          yield message
+          throw new FlightError("Internal server error", "INTERNAL")
+        }
+      }
+    })
+
+    const exchangeStream = client.doExchange()
+    exchangeStream.write(data("data"))
+
+    await expect(exchangeStream.collectResults()).rejects.toMatchObject({ code: "INTERNAL" })
+  })
+
+  it("handles stream end events normally", async () => {
+    const client = await connect({
+      *doExchange() {
+        yield data("response")
+      }
+    })
+
+    const exchangeStream = client.doExchange()
+    exchangeStream.end()
+
+    const results = await exchangeStream.collectResults()
+    expect(results).toHaveLength(1)
+  })
+})
+
+describe("DoPutStream error handling", () => {
+  const upload: FlightData = {
+    flightDescriptor: { type: 1, path: ["test"], cmd: Buffer.alloc(0) },
+    dataHeader: Buffer.from("test"),
+    dataBody: Buffer.from("data"),
+    appMetadata: Buffer.alloc(0)
+  }
+
+  it("handles put stream error events", async () => {
+    const client = await connect({
+      async *doPut(messages) {
+        for await (const message of messages) {
+          yield { appMetadata: message.dataBody }
+        }
+        throw new Error("Put failed")
+      }
+    })
+
+    const putStream = client.doPut()
+    putStream.write(upload)
+    putStream.end()
+
+    await expect(putStream.collectResults()).rejects.toThrow("Put failed")
+  })
+
+  it("handles put stream end with results", async () => {
+    const client = await connect({
+      async *doPut(messages) {
+        for await (const message of messages) {
+          yield {
+            appMetadata: Buffer.from(`ack ${message.flightDescriptor?.path.join("/") ?? ""}`)
+          }
+        }
+      }
+    })
+
+    const putStream = client.doPut()
+    putStream.write(upload)
+    putStream.end()
+
+    const results = await putStream.collectResults()
+    expect(results.map((result) => result.appMetadata.toString())).toEqual(["ack test"])
+  })
+})
+
+describe("renewFlightEndpoint", () => {
+  const endpoint = {
+    ticket: { ticket: Buffer.from("ticket-1") },
+    location: [{ uri: "grpc://localhost:8815" }],
+    expirationTime: new Date("2026-01-01T00:00:00.000Z"),
+    appMetadata: Buffer.alloc(0)
+  }
+
+  it("sends a RenewFlightEndpoint action and decodes the renewed endpoint", async () => {
+    const { FlightEndpoint, RenewFlightEndpointRequest } =
+      await import("../../generated/arrow/flight/protocol/Flight.js")
+
+    const actions: { type: string; body: Buffer }[] = []
+    const client = await connect({
+      *doAction(action) {
+        actions.push(action)
+        const request = RenewFlightEndpointRequest.decode(action.body)
+        const renewed = {
+          ...request.endpoint,
+          expirationTime: new Date("2026-01-01T01:00:00.000Z")
+        }
+        yield {
+          body: Buffer.from(FlightEndpoint.encode(FlightEndpoint.fromPartial(renewed)).finish())
+        }
+      }
+    })
+
+    const result = await client.renewFlightEndpoint(endpoint)
+
+    expect(result.expirationTime).toEqual(new Date("2026-01-01T01:00:00.000Z"))
+    expect(result.ticket?.ticket).toEqual(Buffer.from("ticket-1"))
+
+    expect(actions.map((action) => action.type)).toEqual(["RenewFlightEndpoint"])
+    const request = RenewFlightEndpointRequest.decode(actions[0].body)
+    expect(request.endpoint?.ticket?.ticket).toEqual(Buffer.from("ticket-1"))
+    expect(request.endpoint?.expirationTime).toEqual(endpoint.expirationTime)
+  })
+
+  it("rejects when no result returned", async () => {
+    const client = await connect({
+      *doAction() {
+        // No results
+      }
+    })
+
+    await expect(client.renewFlightEndpoint(endpoint)).rejects.toThrow(
+      "no renew flight endpoint result received"
+    )
+  })
+})
@@ -0,0 +1,205 @@
+import { tableFromArrays, tableFromIPC } from "apache-arrow"
+import { afterEach, beforeEach, describe, expect, it } from "vitest"
+
+import {
+  cmdDescriptor,
+  createFlightClient,
+  type FlightClient,
+  type FlightData,
+  FlightError,
+  type FlightInfo,
+  InMemoryFlightServer,
+  pathDescriptor,
+  recordBatchesToFlightData,
+  toFlightDescriptor
+} from "../../index"
+
+const scores = tableFromArrays({
+  id: Int32Array.from([1, 2, 3]),
+  score: Float64Array.from([0.5, 0.75, 1])
+})
+
+describe("InMemoryFlightServer", () => {
+  let server: InMemoryFlightServer
+  let client: FlightClient
+
+  const upload = async (messages: FlightData[]): Promise<void> => {
+    const stream = client.doPut()
+    for (const message of messages) {
+      stream.write(message)
+    }
+    stream.end()
+    await stream.collectResults()
+  }
+
+  const message = (descriptor?: FlightInfo["flightDescriptor"]): FlightData => ({
+    flightDescriptor: descriptor,
+    dataHeader: Buffer.alloc(0),
+    dataBody: Buffer.alloc(0),
+    appMetadata: Buffer.from("metadata only")
+  })
+
+  beforeEach(async () => {
+    server = new InMemoryFlightServer()
+    client = await createFlightClient(await server.listen())
+  })
+
+  afterEach(() => {
+    client.close()
+    server.forceClose()
+  })
+
+  it("serves uploaded tables back", async () => {
+    const results = await client.putTable(pathDescriptor("sports", "scores"), scores)
+
+    const info = await client.getFlightInfo(pathDescriptor("sports", "scores"))
+    const table = await client.readFlightTable(info)
+
+    expect(results).toHaveLength(1)
+    expect(info.flightDescriptor?.path).toEqual(["sports", "scores"])
+    expect(info.totalRecords).toBe(3)
+    expect(info.totalBytes).toBeGreaterThan(0)
+    expect(info.endpoint).toHaveLength(1)
+    expect(table.toArray().map((row) => row.toJSON())).toEqual(
+      scores.toArray().map((row) => row.toJSON())
+    )
+  })
+
+  it("describes the schema of uploaded tables", async () => {
+    await client.putTable(pathDescriptor("scores"), scores)
+
+    const { schema } = await client.getSchema(pathDescriptor("scores"))
+    const info = await client.getFlightInfo(pathDescriptor("scores"))
+
+    expect(tableFromIPC(schema).schema.names).toEqual(["id", "score"])
+    expect(info.schema).toEqual(schema)
+  })
+
+  it("lists uploads and replaces uploads to the same path", async () => {
+    await client.putTable(pathDescriptor("a"), scores)
+    await client.putTable(pathDescriptor("b"), scores)
+    await client.putTable(pathDescriptor("a"), scores.slice(0, 1))
+
+    const infos: FlightInfo[] = []
+    for await (const info of client.listFlights()) {
+      infos.push(info)
+    }
+
+    expect(infos.map((info) => [info.flightDescriptor?.path, info.totalRecords])).toEqual([
+      [["a"], 1],
+      [["b"], 3]
+    ])
+  })
+
+  it("stores uploads without batches under their descriptor", async () => {
+    const results = await client.putTable(pathDescriptor("empty"), [])
+
+    const info = await client.getFlightInfo(pathDescriptor("empty"))
+
+    expect(results).toHaveLength(1)
+    expect(info.totalRecords).toBe(0)
+    expect((await client.readFlightTable(info)).numRows).toBe(0)
+  })
+
+  it("ignores messages that only carry app metadata", async () => {
+    const messages: FlightData[] = [message(toFlightDescriptor(pathDescriptor("scores")))]
+    for await (const data of recordBatchesToFlightData(scores)) {
+      messages.push(data)
+    }
+
+    await upload(messages)
+    const info = await client.getFlightInfo(pathDescriptor("scores"))
+
+    expect(info.totalRecords).toBe(3)
+    expect((await client.readFlightTable(info)).numRows).toBe(3)
+  })
+
+  it("rejects unknown flights and tickets", async () => {
+    await expect(client.getFlightInfo(pathDescriptor("missing"))).rejects.toMatchObject({
+      code: "NOT_FOUND",
+      message: "flight not found: missing"
+    })
+    await expect(client.getSchema(cmdDescriptor(Buffer.from("SELECT 1")))).rejects.toMatchObject({
+      code: "INVALID_ARGUMENT",
+      message: "only path descriptors are supported"
+    })
+    await expect(async () => {
+      for await (const data of client.doGet({ ticket: Buffer.from("missing") })) {
+        expect(data).toBeUndefined()
+      }
+    }).rejects.toMatchObject({ code: "NOT_FOUND", message: "unknown ticket" })
+  })
+
+  it("rejects invalid uploads", async () => {
+    await expect(upload([])).rejects.toThrow("DoPut stream is empty")
+    await expect(upload([message()])).rejects.toThrow("first DoPut message has no descriptor")
+    await expect(
+      upload([message(toFlightDescriptor(cmdDescriptor(Buffer.from("x"))))])
+    ).rejects.toThrow("only path descriptors are supported")
+    await expect(upload([message(toFlightDescriptor(pathDescriptor("a")))])).rejects.toThrow(
+      "DoPut stream does not start with a schema"
+    )
+  })
+
+  it("cancels flights by discarding them", async () => {
+    await client.putTable(pathDescriptor("scores"), scores)
+    const info = await client.getFlightInfo(pathDescriptor("scores"))
+
+    const actions: string[] = []
+    for await (const action of client.listActions()) {
+      actions.push(action.type)
+    }
+
+    expect(actions).toEqual(["CancelFlightInfo"])
+    expect(await client.cancelFlightInfo(info)).toBe("cancelled")
+    await expect(client.getFlightInfo(pathDescriptor("scores"))).rejects.toMatchObject({
+      code: "NOT_FOUND"
+    })
+    await expect(client.cancelFlightInfo(info)).rejects.toMatchObject({ code: "NOT_FOUND" })
+    await expect(client.cancelFlightInfo({ ...info, flightDescriptor: undefined })).rejects.toThrow(
+      "CancelFlightInfo request has no flight"
+    )
+  })
+
+  it("rejects unknown actions", async () => {
+    await expect(async () => {
+      for await (const result of client.doAction({ type: "drop", body: Buffer.alloc(0) })) {
+        expect(result).toBeUndefined()
+      }
+    }).rejects.toMatchObject({ code: "UNIMPLEMENTED", message: "unknown action: drop" })
+  })
+
+  it("serves extended handlers, which may delegate to the in-memory ones", async () => {
+    const extended = new InMemoryFlightServer({
+      extendHandlers: (handlers) => ({
+        listActions: () => [{ type: "ping", description: "" }],
+        getSchema: async (descriptor, context) => {
+          if (descriptor.path[0] === "hidden") {
+            throw new FlightError("hidden flight", "PERMISSION_DENIED")
+          }
+          return handlers.getSchema!(descriptor, context)
+        }
+      })
+    })
+    const extendedClient = await createFlightClient(await extended.listen())
+    try {
+      await extendedClient.putTable(pathDescriptor("hidden"), scores)
+      await extendedClient.putTable(pathDescriptor("scores"), scores)
+
+      const actions: string[] = []
+      for await (const action of extendedClient.listActions()) {
+        actions.push(action.type)
+      }
+      const { schema } = await extendedClient.getSchema(pathDescriptor("scores"))
+
+      expect(actions).toEqual(["ping"])
+      expect(tableFromIPC(schema).schema.names).toEqual(["id", "score"])
+      await expect(extendedClient.getSchema(pathDescriptor("hidden"))).rejects.toMatchObject({
+        code: "PERMISSION_DENIED"
+      })
+    } finally {
+      extendedClient.close()
+      extended.forceClose()
+    }
+  })
+})
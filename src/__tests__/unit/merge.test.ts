@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest"
+
+import { mergeStreams } from "../../merge"
+import { collect } from "./helpers"
+
+/**
+ * Creates a source that yields its items with a delay before each one.
+ */
+function delayed<T>(items: T[], delayMs: number, log?: string[], name?: string) {
+  return async function* (): AsyncGenerator<T> {
+    log?.push(`open ${String(name)}`)
+    try {
+      for (const item of items) {
+        await new Promise((resolve) => setTimeout(resolve, delayMs))
+        yield item
+      }
+    } finally {
+      log?.push(`close ${String(name)}`)
+    }
+  }
+}
+
+describe("mergeStreams", () => {
+  it("yields nothing for no sources", async () => {
+    expect(
+      await collect(mergeStreams([], { concurrency: 2, ordered: true, bufferSize: 16 }))
+    ).toEqual([])
+    expect(
+      await collect(mergeStreams([], { concurrency: 2, ordered: false, bufferSize: 16 }))
+    ).toEqual([])
+  })
+
+  it("keeps source order when ordered, even if later sources finish first", async () => {
+    const sources = [delayed(["a1", "a2"], 20), delayed(["b1"], 1), delayed(["c1", "c2"], 1)]
+
+    const items = await collect(
+      mergeStreams(sources, { concurrency: 3, ordered: true, bufferSize: 16 })
+    )
+
+    expect(items).toEqual(["a1", "a2", "b1", "c1", "c2"])
+  })
+
+  it("yields items as they arrive when unordered", async () => {
+    const sources = [delayed(["slow"], 30), delayed(["fast"], 1)]
+
+    const items = await collect(
+      mergeStreams(sources, { concurrency: 2, ordered: false, bufferSize: 16 })
+    )
+
+    expect(items).toEqual(["fast", "slow"])
+  })
+
+  it("opens at most concurrency sources at a time", async () => {
+    const log: string[] = []
+    const sources = ["a", "b", "c"].map((name) => delayed([name], 5, log, name))
+
+    const unordered = await collect(
+      mergeStreams(sources, { concurrency: 1, ordered: false, bufferSize: 16 })
+    )
+    expect(unordered).toEqual(["a", "b", "c"])
+    expect(log).toEqual(["open a", "close a", "open b", "close b", "open c", "close c"])
+
+    log.length = 0
+    const ordered = await collect(
+      mergeStreams(sources, { concurrency: 2, ordered: true, bufferSize: 16 })
+    )
+    expect(ordered).toEqual(["a", "b", "c"])
+    expect(log.slice(0, 2)).toEqual(["open a", "open b"])
+    expect(log.indexOf("open c")).toBeGreaterThan(log.indexOf("close a"))
+  })
+
+  it("fails with the first source error", async () => {
+    const failing = async function* (): AsyncGenerator<string> {
+      await Promise.resolve()
+      yield* []
+      throw new Error("endpoint failed")
+    }
+
+    await expect(
+      collect(
+        mergeStreams([delayed(["a"], 5), failing], {
+          concurrency: 2,
+          ordered: true,
+          bufferSize: 16
+        })
+      )
+    ).rejects.toThrow("endpoint failed")
+    await expect(
+      collect(
+        mergeStreams([delayed(["a"], 5), failing], {
+          concurrency: 2,
+          ordered: false,
+          bufferSize: 16
+        })
+      )
+    ).rejects.toThrow("endpoint failed")
+  })
+
+  it("stops reading sources when the consumer stops early", async () => {
+    const log: string[] = []
+    const sources = [delayed([1, 2, 3], 1, log, "a"), delayed([4, 5, 6], 1, log, "b")]
+
+    for await (const item of mergeStreams(sources, {
+      concurrency: 2,
+      ordered: false,
+      bufferSize: 16
+    })) {
+      expect(item).toBeTypeOf("number")
+      break
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20))
+
+    expect(log.filter((entry) => entry.startsWith("close"))).toHaveLength(2)
+    expect(log).not.toContain("open c")
+  })
+
+  it("closes every source it opened after stopping", async () => {
+    const log: string[] = []
+    const sources = ["a", "b", "c", "d"].map((name) => delayed([name, name], 5, log, name))
+
+    for await (const item of mergeStreams(sources, {
+      concurrency: 2,
+      ordered: true,
+      bufferSize: 16
+    })) {
+      expect(item).toBe("a")
+      break
+    }
+    await new Promise((resolve) => setTimeout(resolve, 40))
+
+    const opened = log.filter((entry) => entry.startsWith("open"))
+    const closed = log.filter((entry) => entry.startsWith("close"))
+    expect(opened).toEqual(["open a", "open b"])
+    expect(closed).toHaveLength(2)
+  })
+
+  it("stops reading a source while its buffer is full", async () => {
+    const read: string[] = []
+    const counting = (name: string) =>
+      async function* (): AsyncGenerator<string> {
+        for (let index = 0; index < 10; index++) {
+          read.push(name)
+          yield await Promise.resolve(name)
+        }
+      }
+
+    const merged = mergeStreams([counting("a"), counting("b")], {
+      concurrency: 2,
+      ordered: true,
+      bufferSize: 2
+    })
+    const first = await merged.next()
+    await new Promise((resolve) => setTimeout(resolve, 20))
+
+    expect(first.value).toBe("a")
+    expect(read.filter((name) => name === "a").length).toBeLessThanOrEqual(4)
+    expect(read.filter((name) => name === "b")).toHaveLength(2)
+    expect(await collect(merged)).toHaveLength(19)
+
+    read.length = 0
+    const unordered = mergeStreams([counting("a"), counting("b")], {
+      concurrency: 2,
+      ordered: false,
+      bufferSize: 3
+    })
+    await unordered.next()
+    await new Promise((resolve) => setTimeout(resolve, 20))
+
+    expect(read.length).toBeLessThanOrEqual(6)
+    expect(await collect(unordered)).toHaveLength(19)
+  })
+
+  it("fails at once when a later source fails in order", async () => {
+    const failing = async function* (): AsyncGenerator<string> {
+      await Promise.resolve()
+      yield* []
+      throw new Error("endpoint failed")
+    }
+    const slow = delayed(["a1", "a2", "a3"], 200)
+
+    const received: string[] = []
+    const started = Date.now()
+    await expect(
+      (async () => {
+        for await (const item of mergeStreams([slow, failing], {
+          concurrency: 2,
+          ordered: true,
+          bufferSize: 16
+        })) {
+          received.push(item)
+        }
+      })()
+    ).rejects.toThrow("endpoint failed")
+
+    expect(received).toEqual([])
+    expect(Date.now() - started).toBeLessThan(150)
+  })
+})
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest"
+
+import { Metadata } from "../../index"
+
+describe("Metadata", () => {
+  it("keeps every value of a key in the order it was added", () => {
+    const metadata = new Metadata()
+    metadata.set("X-Trace", "a")
+    metadata.add("x-trace", "b")
+    metadata.add("x-cost-bin", Buffer.from([1]))
+
+    expect(metadata.get("x-TRACE")).toEqual(["a", "b"])
+    expect(metadata.getMap()).toEqual({ "x-trace": "a", "x-cost-bin": Buffer.from([1]) })
+    expect(metadata.toJSON()).toEqual({ "x-trace": ["a", "b"], "x-cost-bin": [Buffer.from([1])] })
+
+    metadata.set("x-trace", "c")
+    metadata.remove("X-Cost-Bin")
+
+    expect(metadata.toJSON()).toEqual({ "x-trace": ["c"] })
+    expect(metadata.get("missing")).toEqual([])
+  })
+
+  it("clones binary values and merges other metadata", () => {
+    const metadata = new Metadata()
+    metadata.set("x-id", "1")
+    metadata.set("x-token-bin", Buffer.from("secret"))
+
+    const copy = metadata.clone()
+    const [token] = copy.get("x-token-bin") as Buffer[]
+    token.fill(0)
+    const other = new Metadata()
+    other.set("x-id", "2")
+    other.set("x-region", "eu")
+    copy.merge(other)
+
+    expect(metadata.get("x-token-bin")).toEqual([Buffer.from("secret")])
+    expect(copy.toJSON()).toEqual({
+      "x-id": ["1", "2"],
+      "x-token-bin": [Buffer.alloc(6)],
+      "x-region": ["eu"]
+    })
+  })
+
+  it("rejects keys and values that gRPC does not allow", () => {
+    const metadata = new Metadata()
+
+    expect(() => {
+      metadata.set("x trace", "a")
+    }).toThrow('Metadata key "x trace" contains illegal characters')
+    expect(() => {
+      metadata.set("x-token-bin", "text")
+    }).toThrow("keys that end with '-bin' must have Buffer values")
+    expect(() => {
+      metadata.add("x-token", Buffer.from("binary"))
+    }).toThrow("keys that don't end with '-bin' must have String values")
+    expect(() => {
+      metadata.add("x-token", "line\n")
+    }).toThrow("contains illegal characters")
+  })
+})
@@ -0,0 +1,160 @@
+import { describe, expect, it, vi } from "vitest"
+
+import { Metadata, StatusCode } from "../../index"
+import { startCallMiddleware, withResponseCallbacks } from "../../middleware"
+import type { CallStatus, ClientMiddleware } from "../../types"
+import { ignoreCall } from "./helpers"
+
+describe("startCallMiddleware", () => {
+  it("passes the call info to each factory", () => {
+    const factory = vi.fn(() => undefined)
+
+    startCallMiddleware([factory, factory], "DoGet", new Metadata())
+
+    expect(factory).toHaveBeenCalledTimes(2)
+    expect(factory).toHaveBeenCalledWith({ method: "DoGet" })
+  })
+
+  it("returns the listener untouched when no middleware is created", () => {
+    const observe = startCallMiddleware([() => undefined], "GetSchema", new Metadata())
+
+    expect(observe(ignoreCall)).toBe(ignoreCall)
+  })
+
+  it("lets middleware modify outgoing headers in order", () => {
+    const headers = new Metadata()
+    const order: string[] = []
+
+    startCallMiddleware(
+      [
+        () => ({
+          sendingHeaders: (h) => {
+            order.push("first")
+            h.set("x-trace-id", "abc")
+          }
+        }),
+        () => ({
+          sendingHeaders: (h) => {
+            order.push("second")
+            h.set("x-trace-id", `${String(h.get("x-trace-id")[0])}-1`)
+          }
+        })
+      ],
+      "GetFlightInfo",
+      headers
+    )
+
+    expect(order).toEqual(["first", "second"])
+    expect(headers.get("x-trace-id")).toEqual(["abc-1"])
+  })
+
+  it("reports received headers and the final status", () => {
+    const received: Metadata[] = []
+    const completed: CallStatus[] = []
+    const middleware: ClientMiddleware = {
+      receivedHeaders: (h) => received.push(h),
+      callCompleted: (s) => completed.push(s)
+    }
+    const onStatus = vi.fn()
+    const listener = startCallMiddleware(
+      [() => middleware],
+      "ListFlights",
+      new Metadata()
+    )({ ...ignoreCall, onStatus })
+
+    const headers = new Metadata()
+    headers.set("x-server", "test")
+    const trailers = new Metadata()
+    trailers.set("x-rows", "10")
+    const status = { code: StatusCode.OK, details: "", metadata: trailers }
+    listener.onMetadata(headers)
+    listener.onStatus(status)
+
+    expect(received).toEqual([headers])
+    expect(onStatus).toHaveBeenCalledWith(status)
+    expect(completed).toHaveLength(1)
+    expect(completed[0]).toMatchObject({ code: "OK", details: "", trailers })
+    expect(completed[0].durationMs).toBeGreaterThanOrEqual(0)
+  })
+
+  it("maps failed statuses to Flight error codes", () => {
+    const callCompleted = vi.fn()
+    const listener = startCallMiddleware(
+      [() => ({ callCompleted })],
+      "DoPut",
+      new Metadata()
+    )(ignoreCall)
+
+    listener.onStatus({
+      code: StatusCode.NOT_FOUND,
+      details: "no such flight",
+      metadata: new Metadata()
+    })
+
+    expect(callCompleted).toHaveBeenCalledWith(
+      expect.objectContaining({ code: "NOT_FOUND", details: "no such flight" })
+    )
+  })
+
+  it("skips hooks a middleware does not implement", () => {
+    const listener = startCallMiddleware([() => ({})], "DoAction", new Metadata())(ignoreCall)
+
+    expect(() => {
+      listener.onMetadata(new Metadata())
+      listener.onStatus({ code: StatusCode.OK, details: "", metadata: new Metadata() })
+    }).not.toThrow()
+  })
+})
+
+describe("withResponseCallbacks", () => {
+  it("returns the configured middleware without response callbacks", () => {
+    const factories = [vi.fn()]
+
+    expect(withResponseCallbacks(factories, undefined)).toBe(factories)
+    expect(withResponseCallbacks(factories, { timeoutMs: 100 })).toBe(factories)
+  })
+
+  it("reports headers and trailers, including binary keys, after the middleware", () => {
+    const order: string[] = []
+    const onHeaders = vi.fn(() => order.push("onHeaders"))
+    const onTrailers = vi.fn(() => order.push("onTrailers"))
+    const factories = withResponseCallbacks(
+      [
+        () => ({
+          receivedHeaders: () => order.push("receivedHeaders"),
+          callCompleted: () => order.push("callCompleted")
+        })
+      ],
+      { onHeaders, onTrailers }
+    )
+    const listener = startCallMiddleware(factories, "DoGet", new Metadata())(ignoreCall)
+
+    const headers = new Metadata()
+    headers.set("x-query-id", "q1")
+    const trailers = new Metadata()
+    trailers.set("x-cost-bin", Buffer.from([1, 2]))
+    listener.onMetadata(headers)
+    listener.onStatus({ code: StatusCode.OK, details: "", metadata: trailers })
+
+    expect(order).toEqual(["receivedHeaders", "onHeaders", "callCompleted", "onTrailers"])
+    expect(onHeaders).toHaveBeenCalledWith(headers)
+    expect(onTrailers).toHaveBeenCalledWith(trailers)
+    expect(trailers.get("x-cost-bin")).toEqual([Buffer.from([1, 2])])
+  })
+
+  it("accepts either callback alone", () => {
+    const onHeaders = vi.fn()
+    const onTrailers = vi.fn()
+    const listeners = [{ onHeaders }, { onTrailers }].map((callbacks) =>
+      startCallMiddleware(withResponseCallbacks([], callbacks), "DoGet", new Metadata())(ignoreCall)
+    )
+
+    for (const listener of listeners) {
+      listener.onMetadata(new Metadata())
+      listener.onStatus({ code: StatusCode.OK, details: "", metadata: new Metadata() })
+    }
+
+    expect(onHeaders).toHaveBeenCalledTimes(1)
+    expect(onTrailers).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,124 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import { backoffDelay, resolveRetryPolicy, retryDelay, shouldRetry } from "../../retry"
+import { FlightError } from "../../types"
+
+describe("resolveRetryPolicy", () => {
+  it("returns null when retries are not configured", () => {
+    expect(resolveRetryPolicy(undefined)).toBeNull()
+  })
+
+  it("applies defaults for an empty policy", () => {
+    const policy = resolveRetryPolicy({})
+    expect(policy).toEqual({
+      maxAttempts: 3,
+      initialBackoffMs: 100,
+      maxBackoffMs: 10_000,
+      backoffMultiplier: 2,
+      jitter: 0.2,
+      retriableCodes: new Set(["UNAVAILABLE", "RESOURCE_EXHAUSTED", "ABORTED"]),
+      methods: new Set(["getFlightInfo", "getSchema", "listFlights", "listActions"])
+    })
+  })
+
+  it("keeps configured values", () => {
+    const policy = resolveRetryPolicy({
+      maxAttempts: 5,
+      initialBackoffMs: 10,
+      maxBackoffMs: 50,
+      backoffMultiplier: 3,
+      jitter: 0,
+      retriableCodes: ["INTERNAL"],
+      methods: ["doGet"]
+    })
+    expect(policy?.maxAttempts).toBe(5)
+    expect(policy?.retriableCodes).toEqual(new Set(["INTERNAL"]))
+    expect(policy?.methods).toEqual(new Set(["doGet"]))
+  })
+
+  it("rejects invalid maxAttempts", () => {
+    expect(() => resolveRetryPolicy({ maxAttempts: 0 })).toThrow(
+      "retry maxAttempts must be a positive integer"
+    )
+    expect(() => resolveRetryPolicy({ maxAttempts: 1.5 })).toThrow(FlightError)
+  })
+
+  it("rejects jitter outside 0 to 1", () => {
+    expect(() => resolveRetryPolicy({ jitter: -0.1 })).toThrow(
+      "retry jitter must be between 0 and 1"
+    )
+    expect(() => resolveRetryPolicy({ jitter: 1.1 })).toThrow(FlightError)
+  })
+})
+
+describe("shouldRetry", () => {
+  const policy = resolveRetryPolicy({ maxAttempts: 3 })!
+  const unavailable = new FlightError("unavailable", "UNAVAILABLE")
+
+  it("retries retriable errors of covered methods", () => {
+    expect(shouldRetry(policy, "getFlightInfo", unavailable, 1)).toBe(true)
+    expect(shouldRetry(policy, "listActions", unavailable, 2)).toBe(true)
+  })
+
+  it("stops once maxAttempts is reached", () => {
+    expect(shouldRetry(policy, "getFlightInfo", unavailable, 3)).toBe(false)
+  })
+
+  it("skips methods that have not opted in", () => {
+    expect(shouldRetry(policy, "doGet", unavailable, 1)).toBe(false)
+  })
+
+  it("skips non-retriable codes and non-Flight errors", () => {
+    expect(shouldRetry(policy, "getSchema", new FlightError("nope", "NOT_FOUND"), 1)).toBe(false)
+    expect(shouldRetry(policy, "getSchema", new Error("boom"), 1)).toBe(false)
+  })
+})
+
+describe("backoffDelay", () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it("grows exponentially without jitter", () => {
+    const policy = resolveRetryPolicy({ initialBackoffMs: 100, backoffMultiplier: 2, jitter: 0 })!
+    expect(backoffDelay(policy, 1)).toBe(100)
+    expect(backoffDelay(policy, 2)).toBe(200)
+    expect(backoffDelay(policy, 3)).toBe(400)
+  })
+
+  it("caps the delay at maxBackoffMs", () => {
+    const policy = resolveRetryPolicy({ initialBackoffMs: 100, maxBackoffMs: 250, jitter: 0 })!
+    expect(backoffDelay(policy, 5)).toBe(250)
+  })
+
+  it("reduces the delay by up to the jitter fraction", () => {
+    const policy = resolveRetryPolicy({ initialBackoffMs: 100, jitter: 0.5 })!
+    vi.spyOn(Math, "random").mockReturnValue(1)
+    expect(backoffDelay(policy, 1)).toBe(50)
+    vi.spyOn(Math, "random").mockReturnValue(0)
+    expect(backoffDelay(policy, 1)).toBe(100)
+  })
+})
+
+describe("retryDelay", () => {
+  const policy = resolveRetryPolicy({ initialBackoffMs: 100, maxBackoffMs: 200, jitter: 0 })!
+
+  it("uses the delay requested by a RetryInfo detail", () => {
+    const error = new FlightError("busy", "UNAVAILABLE", {
+      richStatus: {
+        code: 14,
+        message: "busy",
+        details: [{ type: "retryInfo", retryDelayMs: 1500 }]
+      }
+    })
+    expect(retryDelay(policy, 1, error)).toBe(1500)
+  })
+
+  it("falls back to the backoff delay", () => {
+    const error = new FlightError("busy", "UNAVAILABLE", {
+      richStatus: { code: 14, message: "busy", details: [] }
+    })
+    expect(retryDelay(policy, 2, error)).toBe(200)
+    expect(retryDelay(policy, 1, new Error("busy"))).toBe(100)
+  })
+})
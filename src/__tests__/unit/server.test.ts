@@ -0,0 +1,385 @@
+import { ServerCredentials } from "@grpc/grpc-js"
+import { mkdtempSync, rmSync } from "fs"
+import { tmpdir } from "os"
+import { join } from "path"
+import { afterEach, describe, expect, it } from "vitest"
+
+import {
+  createFlightClient,
+  type FlightClient,
+  type FlightData,
+  FlightError,
+  type FlightInfo,
+  FlightServer,
+  type FlightServiceHandlers,
+  Metadata,
+  pathDescriptor
+} from "../../index"
+import { data, flightInfo, ignoreCall } from "./helpers"
+
+const bodies = async (source: AsyncIterable<FlightData>): Promise<string[]> => {
+  const result: string[] = []
+  for await (const item of source) {
+    result.push(item.dataBody.toString())
+  }
+  return result
+}
+
+describe("FlightServer", () => {
+  let server: FlightServer | undefined
+  let client: FlightClient | undefined
+
+  const start = async (handlers: FlightServiceHandlers): Promise<FlightClient> => {
+    server = new FlightServer(handlers)
+    const location = await server.listen()
+    client = await createFlightClient(location)
+    return client
+  }
+
+  afterEach(() => {
+    client?.close()
+    client = undefined
+    server?.forceClose()
+    server = undefined
+  })
+
+  it("listens on a free port and reports its location", async () => {
+    server = new FlightServer({})
+
+    expect(server.state).toBe("idle")
+    expect(server.location).toBeNull()
+
+    const location = await server.listen()
+
+    expect(location.uri).toMatch(/^grpc:\/\/localhost:[1-9][0-9]*$/)
+    expect(server.location).toEqual(location)
+    expect(server.state).toBe("listening")
+  })
+
+  it("serves unary calls with the call context", async () => {
+    const flights = await start({
+      getFlightInfo(descriptor, context) {
+        const name = `${descriptor.path.join("/")} for ${String(context.metadata.get("authorization")[0])}`
+        expect(context.peer).not.toBe("")
+        expect(context.signal.aborted).toBe(false)
+        return flightInfo([name])
+      },
+      getSchema: async () => Promise.resolve({ schema: Buffer.from("schema") }),
+      pollFlightInfo: (descriptor) => ({
+        info: flightInfo([descriptor.path[0]]),
+        flightDescriptor: undefined,
+        progress: 1,
+        expirationTime: undefined
+      })
+    })
+    flights.setBearerToken("token")
+
+    const info = await flights.getFlightInfo(pathDescriptor("a", "b"))
+    const schema = await flights.getSchema(pathDescriptor("a"))
+    const poll = await flights.pollFlightInfo(pathDescriptor("c"))
+
+    expect(info.flightDescriptor?.path).toEqual(["a/b for Bearer token"])
+    expect(schema.schema.toString()).toBe("schema")
+    expect(poll.info?.flightDescriptor?.path).toEqual(["c"])
+  })
+
+  it("sends FlightError codes and metadata to the client", async () => {
+    const flights = await start({
+      getFlightInfo() {
+        throw new FlightError("no such flight", "NOT_FOUND", { metadata: { "x-reason": "gone" } })
+      },
+      getSchema() {
+        throw new Error("handler crashed")
+      }
+    })
+
+    await expect(flights.getFlightInfo(pathDescriptor("missing"))).rejects.toMatchObject({
+      code: "NOT_FOUND",
+      message: "no such flight",
+      metadata: { "x-reason": "gone" }
+    })
+    await expect(flights.getSchema(pathDescriptor("a"))).rejects.toMatchObject({
+      code: "UNKNOWN",
+      message: "handler crashed"
+    })
+  })
+
+  it("reports response headers and trailers to call options", async () => {
+    const flights = await start({
+      getSchema: () => ({ schema: Buffer.alloc(0) }),
+      doAction: () => [{ body: Buffer.from("ok") }],
+      *doGet() {
+        yield data("first")
+        throw new FlightError("disk failed", "DATA_LOSS", { metadata: { "x-query-id": "q1" } })
+      }
+    })
+    const events: string[] = []
+    const callOptions = {
+      onHeaders: () => events.push("headers"),
+      onTrailers: (trailers: Metadata) => {
+        events.push(`trailers ${String(trailers.get("x-query-id")[0])}`)
+      }
+    }
+
+    await flights.getSchema(pathDescriptor("a"), callOptions)
+    events.push("response")
+    for await (const result of flights.doAction(
+      { type: "a", body: Buffer.alloc(0) },
+      callOptions
+    )) {
+      events.push(result.body.toString())
+    }
+    events.push("done")
+    await expect(bodies(flights.doGet({ ticket: Buffer.from("t") }, callOptions))).rejects.toThrow(
+      "disk failed"
+    )
+
+    expect(events).toEqual([
+      "headers",
+      "trailers undefined",
+      "response",
+      "headers",
+      "ok",
+      "trailers undefined",
+      "done",
+      "headers",
+      "trailers q1"
+    ])
+  })
+
+  it("answers methods without a handler with UNIMPLEMENTED", async () => {
+    const flights = await start({})
+
+    await expect(flights.getFlightInfo(pathDescriptor("a"))).rejects.toMatchObject({
+      code: "UNIMPLEMENTED"
+    })
+    await expect(bodies(flights.doGet({ ticket: Buffer.from("t") }))).rejects.toMatchObject({
+      code: "UNIMPLEMENTED"
+    })
+  })
+
+  it("reports itself as the peer of the client's calls", async () => {
+    const flights = await start({})
+
+    const call = flights.getGrpcClient().listActions({}, new Metadata(), {}, ignoreCall)
+
+    expect(call.getPeer()).toMatch(/:[1-9][0-9]*$/)
+    call.cancel()
+  })
+
+  it("streams responses from sync and async iterables", async () => {
+    const flights = await start({
+      listFlights: (criteria) => [flightInfo([criteria.expression.toString()])],
+      async *doGet(ticket) {
+        for (let index = 0; index < 100; index++) {
+          await Promise.resolve()
+          yield data(`${ticket.ticket.toString()}-${String(index)}`)
+        }
+      },
+      async *doAction(action) {
+        await Promise.resolve()
+        yield { body: Buffer.from(action.type) }
+      },
+      *listActions() {
+        yield { type: "ping", description: "Check the server" }
+      }
+    })
+
+    const infos: FlightInfo[] = []
+    for await (const info of flights.listFlights({ expression: Buffer.from("all") })) {
+      infos.push(info)
+    }
+    const received = await bodies(flights.doGet({ ticket: Buffer.from("t") }))
+    const results: string[] = []
+    for await (const result of flights.doAction({ type: "ping", body: Buffer.alloc(0) })) {
+      results.push(result.body.toString())
+    }
+    const actions: string[] = []
+    for await (const action of flights.listActions()) {
+      actions.push(action.type)
+    }
+
+    expect(infos[0].flightDescriptor?.path).toEqual(["all"])
+    expect(received).toHaveLength(100)
+    expect(received[99]).toBe("t-99")
+    expect(results).toEqual(["ping"])
+    expect(actions).toEqual(["ping"])
+  })
+
+  it("fails a stream when its handler throws", async () => {
+    const flights = await start({
+      async *doGet() {
+        yield data("first")
+        await Promise.resolve()
+        throw new FlightError("disk failed", "DATA_LOSS")
+      }
+    })
+
+    const received: string[] = []
+    await expect(async () => {
+      for await (const item of flights.doGet({ ticket: Buffer.from("t") })) {
+        received.push(item.dataBody.toString())
+      }
+    }).rejects.toMatchObject({ code: "DATA_LOSS", message: "disk failed" })
+    expect(received).toEqual(["first"])
+  })
+
+  it("aborts the context and stops the handler when the client cancels", async () => {
+    let aborted: () => void = () => undefined
+    const stopped = new Promise<void>((resolve) => {
+      aborted = resolve
+    })
+    const flights = await start({
+      async *doGet(_ticket, context) {
+        context.signal.addEventListener("abort", () => {
+          aborted()
+        })
+        for (;;) {
+          await new Promise((resolve) => setTimeout(resolve, 1))
+          yield data("tick")
+        }
+      }
+    })
+    const controller = new AbortController()
+
+    await expect(async () => {
+      for await (const item of flights.doGet(
+        { ticket: Buffer.from("t") },
+        { signal: controller.signal }
+      )) {
+        expect(item.dataBody.toString()).toBe("tick")
+        controller.abort()
+      }
+    }).rejects.toMatchObject({ code: "CANCELLED" })
+    await stopped
+  })
+
+  it("serves bidirectional streams", async () => {
+    const flights = await start({
+      async *handshake(requests) {
+        for await (const request of requests) {
+          yield { protocolVersion: request.protocolVersion, payload: Buffer.from("session") }
+          return
+        }
+      },
+      async *doPut(messages) {
+        let count = 0
+        for await (const message of messages) {
+          count += message.dataBody.length
+        }
+        yield { appMetadata: Buffer.from(String(count)) }
+      },
+      async *doExchange(messages) {
+        for await (const message of messages) {
+          yield data(message.dataBody.toString().toUpperCase())
+        }
+      }
+    })
+
+    const handshake = await flights.handshake()
+
+    const put = flights.doPut()
+    put.write(data("abc"))
+    put.write(data("de"))
+    put.end()
+    const putResults = await put.collectResults()
+
+    const exchange = flights.doExchange()
+    exchange.write(data("hello"))
+    exchange.end()
+    const exchanged = await bodies(exchange.results())
+
+    expect(handshake.payload.toString()).toBe("session")
+    expect(putResults.map((result) => result.appMetadata.toString())).toEqual(["5"])
+    expect(exchanged).toEqual(["HELLO"])
+  })
+
+  it("completes multi-step handshakes", async () => {
+    const flights = await start({
+      // Challenge/response: the client must answer with the nonce in upper case
+      async *handshake(requests) {
+        const nonce = "n0nce"
+        for await (const request of requests) {
+          const payload = request.payload.toString()
+          if (payload === "hello") {
+            yield { protocolVersion: 0, payload: Buffer.from(`challenge:${nonce}`) }
+          } else if (payload === nonce.toUpperCase()) {
+            yield { protocolVersion: 0, payload: Buffer.from("session-token") }
+          } else {
+            throw new FlightError("wrong answer", "UNAUTHENTICATED")
+          }
+        }
+      }
+    })
+
+    const received: string[] = []
+    const result = await flights.handshake({
+      payload: Buffer.from("hello"),
+      exchange: async (response) => {
+        await Promise.resolve()
+        const payload = response.payload.toString()
+        received.push(payload)
+        if (!payload.startsWith("challenge:")) {
+          return null
+        }
+        return Buffer.from(payload.slice("challenge:".length).toUpperCase())
+      }
+    })
+
+    expect(received).toEqual(["challenge:n0nce", "session-token"])
+    expect(result.token).toBe("session-token")
+    expect(flights.getBearerToken()).toBe("session-token")
+
+    await expect(
+      flights.handshake({
+        payload: Buffer.from("hello"),
+        exchange: async () => Promise.resolve(Buffer.from("guess"))
+      })
+    ).rejects.toMatchObject({ code: "UNAUTHENTICATED", message: "wrong answer" })
+  })
+
+  it("listens on Unix domain sockets", async () => {
+    const directory = mkdtempSync(join(tmpdir(), "flight-"))
+    try {
+      server = new FlightServer({ getSchema: () => ({ schema: Buffer.from("unix") }) })
+      const location = await server.listen(`grpc+unix://${join(directory, "flight.sock")}`)
+      client = await createFlightClient(location)
+
+      expect(location.uri).toBe(`grpc+unix://${join(directory, "flight.sock")}`)
+      expect((await client.getSchema(pathDescriptor("a"))).schema.toString()).toBe("unix")
+    } finally {
+      rmSync(directory, { recursive: true, force: true })
+    }
+  })
+
+  it("rejects locations it cannot listen on", async () => {
+    server = new FlightServer({})
+
+    await expect(server.listen("")).rejects.toThrow("cannot listen on a reuse connection location")
+    await expect(server.listen("grpc+tls://localhost:0")).rejects.toThrow(
+      "grpc+tls://localhost:0 requires server credentials"
+    )
+    await expect(server.listen("grpc://256.0.0.1:1")).rejects.toMatchObject({
+      code: "UNAVAILABLE"
+    })
+  })
+
+  it("listens with the given credentials", async () => {
+    server = new FlightServer({}, { credentials: ServerCredentials.createInsecure() })
+
+    expect((await server.listen("http://localhost")).uri).toMatch(/^http:\/\/localhost:\d+$/)
+    await expect(server.listen()).rejects.toThrow("server is listening")
+  })
+
+  it("closes gracefully", async () => {
+    const flights = await start({ getSchema: () => ({ schema: Buffer.alloc(0) }) })
+    await flights.getSchema(pathDescriptor("a"))
+
+    const closing = server?.close()
+    await closing
+    await server?.close()
+
+    expect(server?.state).toBe("closed")
+    await expect(server?.listen()).rejects.toThrow("server is closed")
+  })
+})
@@ -0,0 +1,293 @@
+import { afterEach, describe, expect, it } from "vitest"
+
+import type { Any } from "../../generated/google/protobuf/any"
+import {
+  BadRequest,
+  DebugInfo,
+  ErrorInfo,
+  Help,
+  LocalizedMessage,
+  PreconditionFailure,
+  QuotaFailure,
+  RequestInfo,
+  ResourceInfo,
+  RetryInfo
+} from "../../generated/google/rpc/error_details"
+import { Status } from "../../generated/google/rpc/status"
+import {
+  createFlightClient,
+  type FlightClient,
+  FlightError,
+  type FlightInfo,
+  FlightServer,
+  Metadata,
+  pathDescriptor
+} from "../../index"
+import { decodeArrowStatus, decodeRichStatus } from "../../status-details"
+
+/**
+ * Packs a `google.rpc` detail message into an Any.
+ */
+const pack = (name: string, value: Uint8Array): Any => ({
+  typeUrl: `type.googleapis.com/google.rpc.${name}`,
+  value: Buffer.from(value)
+})
+
+const encodeStatus = (code: number, message: string, details: Any[]): Buffer =>
+  Buffer.from(Status.encode({ code, message, details }).finish())
+
+describe("decodeRichStatus", () => {
+  it("decodes the google.rpc detail messages", () => {
+    const status = decodeRichStatus(
+      encodeStatus(3, "invalid request", [
+        pack(
+          "ErrorInfo",
+          ErrorInfo.encode({
+            reason: "BAD_TICKET",
+            domain: "flight.example.com",
+            metadata: { ticket: "abc" }
+          }).finish()
+        ),
+        pack(
+          "RetryInfo",
+          RetryInfo.encode({ retryDelay: { seconds: 2, nanos: 500_000_000 } }).finish()
+        ),
+        pack("DebugInfo", DebugInfo.encode({ stackEntries: ["main"], detail: "trace" }).finish()),
+        pack(
+          "QuotaFailure",
+          QuotaFailure.encode({
+            violations: [{ subject: "user", description: "too many calls" }]
+          }).finish()
+        ),
+        pack(
+          "PreconditionFailure",
+          PreconditionFailure.encode({
+            violations: [{ type: "TOS", subject: "user", description: "not accepted" }]
+          }).finish()
+        ),
+        pack(
+          "BadRequest",
+          BadRequest.encode({
+            fieldViolations: [{ field: "path", description: "must not be empty" }]
+          }).finish()
+        ),
+        pack("RequestInfo", RequestInfo.encode({ requestId: "r1", servingData: "" }).finish()),
+        pack(
+          "ResourceInfo",
+          ResourceInfo.encode({
+            resourceType: "dataset",
+            resourceName: "sales",
+            owner: "",
+            description: "missing"
+          }).finish()
+        ),
+        pack(
+          "Help",
+          Help.encode({ links: [{ description: "docs", url: "https://example.com" }] }).finish()
+        ),
+        pack("LocalizedMessage", LocalizedMessage.encode({ locale: "en", message: "Hi" }).finish())
+      ])
+    )
+
+    expect(status).toEqual({
+      code: 3,
+      message: "invalid request",
+      details: [
+        {
+          type: "errorInfo",
+          reason: "BAD_TICKET",
+          domain: "flight.example.com",
+          metadata: { ticket: "abc" }
+        },
+        { type: "retryInfo", retryDelayMs: 2500 },
+        { type: "debugInfo", stackEntries: ["main"], detail: "trace" },
+        {
+          type: "quotaFailure",
+          violations: [{ subject: "user", description: "too many calls" }]
+        },
+        {
+          type: "preconditionFailure",
+          violations: [{ type: "TOS", subject: "user", description: "not accepted" }]
+        },
+        {
+          type: "badRequest",
+          fieldViolations: [{ field: "path", description: "must not be empty" }]
+        },
+        { type: "requestInfo", requestId: "r1", servingData: "" },
+        {
+          type: "resourceInfo",
+          resourceType: "dataset",
+          resourceName: "sales",
+          owner: "",
+          description: "missing"
+        },
+        { type: "help", links: [{ description: "docs", url: "https://example.com" }] },
+        { type: "localizedMessage", locale: "en", message: "Hi" }
+      ]
+    })
+  })
+
+  it("keeps details of unknown types encoded", () => {
+    const value = Buffer.from([1, 2, 3])
+    const status = decodeRichStatus(
+      encodeStatus(13, "internal", [{ typeUrl: "type.example.com/app.Detail", value }])
+    )
+
+    expect(status?.details).toEqual([
+      { type: "unknown", typeUrl: "type.example.com/app.Detail", value }
+    ])
+  })
+
+  it("treats a RetryInfo without a delay as an immediate retry", () => {
+    const status = decodeRichStatus(
+      encodeStatus(14, "unavailable", [
+        pack("RetryInfo", RetryInfo.encode({ retryDelay: undefined }).finish())
+      ])
+    )
+
+    expect(status?.details).toEqual([{ type: "retryInfo", retryDelayMs: 0 }])
+  })
+
+  it("returns undefined for a malformed status", () => {
+    expect(decodeRichStatus(Buffer.from([0x0a, 0xff]))).toBeUndefined()
+  })
+})
+
+describe("decodeArrowStatus", () => {
+  it("reads the Arrow status trailers", () => {
+    const metadata = new Metadata()
+    metadata.set("x-arrow-status", "4")
+    metadata.set("x-arrow-status-message-bin", Buffer.from("Invalid: bad schema"))
+    metadata.set("x-arrow-status-detail-bin", Buffer.from([7]))
+
+    expect(decodeArrowStatus(metadata)).toEqual({
+      code: 4,
+      message: "Invalid: bad schema",
+      detail: Buffer.from([7])
+    })
+  })
+
+  it("reads an Arrow status without message or detail", () => {
+    const metadata = new Metadata()
+    metadata.set("x-arrow-status", "9")
+
+    expect(decodeArrowStatus(metadata)).toEqual({
+      code: 9,
+      message: undefined,
+      detail: undefined
+    })
+  })
+
+  it("returns undefined without a valid Arrow status code", () => {
+    const metadata = new Metadata()
+    expect(decodeArrowStatus(metadata)).toBeUndefined()
+
+    metadata.set("x-arrow-status", "unknown")
+    expect(decodeArrowStatus(metadata)).toBeUndefined()
+  })
+})
+
+describe("FlightError status details", () => {
+  it("decodes the status trailers of a gRPC error", () => {
+    const metadata = new Metadata()
+    metadata.set(
+      "grpc-status-details-bin",
+      encodeStatus(8, "slow down", [
+        pack("RetryInfo", RetryInfo.encode({ retryDelay: { seconds: 0, nanos: 5e6 } }).finish())
+      ])
+    )
+    metadata.set("x-arrow-status", "1")
+
+    const error = FlightError.fromGrpcError({
+      code: 8,
+      message: "8 RESOURCE_EXHAUSTED: slow down",
+      details: "slow down",
+      metadata
+    })
+
+    expect(error.richStatus?.message).toBe("slow down")
+    expect(error.retryDelayMs).toBe(5)
+    expect(error.arrowStatus?.code).toBe(1)
+  })
+
+  it("has no retry delay without a RetryInfo detail", () => {
+    const error = new FlightError("failed", "INTERNAL", {
+      richStatus: {
+        code: 13,
+        message: "failed",
+        details: [{ type: "debugInfo", stackEntries: [], detail: "" }]
+      }
+    })
+
+    expect(error.retryDelayMs).toBeUndefined()
+    expect(new FlightError("failed", "INTERNAL").retryDelayMs).toBeUndefined()
+  })
+})
+
+describe("rich error details over gRPC", () => {
+  let server: FlightServer
+  let client: FlightClient
+
+  afterEach(() => {
+    client.close()
+    server.forceClose()
+  })
+
+  it("sends rich details from the server and honours RetryInfo", async () => {
+    let calls = 0
+    server = new FlightServer({
+      getFlightInfo: (descriptor): FlightInfo => {
+        calls++
+        if (calls === 1) {
+          throw new FlightError("overloaded", "UNAVAILABLE", {
+            metadata: {
+              "grpc-status-details-bin": encodeStatus(14, "overloaded", [
+                pack(
+                  "RetryInfo",
+                  RetryInfo.encode({ retryDelay: { seconds: 0, nanos: 10e6 } }).finish()
+                ),
+                pack(
+                  "ErrorInfo",
+                  ErrorInfo.encode({ reason: "OVERLOADED", domain: "", metadata: {} }).finish()
+                )
+              ]),
+              "debug-bin": Buffer.from([0xde, 0xad])
+            }
+          })
+        }
+        return {
+          schema: Buffer.alloc(0),
+          flightDescriptor: descriptor,
+          endpoint: [],
+          totalRecords: -1,
+          totalBytes: -1,
+          ordered: false,
+          appMetadata: Buffer.alloc(0)
+        }
+      }
+    })
+    const location = await server.listen()
+
+    const plain = await createFlightClient(location)
+    const error = await plain.getFlightInfo(pathDescriptor("data")).catch((e: unknown) => e)
+    plain.close()
+
+    expect(error).toBeInstanceOf(FlightError)
+    expect((error as FlightError).retryDelayMs).toBe(10)
+    expect((error as FlightError).richStatus?.details[1]).toMatchObject({
+      type: "errorInfo",
+      reason: "OVERLOADED"
+    })
+    expect((error as FlightError).metadata?.["debug-bin"]).toEqual(Buffer.from([0xde, 0xad]))
+
+    // The backoff delay would outlast the test, so only the server's delay can apply
+    calls = 0
+    client = await createFlightClient(location, {
+      retry: { initialBackoffMs: 60_000, jitter: 0 }
+    })
+    const info = await client.getFlightInfo(pathDescriptor("data"))
+
+    expect(info.flightDescriptor?.path).toEqual(["data"])
+    expect(calls).toBe(2)
+  })
+})
@@ -0,0 +1,307 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+
+import { callStatus } from "../../calls"
+import {
+  type CallListener,
+  type ClientCall,
+  type ClientStreamingCall,
+  createFlightClient,
+  FlightClient,
+  type FlightData,
+  FlightError,
+  FlightServer,
+  Metadata,
+  StatusCode
+} from "../../index"
+import { DuplexCall, readStream, type ReadStreamOptions } from "../../streams"
+import { collect, data, ignoreCall, tick } from "./helpers"
+
+const wrapError = (err: unknown): FlightError =>
+  new FlightError(String(err), "INTERNAL", { cause: err instanceof Error ? err : undefined })
+
+const ok = callStatus(StatusCode.OK, "", new Metadata())
+
+/**
+ * Creates a transport call that records what the client does with it.
+ */
+const createCall = (ready = true): ClientStreamingCall<number> => ({
+  write: vi.fn(() => ready),
+  end: vi.fn(),
+  cancel: vi.fn(),
+  getPeer: () => "test"
+})
+
+/**
+ * Starts reading a stream, returning the reader and the listener of its call.
+ */
+const startReading = (
+  options: Omit<ReadStreamOptions, "wrapError">
+): {
+  reader: AsyncGenerator<number, void, undefined>
+  listener: CallListener<number>
+  call: ClientCall
+} => {
+  const call = createCall()
+  let listener: CallListener<number> = ignoreCall
+  const reader = readStream<number>(
+    (started) => {
+      listener = started
+      return call
+    },
+    { wrapError, ...options }
+  )
+  return { reader, listener, call }
+}
+
+describe("readStream", () => {
+  it("holds back the transport while the read queue is full", async () => {
+    const { reader, listener } = startReading({ queueSize: 2 })
+    let released = false
+
+    expect(listener.onMessage(0)).toBeUndefined()
+    void listener.onMessage(1)?.then(() => {
+      released = true
+    })
+    await tick()
+    expect(released).toBe(false)
+
+    expect((await reader.next()).value).toBe(0)
+    await tick()
+    expect(released).toBe(true)
+    listener.onStatus(ok)
+    expect(await collect(reader)).toEqual([1])
+  })
+
+  it("discards the remaining messages when the consumer stops early", async () => {
+    const { reader, listener, call } = startReading({ queueSize: 1 })
+    const held = listener.onMessage(0)
+
+    for await (const value of reader) {
+      expect(value).toBe(0)
+      break
+    }
+    await held
+
+    expect(listener.onMessage(1)).toBeUndefined()
+    expect(call.cancel).not.toHaveBeenCalled()
+  })
+
+  it("fails with the wrapped error of a failed call", async () => {
+    const { reader, listener } = startReading({ queueSize: 1 })
+    listener.onStatus(callStatus(StatusCode.DATA_LOSS, "reset", new Metadata()))
+
+    await expect(reader.next()).rejects.toMatchObject({
+      code: "INTERNAL",
+      message: expect.stringContaining("15 DATA_LOSS: reset")
+    })
+  })
+
+  it("cancels the call when its signal aborts", async () => {
+    const controller = new AbortController()
+    const { reader, call } = startReading({ queueSize: 1, signal: controller.signal })
+    const next = reader.next()
+    controller.abort()
+
+    await expect(next).rejects.toMatchObject({ code: "CANCELLED" })
+    expect(call.cancel).toHaveBeenCalled()
+  })
+})
+
+describe("DuplexCall", () => {
+  it("holds requests until the transport call starts", async () => {
+    const duplex = new DuplexCall<number, number>(1, wrapError)
+    const call = createCall()
+
+    expect(duplex.write(1)).toBe(false)
+    const written = duplex.writeAsync(2)
+    duplex.end()
+    duplex.start(call)
+    await written
+
+    expect(vi.mocked(call.write).mock.calls).toEqual([[1], [2]])
+    expect(call.end).toHaveBeenCalled()
+  })
+
+  it("waits for the transport call to drain", async () => {
+    const duplex = new DuplexCall<number, number>(1, wrapError)
+    let written = false
+    const write = duplex.writeAsync(1).then(() => {
+      written = true
+    })
+    duplex.start(createCall(false))
+
+    await tick()
+    expect(written).toBe(false)
+    duplex.listener.onDrain()
+    await write
+  })
+
+  it("fails writes waiting for a call that ends", async () => {
+    const failing = new DuplexCall<number, number>(1, wrapError)
+    failing.start(createCall(false))
+    const failed = failing.writeAsync(1)
+    failing.listener.onStatus(callStatus(StatusCode.INTERNAL, "reset", new Metadata()))
+    await expect(failed).rejects.toThrow("13 INTERNAL: reset")
+
+    const closing = new DuplexCall<number, number>(1, wrapError)
+    closing.start(createCall(false))
+    const closed = closing.writeAsync(1)
+    closing.listener.onStatus(ok)
+    await expect(closed).rejects.toThrow("stream closed before it drained")
+  })
+
+  it("ends with CANCELLED when cancelled before it starts", async () => {
+    const duplex = new DuplexCall<number, number>(1, wrapError)
+    const call = createCall()
+    duplex.cancel()
+    duplex.cancel()
+    duplex.start(call)
+
+    await expect(duplex.read().next()).rejects.toThrow("1 CANCELLED: Cancelled on client")
+    expect(call.cancel).toHaveBeenCalledTimes(1)
+    expect(call.write).not.toHaveBeenCalled()
+  })
+
+  it("cancels the call when its signal is already aborted", async () => {
+    const duplex = new DuplexCall<number, number>(1, wrapError, AbortSignal.abort())
+
+    await expect(duplex.read().next()).rejects.toThrow("CANCELLED")
+  })
+
+  it("fails when the transport call cannot start", async () => {
+    const duplex = new DuplexCall<number, number>(1, wrapError)
+    const written = duplex.writeAsync(1)
+    duplex.fail(new Error("no token"))
+    duplex.fail(new Error("ignored"))
+
+    await expect(written).rejects.toThrow("no token")
+    await expect(duplex.writeAsync(2)).rejects.toThrow("no token")
+    await expect(duplex.read().next()).rejects.toThrow("no token")
+  })
+})
+
+describe("backpressure over gRPC", () => {
+  const messageSize = 64 * 1024
+  const messageCount = 200
+
+  let server: FlightServer
+  let client: FlightClient
+
+  afterEach(() => {
+    client.close()
+    server.forceClose()
+  })
+
+  it("stops the server from sending while the consumer is behind", async () => {
+    let sent = 0
+    server = new FlightServer({
+      async *doGet() {
+        for (let index = 0; index < messageCount; index++) {
+          await Promise.resolve()
+          sent++
+          yield data(Buffer.alloc(messageSize))
+        }
+      }
+    })
+    client = await createFlightClient(await server.listen(), { readQueueSize: 1 })
+
+    const reader = client.doGet({ ticket: Buffer.from("large") })
+    await reader.next()
+    await tick(200)
+    const sentWhilePaused = sent
+
+    let received = 1
+    for await (const message of reader) {
+      expect(message.dataBody).toHaveLength(messageSize)
+      received++
+    }
+
+    expect(sentWhilePaused).toBeLessThan(messageCount)
+    expect(received).toBe(messageCount)
+  })
+
+  it("waits for the server before writing more of an upload", async () => {
+    let produced = 0
+    let startReading = (): void => undefined
+    const reading = new Promise<void>((resolve) => {
+      startReading = resolve
+    })
+    server = new FlightServer({
+      async *doPut(messages) {
+        await reading
+        let count = 0
+        for await (const message of messages) {
+          count += message.dataBody.length
+        }
+        yield { appMetadata: Buffer.from(String(count)) }
+      }
+    })
+    client = await createFlightClient(await server.listen())
+
+    const stream = client.doPut()
+    const results = stream.collectResults()
+    const upload = stream.pipeFrom(
+      (function* (): Generator<FlightData> {
+        for (let index = 0; index < messageCount; index++) {
+          produced++
+          yield data(Buffer.alloc(messageSize))
+        }
+      })()
+    )
+
+    await tick(200)
+    const producedWhileBlocked = produced
+    startReading()
+    await upload
+    const [result] = await results
+
+    expect(producedWhileBlocked).toBeLessThan(messageCount)
+    expect(result.appMetadata.toString()).toBe(String(messageCount * messageSize))
+  })
+
+  const echo = {
+    async *doExchange(messages: AsyncIterable<FlightData>): AsyncGenerator<FlightData> {
+      for await (const message of messages) {
+        yield message
+      }
+    }
+  }
+
+  it("pipes a source into an exchange", async () => {
+    server = new FlightServer(echo)
+    client = await createFlightClient(await server.listen())
+
+    const stream = client.doExchange()
+    const results = stream.collectResults()
+    await stream.pipeFrom(["a", "b", "c"].map((body) => data(Buffer.from(body))))
+
+    expect((await results).map((message) => message.dataBody.toString())).toEqual(["a", "b", "c"])
+  })
+
+  it("cancels the upload when the source fails", async () => {
+    server = new FlightServer(echo)
+    client = await createFlightClient(await server.listen())
+
+    const stream = client.doExchange()
+    const results = stream.collectResults()
+    const upload = stream.pipeFrom(
+      (async function* (): AsyncGenerator<FlightData> {
+        await Promise.resolve()
+        yield data(Buffer.from("first"))
+        throw new Error("source failed")
+      })()
+    )
+
+    await expect(upload).rejects.toThrow("source failed")
+    await expect(results).rejects.toMatchObject({ code: "CANCELLED" })
+  })
+})
+
+describe("readQueueSize", () => {
+  it("must be a positive integer", () => {
+    expect(() => new FlightClient({ host: "localhost", readQueueSize: 0 })).toThrow(
+      "readQueueSize must be a positive integer"
+    )
+    expect(() => new FlightClient({ host: "localhost", readQueueSize: 1.5 })).toThrow(FlightError)
+  })
+})
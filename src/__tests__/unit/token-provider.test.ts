@@ -0,0 +1,223 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import {
+  createFlightClient,
+  type FlightClient,
+  FlightError,
+  type FlightInfo,
+  FlightServer,
+  pathDescriptor
+} from "../../index"
+import { TokenCache, tokenExpiry } from "../../token-provider"
+
+/**
+ * Stand-in for an OAuth identity provider, issuing unsigned JWTs.
+ */
+class IdentityProvider {
+  issued = 0
+
+  constructor(private readonly lifetimeSeconds: number) {}
+
+  async getToken(): Promise<string> {
+    await Promise.resolve()
+    this.issued++
+    const claims = {
+      sub: `session-${String(this.issued)}`,
+      exp: Math.floor(Date.now() / 1000) + this.lifetimeSeconds
+    }
+    return jwt(claims)
+  }
+
+  /**
+   * Returns the subject of a valid token, or throws UNAUTHENTICATED.
+   */
+  verify(authorization: unknown): string {
+    const token = String(authorization).replace(/^Bearer /, "")
+    const expiry = tokenExpiry(token)
+    if (expiry === null || expiry <= Date.now()) {
+      throw new FlightError("token expired", "UNAUTHENTICATED")
+    }
+    const claims = JSON.parse(Buffer.from(token.split(".")[1], "base64url").toString()) as {
+      sub: string
+    }
+    return claims.sub
+  }
+}
+
+const jwt = (claims: object): string =>
+  [
+    Buffer.from(JSON.stringify({ alg: "none" })).toString("base64url"),
+    Buffer.from(JSON.stringify(claims)).toString("base64url"),
+    ""
+  ].join(".")
+
+describe("tokenExpiry", () => {
+  it("reads the exp claim of a JWT", () => {
+    expect(tokenExpiry(jwt({ exp: 1700000000 }))).toBe(1700000000000)
+  })
+
+  it("returns null for tokens without an expiry", () => {
+    expect(tokenExpiry("opaque-token")).toBeNull()
+    expect(tokenExpiry("not.a.jwt")).toBeNull()
+    expect(tokenExpiry(jwt({ sub: "user" }))).toBeNull()
+    expect(tokenExpiry(jwt({ exp: "tomorrow" }))).toBeNull()
+    expect(tokenExpiry(`x.${Buffer.from("null").toString("base64url")}.y`)).toBeNull()
+  })
+})
+
+describe("TokenCache", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("caches a JWT until shortly before it expires", async () => {
+    const provider = new IdentityProvider(60)
+    const cache = new TokenCache({
+      type: "tokenProvider",
+      getToken: async () => provider.getToken(),
+      expiryMarginMs: 10_000
+    })
+
+    expect(cache.current()).toBeNull()
+    const first = await cache.get()
+    vi.advanceTimersByTime(49_000)
+    const second = await cache.get()
+    vi.advanceTimersByTime(1_000)
+    const third = await cache.get()
+
+    expect(second).toBe(first)
+    expect(third).not.toBe(first)
+    expect(cache.current()).toBe(third)
+    expect(provider.issued).toBe(2)
+  })
+
+  it("caches opaque tokens until they are invalidated", async () => {
+    const getToken = vi.fn(async () => Promise.resolve("opaque"))
+    const cache = new TokenCache({ type: "tokenProvider", getToken })
+
+    await cache.get()
+    vi.advanceTimersByTime(24 * 60 * 60 * 1000)
+    await cache.get()
+    cache.invalidate()
+
+    expect(cache.current()).toBeNull()
+    expect(await cache.get()).toBe("opaque")
+    expect(getToken).toHaveBeenCalledTimes(2)
+  })
+
+  it("shares one provider call between concurrent callers", async () => {
+    const getToken = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error("provider down"))
+      .mockResolvedValue("token")
+    const cache = new TokenCache({ type: "tokenProvider", getToken })
+
+    const failed = await Promise.allSettled([cache.get(), cache.get()])
+    const tokens = await Promise.all([cache.get(), cache.get()])
+
+    expect(failed.map((result) => result.status)).toEqual(["rejected", "rejected"])
+    expect(tokens).toEqual(["token", "token"])
+    expect(getToken).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe("token provider authentication", () => {
+  let server: FlightServer
+  let client: FlightClient
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    client.close()
+    server.forceClose()
+  })
+
+  it("fetches a new token when the cached one expires", async () => {
+    const provider = new IdentityProvider(300)
+    server = new FlightServer({
+      getFlightInfo: (descriptor, context): FlightInfo => ({
+        schema: Buffer.alloc(0),
+        flightDescriptor: {
+          ...descriptor,
+          path: [provider.verify(context.metadata.get("authorization")[0])]
+        },
+        endpoint: [],
+        totalRecords: -1,
+        totalBytes: -1,
+        ordered: false,
+        appMetadata: Buffer.alloc(0)
+      })
+    })
+    client = await createFlightClient(await server.listen(), {
+      auth: { type: "tokenProvider", getToken: async () => provider.getToken() }
+    })
+
+    const subjects: string[] = []
+    for (const elapsedMs of [0, 60_000, 220_000]) {
+      vi.advanceTimersByTime(elapsedMs)
+      const info = await client.getFlightInfo(pathDescriptor("data"))
+      subjects.push(String(info.flightDescriptor?.path[0]))
+    }
+
+    // The token expires at 300s, so the third call at 280s is within the default margin
+    expect(subjects).toEqual(["session-1", "session-1", "session-2"])
+    expect(provider.issued).toBe(2)
+  })
+
+  it("fetches a new token after the server rejects the cached one", async () => {
+    const provider = new IdentityProvider(300)
+    let revoked = true
+    server = new FlightServer({
+      getSchema(_descriptor, context) {
+        const subject = provider.verify(context.metadata.get("authorization")[0])
+        if (revoked) {
+          revoked = false
+          throw new FlightError(`${subject} was revoked`, "UNAUTHENTICATED")
+        }
+        return { schema: Buffer.from(subject) }
+      }
+    })
+    client = await createFlightClient(await server.listen(), {
+      auth: { type: "tokenProvider", getToken: async () => provider.getToken() }
+    })
+
+    await expect(client.getSchema(pathDescriptor("data"))).rejects.toThrow("session-1 was revoked")
+    const { schema } = await client.getSchema(pathDescriptor("data"))
+
+    expect(schema.toString()).toBe("session-2")
+  })
+  it("fetches a new token after the server rejects the token of an upload", async () => {
+    const provider = new IdentityProvider(300)
+    let revoked = true
+    server = new FlightServer({
+      async *doPut(requests, context) {
+        const subject = provider.verify(context.metadata.get("authorization")[0])
+        if (revoked) {
+          revoked = false
+          throw new FlightError(`${subject} was revoked`, "UNAUTHENTICATED")
+        }
+        for await (const request of requests) {
+          expect(request.flightDescriptor?.path).toEqual(["data"])
+        }
+        yield { appMetadata: Buffer.from(subject) }
+      }
+    })
+    client = await createFlightClient(await server.listen(), {
+      auth: { type: "tokenProvider", getToken: async () => provider.getToken() }
+    })
+
+    await expect(client.putTable(pathDescriptor("data"), [])).rejects.toThrow(
+      "session-1 was revoked"
+    )
+    const [result] = await client.putTable(pathDescriptor("data"), [])
+
+    expect(result.appMetadata.toString()).toBe("session-2")
+  })
+})
@@ -6,11 +6,17 @@ import {
   FlightError,
   type FlightErrorCode,
   fromCancelStatusProto,
+  fromCloseSessionStatusProto,
   fromDescriptorTypeProto,
+  fromSessionOptionErrorProto,
+  fromSessionOptionValueProto,
   pathDescriptor,
   toCancelStatusProto,
+  toCloseSessionStatusProto,
   toDescriptorTypeProto,
-  toFlightDescriptor
+  toFlightDescriptor,
+  toSessionOptionErrorProto,
+  toSessionOptionValueProto
 } from "../../types"
 
 describe("pathDescriptor", () => {
@@ -65,6 +71,72 @@ describe("toFlightDescriptor", () => {
   })
 })
 
+describe("SessionOptionValue conversion", () => {
+  it("converts each value variant to proto", () => {
+    expect(toSessionOptionValueProto("analytics")).toEqual({ stringValue: "analytics" })
+    expect(toSessionOptionValueProto(true)).toEqual({ boolValue: true })
+    expect(toSessionOptionValueProto(1024n)).toEqual({ int64Value: 1024 })
+    expect(toSessionOptionValueProto(0.5)).toEqual({ doubleValue: 0.5 })
+    expect(toSessionOptionValueProto(["a", "b"])).toEqual({
+      stringListValue: { values: ["a", "b"] }
+    })
+    expect(toSessionOptionValueProto(null)).toEqual({})
+  })
+
+  it("rejects bigint values outside the safe integer range", () => {
+    const largest = BigInt(Number.MAX_SAFE_INTEGER)
+
+    expect(toSessionOptionValueProto(-largest)).toEqual({ int64Value: -Number.MAX_SAFE_INTEGER })
+    expect(() => toSessionOptionValueProto(largest + 1n)).toThrow(
+      expect.objectContaining({ code: "INVALID_ARGUMENT" })
+    )
+    expect(() => toSessionOptionValueProto(-largest - 1n)).toThrow(FlightError)
+  })
+
+  it("converts each proto variant to the public type", () => {
+    expect(fromSessionOptionValueProto({ stringValue: "analytics" })).toBe("analytics")
+    expect(fromSessionOptionValueProto({ boolValue: false })).toBe(false)
+    expect(fromSessionOptionValueProto({ int64Value: 1024 })).toBe(1024n)
+    expect(fromSessionOptionValueProto({ doubleValue: 0.5 })).toBe(0.5)
+    expect(fromSessionOptionValueProto({ stringListValue: { values: ["a"] } })).toEqual(["a"])
+    expect(fromSessionOptionValueProto({})).toBeNull()
+  })
+})
+
+describe("SessionOptionError conversion", () => {
+  it("converts to proto values", () => {
+    expect(toSessionOptionErrorProto("unspecified")).toBe(0)
+    expect(toSessionOptionErrorProto("invalid-name")).toBe(1)
+    expect(toSessionOptionErrorProto("invalid-value")).toBe(2)
+    expect(toSessionOptionErrorProto("error")).toBe(3)
+  })
+
+  it("converts from proto values", () => {
+    expect(fromSessionOptionErrorProto(0)).toBe("unspecified")
+    expect(fromSessionOptionErrorProto(1)).toBe("invalid-name")
+    expect(fromSessionOptionErrorProto(2)).toBe("invalid-value")
+    expect(fromSessionOptionErrorProto(3)).toBe("error")
+    expect(fromSessionOptionErrorProto(-1)).toBe("unspecified")
+  })
+})
+
+describe("CloseSessionStatus conversion", () => {
+  it("converts to proto values", () => {
+    expect(toCloseSessionStatusProto("unspecified")).toBe(0)
+    expect(toCloseSessionStatusProto("closed")).toBe(1)
+    expect(toCloseSessionStatusProto("closing")).toBe(2)
+    expect(toCloseSessionStatusProto("not-closeable")).toBe(3)
+  })
+
+  it("converts from proto values", () => {
+    expect(fromCloseSessionStatusProto(0)).toBe("unspecified")
+    expect(fromCloseSessionStatusProto(1)).toBe("closed")
+    expect(fromCloseSessionStatusProto(2)).toBe("closing")
+    expect(fromCloseSessionStatusProto(3)).toBe("not-closeable")
+    expect(fromCloseSessionStatusProto(-1)).toBe("unspecified")
+  })
+})
+
 describe("CancelStatus conversion", () => {
   it("converts to proto values", () => {
     expect(toCancelStatusProto("unspecified")).toBe(0)
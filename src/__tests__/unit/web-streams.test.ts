@@ -0,0 +1,249 @@
+import { tableFromArrays } from "apache-arrow"
+import { afterEach, describe, expect, it } from "vitest"
+
+import {
+  createFlightClient,
+  type FlightClient,
+  type FlightData,
+  FlightServer,
+  type FlightServiceHandlers,
+  recordBatchesToFlightData
+} from "../../index"
+import { data, tick } from "./helpers"
+
+/**
+ * Reads every chunk of a readable stream.
+ */
+const readAll = async <T>(readable: ReadableStream<T>): Promise<T[]> => {
+  const reader = readable.getReader()
+  const chunks: T[] = []
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) {
+      return chunks
+    }
+    chunks.push(value)
+  }
+}
+
+describe("web stream adapters", () => {
+  let server: FlightServer
+  let client: FlightClient
+
+  const start = async (handlers: FlightServiceHandlers): Promise<void> => {
+    server = new FlightServer(handlers)
+    client = await createFlightClient(await server.listen())
+  }
+
+  afterEach(() => {
+    client.close()
+    server.forceClose()
+  })
+
+  describe("doGetReadableStream", () => {
+    it("reads every message of the flight", async () => {
+      let calls = 0
+      await start({
+        *doGet(ticket) {
+          calls++
+          for (let index = 0; index < 3; index++) {
+            yield data(`${ticket.ticket.toString()}-${String(index)}`)
+          }
+        }
+      })
+
+      const readable = client.doGetReadableStream({ ticket: Buffer.from("t") })
+      await tick()
+      expect(calls).toBe(0)
+
+      const messages = await readAll(readable)
+      expect(messages.map((message) => message.dataBody.toString())).toEqual(["t-0", "t-1", "t-2"])
+    })
+
+    it("cancels the call when the stream is cancelled", async () => {
+      let cancelled = false
+      await start({
+        async *doGet(_ticket, context) {
+          context.signal.addEventListener("abort", () => {
+            cancelled = true
+          })
+          for (;;) {
+            await tick(1)
+            yield data("more")
+          }
+        }
+      })
+
+      const reader = client.doGetReadableStream({ ticket: Buffer.from("t") }).getReader()
+      const first = await reader.read()
+      await reader.cancel("done")
+      await tick(50)
+
+      expect(first.value?.dataBody.toString()).toBe("more")
+      expect(cancelled).toBe(true)
+    })
+
+    it("can be cancelled before it is read", async () => {
+      await start({})
+
+      const readable = client.doGetReadableStream({ ticket: Buffer.from("t") })
+
+      await expect(readable.cancel()).resolves.toBeUndefined()
+    })
+
+    it("errors when the call fails or is aborted", async () => {
+      await start({
+        async *doGet(ticket) {
+          await tick(1)
+          if (ticket.ticket.toString() === "missing") {
+            throw new Error("no such ticket")
+          }
+          yield data("first")
+          await tick(1000)
+        }
+      })
+
+      await expect(
+        readAll(client.doGetReadableStream({ ticket: Buffer.from("missing") }))
+      ).rejects.toMatchObject({ code: "UNKNOWN" })
+
+      const controller = new AbortController()
+      const reader = client
+        .doGetReadableStream({ ticket: Buffer.from("t") }, { signal: controller.signal })
+        .getReader()
+      await reader.read()
+      controller.abort()
+      await expect(reader.read()).rejects.toMatchObject({ code: "CANCELLED" })
+    })
+  })
+
+  describe("doGetRecordBatchReadableStream", () => {
+    it("decodes the flight into record batches", async () => {
+      const table = tableFromArrays({ id: Int32Array.from([1, 2, 3]) })
+      await start({ doGet: () => recordBatchesToFlightData(table) })
+
+      const batches = await readAll(
+        client.doGetRecordBatchReadableStream({ ticket: Buffer.from("t") })
+      )
+
+      expect(batches).toHaveLength(1)
+      expect(batches[0].batch.getChild("id")?.toArray()).toEqual(Int32Array.from([1, 2, 3]))
+    })
+  })
+
+  describe("DoPutStream.toWritableStream", () => {
+    it("applies the backpressure of the call through desiredSize", async () => {
+      const messageSize = 64 * 1024
+      const messageCount = 200
+      let startReading = (): void => undefined
+      const reading = new Promise<void>((resolve) => {
+        startReading = resolve
+      })
+      await start({
+        async *doPut(messages) {
+          await reading
+          let count = 0
+          for await (const message of messages) {
+            count += message.dataBody.length
+          }
+          yield { appMetadata: Buffer.from(String(count)) }
+        }
+      })
+
+      const stream = client.doPut()
+      const results = stream.collectResults()
+      const writer = stream.toWritableStream().getWriter()
+      let written = 0
+      const upload = (async () => {
+        for (let index = 0; index < messageCount; index++) {
+          await writer.ready
+          void writer.write(data(Buffer.alloc(messageSize)))
+          written++
+        }
+        await writer.close()
+      })()
+
+      await tick(200)
+      const writtenWhileBlocked = written
+      const { desiredSize } = writer
+      startReading()
+      await upload
+      const [result] = await results
+
+      expect(writtenWhileBlocked).toBeLessThan(messageCount)
+      expect(desiredSize).toBeLessThanOrEqual(0)
+      expect(result.appMetadata.toString()).toBe(String(messageCount * messageSize))
+    })
+
+    it("cancels the call when the stream is aborted", async () => {
+      await start({
+        async *doPut(messages) {
+          for await (const message of messages) {
+            yield { appMetadata: message.dataBody }
+          }
+        }
+      })
+
+      const stream = client.doPut()
+      const results = stream.collectResults()
+      const writer = stream.toWritableStream().getWriter()
+      await writer.write(data("first"))
+      await writer.abort(new Error("stop"))
+
+      await expect(results).rejects.toMatchObject({ code: "CANCELLED" })
+    })
+  })
+
+  describe("DoExchangeStream", () => {
+    const echo: FlightServiceHandlers = {
+      async *doExchange(messages) {
+        for await (const message of messages) {
+          yield data(message.dataBody.toString().toUpperCase())
+        }
+      }
+    }
+
+    it("pipes web streams through an exchange", async () => {
+      await start(echo)
+
+      const exchange = client.doExchange()
+      const source = new ReadableStream<FlightData>({
+        start(controller) {
+          controller.enqueue(data("a"))
+          controller.enqueue(data("b"))
+          controller.close()
+        }
+      })
+      const [, received] = await Promise.all([
+        source.pipeTo(exchange.toWritableStream()),
+        readAll(exchange.toReadableStream())
+      ])
+
+      expect(received.map((message) => message.dataBody.toString())).toEqual(["A", "B"])
+    })
+
+    it("cancels the call when the readable is cancelled", async () => {
+      let cancelled = false
+      await start({
+        async *doExchange(messages, context) {
+          context.signal.addEventListener("abort", () => {
+            cancelled = true
+          })
+          for await (const message of messages) {
+            yield message
+          }
+        }
+      })
+
+      const exchange = client.doExchange()
+      const writer = exchange.toWritableStream().getWriter()
+      const reader = exchange.toReadableStream().getReader()
+      await writer.write(data("ping"))
+      await reader.read()
+      await reader.cancel()
+      await tick(50)
+
+      expect(cancelled).toBe(true)
+    })
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * Calls for transports that are not built on `@grpc/grpc-js`.
+ *
+ * Such a transport only reports what happens on the wire to a set of
+ * handlers, with each message still encoded. These functions decode the
+ * messages and pass them on to the listener of the call, in the order the
+ * FlightTransport contract promises.
+ *
+ * @packageDocumentation
+ */
+
+import { Metadata } from "./metadata.js"
+import {
+  type CallListener,
+  type ClientCall,
+  StatusCode,
+  type TransportStatus
+} from "./transport.js"
+import { flightCodeToGrpcStatus, FlightError } from "./types.js"
+
+/**
+ * Receives the events of a call from its transport.
+ *
+ * The transport reports the response headers, each message and then
+ * exactly one status, and never from within the function starting the call.
+ *
+ * @internal
+ */
+export type CallHandlers = {
+  onMetadata: (metadata: Metadata) => void
+  /** May return a promise to hold back the next message. */
+  onMessage: (message: Buffer) => Promise<void> | undefined
+  onStatus: (status: TransportStatus) => void
+}
+
+/**
+ * The transport side of a call in progress.
+ *
+ * @internal
+ */
+export type CallDriver = {
+  readonly peer: string
+  /** Ends the call with `CANCELLED`. */
+  cancel: () => void
+  /** Ends the call with a status. Later calls and events are ignored. */
+  finish: (status: TransportStatus) => void
+}
+
+/**
+ * Starts the transport side of a call that reports to `handlers`.
+ *
+ * @internal
+ */
+export type StartCall = (handlers: CallHandlers) => CallDriver
+
+/**
+ * Starts a unary call.
+ *
+ * The response is held back until the call succeeds, and a call that
+ * receives no response or more than one fails with `UNIMPLEMENTED`, as
+ * with grpc-js.
+ *
+ * @internal
+ */
+export function startUnaryCall<TResponse>(
+  start: StartCall,
+  deserialize: (message: Buffer) => TResponse,
+  listener: CallListener<TResponse>
+): ClientCall {
+  let response: { value: TResponse } | null = null
+  const driver = start({
+    onMetadata: (headers) => {
+      listener.onMetadata(headers)
+    },
+    onMessage: (message) => {
+      if (response === null) {
+        response = { value: deserialize(message) }
+      } else {
+        driver.finish(
+          callStatus(StatusCode.UNIMPLEMENTED, "Too many responses received", new Metadata())
+        )
+      }
+      return undefined
+    },
+    onStatus: (status) => {
+      if (status.code !== StatusCode.OK) {
+        listener.onStatus(status)
+      } else if (response === null) {
+        listener.onStatus(
+          callStatus(StatusCode.UNIMPLEMENTED, "No message received", status.metadata)
+        )
+      } else {
+        void listener.onMessage(response.value)
+        listener.onStatus(status)
+      }
+    }
+  })
+  return toClientCall(driver)
+}
+
+/**
+ * Starts a call with a stream of responses.
+ *
+ * The transport is only asked for the next message once the listener has
+ * taken the last one, so a consumer that falls behind holds back the
+ * server.
+ *
+ * @internal
+ */
+export function startStreamingCall<TResponse>(
+  start: StartCall,
+  deserialize: (message: Buffer) => TResponse,
+  listener: CallListener<TResponse>
+): ClientCall {
+  const driver = start({
+    onMetadata: (headers) => {
+      listener.onMetadata(headers)
+    },
+    onMessage: (message): Promise<void> | undefined => listener.onMessage(deserialize(message)),
+    onStatus: (status) => {
+      listener.onStatus(status)
+    }
+  })
+  return toClientCall(driver)
+}
+
+/**
+ * Gives the caller of a transport the calls of a driver.
+ *
+ * @internal
+ */
+export function toClientCall(driver: CallDriver): ClientCall {
+  return {
+    cancel: () => {
+      driver.cancel()
+    },
+    getPeer: () => driver.peer
+  }
+}
+
+/**
+ * Creates a call status.
+ *
+ * @internal
+ */
+export function callStatus(code: StatusCode, details: string, metadata: Metadata): TransportStatus {
+  return { code, details, metadata }
+}
+
+/**
+ * Creates the error of a failed call, as grpc-js reports it.
+ *
+ * @internal
+ */
+export function statusError(status: TransportStatus): Error & TransportStatus {
+  const message = `${String(status.code)} ${StatusCode[status.code]}: ${status.details}`
+  return Object.assign(new Error(message), status)
+}
+
+/**
+ * Converts an error thrown by a handler into the status of its call.
+ *
+ * A FlightError keeps its code and metadata; any other error fails the
+ * call with `UNKNOWN`.
+ *
+ * @internal
+ */
+export function errorStatus(error: unknown): TransportStatus {
+  const flightError = FlightError.fromGrpcError(error)
+  const metadata = new Metadata()
+  for (const [key, value] of Object.entries(flightError.metadata ?? {})) {
+    metadata.set(key, value)
+  }
+  return callStatus(flightCodeToGrpcStatus(flightError.code), flightError.message, metadata)
+}
+
+/**
+ * Converts a call deadline to the milliseconds left, or undefined for no
+ * deadline.
+ *
+ * @internal
+ */
+export function deadlineToTimeout(deadline: Date | number | undefined): number | undefined {
+  if (deadline === undefined) {
+    return undefined
+  }
+  const time = deadline instanceof Date ? deadline.getTime() : deadline
+  if (time === Infinity) {
+    return undefined
+  }
+  return Math.max(0, Math.ceil(time - Date.now()))
+}
@@ -4,42 +4,93 @@
  * @packageDocumentation
  */
 
-import {
-  type ChannelCredentials,
-  type ChannelOptions,
-  type ClientDuplexStream,
-  type ClientReadableStream,
-  credentials as grpcCredentials,
-  Metadata
-} from "@grpc/grpc-js"
+import { type RecordBatch, Table } from "apache-arrow"
 
+import { callStatus, statusError } from "./calls.js"
+import { createConnectTransport } from "./connect.js"
+import { CookieStore, methodPath, middlewareCookieStore } from "./cookies.js"
+import { createDefaultTransport } from "./default-transport.js"
 import {
   type Action,
   type ActionType,
   BasicAuth,
   CancelFlightInfoRequest,
   CancelFlightInfoResult,
+  CloseSessionRequest,
+  CloseSessionResult,
   type Criteria,
   Empty,
   type FlightData,
-  FlightServiceClient,
+  type FlightDescriptor,
+  FlightEndpoint,
+  GetSessionOptionsRequest,
+  GetSessionOptionsResult,
   type HandshakeResponse,
+  type PollInfo,
   type PutResult,
+  RenewFlightEndpointRequest,
   type Result,
-  type SchemaResult
+  type SchemaResult,
+  type SessionOptionValue as ProtoSessionOptionValue,
+  SetSessionOptionsRequest,
+  SetSessionOptionsResult as ProtoSetSessionOptionsResult
 } from "./generated/arrow/flight/protocol/Flight.js"
+import { createGrpcWebTransport } from "./grpc-web.js"
+import {
+  type FlightRecordBatch,
+  FlightRecordBatchStream,
+  type FlightRecordBatchStreamOptions,
+  recordBatchesToFlightData
+} from "./ipc.js"
+import { locationToClientOptions, parseLocation } from "./location.js"
+import { mergeStreams } from "./merge.js"
+import { Metadata } from "./metadata.js"
+import { type CallObserver, startCallMiddleware, withResponseCallbacks } from "./middleware.js"
+import { type ResolvedRetryPolicy, resolveRetryPolicy, retryDelay, shouldRetry } from "./retry.js"
+import {
+  abortError,
+  DEFAULT_READ_QUEUE_SIZE,
+  DuplexCall,
+  readStream,
+  validateReadQueueSize
+} from "./streams.js"
+import { TokenCache } from "./token-provider.js"
+import {
+  type BidiStreamingMethod,
+  type CallListener,
+  type ClientCall,
+  type FlightTransport,
+  StatusCode,
+  type TransportCallOptions,
+  type TransportStatus
+} from "./transport.js"
 import {
   type CallOptions,
   type CancelStatus,
+  type CloseSessionStatus,
   type Descriptor,
   type FlightClientOptions,
   FlightError,
   type FlightInfo,
+  type FlightMethod,
   fromCancelStatusProto,
+  fromCloseSessionStatusProto,
+  fromSessionOptionErrorProto,
+  fromSessionOptionValueProto,
+  type HandshakeOptions,
+  type Location,
+  type LocationClientOptions,
+  type PollFlightInfoOptions,
+  type ReadFlightOptions,
+  type RetryableMethod,
+  type SessionOptionError,
+  type SessionOptionValue,
+  type SetSessionOptionsResult,
   type Ticket,
-  type TlsOptions,
-  toFlightDescriptor
+  toFlightDescriptor,
+  toSessionOptionValueProto
 } from "./types.js"
+import { iterableToReadableStream, targetToWritableStream } from "./web-streams.js"
 
 /**
  * Connection state for the Flight client.
@@ -88,17 +139,55 @@ export type HandshakeResult = {
  */
 export class FlightClient {
   private readonly options: FlightClientOptions
-  private grpcClient: FlightServiceClient | null = null
+  private grpcClient: FlightTransport | null = null
   private _state: ConnectionState = "disconnected"
+  private readonly retryPolicy: ResolvedRetryPolicy | null
+  private readonly tokenCache: TokenCache | null
+  private readonly readQueueSize: number
   private _bearerToken: string | null = null
+  private readonly _sessionCookies: CookieStore
+  private readonly _sessionCookieNames = new Set<string>()
+  private readonly _locationClients = new Map<string, Promise<FlightClient>>()
+  private _pendingTokenRefresh: Promise<void> | null = null
 
   /**
    * Creates a new FlightClient instance.
    *
    * @param options - Connection options
+   * @throws {FlightError} If the retry policy is invalid
    */
   constructor(options: FlightClientOptions) {
     this.options = options
+    this.retryPolicy = resolveRetryPolicy(options.retry)
+    this.tokenCache = options.auth?.type === "tokenProvider" ? new TokenCache(options.auth) : null
+    this.readQueueSize = validateReadQueueSize(options.readQueueSize ?? DEFAULT_READ_QUEUE_SIZE)
+    // Session cookies share the store of a cookie middleware, so each cookie is kept once
+    this._sessionCookies = middlewareCookieStore(options.middleware) ?? new CookieStore()
+  }
+
+  /**
+   * Creates a new FlightClient for a location URI.
+   *
+   * The scheme selects how to connect: `grpc+tls` and `https` use TLS,
+   * `grpc` and `http` connect without it, and `grpc+unix` connects to a
+   * Unix domain socket. The client is not connected yet.
+   *
+   * @param location - The location to connect to
+   * @param options - Connection options other than the server address
+   * @returns A new, unconnected FlightClient
+   * @throws {LocationParseError} If the location is invalid or has no address
+   * @throws {FlightError} If the retry policy is invalid
+   *
+   * @example
+   * ```ts
+   * const client = FlightClient.fromLocation("grpc+tls://flight.example.com:443", {
+   *   auth: { type: "bearer", token: "my-token" }
+   * })
+   * await client.connect()
+   * ```
+   */
+  static fromLocation(location: Location | string, options?: LocationClientOptions): FlightClient {
+    return new FlightClient(locationToClientOptions(parseLocation(location), options))
   }
 
   /**
@@ -109,11 +198,11 @@ export class FlightClient {
   }
 
   /**
-   * The target address in the format "host:port".
+   * The target address in the format "host:port", or "unix:path" for
+   * Unix domain sockets.
    */
   get address(): string {
-    const port = this.options.port ?? (this.options.tls !== false ? 443 : 80)
-    return `${this.options.host}:${String(port)}`
+    return formatAddress(this.options)
   }
 
   /**
@@ -126,8 +215,9 @@ export class FlightClient {
   /**
    * Establishes a connection to the Flight server.
    *
-   * This creates the underlying gRPC channel. For servers that require
-   * authentication via Handshake, call `handshake()` after connecting.
+   * This creates the configured transport, by default a gRPC channel. For
+   * servers that require authentication via Handshake, call `handshake()`
+   * after connecting.
    *
    * @throws {FlightError} If connection fails
    */
@@ -143,10 +233,7 @@ export class FlightClient {
     this._state = "connecting"
 
     try {
-      const channelCredentials = this.buildCredentials()
-      const channelOptions = this.buildChannelOptions()
-
-      this.grpcClient = new FlightServiceClient(this.address, channelCredentials, channelOptions)
+      this.grpcClient = await this.createTransport()
 
       // Wait for the channel to be ready
       await this.waitForReady()
@@ -171,15 +258,26 @@ export class FlightClient {
     }
     this._state = "closed"
     this._bearerToken = null
+    this.discardSessionCookies()
+
+    for (const pending of this._locationClients.values()) {
+      pending.then(
+        (client) => {
+          client.close()
+        },
+        () => undefined
+      )
+    }
+    this._locationClients.clear()
   }
 
   /**
-   * Gets the underlying gRPC client.
+   * Gets the underlying gRPC client or transport.
    *
    * @internal
    * @throws {FlightError} If not connected
    */
-  getGrpcClient(): FlightServiceClient {
+  getGrpcClient(): FlightTransport {
     if (!this.grpcClient || this._state !== "connected") {
       throw new FlightError("client is not connected", "FAILED_PRECONDITION")
     }
@@ -213,12 +311,82 @@ export class FlightClient {
   }
 
   /**
-   * Creates gRPC metadata for a call, including authentication headers.
+   * Gets a connected client for a flight endpoint location.
+   *
+   * Reuse-connection locations, and locations that point at this client's
+   * own server, return this client. For other locations a client is
+   * created on first use and cached until this client is closed. It shares
+   * this client's auth, retry, middleware and channel settings, and the
+   * current bearer token is passed on every time it is requested.
+   *
+   * @param location - The location to connect to
+   * @returns A connected client for the location
+   * @throws {LocationParseError} If the location is invalid or unsupported
+   * @throws {FlightError} If this client is closed or the connection fails
+   *
+   * @example
+   * ```ts
+   * const endpoint = info.endpoint[0]
+   * const remote = await client.getLocationClient(endpoint.location[0])
+   * for await (const data of remote.doGet(endpoint.ticket!)) {
+   *   console.log("Received:", data.dataBody.length, "bytes")
+   * }
+   * ```
+   */
+  async getLocationClient(location: Location | string): Promise<FlightClient> {
+    if (this._state === "closed") {
+      throw new FlightError("client has been closed", "FAILED_PRECONDITION")
+    }
+
+    const parsed = parseLocation(location)
+    if (parsed.reuseConnection) {
+      return this
+    }
+
+    const { tls, transport } = this.options
+    // Custom credentials, the TLS server name and the base URL only apply to this client's server
+    const options = locationToClientOptions(parsed, {
+      ...this.options,
+      tls: typeof tls === "object" ? { ...tls, serverNameOverride: undefined } : tls,
+      credentials: undefined,
+      transport:
+        transport?.type === "grpcWeb" || transport?.type === "connect"
+          ? { ...transport, baseUrl: undefined }
+          : transport
+    })
+    const key = formatTarget(options)
+    if (key === formatTarget(this.options)) {
+      return this
+    }
+
+    let pending = this._locationClients.get(key)
+    if (pending === undefined) {
+      const client = new FlightClient(options)
+      pending = client.connect().then(() => client)
+      this._locationClients.set(key, pending)
+      // Allow a later attempt to reconnect if this one fails
+      pending.catch(() => {
+        this._locationClients.delete(key)
+      })
+    }
+
+    const client = await pending
+    if (this._bearerToken === null) {
+      client.clearBearerToken()
+    } else {
+      client.setBearerToken(this._bearerToken)
+    }
+    return client
+  }
+
+  /**
+   * Creates the metadata for a call, including authentication headers.
    *
    * @internal
    * @param callOptions - Optional call-level options
+   * @param method - The RPC method, matched against the path of session cookies
    */
-  createMetadata(callOptions?: CallOptions): Metadata {
+  createMetadata(callOptions?: CallOptions, method?: FlightMethod): Metadata {
     const metadata = new Metadata()
 
     // Add bearer token if set (takes precedence over configured auth)
@@ -232,9 +400,23 @@ export class FlightClient {
         metadata.set("authorization", `Basic ${encoded}`)
       } else if (auth?.type === "bearer") {
         metadata.set("authorization", `Bearer ${auth.token}`)
+      } else if (this.tokenCache !== null) {
+        // Tokens from a provider are only sent while cached and unexpired
+        const token = this.tokenCache.current()
+        if (token !== null) {
+          metadata.set("authorization", `Bearer ${token}`)
+        }
       }
     }
 
+    // Replay cookies captured from session actions
+    const cookies = this._sessionCookies.cookieHeader(
+      method === undefined ? undefined : methodPath(method)
+    )
+    if (cookies !== null) {
+      metadata.set("cookie", cookies)
+    }
+
     // Add custom headers from call options
     if (callOptions?.headers !== undefined) {
       for (const [key, value] of Object.entries(callOptions.headers)) {
@@ -245,6 +427,39 @@ export class FlightClient {
     return metadata
   }
 
+  /**
+   * Creates the transport options for a call, including its deadline.
+   *
+   * The call-level `timeoutMs` takes precedence over the client-level
+   * `defaultTimeoutMs`. Without either, the call has no deadline.
+   *
+   * @internal
+   * @param callOptions - Optional call-level options
+   */
+  createCallOptions(callOptions?: CallOptions): TransportCallOptions {
+    const timeoutMs = callOptions?.timeoutMs ?? this.options.defaultTimeoutMs
+    if (timeoutMs === undefined) {
+      return {}
+    }
+    return { deadline: Date.now() + timeoutMs }
+  }
+
+  /**
+   * Creates the metadata for a call and starts its middleware.
+   *
+   * The returned `observe` function must be applied to the listener the
+   * call is started with.
+   */
+  private prepareCall(
+    method: FlightMethod,
+    callOptions?: CallOptions
+  ): { metadata: Metadata; observe: CallObserver } {
+    const metadata = this.createMetadata(callOptions, method)
+    const middleware = withResponseCallbacks(this.options.middleware ?? [], callOptions)
+    const observe = startCallMiddleware(middleware, method, metadata)
+    return { metadata, observe }
+  }
+
   /**
    * Performs a handshake with the Flight server for authentication.
    *
@@ -256,9 +471,14 @@ export class FlightClient {
    * On success, if the server returns a bearer token (in the response payload
    * or metadata), it is automatically set for subsequent requests.
    *
-   * @param callOptions - Optional call-level options
+   * Multi-step handshakes pass an `exchange` callback, which receives each
+   * response and returns the next request payload, or null when done. The
+   * result then describes the last response.
+   *
+   * @param options - Optional handshake and call-level options
    * @returns The handshake result including protocol version and any token
    * @throws {FlightError} If the handshake fails
+   * @throws The error of the `exchange` callback, if it fails
    *
    * @example
    * ```ts
@@ -272,25 +492,73 @@ export class FlightClient {
    * await client.connect()
    * const result = await client.handshake()
    * console.log("Token:", result.token)
+   *
+   * // Challenge/response
+   * await client.handshake({
+   *   payload: Buffer.from("hello"),
+   *   exchange: async (response) =>
+   *     response.payload.length > 0 ? sign(response.payload) : null
+   * })
    * ```
    */
-  async handshake(callOptions?: CallOptions): Promise<HandshakeResult> {
+  async handshake(options?: HandshakeOptions): Promise<HandshakeResult> {
     const grpcClient = this.getGrpcClient()
-    const metadata = this.createMetadata(callOptions)
+    const signal = options?.signal
+    if (signal?.aborted === true) {
+      throw abortError(signal)
+    }
+    const { metadata, observe } = this.prepareCall("Handshake", options)
 
     // Build the handshake payload based on auth configuration
-    const payload = this.buildHandshakePayload()
+    const payload = options?.payload ?? this.buildHandshakePayload()
+    const exchange = options?.exchange
 
     return new Promise((resolve, reject) => {
-      const stream = grpcClient.handshake(metadata)
       let response: HandshakeResponse | null = null
       let extractedToken: string | undefined
+      // Cleared once the client has sent its last request or the call has ended
+      let sending = true
+      let failed = false
+      // Responses are passed to the exchange one at a time
+      let exchanging = Promise.resolve()
+
+      const onAbort = (): void => {
+        call.cancel()
+        reject(abortError(signal))
+      }
+      signal?.addEventListener("abort", onAbort, { once: true })
 
-      stream.on("data", (data: HandshakeResponse) => {
+      const onMessage = (data: HandshakeResponse): undefined => {
         response = data
-      })
+        if (exchange === undefined) {
+          return
+        }
+
+        exchanging = exchanging
+          .then(async () => {
+            if (failed) {
+              return
+            }
+            const next = await exchange(data)
+            if (!sending) {
+              return
+            }
+            if (next === null) {
+              sending = false
+              call.end()
+            } else {
+              call.write({ protocolVersion: 0, payload: next })
+            }
+          })
+          .catch((error: unknown) => {
+            sending = false
+            failed = true
+            call.cancel()
+            reject(error instanceof Error ? error : new Error(String(error)))
+          })
+      }
 
-      stream.on("metadata", (meta: Metadata) => {
+      const onMetadata = (meta: Metadata): void => {
         // Check for token in response metadata
         const authHeader = meta.get("authorization")
         if (authHeader.length > 0) {
@@ -310,42 +578,60 @@ export class FlightClient {
             extractedToken = tokenValue.toString("utf8")
           }
         }
-      })
-
-      stream.on("error", (error: Error) => {
-        reject(this.wrapError(error))
-      })
+      }
 
-      stream.on("end", () => {
-        if (response === null) {
-          reject(new FlightError("no handshake response received", "INTERNAL"))
+      const onStatus = (status: TransportStatus): void => {
+        sending = false
+        signal?.removeEventListener("abort", onAbort)
+        if (status.code !== StatusCode.OK) {
+          failed = true
+          reject(this.wrapError(statusError(status)))
           return
         }
 
-        // Try to extract token from response payload if not found in metadata
-        if (extractedToken === undefined && response.payload.length > 0) {
-          // Response payload is often the raw token string
-          extractedToken = response.payload.toString("utf8")
-        }
+        // Complete once the exchange has seen every response
+        void exchanging.then(() => {
+          if (failed) {
+            return
+          }
+          if (response === null) {
+            reject(new FlightError("no handshake response received", "INTERNAL"))
+            return
+          }
 
-        // Set the bearer token for subsequent requests
-        if (extractedToken !== undefined) {
-          this.setBearerToken(extractedToken)
-        }
+          // Try to extract token from response payload if not found in metadata
+          if (extractedToken === undefined && response.payload.length > 0) {
+            // Response payload is often the raw token string
+            extractedToken = response.payload.toString("utf8")
+          }
+
+          // Set the bearer token for subsequent requests
+          if (extractedToken !== undefined) {
+            this.setBearerToken(extractedToken)
+          }
 
-        resolve({
-          protocolVersion: response.protocolVersion,
-          payload: response.payload,
-          token: extractedToken
+          resolve({
+            protocolVersion: response.protocolVersion,
+            payload: response.payload,
+            token: extractedToken
+          })
         })
-      })
+      }
 
-      // Send the handshake request
-      stream.write({
+      const call = grpcClient.handshake(
+        metadata,
+        this.createCallOptions(options),
+        observe({ onMetadata, onMessage, onStatus, onDrain: () => undefined })
+      )
+
+      // Send the handshake request, and end the stream unless the exchange continues it
+      call.write({
         protocolVersion: 0,
         payload
       })
-      stream.end()
+      if (exchange === undefined) {
+        call.end()
+      }
     })
   }
 
@@ -372,13 +658,22 @@ export class FlightClient {
     criteria?: Criteria,
     callOptions?: CallOptions
   ): AsyncGenerator<FlightInfo, void, undefined> {
-    const grpcClient = this.getGrpcClient()
-    const metadata = this.createMetadata(callOptions)
-
     const request: Criteria = criteria ?? { expression: Buffer.alloc(0) }
-    const stream = grpcClient.listFlights(request, metadata)
 
-    yield* this.streamToAsyncIterable<FlightInfo>(stream)
+    yield* this.streamWithRetry("listFlights", callOptions, () => {
+      const grpcClient = this.getGrpcClient()
+      const { metadata, observe } = this.prepareCall("ListFlights", callOptions)
+      return this.streamToAsyncIterable<FlightInfo>(
+        (listener) =>
+          grpcClient.listFlights(
+            request,
+            metadata,
+            this.createCallOptions(callOptions),
+            observe(listener)
+          ),
+        callOptions?.signal
+      )
+    })
   }
 
   /**
@@ -403,21 +698,143 @@ export class FlightClient {
    * ```
    */
   async getFlightInfo(descriptor: Descriptor, callOptions?: CallOptions): Promise<FlightInfo> {
-    const grpcClient = this.getGrpcClient()
-    const metadata = this.createMetadata(callOptions)
     const request = toFlightDescriptor(descriptor)
 
-    return new Promise((resolve, reject) => {
-      grpcClient.getFlightInfo(request, metadata, (error, response) => {
-        if (error !== null) {
-          reject(this.wrapError(error))
-        } else {
-          resolve(response)
-        }
-      })
+    return this.withRetry("getFlightInfo", callOptions, async () => {
+      const grpcClient = this.getGrpcClient()
+      const { metadata, observe } = this.prepareCall("GetFlightInfo", callOptions)
+
+      return this.unaryCall(callOptions, (listener) =>
+        grpcClient.getFlightInfo(
+          request,
+          metadata,
+          this.createCallOptions(callOptions),
+          observe(listener)
+        )
+      )
     })
   }
 
+  /**
+   * Starts or polls a long-running query.
+   *
+   * Unlike getFlightInfo(), which blocks until the query completes, the first
+   * PollFlightInfo call returns as quickly as possible. The returned PollInfo
+   * holds the currently available results and, while the query is still
+   * running, a descriptor to use for the next poll.
+   *
+   * @param descriptor - The flight descriptor (path or command)
+   * @param callOptions - Optional call-level options
+   * @returns The current poll state of the query
+   * @throws {FlightError} If the flight is not found or the operation fails
+   *
+   * @example
+   * ```ts
+   * const poll = await client.pollFlightInfo(cmdDescriptor(Buffer.from("SELECT ...")))
+   * console.log("Progress:", poll.progress)
+   * console.log("Complete:", poll.flightDescriptor === undefined)
+   * ```
+   */
+  async pollFlightInfo(descriptor: Descriptor, callOptions?: CallOptions): Promise<PollInfo> {
+    return this.pollFlightInfoWith(toFlightDescriptor(descriptor), callOptions)
+  }
+
+  /**
+   * Polls a long-running query until it completes.
+   *
+   * Yields every PollInfo received from the server, re-polling with the
+   * descriptor it returns. The generator's return value is the final
+   * FlightInfo, received once the server stops returning a descriptor.
+   *
+   * Polls are spaced by `intervalMs`, but never scheduled past the
+   * `expirationTime` of the previous response. If that time has already
+   * passed, polling stops with a `DEADLINE_EXCEEDED` error.
+   *
+   * @param descriptor - The flight descriptor (path or command)
+   * @param options - Polling and call-level options
+   * @returns An async generator of PollInfo updates, returning the final FlightInfo
+   * @throws {FlightError} If polling fails or the poll descriptor expires
+   *
+   * @example
+   * ```ts
+   * const updates = client.pollFlightInfoUpdates(cmdDescriptor(Buffer.from("SELECT ...")))
+   * let next = await updates.next()
+   * while (next.done !== true) {
+   *   console.log("Progress:", next.value.progress)
+   *   next = await updates.next()
+   * }
+   * const info = next.value
+   * ```
+   */
+  async *pollFlightInfoUpdates(
+    descriptor: Descriptor,
+    options?: PollFlightInfoOptions
+  ): AsyncGenerator<PollInfo, FlightInfo, undefined> {
+    const intervalMs = options?.intervalMs ?? 1000
+    let request = toFlightDescriptor(descriptor)
+
+    for (;;) {
+      const poll = await this.pollFlightInfoWith(request, options)
+      yield poll
+
+      if (poll.flightDescriptor === undefined) {
+        if (poll.info === undefined) {
+          throw new FlightError("poll completed without flight info", "INTERNAL")
+        }
+        return poll.info
+      }
+
+      let delayMs = intervalMs
+      if (poll.expirationTime !== undefined) {
+        const remainingMs = poll.expirationTime.getTime() - Date.now()
+        if (remainingMs <= 0) {
+          throw new FlightError(
+            "poll descriptor expired before the query completed",
+            "DEADLINE_EXCEEDED"
+          )
+        }
+        delayMs = Math.min(delayMs, remainingMs)
+      }
+
+      await delay(delayMs, options?.signal)
+      request = poll.flightDescriptor
+    }
+  }
+
+  /**
+   * Polls a long-running query and resolves with its final FlightInfo.
+   *
+   * This is a convenience wrapper around pollFlightInfoUpdates() that
+   * reports each PollInfo through the optional `onProgress` callback.
+   *
+   * @param descriptor - The flight descriptor (path or command)
+   * @param options - Polling and call-level options
+   * @returns The FlightInfo of the completed query
+   * @throws {FlightError} If polling fails or the poll descriptor expires
+   *
+   * @example
+   * ```ts
+   * const info = await client.waitForFlightInfo(cmdDescriptor(Buffer.from("SELECT ...")), {
+   *   intervalMs: 500,
+   *   onProgress: (poll) => console.log("Progress:", poll.progress)
+   * })
+   * ```
+   */
+  async waitForFlightInfo(
+    descriptor: Descriptor,
+    options?: PollFlightInfoOptions
+  ): Promise<FlightInfo> {
+    const updates = this.pollFlightInfoUpdates(descriptor, options)
+
+    for (;;) {
+      const next = await updates.next()
+      if (next.done === true) {
+        return next.value
+      }
+      options?.onProgress?.(next.value)
+    }
+  }
+
   /**
    * Gets the Arrow schema for a specific flight.
    *
@@ -438,18 +855,20 @@ export class FlightClient {
    * ```
    */
   async getSchema(descriptor: Descriptor, callOptions?: CallOptions): Promise<SchemaResult> {
-    const grpcClient = this.getGrpcClient()
-    const metadata = this.createMetadata(callOptions)
     const request = toFlightDescriptor(descriptor)
 
-    return new Promise((resolve, reject) => {
-      grpcClient.getSchema(request, metadata, (error, response) => {
-        if (error !== null) {
-          reject(this.wrapError(error))
-        } else {
-          resolve(response)
-        }
-      })
+    return this.withRetry("getSchema", callOptions, async () => {
+      const grpcClient = this.getGrpcClient()
+      const { metadata, observe } = this.prepareCall("GetSchema", callOptions)
+
+      return this.unaryCall(callOptions, (listener) =>
+        grpcClient.getSchema(
+          request,
+          metadata,
+          this.createCallOptions(callOptions),
+          observe(listener)
+        )
+      )
     })
   }
 
@@ -479,12 +898,245 @@ export class FlightClient {
     ticket: Ticket,
     callOptions?: CallOptions
   ): AsyncGenerator<FlightData, void, undefined> {
-    const grpcClient = this.getGrpcClient()
-    const metadata = this.createMetadata(callOptions)
+    yield* this.streamWithRetry("doGet", callOptions, () => {
+      const grpcClient = this.getGrpcClient()
+      const { metadata, observe } = this.prepareCall("DoGet", callOptions)
+      return this.streamToAsyncIterable<FlightData>(
+        (listener) =>
+          grpcClient.doGet(
+            ticket,
+            metadata,
+            this.createCallOptions(callOptions),
+            observe(listener)
+          ),
+        callOptions?.signal
+      )
+    })
+  }
+
+  /**
+   * Retrieves the data of a flight endpoint from one of its locations.
+   *
+   * Locations are tried in order through `getLocationClient()`; an endpoint
+   * without locations is read from this client. If a location cannot be
+   * reached or fails before sending any data, the next one is tried. A
+   * failure after data has been received is not retried, so no data is
+   * duplicated.
+   *
+   * @param endpoint - The endpoint to read
+   * @param callOptions - Optional call-level options
+   * @returns An async iterable of FlightData messages
+   * @throws {FlightError} If the endpoint has no ticket or every location fails
+   *
+   * @example
+   * ```ts
+   * const info = await client.getFlightInfo(pathDescriptor("my", "data"))
+   * for (const endpoint of info.endpoint) {
+   *   for await (const data of client.doGetEndpoint(endpoint)) {
+   *     console.log("Received:", data.dataBody.length, "bytes")
+   *   }
+   * }
+   * ```
+   */
+  async *doGetEndpoint(
+    endpoint: FlightEndpoint,
+    callOptions?: CallOptions
+  ): AsyncGenerator<FlightData, void, undefined> {
+    const { ticket } = endpoint
+    if (ticket === undefined) {
+      throw new FlightError("flight endpoint has no ticket", "INVALID_ARGUMENT")
+    }
+
+    // An endpoint without locations can only be redeemed where it was issued
+    const locations = endpoint.location.length > 0 ? endpoint.location : [""]
+    let lastError: unknown
+
+    for (const location of locations) {
+      let yielded = false
+      try {
+        const client = await this.getLocationClient(location)
+        for await (const data of client.doGet(ticket, callOptions)) {
+          yielded = true
+          yield data
+        }
+        return
+      } catch (error) {
+        if (yielded || callOptions?.signal?.aborted === true) {
+          throw error
+        }
+        lastError = error
+      }
+    }
+
+    throw lastError
+  }
+
+  /**
+   * Retrieves data for a flight ticket as decoded Arrow record batches.
+   *
+   * Messages are decoded as they arrive rather than buffered, so large
+   * flights can be processed in constant memory. The returned stream
+   * exposes the schema before the first batch is read. The `app_metadata`
+   * of messages without Arrow data is passed to `onAppMetadata`.
+   *
+   * @param ticket - The ticket identifying the data stream
+   * @param callOptions - Optional call-level options and stream options
+   * @returns The opened record batch stream
+   * @throws {FlightError} If the ticket is invalid or the operation fails
+   *
+   * @example
+   * ```ts
+   * const stream = await client.doGetRecordBatches(endpoint.ticket!)
+   * console.log("Fields:", stream.schema.names)
+   *
+   * for await (const { batch, appMetadata } of stream) {
+   *   console.log("Rows:", batch.numRows)
+   * }
+   * ```
+   */
+  async doGetRecordBatches(
+    ticket: Ticket,
+    callOptions?: CallOptions & FlightRecordBatchStreamOptions
+  ): Promise<FlightRecordBatchStream> {
+    return FlightRecordBatchStream.from(this.doGet(ticket, callOptions), callOptions)
+  }
+
+  /**
+   * Retrieves data for a flight ticket as a WHATWG ReadableStream.
+   *
+   * The call starts when the stream is first read, and a message is only
+   * requested from the call when the reader asks for one. Cancelling the
+   * stream cancels the call.
+   *
+   * @param ticket - The ticket identifying the data stream
+   * @param callOptions - Optional call-level options
+   * @returns A readable stream of FlightData messages
+   *
+   * @example
+   * ```ts
+   * const reader = client.doGetReadableStream(endpoint.ticket!).getReader()
+   * const { value } = await reader.read()
+   * await reader.cancel()
+   * ```
+   */
+  doGetReadableStream(ticket: Ticket, callOptions?: CallOptions): ReadableStream<FlightData> {
+    return iterableToReadableStream(
+      (signal) => this.doGet(ticket, { ...callOptions, signal }),
+      callOptions?.signal
+    )
+  }
+
+  /**
+   * Retrieves data for a flight ticket as a WHATWG ReadableStream of
+   * decoded Arrow record batches.
+   *
+   * Behaves like `doGetReadableStream()`, decoding messages as in
+   * `doGetRecordBatches()`.
+   *
+   * @param ticket - The ticket identifying the data stream
+   * @param callOptions - Optional call-level options
+   * @returns A readable stream of record batches with their app metadata
+   *
+   * @example
+   * ```ts
+   * const readable = client.doGetRecordBatchReadableStream(endpoint.ticket!)
+   * await readable.pipeTo(
+   *   new WritableStream({ write: ({ batch }) => console.log("Rows:", batch.numRows) })
+   * )
+   * ```
+   */
+  doGetRecordBatchReadableStream(
+    ticket: Ticket,
+    callOptions?: CallOptions
+  ): ReadableStream<FlightRecordBatch> {
+    return iterableToReadableStream((signal) => {
+      const batches = this.doGetRecordBatches(ticket, { ...callOptions, signal })
+      return (async function* () {
+        yield* await batches
+      })()
+    }, callOptions?.signal)
+  }
+
+  /**
+   * Reads every endpoint of a flight as one stream of record batches.
+   *
+   * Up to `concurrency` endpoints are fetched at the same time. If the
+   * flight is `ordered`, batches are yielded in endpoint order while later
+   * endpoints are prefetched; otherwise they are yielded as they arrive.
+   * Each endpoint is read from its own locations, as in `doGetEndpoint()`.
+   * At most `readQueueSize` batches are read ahead per endpoint, or in total
+   * when unordered, so memory stays bounded for large flights.
+   *
+   * If any endpoint fails, the remaining calls are cancelled and the error
+   * is thrown at once, even in an ordered flight whose earlier endpoints
+   * are still being read.
+   *
+   * @param info - The flight to read
+   * @param options - Concurrency and call-level options
+   * @returns An async iterable of record batches from all endpoints
+   * @throws {FlightError} If an endpoint has no ticket or a read fails
+   *
+   * @example
+   * ```ts
+   * const info = await client.getFlightInfo(pathDescriptor("my", "data"))
+   * for await (const { batch } of client.readFlight(info, { concurrency: 8 })) {
+   *   console.log("Rows:", batch.numRows)
+   * }
+   * ```
+   */
+  async *readFlight(
+    info: FlightInfo,
+    options?: ReadFlightOptions
+  ): AsyncGenerator<FlightRecordBatch, void, undefined> {
+    const { concurrency = 4, ...callOptions } = options ?? {}
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new FlightError("concurrency must be a positive integer", "INVALID_ARGUMENT")
+    }
 
-    const stream = grpcClient.doGet(ticket, metadata)
+    if (info.endpoint.some((endpoint) => endpoint.ticket === undefined)) {
+      throw new FlightError("flight endpoint has no ticket", "INVALID_ARGUMENT")
+    }
+
+    // Cancels the endpoint calls that are still running once reading stops
+    const controller = new AbortController()
+    const signal =
+      callOptions.signal === undefined
+        ? controller.signal
+        : AbortSignal.any([callOptions.signal, controller.signal])
+
+    try {
+      yield* mergeStreams(
+        info.endpoint.map(
+          (endpoint) => () => this.readEndpoint(endpoint, { ...callOptions, signal })
+        ),
+        { concurrency, ordered: info.ordered, bufferSize: this.readQueueSize }
+      )
+    } finally {
+      controller.abort()
+    }
+  }
 
-    yield* this.streamToAsyncIterable<FlightData>(stream)
+  /**
+   * Reads every endpoint of a flight into a single Arrow Table.
+   *
+   * @param info - The flight to read
+   * @param options - Concurrency and call-level options
+   * @returns A table with the batches of all endpoints
+   * @throws {FlightError} If an endpoint has no ticket or a read fails
+   *
+   * @example
+   * ```ts
+   * const info = await client.getFlightInfo(pathDescriptor("my", "data"))
+   * const table = await client.readFlightTable(info)
+   * console.log("Rows:", table.numRows)
+   * ```
+   */
+  async readFlightTable(info: FlightInfo, options?: ReadFlightOptions): Promise<Table> {
+    const batches: RecordBatch[] = []
+    for await (const { batch } of this.readFlight(info, options)) {
+      batches.push(batch)
+    }
+    return new Table(batches)
   }
 
   /**
@@ -510,9 +1162,9 @@ export class FlightClient {
    *   dataBody: Buffer.alloc(0)
    * })
    *
-   * // Send data batches
+   * // Send data batches, waiting whenever the stream is full
    * for (const batch of batches) {
-   *   stream.write({
+   *   await stream.writeAsync({
    *     flightDescriptor: undefined,
    *     dataHeader: batch.header,
    *     appMetadata: Buffer.alloc(0),
@@ -529,28 +1181,68 @@ export class FlightClient {
    */
   doPut(callOptions?: CallOptions): DoPutStream {
     const grpcClient = this.getGrpcClient()
-    const metadata = this.createMetadata(callOptions)
-    const grpcStream = grpcClient.doPut(metadata)
-
-    return new DoPutStream(grpcStream, (err) => this.wrapError(err))
+    return new DoPutStream(
+      this.startDuplexCall("DoPut", callOptions, (metadata, options, listener) =>
+        grpcClient.doPut(metadata, options, listener)
+      )
+    )
   }
 
   /**
-   * Opens a bidirectional data exchange with the Flight server.
+   * Uploads an Arrow Table or a stream of RecordBatches to the Flight server.
    *
-   * Creates a bidirectional stream for exchanging Arrow data. This is
-   * useful for operations where the client needs to send data and receive
-   * transformed results in a streaming fashion.
+   * The data is encoded as Arrow IPC, including any dictionary batches, and
+   * sent over DoPut with the descriptor on the first message. Batches from
+   * an async source are encoded and sent as they arrive. A source without
+   * batches still sends the descriptor, with the schema of an empty Table or
+   * else an empty schema.
    *
+   * @param descriptor - The flight descriptor identifying the upload
+   * @param source - A Table, or an iterable or async iterable of RecordBatches
    * @param callOptions - Optional call-level options
-   * @returns A DoExchange stream for bidirectional data exchange
-   * @throws {FlightError} If the operation fails
+   * @returns All PutResult acknowledgements from the server
+   * @throws {FlightError} If the upload fails
    *
    * @example
    * ```ts
-   * const stream = client.doExchange()
+   * import { tableFromArrays } from "apache-arrow"
    *
-   * // Send data
+   * const table = tableFromArrays({ id: Int32Array.from([1, 2, 3]) })
+   * const results = await client.putTable(pathDescriptor("my", "table"), table)
+   * console.log("Acks:", results.length)
+   * ```
+   */
+  async putTable(
+    descriptor: Descriptor,
+    source: Table | Iterable<RecordBatch> | AsyncIterable<RecordBatch>,
+    callOptions?: CallOptions
+  ): Promise<PutResult[]> {
+    const stream = this.doPut(callOptions)
+
+    // Read acknowledgements while writing so the server is never blocked on them
+    const results = stream.collectResults()
+    results.catch(() => undefined)
+
+    await stream.pipeFrom(recordBatchesToFlightData(source, toFlightDescriptor(descriptor)))
+    return results
+  }
+
+  /**
+   * Opens a bidirectional data exchange with the Flight server.
+   *
+   * Creates a bidirectional stream for exchanging Arrow data. This is
+   * useful for operations where the client needs to send data and receive
+   * transformed results in a streaming fashion.
+   *
+   * @param callOptions - Optional call-level options
+   * @returns A DoExchange stream for bidirectional data exchange
+   * @throws {FlightError} If the operation fails
+   *
+   * @example
+   * ```ts
+   * const stream = client.doExchange()
+   *
+   * // Send data
    * stream.write({
    *   flightDescriptor: { type: 2, path: [], cmd: Buffer.from("transform") },
    *   dataHeader: headerBytes,
@@ -568,10 +1260,11 @@ export class FlightClient {
    */
   doExchange(callOptions?: CallOptions): DoExchangeStream {
     const grpcClient = this.getGrpcClient()
-    const metadata = this.createMetadata(callOptions)
-    const grpcStream = grpcClient.doExchange(metadata)
-
-    return new DoExchangeStream(grpcStream, (err) => this.wrapError(err))
+    return new DoExchangeStream(
+      this.startDuplexCall("DoExchange", callOptions, (metadata, options, listener) =>
+        grpcClient.doExchange(metadata, options, listener)
+      )
+    )
   }
 
   /**
@@ -597,12 +1290,20 @@ export class FlightClient {
     action: Action,
     callOptions?: CallOptions
   ): AsyncGenerator<Result, void, undefined> {
-    const grpcClient = this.getGrpcClient()
-    const metadata = this.createMetadata(callOptions)
-
-    const stream = grpcClient.doAction(action, metadata)
-
-    yield* this.streamToAsyncIterable<Result>(stream)
+    yield* this.streamWithTokenRefresh(() => {
+      const grpcClient = this.getGrpcClient()
+      const { metadata, observe } = this.prepareCall("DoAction", callOptions)
+      return this.streamToAsyncIterable<Result>(
+        (listener) =>
+          grpcClient.doAction(
+            action,
+            metadata,
+            this.createCallOptions(callOptions),
+            observe(listener)
+          ),
+        callOptions?.signal
+      )
+    })
   }
 
   /**
@@ -623,12 +1324,20 @@ export class FlightClient {
    * ```
    */
   async *listActions(callOptions?: CallOptions): AsyncGenerator<ActionType, void, undefined> {
-    const grpcClient = this.getGrpcClient()
-    const metadata = this.createMetadata(callOptions)
-
-    const stream = grpcClient.listActions(Empty, metadata)
-
-    yield* this.streamToAsyncIterable<ActionType>(stream)
+    yield* this.streamWithRetry("listActions", callOptions, () => {
+      const grpcClient = this.getGrpcClient()
+      const { metadata, observe } = this.prepareCall("ListActions", callOptions)
+      return this.streamToAsyncIterable<ActionType>(
+        (listener) =>
+          grpcClient.listActions(
+            Empty,
+            metadata,
+            this.createCallOptions(callOptions),
+            observe(listener)
+          ),
+        callOptions?.signal
+      )
+    })
   }
 
   /**
@@ -668,192 +1377,539 @@ export class FlightClient {
   }
 
   /**
-   * Converts a gRPC readable stream to an async iterable.
+   * Extends the expiration time of a flight endpoint.
    *
-   * @internal
+   * This sends a RenewFlightEndpoint action to the server so that the
+   * endpoint's ticket can still be redeemed after its original
+   * `expirationTime`, e.g. while slow downstream processing is running.
+   *
+   * @param endpoint - The FlightEndpoint to renew
+   * @param callOptions - Optional call-level options
+   * @returns The renewed endpoint with its new expiration time
+   * @throws {FlightError} If the renewal request fails or the server returns no result
+   *
+   * @example
+   * ```ts
+   * const info = await client.getFlightInfo(pathDescriptor("my", "data"))
+   * const renewed = await client.renewFlightEndpoint(info.endpoint[0])
+   * console.log("Expires at:", renewed.expirationTime)
+   * ```
    */
-  private async *streamToAsyncIterable<T>(
-    stream: ClientReadableStream<T>
-  ): AsyncGenerator<T, void, undefined> {
-    type QueueItem = { type: "data"; value: T } | { type: "error"; value: Error } | { type: "end" }
-    const queue: QueueItem[] = []
-    let notify: (() => void) | null = null
-
-    const push = (item: QueueItem): void => {
-      queue.push(item)
-      if (notify !== null) {
-        notify()
-        notify = null
-      }
+  async renewFlightEndpoint(
+    endpoint: FlightEndpoint,
+    callOptions?: CallOptions
+  ): Promise<FlightEndpoint> {
+    // Encode the request
+    const request: RenewFlightEndpointRequest = { endpoint }
+    const body = Buffer.from(RenewFlightEndpointRequest.encode(request).finish())
+
+    // Execute the action
+    const action: Action = { type: "RenewFlightEndpoint", body }
+
+    for await (const result of this.doAction(action, callOptions)) {
+      // The first result carries the renewed endpoint
+      return FlightEndpoint.decode(result.body)
     }
 
-    stream.on("data", (data: T) => {
-      push({ type: "data", value: data })
-    })
+    throw new FlightError("no renew flight endpoint result received", "INTERNAL")
+  }
 
-    stream.on("error", (err: Error) => {
-      push({ type: "error", value: this.wrapError(err) })
-    })
+  /**
+   * Sets options on the current server session.
+   *
+   * Sends a SetSessionOptions action. If no session exists yet, the server
+   * creates one implicitly and typically returns a session cookie, which is
+   * captured and sent with every subsequent call from this client.
+   *
+   * Setting an option to `null` asks the server to unset it.
+   *
+   * @param options - Session options to set, keyed by option name
+   * @param callOptions - Optional call-level options
+   * @returns The per-option errors reported by the server
+   * @throws {FlightError} If a `bigint` value is not a safe integer, the
+   *   action fails or the server returns no result
+   *
+   * @example
+   * ```ts
+   * const result = await client.setSessionOptions({
+   *   catalog: "analytics",
+   *   "batch-size": 1024n,
+   *   "sample-rate": 0.5
+   * })
+   * for (const [name, error] of Object.entries(result.errors)) {
+   *   console.warn(`could not set ${name}: ${error}`)
+   * }
+   * ```
+   */
+  async setSessionOptions(
+    options: Record<string, SessionOptionValue>,
+    callOptions?: CallOptions
+  ): Promise<SetSessionOptionsResult> {
+    const sessionOptions: Record<string, ProtoSessionOptionValue> = {}
+    for (const [name, value] of Object.entries(options)) {
+      sessionOptions[name] = toSessionOptionValueProto(value)
+    }
+    const body = Buffer.from(SetSessionOptionsRequest.encode({ sessionOptions }).finish())
 
-    stream.on("end", () => {
-      push({ type: "end" })
-    })
+    const result = ProtoSetSessionOptionsResult.decode(
+      await this.sessionAction("SetSessionOptions", body, callOptions)
+    )
 
-    let done = false
-    while (!done) {
-      while (queue.length === 0) {
-        await new Promise<void>((r) => {
-          notify = r
-        })
-      }
+    const errors: Record<string, SessionOptionError> = {}
+    for (const [name, error] of Object.entries(result.errors)) {
+      errors[name] = fromSessionOptionErrorProto(error.value)
+    }
+    return { errors }
+  }
 
-      // Queue is guaranteed to have items after the inner while loop
-      // Use index access and then mutate to avoid non-null assertion
-      const item = queue[0]
-      queue.splice(0, 1)
-
-      switch (item.type) {
-        case "data":
-          yield item.value
-          break
-        case "error":
-          throw item.value
-        case "end":
-          done = true
-          break
-      }
+  /**
+   * Gets the options of the current server session.
+   *
+   * @param callOptions - Optional call-level options
+   * @returns The current session options, keyed by option name
+   * @throws {FlightError} If the action fails or the server returns no result
+   *
+   * @example
+   * ```ts
+   * const options = await client.getSessionOptions()
+   * console.log("Catalog:", options.catalog)
+   * ```
+   */
+  async getSessionOptions(callOptions?: CallOptions): Promise<Record<string, SessionOptionValue>> {
+    const body = Buffer.from(GetSessionOptionsRequest.encode({}).finish())
+
+    const result = GetSessionOptionsResult.decode(
+      await this.sessionAction("GetSessionOptions", body, callOptions)
+    )
+
+    const options: Record<string, SessionOptionValue> = {}
+    for (const [name, value] of Object.entries(result.sessionOptions)) {
+      options[name] = fromSessionOptionValueProto(value)
     }
+    return options
   }
 
   /**
-   * Builds the handshake payload based on auth configuration.
+   * Closes the current server session.
+   *
+   * Once the server reports the session as closed, the captured session
+   * cookie is discarded.
+   *
+   * @param callOptions - Optional call-level options
+   * @returns The close status
+   * @throws {FlightError} If the action fails or the server returns no result
+   *
+   * @example
+   * ```ts
+   * const status = await client.closeSession()
+   * console.log("Close status:", status)
+   * ```
    */
-  private buildHandshakePayload(): Buffer {
-    const { auth } = this.options
+  async closeSession(callOptions?: CallOptions): Promise<CloseSessionStatus> {
+    const body = Buffer.from(CloseSessionRequest.encode({}).finish())
 
-    if (auth?.type === "basic") {
-      // Encode as BasicAuth protobuf
-      const basicAuth = { username: auth.username, password: auth.password }
-      return Buffer.from(BasicAuth.encode(basicAuth).finish())
+    const result = CloseSessionResult.decode(
+      await this.sessionAction("CloseSession", body, callOptions)
+    )
+
+    const status = fromCloseSessionStatusProto(result.status)
+    if (status === "closed") {
+      this.discardSessionCookies()
     }
+    return status
+  }
 
-    if (auth?.type === "handshake") {
-      return auth.payload
+  /**
+   * Runs a session action and returns the body of its first result.
+   *
+   * Session cookies set in the response headers are captured for replay.
+   */
+  private async sessionAction(
+    type: string,
+    body: Buffer,
+    callOptions?: CallOptions
+  ): Promise<Buffer> {
+    const results = this.streamWithTokenRefresh(() => {
+      const grpcClient = this.getGrpcClient()
+      const { metadata, observe } = this.prepareCall("DoAction", callOptions)
+      return this.streamToAsyncIterable<Result>(
+        (listener) =>
+          grpcClient.doAction(
+            { type, body },
+            metadata,
+            this.createCallOptions(callOptions),
+            observe({
+              ...listener,
+              onMetadata: (headers) => {
+                this.captureSessionCookies(headers)
+                listener.onMetadata(headers)
+              }
+            })
+          ),
+        callOptions?.signal
+      )
+    })
+
+    for await (const result of results) {
+      return result.body
     }
 
-    // Empty payload for other auth types or no auth
-    return Buffer.alloc(0)
+    throw new FlightError(`no result received for ${type} action`, "INTERNAL")
+  }
+
+  /**
+   * Reads the record batches of a single endpoint.
+   */
+  private async *readEndpoint(
+    endpoint: FlightEndpoint,
+    callOptions: CallOptions
+  ): AsyncGenerator<FlightRecordBatch, void, undefined> {
+    yield* await FlightRecordBatchStream.from(this.doGetEndpoint(endpoint, callOptions))
   }
 
   /**
-   * Builds gRPC channel credentials from client options.
+   * Stores the cookies from `set-cookie` response headers.
+   *
+   * A cookie with an empty value or an expiry in the past is removed.
    */
-  private buildCredentials(): ChannelCredentials {
-    // If explicit credentials provided, use them
-    if (this.options.credentials !== undefined) {
-      return this.options.credentials
+  private captureSessionCookies(headers: Metadata): void {
+    for (const name of this._sessionCookies.setCookies(headers.get("set-cookie").map(String))) {
+      this._sessionCookieNames.add(name)
     }
+  }
 
-    // Handle mTLS via auth option (legacy support)
-    const { auth } = this.options
-    if (auth?.type === "mtls") {
-      const cert = typeof auth.cert === "string" ? Buffer.from(auth.cert) : auth.cert
-      const key = typeof auth.key === "string" ? Buffer.from(auth.key) : auth.key
-      const ca =
-        auth.ca !== undefined
-          ? typeof auth.ca === "string"
-            ? Buffer.from(auth.ca)
-            : auth.ca
-          : undefined
-
-      return grpcCredentials.createSsl(ca, key, cert)
+  /**
+   * Removes the cookies captured from session actions, leaving any other
+   * cookies of a shared cookie middleware store.
+   */
+  private discardSessionCookies(): void {
+    for (const name of this._sessionCookieNames) {
+      this._sessionCookies.delete(name)
     }
+    this._sessionCookieNames.clear()
+  }
 
-    // Handle TLS options
-    const { tls } = this.options
+  /**
+   * Issues a PollFlightInfo call with a raw descriptor.
+   *
+   * Retry descriptors returned by the server are passed through unchanged.
+   */
+  private async pollFlightInfoWith(
+    request: FlightDescriptor,
+    callOptions?: CallOptions
+  ): Promise<PollInfo> {
+    return this.withTokenRefresh(async () => {
+      const grpcClient = this.getGrpcClient()
+      const { metadata, observe } = this.prepareCall("PollFlightInfo", callOptions)
+
+      return this.unaryCall(callOptions, (listener) =>
+        grpcClient.pollFlightInfo(
+          request,
+          metadata,
+          this.createCallOptions(callOptions),
+          observe(listener)
+        )
+      )
+    })
+  }
 
-    // Explicit false means insecure
-    if (tls === false) {
-      return grpcCredentials.createInsecure()
-    }
+  /**
+   * Starts a call and reads its responses as an async iterable with a
+   * bounded read queue.
+   *
+   * @internal
+   */
+  private streamToAsyncIterable<T>(
+    start: (listener: CallListener<T>) => ClientCall,
+    signal?: AbortSignal
+  ): AsyncGenerator<T, void, undefined> {
+    return readStream(start, {
+      wrapError: (err) => this.wrapError(err),
+      queueSize: this.readQueueSize,
+      signal
+    })
+  }
 
-    // If tls is an object, use its configuration
-    if (typeof tls === "object") {
-      return this.buildTlsCredentials(tls)
+  /**
+   * Runs a unary operation, retrying it according to the retry policy.
+   *
+   * @internal
+   */
+  private async withRetry<T>(
+    method: RetryableMethod,
+    callOptions: CallOptions | undefined,
+    operation: () => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.withTokenRefresh(operation)
+      } catch (error) {
+        if (this.retryPolicy === null || !shouldRetry(this.retryPolicy, method, error, attempt)) {
+          throw error
+        }
+        await delay(retryDelay(this.retryPolicy, attempt, error), callOptions?.signal)
+      }
     }
-
-    // Default: TLS with system CAs
-    return grpcCredentials.createSsl()
   }
 
   /**
-   * Builds TLS credentials from TlsOptions.
+   * Runs a streaming operation, retrying it according to the retry policy.
+   *
+   * A failed stream is only retried while it has not yielded any message,
+   * so callers never see duplicated data.
+   *
+   * @internal
    */
-  private buildTlsCredentials(tlsOptions: TlsOptions): ChannelCredentials {
-    const rootCerts =
-      tlsOptions.rootCerts !== undefined
-        ? typeof tlsOptions.rootCerts === "string"
-          ? Buffer.from(tlsOptions.rootCerts)
-          : tlsOptions.rootCerts
-        : undefined
+  private async *streamWithRetry<T>(
+    method: RetryableMethod,
+    callOptions: CallOptions | undefined,
+    open: () => AsyncGenerator<T, void, undefined>
+  ): AsyncGenerator<T, void, undefined> {
+    for (let attempt = 1; ; attempt++) {
+      let yielded = false
+      try {
+        for await (const item of this.streamWithTokenRefresh(open)) {
+          yielded = true
+          yield item
+        }
+        return
+      } catch (error) {
+        if (
+          yielded ||
+          this.retryPolicy === null ||
+          !shouldRetry(this.retryPolicy, method, error, attempt)
+        ) {
+          throw error
+        }
+        await delay(retryDelay(this.retryPolicy, attempt, error), callOptions?.signal)
+      }
+    }
+  }
 
-    const privateKey =
-      tlsOptions.privateKey !== undefined
-        ? typeof tlsOptions.privateKey === "string"
-          ? Buffer.from(tlsOptions.privateKey)
-          : tlsOptions.privateKey
-        : undefined
+  /**
+   * Runs a unary operation, replaying it once with a new bearer token if it
+   * fails with `UNAUTHENTICATED` and token refresh is enabled.
+   *
+   * @internal
+   */
+  private async withTokenRefresh<T>(operation: () => Promise<T>): Promise<T> {
+    // Calls start synchronously unless they wait for the token provider
+    const attempt = async (): Promise<T> => {
+      const loading = this.loadProviderToken()
+      return loading === null ? operation() : loading.then(operation)
+    }
 
-    const certChain =
-      tlsOptions.certChain !== undefined
-        ? typeof tlsOptions.certChain === "string"
-          ? Buffer.from(tlsOptions.certChain)
-          : tlsOptions.certChain
-        : undefined
+    try {
+      return await attempt()
+    } catch (error) {
+      if (!(await this.refreshTokenAfter(error))) {
+        throw error
+      }
+      return attempt()
+    }
+  }
 
-    // grpc-js createSsl signature: (rootCerts?, privateKey?, certChain?, verifyOptions?)
-    const verifyOptions =
-      tlsOptions.verifyServerCert === false ? { checkServerIdentity: () => undefined } : undefined
+  /**
+   * Runs a streaming operation, replaying it once with a new bearer token
+   * if it fails with `UNAUTHENTICATED` before yielding any message and
+   * token refresh is enabled.
+   *
+   * @internal
+   */
+  private async *streamWithTokenRefresh<T>(
+    open: () => AsyncGenerator<T, void, undefined>
+  ): AsyncGenerator<T, void, undefined> {
+    await this.loadProviderToken()
+    let yielded = false
+    try {
+      for await (const item of open()) {
+        yielded = true
+        yield item
+      }
+    } catch (error) {
+      if (yielded || !(await this.refreshTokenAfter(error))) {
+        throw error
+      }
+      await this.loadProviderToken()
+      yield* open()
+    }
+  }
 
-    return grpcCredentials.createSsl(rootCerts, privateKey, certChain, verifyOptions)
+  /**
+   * Fetches a token from the token provider so that `createMetadata` can
+   * send it.
+   *
+   * @returns The pending fetch, or null if a token is cached, a bearer
+   *   token takes precedence, or there is no provider
+   */
+  private loadProviderToken(): Promise<string> | null {
+    if (this.tokenCache === null || this._bearerToken !== null) {
+      return null
+    }
+    return this.tokenCache.current() === null ? this.tokenCache.get() : null
   }
 
   /**
-   * Builds gRPC channel options from client options.
+   * Refreshes the bearer token if the error calls for it.
+   *
+   * Calls failing at the same time share a single refresh.
+   *
+   * @returns Whether the token was refreshed
    */
-  private buildChannelOptions(): ChannelOptions {
-    const options: ChannelOptions = {}
-    const { channelOptions: channelOpts } = this.options
+  private async refreshTokenAfter(error: unknown): Promise<boolean> {
+    if (!FlightError.isUnauthenticated(error)) {
+      return false
+    }
+    // The server rejected the provider's token, so the next call fetches a new one
+    if (this._bearerToken === null) {
+      this.tokenCache?.invalidate()
+    }
 
-    if (channelOpts?.maxReceiveMessageLength !== undefined) {
-      options["grpc.max_receive_message_length"] = channelOpts.maxReceiveMessageLength
+    const { tokenRefresh } = this.options
+    if (tokenRefresh === undefined) {
+      return false
     }
 
-    if (channelOpts?.maxSendMessageLength !== undefined) {
-      options["grpc.max_send_message_length"] = channelOpts.maxSendMessageLength
+    this._pendingTokenRefresh ??= (async () => {
+      try {
+        if (tokenRefresh === "handshake") {
+          // The expired token must not be sent with the handshake
+          this.clearBearerToken()
+          await this.handshake()
+        } else {
+          this.setBearerToken(await tokenRefresh())
+        }
+      } finally {
+        this._pendingTokenRefresh = null
+      }
+    })()
+    await this._pendingTokenRefresh
+    return true
+  }
+
+  /**
+   * Runs a unary call, settling with its response or a wrapped error.
+   *
+   * If the call's AbortSignal aborts first, the call is cancelled and the
+   * promise rejects with a `CANCELLED` FlightError.
+   *
+   * @internal
+   */
+  private async unaryCall<T>(
+    callOptions: CallOptions | undefined,
+    start: (listener: CallListener<T>) => ClientCall
+  ): Promise<T> {
+    const signal = callOptions?.signal
+    if (signal?.aborted === true) {
+      throw abortError(signal)
     }
 
-    if (channelOpts?.keepaliveTimeMs !== undefined) {
-      options["grpc.keepalive_time_ms"] = channelOpts.keepaliveTimeMs
+    return new Promise((resolve, reject) => {
+      const onAbort = (): void => {
+        call.cancel()
+        reject(abortError(signal))
+      }
+      signal?.addEventListener("abort", onAbort, { once: true })
+
+      let response: { value: T } | null = null
+      const call = start({
+        onMetadata: () => undefined,
+        onMessage: (message) => {
+          response = { value: message }
+          return undefined
+        },
+        onStatus: (status) => {
+          signal?.removeEventListener("abort", onAbort)
+          if (status.code !== StatusCode.OK) {
+            reject(this.wrapError(statusError(status)))
+          } else if (response === null) {
+            reject(
+              this.wrapError(
+                statusError(
+                  callStatus(StatusCode.UNIMPLEMENTED, "No message received", status.metadata)
+                )
+              )
+            )
+          } else {
+            resolve(response.value)
+          }
+        }
+      })
+    })
+  }
+
+  /**
+   * Starts a bidirectional call for a DoPut or DoExchange stream.
+   *
+   * The call starts once a token from the token provider is available, so
+   * its metadata carries the token on every transport. Requests written
+   * before then are sent once it starts.
+   */
+  private startDuplexCall<TRequest, TResponse>(
+    method: FlightMethod,
+    callOptions: CallOptions | undefined,
+    start: BidiStreamingMethod<TRequest, TResponse>
+  ): DuplexCall<TRequest, TResponse> {
+    const call = new DuplexCall<TRequest, TResponse>(
+      this.readQueueSize,
+      (err) => this.wrapStreamError(err),
+      callOptions?.signal
+    )
+    const open = (): void => {
+      const { metadata, observe } = this.prepareCall(method, callOptions)
+      call.start(start(metadata, this.createCallOptions(callOptions), observe(call.listener)))
     }
 
-    if (channelOpts?.keepaliveTimeoutMs !== undefined) {
-      options["grpc.keepalive_timeout_ms"] = channelOpts.keepaliveTimeoutMs
+    const loading = this.loadProviderToken()
+    if (loading === null) {
+      open()
+    } else {
+      loading.then(open).catch((error: unknown) => {
+        call.fail(error)
+      })
     }
+    return call
+  }
 
-    if (channelOpts?.keepalivePermitWithoutCalls !== undefined) {
-      options["grpc.keepalive_permit_without_calls"] = channelOpts.keepalivePermitWithoutCalls
-        ? 1
-        : 0
+  /**
+   * Builds the handshake payload based on auth configuration.
+   */
+  private buildHandshakePayload(): Buffer {
+    const { auth } = this.options
+
+    if (auth?.type === "basic") {
+      // Encode as BasicAuth protobuf
+      const basicAuth = { username: auth.username, password: auth.password }
+      return Buffer.from(BasicAuth.encode(basicAuth).finish())
     }
 
-    // Add SSL target name override from TLS options
-    const { tls } = this.options
-    if (typeof tls === "object" && tls.serverNameOverride !== undefined) {
-      options["grpc.ssl_target_name_override"] = tls.serverNameOverride
+    if (auth?.type === "handshake") {
+      return auth.payload
     }
 
-    return options
+    // Empty payload for other auth types or no auth
+    return Buffer.alloc(0)
+  }
+
+  /**
+   * Creates the transport that calls are made through.
+   *
+   * @throws {FlightError} If gRPC-Web or Connect is used with a Unix domain
+   *   socket
+   */
+  private async createTransport(): Promise<FlightTransport> {
+    const { transport } = this.options
+    switch (transport?.type) {
+      case undefined:
+      case "grpc":
+        return createDefaultTransport(this.address, this.options)
+      case "grpcWeb":
+        return createGrpcWebTransport(this.address, this.options, transport)
+      case "connect":
+        return createConnectTransport(this.address, this.options, transport)
+      case "custom":
+        return transport.createTransport(this.options)
+    }
   }
 
   /**
@@ -887,6 +1943,63 @@ export class FlightClient {
   private wrapError(error: unknown): FlightError {
     return FlightError.fromGrpcError(error)
   }
+
+  /**
+   * Wraps an error of a DoPut or DoExchange stream.
+   *
+   * As for other calls, a provider token the server rejected is dropped
+   * from the cache, so the next call fetches a new one.
+   */
+  private wrapStreamError(error: unknown): FlightError {
+    const wrapped = this.wrapError(error)
+    if (FlightError.isUnauthenticated(wrapped) && this._bearerToken === null) {
+      this.tokenCache?.invalidate()
+    }
+    return wrapped
+  }
+}
+
+/**
+ * Formats the gRPC channel address of client options.
+ */
+function formatAddress(options: FlightClientOptions): string {
+  if (options.socketPath !== undefined) {
+    return `unix:${options.socketPath}`
+  }
+  const port = options.port ?? (options.tls !== false ? 443 : 80)
+  return `${options.host}:${String(port)}`
+}
+
+/**
+ * Formats the target of client options, identifying the server and whether
+ * TLS is used.
+ */
+function formatTarget(options: FlightClientOptions): string {
+  if (options.socketPath !== undefined) {
+    return `grpc+unix://${options.socketPath}`
+  }
+  return `${options.tls !== false ? "grpc+tls" : "grpc"}://${formatAddress(options)}`
+}
+
+/**
+ * Waits for the given time, rejecting early if the signal aborts.
+ */
+async function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted === true) {
+    throw abortError(signal)
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer)
+      reject(abortError(signal))
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
 }
 
 /**
@@ -895,15 +2008,13 @@ export class FlightClient {
  * Allows sending FlightData messages and receiving PutResult acknowledgements.
  */
 export class DoPutStream {
-  private readonly stream: ClientDuplexStream<FlightData, PutResult>
-  private readonly wrapError: (err: unknown) => FlightError
+  private readonly call: DuplexCall<FlightData, PutResult>
 
-  constructor(
-    stream: ClientDuplexStream<FlightData, PutResult>,
-    wrapError: (err: unknown) => FlightError
-  ) {
-    this.stream = stream
-    this.wrapError = wrapError
+  /**
+   * @internal
+   */
+  constructor(call: DuplexCall<FlightData, PutResult>) {
+    this.call = call
   }
 
   /**
@@ -913,7 +2024,57 @@ export class DoPutStream {
    * @returns true if the write was successful, false if backpressure
    */
   write(data: FlightData): boolean {
-    return this.stream.write(data)
+    return this.call.write(data)
+  }
+
+  /**
+   * Writes a FlightData message to the stream, waiting until the stream
+   * can accept more data.
+   *
+   * Resolves once the message is buffered within the flow control window
+   * of the call, so awaiting each write bounds the memory used by an upload.
+   *
+   * @param data - The FlightData message to send
+   * @throws {FlightError} If the stream fails before it can accept more data
+   */
+  async writeAsync(data: FlightData): Promise<void> {
+    return this.call.writeAsync(data)
+  }
+
+  /**
+   * Writes every message of a source to the stream, respecting
+   * backpressure, then ends the stream.
+   *
+   * If the source or a write fails, the stream is cancelled.
+   *
+   * @param source - The messages to send
+   * @throws {FlightError} If the stream fails
+   */
+  async pipeFrom(source: Iterable<FlightData> | AsyncIterable<FlightData>): Promise<void> {
+    try {
+      for await (const data of source) {
+        await this.writeAsync(data)
+      }
+      this.end()
+    } catch (error) {
+      this.cancel()
+      throw error
+    }
+  }
+
+  /**
+   * Returns a WHATWG WritableStream that writes to this stream.
+   *
+   * Chunks are written with `writeAsync()`, so `desiredSize` and
+   * `writer.ready` reflect the backpressure of the call. Closing the
+   * writable ends the stream; aborting it cancels the call.
+   *
+   * @param highWaterMark - Number of messages the writable queues before
+   *   signalling backpressure
+   * @returns A writable stream of FlightData messages
+   */
+  toWritableStream(highWaterMark = 1): WritableStream<FlightData> {
+    return targetToWritableStream(this, highWaterMark)
   }
 
   /**
@@ -922,14 +2083,14 @@ export class DoPutStream {
    * Call this after sending all data to properly close the stream.
    */
   end(): void {
-    this.stream.end()
+    this.call.end()
   }
 
   /**
    * Cancels the stream.
    */
   cancel(): void {
-    this.stream.cancel()
+    this.call.cancel()
   }
 
   /**
@@ -938,7 +2099,7 @@ export class DoPutStream {
    * @yields PutResult messages from the server
    */
   async *results(): AsyncGenerator<PutResult, void, undefined> {
-    yield* this.streamToAsyncIterable()
+    yield* this.call.read()
   }
 
   /**
@@ -953,58 +2114,6 @@ export class DoPutStream {
     }
     return results
   }
-
-  private async *streamToAsyncIterable(): AsyncGenerator<PutResult, void, undefined> {
-    type QueueItem =
-      | { type: "data"; value: PutResult }
-      | { type: "error"; value: Error }
-      | { type: "end" }
-    const queue: QueueItem[] = []
-    let notify: (() => void) | null = null
-
-    const push = (item: QueueItem): void => {
-      queue.push(item)
-      if (notify !== null) {
-        notify()
-        notify = null
-      }
-    }
-
-    this.stream.on("data", (data: PutResult) => {
-      push({ type: "data", value: data })
-    })
-
-    this.stream.on("error", (err: Error) => {
-      push({ type: "error", value: this.wrapError(err) })
-    })
-
-    this.stream.on("end", () => {
-      push({ type: "end" })
-    })
-
-    let done = false
-    while (!done) {
-      while (queue.length === 0) {
-        await new Promise<void>((r) => {
-          notify = r
-        })
-      }
-
-      const item = queue[0]
-      queue.splice(0, 1)
-
-      switch (item.type) {
-        case "data":
-          yield item.value
-          break
-        case "error":
-          throw item.value
-        case "end":
-          done = true
-          break
-      }
-    }
-  }
 }
 
 /**
@@ -1013,15 +2122,13 @@ export class DoPutStream {
  * Allows bidirectional exchange of FlightData messages.
  */
 export class DoExchangeStream {
-  private readonly stream: ClientDuplexStream<FlightData, FlightData>
-  private readonly wrapError: (err: unknown) => FlightError
+  private readonly call: DuplexCall<FlightData, FlightData>
 
-  constructor(
-    stream: ClientDuplexStream<FlightData, FlightData>,
-    wrapError: (err: unknown) => FlightError
-  ) {
-    this.stream = stream
-    this.wrapError = wrapError
+  /**
+   * @internal
+   */
+  constructor(call: DuplexCall<FlightData, FlightData>) {
+    this.call = call
   }
 
   /**
@@ -1031,7 +2138,77 @@ export class DoExchangeStream {
    * @returns true if the write was successful, false if backpressure
    */
   write(data: FlightData): boolean {
-    return this.stream.write(data)
+    return this.call.write(data)
+  }
+
+  /**
+   * Writes a FlightData message to the stream, waiting until the stream
+   * can accept more data.
+   *
+   * Resolves once the message is buffered within the flow control window
+   * of the call, so awaiting each write bounds the memory used by an upload.
+   *
+   * @param data - The FlightData message to send
+   * @throws {FlightError} If the stream fails before it can accept more data
+   */
+  async writeAsync(data: FlightData): Promise<void> {
+    return this.call.writeAsync(data)
+  }
+
+  /**
+   * Writes every message of a source to the stream, respecting
+   * backpressure, then ends the stream.
+   *
+   * If the source or a write fails, the stream is cancelled.
+   *
+   * @param source - The messages to send
+   * @throws {FlightError} If the stream fails
+   */
+  async pipeFrom(source: Iterable<FlightData> | AsyncIterable<FlightData>): Promise<void> {
+    try {
+      for await (const data of source) {
+        await this.writeAsync(data)
+      }
+      this.end()
+    } catch (error) {
+      this.cancel()
+      throw error
+    }
+  }
+
+  /**
+   * Returns a WHATWG WritableStream that writes to this stream.
+   *
+   * Chunks are written with `writeAsync()`, so `desiredSize` and
+   * `writer.ready` reflect the backpressure of the call. Closing the
+   * writable ends the request stream; aborting it cancels the call.
+   *
+   * @param highWaterMark - Number of messages the writable queues before
+   *   signalling backpressure
+   * @returns A writable stream of FlightData messages
+   */
+  toWritableStream(highWaterMark = 1): WritableStream<FlightData> {
+    return targetToWritableStream(this, highWaterMark)
+  }
+
+  /**
+   * Returns a WHATWG ReadableStream over the received FlightData messages.
+   *
+   * Cancelling the readable cancels the whole call.
+   *
+   * @returns A readable stream of FlightData messages
+   */
+  toReadableStream(): ReadableStream<FlightData> {
+    return iterableToReadableStream((signal) => {
+      signal.addEventListener(
+        "abort",
+        () => {
+          this.cancel()
+        },
+        { once: true }
+      )
+      return this.results()
+    })
   }
 
   /**
@@ -1041,14 +2218,14 @@ export class DoExchangeStream {
    * sending data after you call end().
    */
   end(): void {
-    this.stream.end()
+    this.call.end()
   }
 
   /**
    * Cancels the stream.
    */
   cancel(): void {
-    this.stream.cancel()
+    this.call.cancel()
   }
 
   /**
@@ -1057,7 +2234,7 @@ export class DoExchangeStream {
    * @yields FlightData messages from the server
    */
   async *results(): AsyncGenerator<FlightData, void, undefined> {
-    yield* this.streamToAsyncIterable()
+    yield* this.call.read()
   }
 
   /**
@@ -1072,67 +2249,18 @@ export class DoExchangeStream {
     }
     return results
   }
-
-  private async *streamToAsyncIterable(): AsyncGenerator<FlightData, void, undefined> {
-    type QueueItem =
-      | { type: "data"; value: FlightData }
-      | { type: "error"; value: Error }
-      | { type: "end" }
-    const queue: QueueItem[] = []
-    let notify: (() => void) | null = null
-
-    const push = (item: QueueItem): void => {
-      queue.push(item)
-      if (notify !== null) {
-        notify()
-        notify = null
-      }
-    }
-
-    this.stream.on("data", (data: FlightData) => {
-      push({ type: "data", value: data })
-    })
-
-    this.stream.on("error", (err: Error) => {
-      push({ type: "error", value: this.wrapError(err) })
-    })
-
-    this.stream.on("end", () => {
-      push({ type: "end" })
-    })
-
-    let done = false
-    while (!done) {
-      while (queue.length === 0) {
-        await new Promise<void>((r) => {
-          notify = r
-        })
-      }
-
-      const item = queue[0]
-      queue.splice(0, 1)
-
-      switch (item.type) {
-        case "data":
-          yield item.value
-          break
-        case "error":
-          throw item.value
-        case "end":
-          done = true
-          break
-      }
-    }
-  }
 }
 
 /**
  * Creates a new FlightClient and connects to the server.
  *
  * This is a convenience function that combines creating a client
- * and calling connect() in one step.
+ * and calling connect() in one step. The server can be given as
+ * connection options or as a location URI, as in `FlightClient.fromLocation()`.
  *
- * @param options - Connection options
+ * @param target - Connection options, or the location to connect to
+ * @param options - Connection options other than the server address, when
+ *   `target` is a location
  * @returns A connected FlightClient
  *
  * @example
@@ -1142,10 +2270,18 @@ export class DoExchangeStream {
  *   port: 8815,
  *   tls: false
  * })
+ *
+ * const secure = await createFlightClient("grpc+tls://flight.example.com:443")
  * ```
  */
-export async function createFlightClient(options: FlightClientOptions): Promise<FlightClient> {
-  const client = new FlightClient(options)
+export async function createFlightClient(
+  target: FlightClientOptions | Location | string,
+  options?: LocationClientOptions
+): Promise<FlightClient> {
+  const client =
+    typeof target === "string" || "uri" in target
+      ? FlightClient.fromLocation(target, options)
+      : new FlightClient(target)
   await client.connect()
   return client
 }
@@ -0,0 +1,562 @@
+/**
+ * Connect transport.
+ *
+ * Makes Flight calls with `fetch` using the Connect protocol, which runs
+ * over HTTP/1.1 as well as HTTP/2, so a client can reach Flight gateways
+ * through proxies that break HTTP/2. Messages are sent as binary Protocol
+ * Buffers or as JSON. Connect over HTTP/1.1 has no client streaming: unary
+ * and server-streaming methods are supported, while Handshake, DoPut and
+ * DoExchange fail with `UNIMPLEMENTED`.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  type CallDriver,
+  type CallHandlers,
+  callStatus,
+  deadlineToTimeout,
+  startStreamingCall,
+  startUnaryCall
+} from "./calls.js"
+import {
+  Action,
+  ActionType,
+  Criteria,
+  Empty,
+  FlightData,
+  FlightDescriptor,
+  FlightInfo,
+  type HandshakeRequest,
+  type HandshakeResponse,
+  type MessageFns,
+  PollInfo,
+  type PutResult,
+  Result,
+  SchemaResult,
+  Ticket
+} from "./generated/arrow/flight/protocol/Flight.js"
+import type { Any } from "./generated/google/protobuf/any.js"
+import { Status as StatusProto } from "./generated/google/rpc/status.js"
+import {
+  encodeFrame,
+  FetchExchange,
+  type FetchTransportConfig,
+  headersToMetadata,
+  httpStatusToGrpc,
+  metadataToHeaders,
+  readFrames,
+  resolveFetchTransportConfig,
+  startUnsupportedCall
+} from "./http.js"
+import { Metadata } from "./metadata.js"
+import { FlightServiceService } from "./service.js"
+import {
+  type CallListener,
+  type ClientCall,
+  type ClientStreamingCall,
+  type DuplexCallListener,
+  type FlightTransport,
+  StatusCode,
+  type TransportCallOptions,
+  type TransportStatus
+} from "./transport.js"
+import type { ConnectFormat, ConnectTransportOptions, FlightClientOptions } from "./types.js"
+
+/** Flag of an envelope holding a compressed message. */
+const COMPRESSED_FLAG = 0x01
+
+/** Flag of the envelope that ends a streaming response. */
+const END_STREAM_FLAG = 0x02
+
+/** Prefix of the headers carrying the trailers of a unary response. */
+const TRAILER_PREFIX = "trailer-"
+
+/** Headers that describe the response rather than carry metadata. */
+const RESERVED_HEADERS = new Set(["content-type", "content-encoding", "connect-content-encoding"])
+
+/** gRPC status codes of the Connect error codes. */
+const CONNECT_CODES = new Map<string, StatusCode>([
+  ["canceled", StatusCode.CANCELLED],
+  ["unknown", StatusCode.UNKNOWN],
+  ["invalid_argument", StatusCode.INVALID_ARGUMENT],
+  ["deadline_exceeded", StatusCode.DEADLINE_EXCEEDED],
+  ["not_found", StatusCode.NOT_FOUND],
+  ["already_exists", StatusCode.ALREADY_EXISTS],
+  ["permission_denied", StatusCode.PERMISSION_DENIED],
+  ["resource_exhausted", StatusCode.RESOURCE_EXHAUSTED],
+  ["failed_precondition", StatusCode.FAILED_PRECONDITION],
+  ["aborted", StatusCode.ABORTED],
+  ["out_of_range", StatusCode.OUT_OF_RANGE],
+  ["unimplemented", StatusCode.UNIMPLEMENTED],
+  ["internal", StatusCode.INTERNAL],
+  ["unavailable", StatusCode.UNAVAILABLE],
+  ["data_loss", StatusCode.DATA_LOSS],
+  ["unauthenticated", StatusCode.UNAUTHENTICATED]
+])
+
+/**
+ * A Flight method called over Connect, with the message types it encodes.
+ */
+type ConnectMethod<TRequest, TResponse> = {
+  path: string
+  request: MessageFns<TRequest>
+  response: MessageFns<TResponse>
+}
+
+/**
+ * What a Connect call sends.
+ */
+type CallRequest = {
+  path: string
+  message: Buffer
+  metadata: Metadata
+  options: TransportCallOptions
+}
+
+/**
+ * The error of a failed call, as Connect sends it in JSON.
+ */
+type ConnectErrorJson = {
+  code?: unknown
+  message?: unknown
+  details?: unknown
+}
+
+/**
+ * Settings of a Connect transport.
+ *
+ * @internal
+ */
+export type ConnectTransportConfig = FetchTransportConfig<ConnectFormat>
+
+/** The Flight methods that can be called over Connect. */
+const METHODS = {
+  listFlights: connectMethod(FlightServiceService.listFlights, Criteria, FlightInfo),
+  getFlightInfo: connectMethod(FlightServiceService.getFlightInfo, FlightDescriptor, FlightInfo),
+  pollFlightInfo: connectMethod(FlightServiceService.pollFlightInfo, FlightDescriptor, PollInfo),
+  getSchema: connectMethod(FlightServiceService.getSchema, FlightDescriptor, SchemaResult),
+  doGet: connectMethod(FlightServiceService.doGet, Ticket, FlightData),
+  doAction: connectMethod(FlightServiceService.doAction, Action, Result),
+  listActions: connectMethod(FlightServiceService.listActions, Empty, ActionType)
+}
+
+/**
+ * Creates the Connect transport of a client.
+ *
+ * @param address - The `host:port` address of the server
+ * @param options - Options of the client
+ * @param transport - The Connect options of the client
+ *
+ * @throws {FlightError} If the client uses a Unix domain socket and no
+ *   `baseUrl` is set
+ *
+ * @internal
+ */
+export function createConnectTransport(
+  address: string,
+  options: FlightClientOptions,
+  transport: ConnectTransportOptions
+): ConnectTransport {
+  return new ConnectTransport(
+    resolveFetchTransportConfig("Connect", address, options, transport, "proto")
+  )
+}
+
+/**
+ * Flight transport that makes Connect calls with fetch.
+ *
+ * @internal
+ */
+export class ConnectTransport implements FlightTransport {
+  private readonly config: ConnectTransportConfig
+
+  constructor(config: ConnectTransportConfig) {
+    this.config = config
+  }
+
+  handshake(
+    _metadata: Metadata,
+    _options: TransportCallOptions,
+    listener: DuplexCallListener<HandshakeResponse>
+  ): ClientStreamingCall<HandshakeRequest> {
+    return startUnsupportedCall(this.config, unsupported("Handshake"), listener)
+  }
+
+  listFlights(
+    request: Criteria,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<FlightInfo>
+  ): ClientCall {
+    return this.serverStreaming(METHODS.listFlights, request, metadata, options, listener)
+  }
+
+  getFlightInfo(
+    request: FlightDescriptor,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<FlightInfo>
+  ): ClientCall {
+    return this.unary(METHODS.getFlightInfo, request, metadata, options, listener)
+  }
+
+  pollFlightInfo(
+    request: FlightDescriptor,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<PollInfo>
+  ): ClientCall {
+    return this.unary(METHODS.pollFlightInfo, request, metadata, options, listener)
+  }
+
+  getSchema(
+    request: FlightDescriptor,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<SchemaResult>
+  ): ClientCall {
+    return this.unary(METHODS.getSchema, request, metadata, options, listener)
+  }
+
+  doGet(
+    request: Ticket,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<FlightData>
+  ): ClientCall {
+    return this.serverStreaming(METHODS.doGet, request, metadata, options, listener)
+  }
+
+  doPut(
+    _metadata: Metadata,
+    _options: TransportCallOptions,
+    listener: DuplexCallListener<PutResult>
+  ): ClientStreamingCall<FlightData> {
+    return startUnsupportedCall(this.config, unsupported("DoPut"), listener)
+  }
+
+  doExchange(
+    _metadata: Metadata,
+    _options: TransportCallOptions,
+    listener: DuplexCallListener<FlightData>
+  ): ClientStreamingCall<FlightData> {
+    return startUnsupportedCall(this.config, unsupported("DoExchange"), listener)
+  }
+
+  doAction(
+    request: Action,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<Result>
+  ): ClientCall {
+    return this.serverStreaming(METHODS.doAction, request, metadata, options, listener)
+  }
+
+  listActions(
+    request: Empty,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<ActionType>
+  ): ClientCall {
+    return this.serverStreaming(METHODS.listActions, request, metadata, options, listener)
+  }
+
+  /**
+   * Calls back at once: each call makes its own request, so there is no
+   * channel to wait for.
+   */
+  waitForReady(_deadline: Date | number, callback: (error?: Error) => void): void {
+    callback()
+  }
+
+  /**
+   * Does nothing: connections are managed by fetch, and calls in progress
+   * run to completion as they do on a closed grpc-js channel.
+   */
+  close(): void {
+    // Nothing to release
+  }
+
+  private unary<TRequest, TResponse>(
+    method: ConnectMethod<TRequest, TResponse>,
+    request: TRequest,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<TResponse>
+  ): ClientCall {
+    const message = this.encode(method.request, request)
+    return startUnaryCall(
+      (handlers) => this.start(handlers, false, { path: method.path, message, metadata, options }),
+      (response) => this.decode(method.response, response),
+      listener
+    )
+  }
+
+  private serverStreaming<TRequest, TResponse>(
+    method: ConnectMethod<TRequest, TResponse>,
+    request: TRequest,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<TResponse>
+  ): ClientCall {
+    const message = this.encode(method.request, request)
+    return startStreamingCall(
+      (handlers) => this.start(handlers, true, { path: method.path, message, metadata, options }),
+      (response) => this.decode(method.response, response),
+      listener
+    )
+  }
+
+  private start(handlers: CallHandlers, streaming: boolean, request: CallRequest): CallDriver {
+    const exchange = new ConnectExchange(this.config, handlers, streaming)
+    exchange.start(request)
+    return exchange
+  }
+
+  private encode<T>(type: MessageFns<T>, message: T): Buffer {
+    return this.config.format === "json"
+      ? Buffer.from(JSON.stringify(type.toJSON(message)))
+      : Buffer.from(type.encode(message).finish())
+  }
+
+  private decode<T>(type: MessageFns<T>, message: Buffer): T {
+    return this.config.format === "json"
+      ? type.fromJSON(JSON.parse(message.toString("utf8")))
+      : type.decode(message)
+  }
+}
+
+/**
+ * The HTTP exchange behind a Connect call.
+ */
+class ConnectExchange extends FetchExchange {
+  private readonly format: ConnectFormat
+  private readonly streaming: boolean
+
+  constructor(config: ConnectTransportConfig, handlers: CallHandlers, streaming: boolean) {
+    super(config, handlers)
+    this.format = config.format
+    this.streaming = streaming
+  }
+
+  start({ path, message, metadata, options }: CallRequest): void {
+    const headers = metadataToHeaders(metadata)
+    headers.set("content-type", `application/${this.streaming ? "connect+" : ""}${this.format}`)
+    headers.set("connect-protocol-version", "1")
+
+    const timeoutMs = deadlineToTimeout(options.deadline)
+    if (timeoutMs !== undefined) {
+      headers.set("connect-timeout-ms", String(timeoutMs))
+    }
+
+    this.send(
+      path,
+      { method: "POST", headers, body: this.streaming ? encodeFrame(0, message) : message },
+      timeoutMs
+    )
+  }
+
+  protected async read(response: Response): Promise<void> {
+    if (!response.ok) {
+      this.finish(await readErrorResponse(response))
+      return
+    }
+    if (this.streaming) {
+      await this.readStream(response)
+    } else {
+      await this.readUnary(response)
+    }
+  }
+
+  /**
+   * Reads a unary response: the message is the whole body, and the
+   * trailers are sent as prefixed headers.
+   */
+  private async readUnary(response: Response): Promise<void> {
+    const { headers, trailers } = splitTrailers(response.headers)
+    this.handlers.onMetadata(headers)
+    const message = Buffer.from(await response.arrayBuffer())
+    this.signal.throwIfAborted()
+    await this.handlers.onMessage(message)
+    this.finish(callStatus(StatusCode.OK, "OK", trailers))
+  }
+
+  /**
+   * Reads a streaming response: enveloped messages followed by an
+   * end-stream envelope with the status and trailers.
+   */
+  private async readStream(response: Response): Promise<void> {
+    const { signal } = this
+    this.handlers.onMetadata(headersToMetadata(response.headers, RESERVED_HEADERS))
+    if (response.body !== null) {
+      for await (const frame of readFrames(response.body, false)) {
+        signal.throwIfAborted()
+        if ((frame.flags & END_STREAM_FLAG) !== 0) {
+          this.finish(parseEndStream(frame.payload))
+          return
+        }
+        if ((frame.flags & COMPRESSED_FLAG) !== 0) {
+          this.finish(
+            callStatus(
+              StatusCode.INTERNAL,
+              "Received a compressed message, which the Connect transport does not support",
+              new Metadata()
+            )
+          )
+          return
+        }
+        await this.handlers.onMessage(frame.payload)
+      }
+    }
+    this.finish(
+      callStatus(
+        StatusCode.INTERNAL,
+        "Response ended without an end-stream message",
+        new Metadata()
+      )
+    )
+  }
+}
+
+/**
+ * Pairs a Flight method with the message types it encodes.
+ */
+function connectMethod<TRequest, TResponse>(
+  definition: { path: string },
+  request: MessageFns<TRequest>,
+  response: MessageFns<TResponse>
+): ConnectMethod<TRequest, TResponse> {
+  return { path: definition.path, request, response }
+}
+
+/**
+ * Describes the failure of methods that need client streaming.
+ */
+function unsupported(method: string): string {
+  return `${method} needs client streaming, which the Connect transport does not support`
+}
+
+/**
+ * Maps a Connect error code, such as `not_found`, to a gRPC status code.
+ */
+function connectCodeToGrpc(code: unknown): StatusCode {
+  return (typeof code === "string" ? CONNECT_CODES.get(code) : undefined) ?? StatusCode.UNKNOWN
+}
+
+/**
+ * Converts a Connect error to a call status.
+ *
+ * Error details are passed on in the `grpc-status-details-bin` trailer, as
+ * gRPC servers send them, so they are decoded into the rich status of the
+ * FlightError.
+ */
+function errorToStatus(error: ConnectErrorJson, metadata: Metadata): TransportStatus {
+  const code = connectCodeToGrpc(error.code)
+  const message = typeof error.message === "string" ? error.message : ""
+  const details = Array.isArray(error.details) ? error.details.flatMap(detailToAny) : []
+  if (details.length > 0) {
+    metadata.set(
+      "grpc-status-details-bin",
+      Buffer.from(StatusProto.encode({ code, message, details }).finish())
+    )
+  }
+  return callStatus(code, message, metadata)
+}
+
+/**
+ * Converts an error detail, `{ type, value }` with a base64 value, to an
+ * `Any`. Malformed details are dropped.
+ */
+function detailToAny(detail: unknown): Any[] {
+  if (typeof detail !== "object" || detail === null) {
+    return []
+  }
+  const { type, value } = detail as { type?: unknown; value?: unknown }
+  if (typeof type !== "string" || typeof value !== "string") {
+    return []
+  }
+  return [{ typeUrl: `type.googleapis.com/${type}`, value: Buffer.from(value, "base64") }]
+}
+
+/**
+ * Reads the status of a response with an HTTP error status.
+ *
+ * Connect servers send the error as JSON; other responses, such as those
+ * of a proxy, get the code of their HTTP status.
+ */
+async function readErrorResponse(response: Response): Promise<TransportStatus> {
+  const { headers, trailers } = splitTrailers(response.headers)
+  const metadata = headers.clone()
+  metadata.merge(trailers)
+
+  let error: unknown
+  try {
+    error = await response.json()
+  } catch {
+    error = null
+  }
+  if (typeof error === "object" && error !== null && "code" in error) {
+    return errorToStatus(error, metadata)
+  }
+  return callStatus(
+    httpStatusToGrpc(response.status),
+    `Received HTTP status ${String(response.status)}`,
+    metadata
+  )
+}
+
+/**
+ * Parses the end-stream message of a streaming response, a JSON object
+ * with the error of a failed call and the trailers.
+ */
+function parseEndStream(payload: Buffer): TransportStatus {
+  const { error, metadata } = JSON.parse(payload.toString("utf8")) as {
+    error?: ConnectErrorJson
+    metadata?: Record<string, unknown>
+  }
+  const trailers = recordToMetadata(metadata ?? {})
+  return error !== undefined
+    ? errorToStatus(error, trailers)
+    : callStatus(StatusCode.OK, "OK", trailers)
+}
+
+/**
+ * Converts the metadata of an end-stream message, a record of value
+ * lists, to call metadata. Invalid keys and values are skipped.
+ */
+function recordToMetadata(record: Record<string, unknown>): Metadata {
+  const metadata = new Metadata()
+  for (const [key, values] of Object.entries(record)) {
+    for (const value of Array.isArray(values) ? values : []) {
+      if (typeof value !== "string") {
+        continue
+      }
+      try {
+        metadata.add(key, key.endsWith("-bin") ? Buffer.from(value, "base64") : value)
+      } catch {
+        // Not a valid metadata key
+      }
+    }
+  }
+  return metadata
+}
+
+/**
+ * Splits the headers of a unary response into its headers and trailers.
+ */
+function splitTrailers(responseHeaders: Headers): { headers: Metadata; trailers: Metadata } {
+  const headers = new Headers()
+  const trailers = new Headers()
+  responseHeaders.forEach((value, key) => {
+    if (key.startsWith(TRAILER_PREFIX)) {
+      trailers.append(key.slice(TRAILER_PREFIX.length), value)
+    } else {
+      headers.append(key, value)
+    }
+  })
+  return {
+    headers: headersToMetadata(headers, RESERVED_HEADERS),
+    trailers: headersToMetadata(trailers, RESERVED_HEADERS)
+  }
+}
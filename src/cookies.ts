@@ -0,0 +1,292 @@
+/**
+ * Cookie support for session-affine Flight servers.
+ *
+ * Provides a cookie store and the client middleware that fills it from
+ * `set-cookie` response headers and sends its cookies with each call.
+ *
+ * @packageDocumentation
+ */
+
+import type { Metadata } from "./metadata.js"
+import type { ClientMiddlewareFactory, FlightMethod } from "./types.js"
+
+/**
+ * gRPC path prefix of the Flight service methods, matched against the
+ * `Path` attribute of cookies.
+ */
+const SERVICE_PATH = "/arrow.flight.protocol.FlightService/"
+
+/**
+ * Stores of the middleware created by `createCookieMiddleware`, so that a
+ * client can keep its session cookies in the same store.
+ */
+const MIDDLEWARE_STORES = new WeakMap<ClientMiddlewareFactory, CookieStore>()
+
+/**
+ * A cookie held by a CookieStore.
+ */
+type StoredCookie = {
+  value: string
+  path: string
+  /** Expiry in milliseconds since the epoch, or Infinity for session cookies. */
+  expiresAt: number
+}
+
+/**
+ * Stores cookies set by a Flight server.
+ *
+ * Cookies are keyed by name and path. `Max-Age` and `Expires` are honoured,
+ * with `Max-Age` taking precedence, and expired cookies are never sent. A
+ * cookie whose value is empty or whose expiry has passed is removed.
+ * `Domain` is ignored, as a store belongs to the clients of one server.
+ *
+ * @example
+ * ```ts
+ * const cookies = new CookieStore()
+ * const client = await createFlightClient({
+ *   host: "localhost",
+ *   port: 8815,
+ *   middleware: [createCookieMiddleware(cookies)]
+ * })
+ * ```
+ */
+export class CookieStore {
+  private readonly cookies = new Map<string, Map<string, StoredCookie>>()
+
+  /**
+   * Stores the cookies of `set-cookie` header values.
+   *
+   * Malformed values are ignored.
+   *
+   * @param headers - The `set-cookie` header values
+   * @param now - The current time in milliseconds since the epoch
+   * @returns The names of the cookies that were set or removed
+   */
+  setCookies(headers: readonly string[], now = Date.now()): string[] {
+    const names: string[] = []
+    for (const header of headers) {
+      const cookie = parseSetCookie(header, now)
+      if (cookie === null) {
+        continue
+      }
+      names.push(cookie.name)
+
+      const paths = this.cookies.get(cookie.name) ?? new Map<string, StoredCookie>()
+      if (cookie.value === "" || cookie.expiresAt <= now) {
+        paths.delete(cookie.path)
+      } else {
+        paths.set(cookie.path, cookie)
+      }
+
+      if (paths.size > 0) {
+        this.cookies.set(cookie.name, paths)
+      } else {
+        this.cookies.delete(cookie.name)
+      }
+    }
+    return names
+  }
+
+  /**
+   * Returns the `cookie` header for a request path, or null if no
+   * unexpired cookie matches it.
+   *
+   * Cookies with longer paths are listed first.
+   *
+   * @param path - The request path
+   * @param now - The current time in milliseconds since the epoch
+   */
+  cookieHeader(path = "/", now = Date.now()): string | null {
+    const matches: (StoredCookie & { name: string })[] = []
+    for (const [name, paths] of this.cookies) {
+      for (const cookie of paths.values()) {
+        if (cookie.expiresAt > now && pathMatches(path, cookie.path)) {
+          matches.push({ ...cookie, name })
+        }
+      }
+    }
+
+    if (matches.length === 0) {
+      return null
+    }
+    matches.sort((a, b) => b.path.length - a.path.length)
+    return matches.map(({ name, value }) => `${name}=${value}`).join("; ")
+  }
+
+  /**
+   * Removes the cookies with a name, whatever their path.
+   *
+   * @param name - The cookie name
+   */
+  delete(name: string): void {
+    this.cookies.delete(name)
+  }
+
+  /**
+   * Removes every cookie.
+   */
+  clear(): void {
+    this.cookies.clear()
+  }
+}
+
+/**
+ * Creates client middleware that keeps cookies across calls.
+ *
+ * Cookies from `set-cookie` response headers and trailers are stored, and
+ * the matching cookies are sent with every call. Cookies already set on a
+ * call, such as a `cookie` header from the call options, are kept and take
+ * precedence over stored cookies of the same name.
+ *
+ * A client with this middleware keeps its Flight session cookies in the
+ * same store, so each cookie is sent once and closing the session removes
+ * its cookie from the store.
+ *
+ * @param store - The store to use; share one between clients to share cookies
+ * @returns The middleware factory
+ *
+ * @example
+ * ```ts
+ * const client = await createFlightClient({
+ *   host: "localhost",
+ *   port: 8815,
+ *   middleware: [createCookieMiddleware()]
+ * })
+ * ```
+ */
+export function createCookieMiddleware(store = new CookieStore()): ClientMiddlewareFactory {
+  const capture = (metadata: Metadata): void => {
+    store.setCookies(metadata.get("set-cookie").map(String))
+  }
+
+  const middleware: ClientMiddlewareFactory = ({ method }) => ({
+    sendingHeaders: (headers) => {
+      const cookies = store.cookieHeader(methodPath(method))
+      if (cookies === null) {
+        return
+      }
+      const existing = headers.get("cookie")
+      headers.set(
+        "cookie",
+        existing.length > 0 ? mergeCookieHeaders(String(existing[0]), cookies) : cookies
+      )
+    },
+    receivedHeaders: capture,
+    callCompleted: ({ trailers }) => {
+      capture(trailers)
+    }
+  })
+  MIDDLEWARE_STORES.set(middleware, store)
+  return middleware
+}
+
+/**
+ * Returns the store of the first cookie middleware in a list of
+ * middleware, if there is one.
+ *
+ * @internal
+ */
+export function middlewareCookieStore(
+  middleware: readonly ClientMiddlewareFactory[] | undefined
+): CookieStore | undefined {
+  for (const factory of middleware ?? []) {
+    const store = MIDDLEWARE_STORES.get(factory)
+    if (store !== undefined) {
+      return store
+    }
+  }
+  return undefined
+}
+
+/**
+ * Returns the gRPC path of a Flight method.
+ *
+ * @internal
+ */
+export function methodPath(method: FlightMethod): string {
+  return `${SERVICE_PATH}${method}`
+}
+
+/**
+ * Parses a `set-cookie` header value.
+ *
+ * @returns The cookie, or null if the value has no name
+ */
+function parseSetCookie(header: string, now: number): (StoredCookie & { name: string }) | null {
+  const [pair, ...attributes] = header.split(";")
+  const separator = pair.indexOf("=")
+  if (separator <= 0) {
+    return null
+  }
+
+  const cookie = {
+    name: pair.slice(0, separator).trim(),
+    value: pair.slice(separator + 1).trim(),
+    path: "/",
+    expiresAt: Infinity
+  }
+  let maxAge: number | null = null
+
+  for (const attribute of attributes) {
+    const [key, ...rest] = attribute.split("=")
+    const value = rest.join("=").trim()
+    switch (key.trim().toLowerCase()) {
+      case "max-age":
+        if (/^-?\d+$/.test(value)) {
+          maxAge = Number(value)
+        }
+        break
+      case "expires": {
+        const expires = Date.parse(value)
+        if (!Number.isNaN(expires)) {
+          cookie.expiresAt = expires
+        }
+        break
+      }
+      case "path":
+        if (value.startsWith("/")) {
+          cookie.path = value
+        }
+        break
+      default:
+        // Domain, Secure, HttpOnly and SameSite do not apply to a single server
+        break
+    }
+  }
+
+  if (maxAge !== null) {
+    cookie.expiresAt = now + maxAge * 1000
+  }
+  return cookie
+}
+
+/**
+ * Adds the cookies of `added` that `existing` does not already name to a
+ * `cookie` header.
+ */
+function mergeCookieHeaders(existing: string, added: string): string {
+  const names = new Set(existing.split(";").map(cookiePairName))
+  const missing = added.split("; ").filter((pair) => !names.has(cookiePairName(pair)))
+  return missing.length > 0 ? `${existing}; ${missing.join("; ")}` : existing
+}
+
+/**
+ * Returns the name of a `name=value` pair of a `cookie` header.
+ */
+function cookiePairName(pair: string): string {
+  return pair.split("=", 1)[0].trim()
+}
+
+/**
+ * Checks whether a request path matches a cookie path (RFC 6265 5.1.4).
+ */
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (!requestPath.startsWith(cookiePath)) {
+    return false
+  }
+  return (
+    requestPath.length === cookiePath.length ||
+    cookiePath.endsWith("/") ||
+    requestPath[cookiePath.length] === "/"
+  )
+}
@@ -0,0 +1,26 @@
+/**
+ * The default transport of a FlightClient in browser bundles.
+ *
+ * Browsers cannot make gRPC calls, so a client without a transport option
+ * fails to connect rather than bundling `@grpc/grpc-js`.
+ *
+ * @packageDocumentation
+ */
+
+import type { FlightTransport } from "./transport.js"
+import { FlightError } from "./types.js"
+
+/**
+ * Fails, as the gRPC transport needs Node.js.
+ *
+ * @internal
+ * @throws {FlightError} Always, with `UNIMPLEMENTED`
+ */
+export async function createDefaultTransport(): Promise<FlightTransport> {
+  return Promise.reject(
+    new FlightError(
+      'the gRPC transport is not available in browsers; use the "grpcWeb" or "connect" transport',
+      "UNIMPLEMENTED"
+    )
+  )
+}
@@ -0,0 +1,26 @@
+/**
+ * The default transport of a FlightClient, loaded on first use.
+ *
+ * `@grpc/grpc-js` is only loaded once a client connects with it, so
+ * programs that use the other transports never load it. Browser bundles
+ * replace this module with `default-transport.browser.ts`, through the
+ * `browser` field of package.json.
+ *
+ * @packageDocumentation
+ */
+
+import type { FlightTransport } from "./transport.js"
+import type { FlightClientOptions } from "./types.js"
+
+/**
+ * Creates a grpc-js channel to a Flight server.
+ *
+ * @internal
+ */
+export async function createDefaultTransport(
+  address: string,
+  options: FlightClientOptions
+): Promise<FlightTransport> {
+  const { createGrpcTransport } = await import("./grpc-transport.js")
+  return createGrpcTransport(address, options)
+}
@@ -1,27 +1,11 @@
 // Code generated by protoc-gen-ts_proto. DO NOT EDIT.
 // versions:
-//   protoc-gen-ts_proto  v2.11.2
-//   protoc               v3.19.1
+//   protoc-gen-ts_proto  v2.11.4
+//   protoc               v3.21.12
 // source: arrow/flight/protocol/Flight.proto
 
 /* eslint-disable */
 import { BinaryReader, BinaryWriter } from "@bufbuild/protobuf/wire";
-import {
-  type CallOptions,
-  type ChannelCredentials,
-  Client,
-  type ClientDuplexStream,
-  type ClientOptions,
-  type ClientReadableStream,
-  type ClientUnaryCall,
-  type handleBidiStreamingCall,
-  type handleServerStreamingCall,
-  type handleUnaryCall,
-  makeGenericClientConstructor,
-  type Metadata,
-  type ServiceError,
-  type UntypedServiceImplementation,
-} from "@grpc/grpc-js";
 import { Timestamp } from "../../../google/protobuf/timestamp.js";
 
 export const protobufPackage = "arrow.flight.protocol";
@@ -3231,460 +3215,184 @@ export const CloseSessionResult: MessageFns<CloseSessionResult> = {
  * accessed using the Arrow Flight Protocol. Additionally, a flight service
  * can expose a set of actions that are available.
  */
-export type FlightServiceService = typeof FlightServiceService;
-export const FlightServiceService = {
-  /**
-   * Handshake between client and server. Depending on the server, the
-   * handshake may be required to determine the token that should be used for
-   * future operations. Both request and response are streams to allow multiple
-   * round-trips depending on auth mechanism.
-   */
-  handshake: {
-    path: "/arrow.flight.protocol.FlightService/Handshake",
-    requestStream: true,
-    responseStream: true,
-    requestSerialize: (value: HandshakeRequest): Buffer => Buffer.from(HandshakeRequest.encode(value).finish()),
-    requestDeserialize: (value: Buffer): HandshakeRequest => HandshakeRequest.decode(value),
-    responseSerialize: (value: HandshakeResponse): Buffer => Buffer.from(HandshakeResponse.encode(value).finish()),
-    responseDeserialize: (value: Buffer): HandshakeResponse => HandshakeResponse.decode(value),
-  },
-  /**
-   * Get a list of available streams given a particular criteria. Most flight
-   * services will expose one or more streams that are readily available for
-   * retrieval. This api allows listing the streams available for
-   * consumption. A user can also provide a criteria. The criteria can limit
-   * the subset of streams that can be listed via this interface. Each flight
-   * service allows its own definition of how to consume criteria.
-   */
-  listFlights: {
-    path: "/arrow.flight.protocol.FlightService/ListFlights",
-    requestStream: false,
-    responseStream: true,
-    requestSerialize: (value: Criteria): Buffer => Buffer.from(Criteria.encode(value).finish()),
-    requestDeserialize: (value: Buffer): Criteria => Criteria.decode(value),
-    responseSerialize: (value: FlightInfo): Buffer => Buffer.from(FlightInfo.encode(value).finish()),
-    responseDeserialize: (value: Buffer): FlightInfo => FlightInfo.decode(value),
-  },
-  /**
-   * For a given FlightDescriptor, get information about how the flight can be
-   * consumed. This is a useful interface if the consumer of the interface
-   * already can identify the specific flight to consume. This interface can
-   * also allow a consumer to generate a flight stream through a specified
-   * descriptor. For example, a flight descriptor might be something that
-   * includes a SQL statement or a Pickled Python operation that will be
-   * executed. In those cases, the descriptor will not be previously available
-   * within the list of available streams provided by ListFlights but will be
-   * available for consumption for the duration defined by the specific flight
-   * service.
-   */
-  getFlightInfo: {
-    path: "/arrow.flight.protocol.FlightService/GetFlightInfo",
-    requestStream: false,
-    responseStream: false,
-    requestSerialize: (value: FlightDescriptor): Buffer => Buffer.from(FlightDescriptor.encode(value).finish()),
-    requestDeserialize: (value: Buffer): FlightDescriptor => FlightDescriptor.decode(value),
-    responseSerialize: (value: FlightInfo): Buffer => Buffer.from(FlightInfo.encode(value).finish()),
-    responseDeserialize: (value: Buffer): FlightInfo => FlightInfo.decode(value),
-  },
-  /**
-   * For a given FlightDescriptor, start a query and get information
-   * to poll its execution status. This is a useful interface if the
-   * query may be a long-running query. The first PollFlightInfo call
-   * should return as quickly as possible. (GetFlightInfo doesn't
-   * return until the query is complete.)
-   *
-   * A client can consume any available results before
-   * the query is completed. See PollInfo.info for details.
-   *
-   * A client can poll the updated query status by calling
-   * PollFlightInfo() with PollInfo.flight_descriptor. A server
-   * should not respond until the result would be different from last
-   * time. That way, the client can "long poll" for updates
-   * without constantly making requests. Clients can set a short timeout
-   * to avoid blocking calls if desired.
-   *
-   * A client can't use PollInfo.flight_descriptor after
-   * PollInfo.expiration_time passes. A server might not accept the
-   * retry descriptor anymore and the query may be cancelled.
-   *
-   * A client may use the CancelFlightInfo action with
-   * PollInfo.info to cancel the running query.
-   */
-  pollFlightInfo: {
-    path: "/arrow.flight.protocol.FlightService/PollFlightInfo",
-    requestStream: false,
-    responseStream: false,
-    requestSerialize: (value: FlightDescriptor): Buffer => Buffer.from(FlightDescriptor.encode(value).finish()),
-    requestDeserialize: (value: Buffer): FlightDescriptor => FlightDescriptor.decode(value),
-    responseSerialize: (value: PollInfo): Buffer => Buffer.from(PollInfo.encode(value).finish()),
-    responseDeserialize: (value: Buffer): PollInfo => PollInfo.decode(value),
-  },
-  /**
-   * For a given FlightDescriptor, get the Schema as described in Schema.fbs::Schema
-   * This is used when a consumer needs the Schema of flight stream. Similar to
-   * GetFlightInfo this interface may generate a new flight that was not previously
-   * available in ListFlights.
-   */
-  getSchema: {
-    path: "/arrow.flight.protocol.FlightService/GetSchema",
-    requestStream: false,
-    responseStream: false,
-    requestSerialize: (value: FlightDescriptor): Buffer => Buffer.from(FlightDescriptor.encode(value).finish()),
-    requestDeserialize: (value: Buffer): FlightDescriptor => FlightDescriptor.decode(value),
-    responseSerialize: (value: SchemaResult): Buffer => Buffer.from(SchemaResult.encode(value).finish()),
-    responseDeserialize: (value: Buffer): SchemaResult => SchemaResult.decode(value),
-  },
-  /**
-   * Retrieve a single stream associated with a particular descriptor
-   * associated with the referenced ticket. A Flight can be composed of one or
-   * more streams where each stream can be retrieved using a separate opaque
-   * ticket that the flight service uses for managing a collection of streams.
-   */
-  doGet: {
-    path: "/arrow.flight.protocol.FlightService/DoGet",
-    requestStream: false,
-    responseStream: true,
-    requestSerialize: (value: Ticket): Buffer => Buffer.from(Ticket.encode(value).finish()),
-    requestDeserialize: (value: Buffer): Ticket => Ticket.decode(value),
-    responseSerialize: (value: FlightData): Buffer => Buffer.from(FlightData.encode(value).finish()),
-    responseDeserialize: (value: Buffer): FlightData => FlightData.decode(value),
-  },
-  /**
-   * Push a stream to the flight service associated with a particular
-   * flight stream. This allows a client of a flight service to upload a stream
-   * of data. Depending on the particular flight service, a client consumer
-   * could be allowed to upload a single stream per descriptor or an unlimited
-   * number. In the latter, the service might implement a 'seal' action that
-   * can be applied to a descriptor once all streams are uploaded.
-   */
-  doPut: {
-    path: "/arrow.flight.protocol.FlightService/DoPut",
-    requestStream: true,
-    responseStream: true,
-    requestSerialize: (value: FlightData): Buffer => Buffer.from(FlightData.encode(value).finish()),
-    requestDeserialize: (value: Buffer): FlightData => FlightData.decode(value),
-    responseSerialize: (value: PutResult): Buffer => Buffer.from(PutResult.encode(value).finish()),
-    responseDeserialize: (value: Buffer): PutResult => PutResult.decode(value),
-  },
-  /**
-   * Open a bidirectional data channel for a given descriptor. This
-   * allows clients to send and receive arbitrary Arrow data and
-   * application-specific metadata in a single logical stream. In
-   * contrast to DoGet/DoPut, this is more suited for clients
-   * offloading computation (rather than storage) to a Flight service.
-   */
-  doExchange: {
-    path: "/arrow.flight.protocol.FlightService/DoExchange",
-    requestStream: true,
-    responseStream: true,
-    requestSerialize: (value: FlightData): Buffer => Buffer.from(FlightData.encode(value).finish()),
-    requestDeserialize: (value: Buffer): FlightData => FlightData.decode(value),
-    responseSerialize: (value: FlightData): Buffer => Buffer.from(FlightData.encode(value).finish()),
-    responseDeserialize: (value: Buffer): FlightData => FlightData.decode(value),
-  },
-  /**
-   * Flight services can support an arbitrary number of simple actions in
-   * addition to the possible ListFlights, GetFlightInfo, DoGet, DoPut
-   * operations that are potentially available. DoAction allows a flight client
-   * to do a specific action against a flight service. An action includes
-   * opaque request and response objects that are specific to the type action
-   * being undertaken.
-   */
-  doAction: {
-    path: "/arrow.flight.protocol.FlightService/DoAction",
-    requestStream: false,
-    responseStream: true,
-    requestSerialize: (value: Action): Buffer => Buffer.from(Action.encode(value).finish()),
-    requestDeserialize: (value: Buffer): Action => Action.decode(value),
-    responseSerialize: (value: Result): Buffer => Buffer.from(Result.encode(value).finish()),
-    responseDeserialize: (value: Buffer): Result => Result.decode(value),
-  },
-  /**
-   * A flight service exposes all of the available action types that it has
-   * along with descriptions. This allows different flight consumers to
-   * understand the capabilities of the flight service.
-   */
-  listActions: {
-    path: "/arrow.flight.protocol.FlightService/ListActions",
-    requestStream: false,
-    responseStream: true,
-    requestSerialize: (value: Empty): Buffer => Buffer.from(Empty.encode(value).finish()),
-    requestDeserialize: (value: Buffer): Empty => Empty.decode(value),
-    responseSerialize: (value: ActionType): Buffer => Buffer.from(ActionType.encode(value).finish()),
-    responseDeserialize: (value: Buffer): ActionType => ActionType.decode(value),
+export type FlightServiceDefinition = typeof FlightServiceDefinition;
+export const FlightServiceDefinition = {
+  name: "FlightService",
+  fullName: "arrow.flight.protocol.FlightService",
+  methods: {
+    /**
+     * Handshake between client and server. Depending on the server, the
+     * handshake may be required to determine the token that should be used for
+     * future operations. Both request and response are streams to allow multiple
+     * round-trips depending on auth mechanism.
+     */
+    handshake: {
+      name: "Handshake",
+      requestType: HandshakeRequest,
+      requestStream: true,
+      responseType: HandshakeResponse,
+      responseStream: true,
+      options: {},
+    },
+    /**
+     * Get a list of available streams given a particular criteria. Most flight
+     * services will expose one or more streams that are readily available for
+     * retrieval. This api allows listing the streams available for
+     * consumption. A user can also provide a criteria. The criteria can limit
+     * the subset of streams that can be listed via this interface. Each flight
+     * service allows its own definition of how to consume criteria.
+     */
+    listFlights: {
+      name: "ListFlights",
+      requestType: Criteria,
+      requestStream: false,
+      responseType: FlightInfo,
+      responseStream: true,
+      options: {},
+    },
+    /**
+     * For a given FlightDescriptor, get information about how the flight can be
+     * consumed. This is a useful interface if the consumer of the interface
+     * already can identify the specific flight to consume. This interface can
+     * also allow a consumer to generate a flight stream through a specified
+     * descriptor. For example, a flight descriptor might be something that
+     * includes a SQL statement or a Pickled Python operation that will be
+     * executed. In those cases, the descriptor will not be previously available
+     * within the list of available streams provided by ListFlights but will be
+     * available for consumption for the duration defined by the specific flight
+     * service.
+     */
+    getFlightInfo: {
+      name: "GetFlightInfo",
+      requestType: FlightDescriptor,
+      requestStream: false,
+      responseType: FlightInfo,
+      responseStream: false,
+      options: {},
+    },
+    /**
+     * For a given FlightDescriptor, start a query and get information
+     * to poll its execution status. This is a useful interface if the
+     * query may be a long-running query. The first PollFlightInfo call
+     * should return as quickly as possible. (GetFlightInfo doesn't
+     * return until the query is complete.)
+     *
+     * A client can consume any available results before
+     * the query is completed. See PollInfo.info for details.
+     *
+     * A client can poll the updated query status by calling
+     * PollFlightInfo() with PollInfo.flight_descriptor. A server
+     * should not respond until the result would be different from last
+     * time. That way, the client can "long poll" for updates
+     * without constantly making requests. Clients can set a short timeout
+     * to avoid blocking calls if desired.
+     *
+     * A client can't use PollInfo.flight_descriptor after
+     * PollInfo.expiration_time passes. A server might not accept the
+     * retry descriptor anymore and the query may be cancelled.
+     *
+     * A client may use the CancelFlightInfo action with
+     * PollInfo.info to cancel the running query.
+     */
+    pollFlightInfo: {
+      name: "PollFlightInfo",
+      requestType: FlightDescriptor,
+      requestStream: false,
+      responseType: PollInfo,
+      responseStream: false,
+      options: {},
+    },
+    /**
+     * For a given FlightDescriptor, get the Schema as described in Schema.fbs::Schema
+     * This is used when a consumer needs the Schema of flight stream. Similar to
+     * GetFlightInfo this interface may generate a new flight that was not previously
+     * available in ListFlights.
+     */
+    getSchema: {
+      name: "GetSchema",
+      requestType: FlightDescriptor,
+      requestStream: false,
+      responseType: SchemaResult,
+      responseStream: false,
+      options: {},
+    },
+    /**
+     * Retrieve a single stream associated with a particular descriptor
+     * associated with the referenced ticket. A Flight can be composed of one or
+     * more streams where each stream can be retrieved using a separate opaque
+     * ticket that the flight service uses for managing a collection of streams.
+     */
+    doGet: {
+      name: "DoGet",
+      requestType: Ticket,
+      requestStream: false,
+      responseType: FlightData,
+      responseStream: true,
+      options: {},
+    },
+    /**
+     * Push a stream to the flight service associated with a particular
+     * flight stream. This allows a client of a flight service to upload a stream
+     * of data. Depending on the particular flight service, a client consumer
+     * could be allowed to upload a single stream per descriptor or an unlimited
+     * number. In the latter, the service might implement a 'seal' action that
+     * can be applied to a descriptor once all streams are uploaded.
+     */
+    doPut: {
+      name: "DoPut",
+      requestType: FlightData,
+      requestStream: true,
+      responseType: PutResult,
+      responseStream: true,
+      options: {},
+    },
+    /**
+     * Open a bidirectional data channel for a given descriptor. This
+     * allows clients to send and receive arbitrary Arrow data and
+     * application-specific metadata in a single logical stream. In
+     * contrast to DoGet/DoPut, this is more suited for clients
+     * offloading computation (rather than storage) to a Flight service.
+     */
+    doExchange: {
+      name: "DoExchange",
+      requestType: FlightData,
+      requestStream: true,
+      responseType: FlightData,
+      responseStream: true,
+      options: {},
+    },
+    /**
+     * Flight services can support an arbitrary number of simple actions in
+     * addition to the possible ListFlights, GetFlightInfo, DoGet, DoPut
+     * operations that are potentially available. DoAction allows a flight client
+     * to do a specific action against a flight service. An action includes
+     * opaque request and response objects that are specific to the type action
+     * being undertaken.
+     */
+    doAction: {
+      name: "DoAction",
+      requestType: Action,
+      requestStream: false,
+      responseType: Result,
+      responseStream: true,
+      options: {},
+    },
+    /**
+     * A flight service exposes all of the available action types that it has
+     * along with descriptions. This allows different flight consumers to
+     * understand the capabilities of the flight service.
+     */
+    listActions: {
+      name: "ListActions",
+      requestType: Empty,
+      requestStream: false,
+      responseType: ActionType,
+      responseStream: true,
+      options: {},
+    },
   },
 } as const;
 
-export interface FlightServiceServer extends UntypedServiceImplementation {
-  /**
-   * Handshake between client and server. Depending on the server, the
-   * handshake may be required to determine the token that should be used for
-   * future operations. Both request and response are streams to allow multiple
-   * round-trips depending on auth mechanism.
-   */
-  handshake: handleBidiStreamingCall<HandshakeRequest, HandshakeResponse>;
-  /**
-   * Get a list of available streams given a particular criteria. Most flight
-   * services will expose one or more streams that are readily available for
-   * retrieval. This api allows listing the streams available for
-   * consumption. A user can also provide a criteria. The criteria can limit
-   * the subset of streams that can be listed via this interface. Each flight
-   * service allows its own definition of how to consume criteria.
-   */
-  listFlights: handleServerStreamingCall<Criteria, FlightInfo>;
-  /**
-   * For a given FlightDescriptor, get information about how the flight can be
-   * consumed. This is a useful interface if the consumer of the interface
-   * already can identify the specific flight to consume. This interface can
-   * also allow a consumer to generate a flight stream through a specified
-   * descriptor. For example, a flight descriptor might be something that
-   * includes a SQL statement or a Pickled Python operation that will be
-   * executed. In those cases, the descriptor will not be previously available
-   * within the list of available streams provided by ListFlights but will be
-   * available for consumption for the duration defined by the specific flight
-   * service.
-   */
-  getFlightInfo: handleUnaryCall<FlightDescriptor, FlightInfo>;
-  /**
-   * For a given FlightDescriptor, start a query and get information
-   * to poll its execution status. This is a useful interface if the
-   * query may be a long-running query. The first PollFlightInfo call
-   * should return as quickly as possible. (GetFlightInfo doesn't
-   * return until the query is complete.)
-   *
-   * A client can consume any available results before
-   * the query is completed. See PollInfo.info for details.
-   *
-   * A client can poll the updated query status by calling
-   * PollFlightInfo() with PollInfo.flight_descriptor. A server
-   * should not respond until the result would be different from last
-   * time. That way, the client can "long poll" for updates
-   * without constantly making requests. Clients can set a short timeout
-   * to avoid blocking calls if desired.
-   *
-   * A client can't use PollInfo.flight_descriptor after
-   * PollInfo.expiration_time passes. A server might not accept the
-   * retry descriptor anymore and the query may be cancelled.
-   *
-   * A client may use the CancelFlightInfo action with
-   * PollInfo.info to cancel the running query.
-   */
-  pollFlightInfo: handleUnaryCall<FlightDescriptor, PollInfo>;
-  /**
-   * For a given FlightDescriptor, get the Schema as described in Schema.fbs::Schema
-   * This is used when a consumer needs the Schema of flight stream. Similar to
-   * GetFlightInfo this interface may generate a new flight that was not previously
-   * available in ListFlights.
-   */
-  getSchema: handleUnaryCall<FlightDescriptor, SchemaResult>;
-  /**
-   * Retrieve a single stream associated with a particular descriptor
-   * associated with the referenced ticket. A Flight can be composed of one or
-   * more streams where each stream can be retrieved using a separate opaque
-   * ticket that the flight service uses for managing a collection of streams.
-   */
-  doGet: handleServerStreamingCall<Ticket, FlightData>;
-  /**
-   * Push a stream to the flight service associated with a particular
-   * flight stream. This allows a client of a flight service to upload a stream
-   * of data. Depending on the particular flight service, a client consumer
-   * could be allowed to upload a single stream per descriptor or an unlimited
-   * number. In the latter, the service might implement a 'seal' action that
-   * can be applied to a descriptor once all streams are uploaded.
-   */
-  doPut: handleBidiStreamingCall<FlightData, PutResult>;
-  /**
-   * Open a bidirectional data channel for a given descriptor. This
-   * allows clients to send and receive arbitrary Arrow data and
-   * application-specific metadata in a single logical stream. In
-   * contrast to DoGet/DoPut, this is more suited for clients
-   * offloading computation (rather than storage) to a Flight service.
-   */
-  doExchange: handleBidiStreamingCall<FlightData, FlightData>;
-  /**
-   * Flight services can support an arbitrary number of simple actions in
-   * addition to the possible ListFlights, GetFlightInfo, DoGet, DoPut
-   * operations that are potentially available. DoAction allows a flight client
-   * to do a specific action against a flight service. An action includes
-   * opaque request and response objects that are specific to the type action
-   * being undertaken.
-   */
-  doAction: handleServerStreamingCall<Action, Result>;
-  /**
-   * A flight service exposes all of the available action types that it has
-   * along with descriptions. This allows different flight consumers to
-   * understand the capabilities of the flight service.
-   */
-  listActions: handleServerStreamingCall<Empty, ActionType>;
-}
-
-export interface FlightServiceClient extends Client {
-  /**
-   * Handshake between client and server. Depending on the server, the
-   * handshake may be required to determine the token that should be used for
-   * future operations. Both request and response are streams to allow multiple
-   * round-trips depending on auth mechanism.
-   */
-  handshake(): ClientDuplexStream<HandshakeRequest, HandshakeResponse>;
-  handshake(options: Partial<CallOptions>): ClientDuplexStream<HandshakeRequest, HandshakeResponse>;
-  handshake(
-    metadata: Metadata,
-    options?: Partial<CallOptions>,
-  ): ClientDuplexStream<HandshakeRequest, HandshakeResponse>;
-  /**
-   * Get a list of available streams given a particular criteria. Most flight
-   * services will expose one or more streams that are readily available for
-   * retrieval. This api allows listing the streams available for
-   * consumption. A user can also provide a criteria. The criteria can limit
-   * the subset of streams that can be listed via this interface. Each flight
-   * service allows its own definition of how to consume criteria.
-   */
-  listFlights(request: Criteria, options?: Partial<CallOptions>): ClientReadableStream<FlightInfo>;
-  listFlights(request: Criteria, metadata?: Metadata, options?: Partial<CallOptions>): ClientReadableStream<FlightInfo>;
-  /**
-   * For a given FlightDescriptor, get information about how the flight can be
-   * consumed. This is a useful interface if the consumer of the interface
-   * already can identify the specific flight to consume. This interface can
-   * also allow a consumer to generate a flight stream through a specified
-   * descriptor. For example, a flight descriptor might be something that
-   * includes a SQL statement or a Pickled Python operation that will be
-   * executed. In those cases, the descriptor will not be previously available
-   * within the list of available streams provided by ListFlights but will be
-   * available for consumption for the duration defined by the specific flight
-   * service.
-   */
-  getFlightInfo(
-    request: FlightDescriptor,
-    callback: (error: ServiceError | null, response: FlightInfo) => void,
-  ): ClientUnaryCall;
-  getFlightInfo(
-    request: FlightDescriptor,
-    metadata: Metadata,
-    callback: (error: ServiceError | null, response: FlightInfo) => void,
-  ): ClientUnaryCall;
-  getFlightInfo(
-    request: FlightDescriptor,
-    metadata: Metadata,
-    options: Partial<CallOptions>,
-    callback: (error: ServiceError | null, response: FlightInfo) => void,
-  ): ClientUnaryCall;
-  /**
-   * For a given FlightDescriptor, start a query and get information
-   * to poll its execution status. This is a useful interface if the
-   * query may be a long-running query. The first PollFlightInfo call
-   * should return as quickly as possible. (GetFlightInfo doesn't
-   * return until the query is complete.)
-   *
-   * A client can consume any available results before
-   * the query is completed. See PollInfo.info for details.
-   *
-   * A client can poll the updated query status by calling
-   * PollFlightInfo() with PollInfo.flight_descriptor. A server
-   * should not respond until the result would be different from last
-   * time. That way, the client can "long poll" for updates
-   * without constantly making requests. Clients can set a short timeout
-   * to avoid blocking calls if desired.
-   *
-   * A client can't use PollInfo.flight_descriptor after
-   * PollInfo.expiration_time passes. A server might not accept the
-   * retry descriptor anymore and the query may be cancelled.
-   *
-   * A client may use the CancelFlightInfo action with
-   * PollInfo.info to cancel the running query.
-   */
-  pollFlightInfo(
-    request: FlightDescriptor,
-    callback: (error: ServiceError | null, response: PollInfo) => void,
-  ): ClientUnaryCall;
-  pollFlightInfo(
-    request: FlightDescriptor,
-    metadata: Metadata,
-    callback: (error: ServiceError | null, response: PollInfo) => void,
-  ): ClientUnaryCall;
-  pollFlightInfo(
-    request: FlightDescriptor,
-    metadata: Metadata,
-    options: Partial<CallOptions>,
-    callback: (error: ServiceError | null, response: PollInfo) => void,
-  ): ClientUnaryCall;
-  /**
-   * For a given FlightDescriptor, get the Schema as described in Schema.fbs::Schema
-   * This is used when a consumer needs the Schema of flight stream. Similar to
-   * GetFlightInfo this interface may generate a new flight that was not previously
-   * available in ListFlights.
-   */
-  getSchema(
-    request: FlightDescriptor,
-    callback: (error: ServiceError | null, response: SchemaResult) => void,
-  ): ClientUnaryCall;
-  getSchema(
-    request: FlightDescriptor,
-    metadata: Metadata,
-    callback: (error: ServiceError | null, response: SchemaResult) => void,
-  ): ClientUnaryCall;
-  getSchema(
-    request: FlightDescriptor,
-    metadata: Metadata,
-    options: Partial<CallOptions>,
-    callback: (error: ServiceError | null, response: SchemaResult) => void,
-  ): ClientUnaryCall;
-  /**
-   * Retrieve a single stream associated with a particular descriptor
-   * associated with the referenced ticket. A Flight can be composed of one or
-   * more streams where each stream can be retrieved using a separate opaque
-   * ticket that the flight service uses for managing a collection of streams.
-   */
-  doGet(request: Ticket, options?: Partial<CallOptions>): ClientReadableStream<FlightData>;
-  doGet(request: Ticket, metadata?: Metadata, options?: Partial<CallOptions>): ClientReadableStream<FlightData>;
-  /**
-   * Push a stream to the flight service associated with a particular
-   * flight stream. This allows a client of a flight service to upload a stream
-   * of data. Depending on the particular flight service, a client consumer
-   * could be allowed to upload a single stream per descriptor or an unlimited
-   * number. In the latter, the service might implement a 'seal' action that
-   * can be applied to a descriptor once all streams are uploaded.
-   */
-  doPut(): ClientDuplexStream<FlightData, PutResult>;
-  doPut(options: Partial<CallOptions>): ClientDuplexStream<FlightData, PutResult>;
-  doPut(metadata: Metadata, options?: Partial<CallOptions>): ClientDuplexStream<FlightData, PutResult>;
-  /**
-   * Open a bidirectional data channel for a given descriptor. This
-   * allows clients to send and receive arbitrary Arrow data and
-   * application-specific metadata in a single logical stream. In
-   * contrast to DoGet/DoPut, this is more suited for clients
-   * offloading computation (rather than storage) to a Flight service.
-   */
-  doExchange(): ClientDuplexStream<FlightData, FlightData>;
-  doExchange(options: Partial<CallOptions>): ClientDuplexStream<FlightData, FlightData>;
-  doExchange(metadata: Metadata, options?: Partial<CallOptions>): ClientDuplexStream<FlightData, FlightData>;
-  /**
-   * Flight services can support an arbitrary number of simple actions in
-   * addition to the possible ListFlights, GetFlightInfo, DoGet, DoPut
-   * operations that are potentially available. DoAction allows a flight client
-   * to do a specific action against a flight service. An action includes
-   * opaque request and response objects that are specific to the type action
-   * being undertaken.
-   */
-  doAction(request: Action, options?: Partial<CallOptions>): ClientReadableStream<Result>;
-  doAction(request: Action, metadata?: Metadata, options?: Partial<CallOptions>): ClientReadableStream<Result>;
-  /**
-   * A flight service exposes all of the available action types that it has
-   * along with descriptions. This allows different flight consumers to
-   * understand the capabilities of the flight service.
-   */
-  listActions(request: Empty, options?: Partial<CallOptions>): ClientReadableStream<ActionType>;
-  listActions(request: Empty, metadata?: Metadata, options?: Partial<CallOptions>): ClientReadableStream<ActionType>;
-}
-
-export const FlightServiceClient = makeGenericClientConstructor(
-  FlightServiceService,
-  "arrow.flight.protocol.FlightService",
-) as unknown as {
-  new (address: string, credentials: ChannelCredentials, options?: Partial<ClientOptions>): FlightServiceClient;
-  service: typeof FlightServiceService;
-  serviceName: string;
-};
-
 function bytesFromBase64(b64: string): Uint8Array {
   return Uint8Array.from(globalThis.Buffer.from(b64, "base64"));
 }
@@ -1,7 +1,7 @@
 // Code generated by protoc-gen-ts_proto. DO NOT EDIT.
 // versions:
-//   protoc-gen-ts_proto  v2.11.2
-//   protoc               v3.19.1
+//   protoc-gen-ts_proto  v2.11.4
+//   protoc               v3.21.12
 // source: google/protobuf/timestamp.proto
 
 /* eslint-disable */
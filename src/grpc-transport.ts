@@ -0,0 +1,539 @@
+/**
+ * The default transport: HTTP/2 gRPC calls made with `@grpc/grpc-js`.
+ *
+ * Adapts the calls of a grpc-js client to the FlightTransport contract,
+ * converting metadata and statuses between grpc-js and the types of this
+ * package. grpc-js types do not leave this module and the server.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  type CallOptions,
+  type ChannelCredentials,
+  type ChannelOptions,
+  type Client,
+  type ClientDuplexStream,
+  type ClientReadableStream,
+  type ClientUnaryCall,
+  credentials as grpcCredentials,
+  makeGenericClientConstructor,
+  Metadata as GrpcMetadata,
+  type ServiceError,
+  type StatusObject
+} from "@grpc/grpc-js"
+
+import type {
+  Action,
+  ActionType,
+  Criteria,
+  Empty,
+  FlightData,
+  FlightDescriptor,
+  FlightInfo,
+  HandshakeRequest,
+  HandshakeResponse,
+  PollInfo,
+  PutResult,
+  Result,
+  SchemaResult,
+  Ticket
+} from "./generated/arrow/flight/protocol/Flight.js"
+import { Metadata } from "./metadata.js"
+import { FlightServiceService } from "./service.js"
+import {
+  type CallListener,
+  type ClientCall,
+  type ClientStreamingCall,
+  type DuplexCallListener,
+  type FlightTransport,
+  StatusCode,
+  type TransportCallOptions,
+  type TransportStatus
+} from "./transport.js"
+import type { FlightClientOptions, TlsOptions } from "./types.js"
+
+/**
+ * Calls back with the outcome of a unary call.
+ */
+type UnaryCallback<TResponse> = (error: ServiceError | null, response?: TResponse) => void
+
+/**
+ * A grpc-js client of the Flight service.
+ *
+ * @internal
+ */
+export type FlightServiceClient = Client & {
+  handshake: (
+    metadata: GrpcMetadata,
+    options: CallOptions
+  ) => ClientDuplexStream<HandshakeRequest, HandshakeResponse>
+  listFlights: (
+    request: Criteria,
+    metadata: GrpcMetadata,
+    options: CallOptions
+  ) => ClientReadableStream<FlightInfo>
+  getFlightInfo: (
+    request: FlightDescriptor,
+    metadata: GrpcMetadata,
+    options: CallOptions,
+    callback: UnaryCallback<FlightInfo>
+  ) => ClientUnaryCall
+  pollFlightInfo: (
+    request: FlightDescriptor,
+    metadata: GrpcMetadata,
+    options: CallOptions,
+    callback: UnaryCallback<PollInfo>
+  ) => ClientUnaryCall
+  getSchema: (
+    request: FlightDescriptor,
+    metadata: GrpcMetadata,
+    options: CallOptions,
+    callback: UnaryCallback<SchemaResult>
+  ) => ClientUnaryCall
+  doGet: (
+    request: Ticket,
+    metadata: GrpcMetadata,
+    options: CallOptions
+  ) => ClientReadableStream<FlightData>
+  doPut: (metadata: GrpcMetadata, options: CallOptions) => ClientDuplexStream<FlightData, PutResult>
+  doExchange: (
+    metadata: GrpcMetadata,
+    options: CallOptions
+  ) => ClientDuplexStream<FlightData, FlightData>
+  doAction: (
+    request: Action,
+    metadata: GrpcMetadata,
+    options: CallOptions
+  ) => ClientReadableStream<Result>
+  listActions: (
+    request: Empty,
+    metadata: GrpcMetadata,
+    options: CallOptions
+  ) => ClientReadableStream<ActionType>
+}
+
+/**
+ * Constructs grpc-js clients of the Flight service.
+ */
+const FlightServiceClient = makeGenericClientConstructor(
+  FlightServiceService,
+  "FlightService"
+) as unknown as new (
+  address: string,
+  credentials: ChannelCredentials,
+  options: ChannelOptions
+) => FlightServiceClient
+
+/**
+ * Creates a grpc-js channel to a Flight server.
+ *
+ * @param address - The `host:port` or `unix:` address of the server
+ * @param options - Options of the client; credentials, TLS and channel
+ *   options configure the channel
+ *
+ * @internal
+ */
+export function createGrpcTransport(
+  address: string,
+  options: FlightClientOptions
+): FlightTransport {
+  return new GrpcTransport(
+    new FlightServiceClient(address, buildCredentials(options), buildChannelOptions(options))
+  )
+}
+
+/**
+ * Flight transport that makes calls with a grpc-js client.
+ *
+ * @internal
+ */
+export class GrpcTransport implements FlightTransport {
+  private readonly client: FlightServiceClient
+
+  constructor(client: FlightServiceClient) {
+    this.client = client
+  }
+
+  handshake(
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: DuplexCallListener<HandshakeResponse>
+  ): ClientStreamingCall<HandshakeRequest> {
+    return bidiStreaming(this.client.handshake(toGrpcMetadata(metadata), options), listener)
+  }
+
+  listFlights(
+    request: Criteria,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<FlightInfo>
+  ): ClientCall {
+    return serverStreaming(
+      this.client.listFlights(request, toGrpcMetadata(metadata), options),
+      listener
+    )
+  }
+
+  getFlightInfo(
+    request: FlightDescriptor,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<FlightInfo>
+  ): ClientCall {
+    return unary(listener, (callback) =>
+      this.client.getFlightInfo(request, toGrpcMetadata(metadata), options, callback)
+    )
+  }
+
+  pollFlightInfo(
+    request: FlightDescriptor,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<PollInfo>
+  ): ClientCall {
+    return unary(listener, (callback) =>
+      this.client.pollFlightInfo(request, toGrpcMetadata(metadata), options, callback)
+    )
+  }
+
+  getSchema(
+    request: FlightDescriptor,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<SchemaResult>
+  ): ClientCall {
+    return unary(listener, (callback) =>
+      this.client.getSchema(request, toGrpcMetadata(metadata), options, callback)
+    )
+  }
+
+  doGet(
+    request: Ticket,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<FlightData>
+  ): ClientCall {
+    return serverStreaming(this.client.doGet(request, toGrpcMetadata(metadata), options), listener)
+  }
+
+  doPut(
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: DuplexCallListener<PutResult>
+  ): ClientStreamingCall<FlightData> {
+    return bidiStreaming(this.client.doPut(toGrpcMetadata(metadata), options), listener)
+  }
+
+  doExchange(
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: DuplexCallListener<FlightData>
+  ): ClientStreamingCall<FlightData> {
+    return bidiStreaming(this.client.doExchange(toGrpcMetadata(metadata), options), listener)
+  }
+
+  doAction(
+    request: Action,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<Result>
+  ): ClientCall {
+    return serverStreaming(
+      this.client.doAction(request, toGrpcMetadata(metadata), options),
+      listener
+    )
+  }
+
+  listActions(
+    request: Empty,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<ActionType>
+  ): ClientCall {
+    return serverStreaming(
+      this.client.listActions(request, toGrpcMetadata(metadata), options),
+      listener
+    )
+  }
+
+  waitForReady(deadline: Date | number, callback: (error?: Error) => void): void {
+    this.client.waitForReady(deadline, callback)
+  }
+
+  close(): void {
+    this.client.close()
+  }
+}
+
+/**
+ * Reports a unary call to its listener.
+ *
+ * grpc-js calls back with the outcome of the call and then emits its
+ * status, so the outcome is reported a microtask later, with the trailers.
+ */
+function unary<TResponse>(
+  listener: CallListener<TResponse>,
+  start: (callback: UnaryCallback<TResponse>) => ClientUnaryCall
+): ClientCall {
+  let trailers = new GrpcMetadata()
+  const call = start((error, response) => {
+    queueMicrotask(() => {
+      if (error !== null) {
+        listener.onStatus(errorToStatus(error))
+        return
+      }
+      void listener.onMessage(response as TResponse)
+      listener.onStatus({
+        code: StatusCode.OK,
+        details: "OK",
+        metadata: fromGrpcMetadata(trailers)
+      })
+    })
+  })
+  call.on("metadata", (headers: GrpcMetadata) => {
+    listener.onMetadata(fromGrpcMetadata(headers))
+  })
+  call.on("status", (status: StatusObject) => {
+    trailers = status.metadata
+  })
+  return toClientCall(call)
+}
+
+/**
+ * Reports a server-streaming call to its listener.
+ */
+function serverStreaming<TResponse>(
+  call: ClientReadableStream<TResponse>,
+  listener: CallListener<TResponse>
+): ClientCall {
+  readResponses(call, listener)
+  return toClientCall(call)
+}
+
+/**
+ * Reports a bidirectional streaming call to its listener.
+ */
+function bidiStreaming<TRequest, TResponse>(
+  call: ClientDuplexStream<TRequest, TResponse>,
+  listener: DuplexCallListener<TResponse>
+): ClientStreamingCall<TRequest> {
+  readResponses(call, listener)
+  call.on("drain", () => {
+    listener.onDrain()
+  })
+  return {
+    ...toClientCall(call),
+    write: (request) => call.write(request),
+    end: () => {
+      call.end()
+    }
+  }
+}
+
+/**
+ * Passes the responses of a call to its listener, pausing the call while
+ * the listener holds them back.
+ *
+ * A successful call is reported once every response has been delivered,
+ * which grpc-js signals with `end` after its status. A failed call is
+ * reported at once.
+ */
+function readResponses<TResponse>(
+  call: ClientReadableStream<TResponse> | ClientDuplexStream<unknown, TResponse>,
+  listener: CallListener<TResponse>
+): void {
+  let finished = false
+  let trailers = new GrpcMetadata()
+  const finish = (status: TransportStatus): void => {
+    if (!finished) {
+      finished = true
+      listener.onStatus(status)
+    }
+  }
+
+  call.on("metadata", (headers: GrpcMetadata) => {
+    listener.onMetadata(fromGrpcMetadata(headers))
+  })
+  call.on("data", (response: TResponse) => {
+    const held = listener.onMessage(response)
+    if (held !== undefined) {
+      call.pause()
+      void held.then(() => {
+        call.resume()
+      })
+    }
+  })
+  call.on("error", (error: Error) => {
+    finish(errorToStatus(error))
+  })
+  call.on("status", (status: StatusObject) => {
+    trailers = status.metadata
+  })
+  call.on("end", () => {
+    finish({ code: StatusCode.OK, details: "OK", metadata: fromGrpcMetadata(trailers) })
+  })
+}
+
+/**
+ * Gives the caller of a transport the calls of a grpc-js call.
+ */
+function toClientCall(call: ClientUnaryCall | ClientReadableStream<unknown>): ClientCall {
+  return {
+    cancel: () => {
+      call.cancel()
+    },
+    getPeer: () => call.getPeer()
+  }
+}
+
+/**
+ * Converts the error of a failed grpc-js call to its status. Errors
+ * without a status code fail the call with `UNKNOWN`.
+ */
+function errorToStatus(error: Error): TransportStatus {
+  const { code, details, metadata } = error as Partial<ServiceError>
+  if (code !== undefined && details !== undefined && metadata !== undefined) {
+    return { code: code as number, details, metadata: fromGrpcMetadata(metadata) }
+  }
+  return { code: StatusCode.UNKNOWN, details: error.message, metadata: new Metadata() }
+}
+
+/**
+ * Converts grpc-js metadata to call metadata.
+ *
+ * @internal
+ */
+export function fromGrpcMetadata(metadata: GrpcMetadata): Metadata {
+  const converted = new Metadata()
+  for (const [key, values] of Object.entries(metadata.toJSON())) {
+    for (const value of values) {
+      converted.add(key, value)
+    }
+  }
+  return converted
+}
+
+/**
+ * Converts call metadata to grpc-js metadata.
+ *
+ * @internal
+ */
+export function toGrpcMetadata(metadata: Metadata): GrpcMetadata {
+  const converted = new GrpcMetadata()
+  for (const [key, values] of Object.entries(metadata.toJSON())) {
+    for (const value of values) {
+      converted.add(key, value)
+    }
+  }
+  return converted
+}
+
+/**
+ * Builds gRPC channel credentials from client options.
+ */
+function buildCredentials(options: FlightClientOptions): ChannelCredentials {
+  // If explicit credentials provided, use them
+  if (options.credentials !== undefined) {
+    return options.credentials
+  }
+
+  // Handle mTLS via auth option (legacy support)
+  const { auth } = options
+  if (auth?.type === "mtls") {
+    const cert = typeof auth.cert === "string" ? Buffer.from(auth.cert) : auth.cert
+    const key = typeof auth.key === "string" ? Buffer.from(auth.key) : auth.key
+    const ca =
+      auth.ca !== undefined
+        ? typeof auth.ca === "string"
+          ? Buffer.from(auth.ca)
+          : auth.ca
+        : undefined
+
+    return grpcCredentials.createSsl(ca, key, cert)
+  }
+
+  // Handle TLS options
+  const { tls } = options
+
+  // Explicit false means insecure
+  if (tls === false) {
+    return grpcCredentials.createInsecure()
+  }
+
+  // If tls is an object, use its configuration
+  if (typeof tls === "object") {
+    return buildTlsCredentials(tls)
+  }
+
+  // Default: TLS with system CAs
+  return grpcCredentials.createSsl()
+}
+
+/**
+ * Builds TLS credentials from TlsOptions.
+ */
+function buildTlsCredentials(tlsOptions: TlsOptions): ChannelCredentials {
+  const rootCerts =
+    tlsOptions.rootCerts !== undefined
+      ? typeof tlsOptions.rootCerts === "string"
+        ? Buffer.from(tlsOptions.rootCerts)
+        : tlsOptions.rootCerts
+      : undefined
+
+  const privateKey =
+    tlsOptions.privateKey !== undefined
+      ? typeof tlsOptions.privateKey === "string"
+        ? Buffer.from(tlsOptions.privateKey)
+        : tlsOptions.privateKey
+      : undefined
+
+  const certChain =
+    tlsOptions.certChain !== undefined
+      ? typeof tlsOptions.certChain === "string"
+        ? Buffer.from(tlsOptions.certChain)
+        : tlsOptions.certChain
+      : undefined
+
+  // grpc-js createSsl signature: (rootCerts?, privateKey?, certChain?, verifyOptions?)
+  const verifyOptions =
+    tlsOptions.verifyServerCert === false ? { checkServerIdentity: () => undefined } : undefined
+
+  return grpcCredentials.createSsl(rootCerts, privateKey, certChain, verifyOptions)
+}
+
+/**
+ * Builds gRPC channel options from client options.
+ */
+function buildChannelOptions(clientOptions: FlightClientOptions): ChannelOptions {
+  const options: ChannelOptions = {}
+  const { channelOptions: channelOpts } = clientOptions
+
+  if (channelOpts?.maxReceiveMessageLength !== undefined) {
+    options["grpc.max_receive_message_length"] = channelOpts.maxReceiveMessageLength
+  }
+
+  if (channelOpts?.maxSendMessageLength !== undefined) {
+    options["grpc.max_send_message_length"] = channelOpts.maxSendMessageLength
+  }
+
+  if (channelOpts?.keepaliveTimeMs !== undefined) {
+    options["grpc.keepalive_time_ms"] = channelOpts.keepaliveTimeMs
+  }
+
+  if (channelOpts?.keepaliveTimeoutMs !== undefined) {
+    options["grpc.keepalive_timeout_ms"] = channelOpts.keepaliveTimeoutMs
+  }
+
+  if (channelOpts?.keepalivePermitWithoutCalls !== undefined) {
+    options["grpc.keepalive_permit_without_calls"] = channelOpts.keepalivePermitWithoutCalls ? 1 : 0
+  }
+
+  // Add SSL target name override from TLS options
+  const { tls } = clientOptions
+  if (typeof tls === "object" && tls.serverNameOverride !== undefined) {
+    options["grpc.ssl_target_name_override"] = tls.serverNameOverride
+  }
+
+  return options
+}
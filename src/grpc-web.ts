@@ -0,0 +1,423 @@
+/**
+ * gRPC-Web transport.
+ *
+ * Makes Flight calls with `fetch` using the gRPC-Web protocol, so a client
+ * can reach a Flight server through a gRPC-Web proxy such as Envoy from
+ * runtimes that cannot make HTTP/2 gRPC calls, like browsers. gRPC-Web has
+ * no client streaming: unary and server-streaming methods are supported,
+ * while Handshake, DoPut and DoExchange fail with `UNIMPLEMENTED`.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  type CallDriver,
+  type CallHandlers,
+  callStatus,
+  deadlineToTimeout,
+  startStreamingCall,
+  startUnaryCall
+} from "./calls.js"
+import type {
+  Action,
+  ActionType,
+  Criteria,
+  Empty,
+  FlightData,
+  FlightDescriptor,
+  FlightInfo,
+  HandshakeRequest,
+  HandshakeResponse,
+  PollInfo,
+  PutResult,
+  Result,
+  SchemaResult,
+  Ticket
+} from "./generated/arrow/flight/protocol/Flight.js"
+import {
+  encodeFrame,
+  FetchExchange,
+  type FetchTransportConfig,
+  headersToMetadata,
+  httpStatusToGrpc,
+  metadataToHeaders,
+  readFrames,
+  resolveFetchTransportConfig,
+  startUnsupportedCall
+} from "./http.js"
+import { Metadata } from "./metadata.js"
+import { FlightServiceService } from "./service.js"
+import {
+  type CallListener,
+  type ClientCall,
+  type ClientStreamingCall,
+  type DuplexCallListener,
+  type FlightTransport,
+  StatusCode,
+  type TransportCallOptions,
+  type TransportStatus
+} from "./transport.js"
+import type { FlightClientOptions, GrpcWebFormat, GrpcWebTransportOptions } from "./types.js"
+
+/** Largest value of a `grpc-timeout` header: 8 digits. */
+const MAX_TIMEOUT_VALUE = 99_999_999
+
+/** Units of a `grpc-timeout` header above milliseconds, with their length. */
+const LARGER_TIMEOUT_UNITS = [
+  ["S", 1000],
+  ["M", 60_000],
+  ["H", 3_600_000]
+] as const
+
+/** Flag of a frame carrying a message. */
+const DATA_FRAME = 0x00
+
+/** Flag of the frame carrying the trailers. */
+const TRAILER_FRAME = 0x80
+
+/** Headers that describe the response rather than carry metadata. */
+const RESERVED_HEADERS = new Set(["content-type", "grpc-status", "grpc-message"])
+
+/**
+ * A Flight method called over gRPC-Web, with the functions that encode its
+ * messages.
+ */
+type GrpcWebMethod<TRequest, TResponse> = {
+  path: string
+  requestSerialize: (request: TRequest) => Buffer
+  responseDeserialize: (message: Buffer) => TResponse
+}
+
+/**
+ * What a gRPC-Web call sends.
+ */
+type CallRequest = {
+  path: string
+  message: Buffer
+  metadata: Metadata
+  options: TransportCallOptions
+}
+
+/**
+ * Settings of a gRPC-Web transport.
+ *
+ * @internal
+ */
+export type GrpcWebTransportConfig = FetchTransportConfig<GrpcWebFormat>
+
+/**
+ * Creates the gRPC-Web transport of a client.
+ *
+ * @param address - The `host:port` address of the server
+ * @param options - Options of the client
+ * @param transport - The gRPC-Web options of the client
+ *
+ * @throws {FlightError} If the client uses a Unix domain socket and no
+ *   `baseUrl` is set
+ *
+ * @internal
+ */
+export function createGrpcWebTransport(
+  address: string,
+  options: FlightClientOptions,
+  transport: GrpcWebTransportOptions
+): GrpcWebTransport {
+  return new GrpcWebTransport(
+    resolveFetchTransportConfig("gRPC-Web", address, options, transport, "binary")
+  )
+}
+
+/**
+ * Flight transport that makes gRPC-Web calls with fetch.
+ *
+ * @internal
+ */
+export class GrpcWebTransport implements FlightTransport {
+  private readonly config: GrpcWebTransportConfig
+
+  constructor(config: GrpcWebTransportConfig) {
+    this.config = config
+  }
+
+  handshake(
+    _metadata: Metadata,
+    _options: TransportCallOptions,
+    listener: DuplexCallListener<HandshakeResponse>
+  ): ClientStreamingCall<HandshakeRequest> {
+    return startUnsupportedCall(this.config, unsupported("Handshake"), listener)
+  }
+
+  listFlights(
+    request: Criteria,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<FlightInfo>
+  ): ClientCall {
+    return this.serverStreaming(
+      FlightServiceService.listFlights,
+      request,
+      metadata,
+      options,
+      listener
+    )
+  }
+
+  getFlightInfo(
+    request: FlightDescriptor,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<FlightInfo>
+  ): ClientCall {
+    return this.unary(FlightServiceService.getFlightInfo, request, metadata, options, listener)
+  }
+
+  pollFlightInfo(
+    request: FlightDescriptor,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<PollInfo>
+  ): ClientCall {
+    return this.unary(FlightServiceService.pollFlightInfo, request, metadata, options, listener)
+  }
+
+  getSchema(
+    request: FlightDescriptor,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<SchemaResult>
+  ): ClientCall {
+    return this.unary(FlightServiceService.getSchema, request, metadata, options, listener)
+  }
+
+  doGet(
+    request: Ticket,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<FlightData>
+  ): ClientCall {
+    return this.serverStreaming(FlightServiceService.doGet, request, metadata, options, listener)
+  }
+
+  doPut(
+    _metadata: Metadata,
+    _options: TransportCallOptions,
+    listener: DuplexCallListener<PutResult>
+  ): ClientStreamingCall<FlightData> {
+    return startUnsupportedCall(this.config, unsupported("DoPut"), listener)
+  }
+
+  doExchange(
+    _metadata: Metadata,
+    _options: TransportCallOptions,
+    listener: DuplexCallListener<FlightData>
+  ): ClientStreamingCall<FlightData> {
+    return startUnsupportedCall(this.config, unsupported("DoExchange"), listener)
+  }
+
+  doAction(
+    request: Action,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<Result>
+  ): ClientCall {
+    return this.serverStreaming(FlightServiceService.doAction, request, metadata, options, listener)
+  }
+
+  listActions(
+    request: Empty,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<ActionType>
+  ): ClientCall {
+    return this.serverStreaming(
+      FlightServiceService.listActions,
+      request,
+      metadata,
+      options,
+      listener
+    )
+  }
+
+  /**
+   * Calls back at once: each call makes its own request, so there is no
+   * channel to wait for.
+   */
+  waitForReady(_deadline: Date | number, callback: (error?: Error) => void): void {
+    callback()
+  }
+
+  /**
+   * Does nothing: connections are managed by fetch, and calls in progress
+   * run to completion as they do on a closed grpc-js channel.
+   */
+  close(): void {
+    // Nothing to release
+  }
+
+  private unary<TRequest, TResponse>(
+    method: GrpcWebMethod<TRequest, TResponse>,
+    request: TRequest,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<TResponse>
+  ): ClientCall {
+    return startUnaryCall(
+      (handlers) => this.start(handlers, method, request, metadata, options),
+      method.responseDeserialize,
+      listener
+    )
+  }
+
+  private serverStreaming<TRequest, TResponse>(
+    method: GrpcWebMethod<TRequest, TResponse>,
+    request: TRequest,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<TResponse>
+  ): ClientCall {
+    return startStreamingCall(
+      (handlers) => this.start(handlers, method, request, metadata, options),
+      method.responseDeserialize,
+      listener
+    )
+  }
+
+  private start<TRequest, TResponse>(
+    handlers: CallHandlers,
+    method: GrpcWebMethod<TRequest, TResponse>,
+    request: TRequest,
+    metadata: Metadata,
+    options: TransportCallOptions
+  ): CallDriver {
+    const exchange = new GrpcWebExchange(this.config, handlers)
+    exchange.start({
+      path: method.path,
+      message: method.requestSerialize(request),
+      metadata,
+      options
+    })
+    return exchange
+  }
+}
+
+/**
+ * The HTTP exchange behind a gRPC-Web call.
+ */
+class GrpcWebExchange extends FetchExchange {
+  private readonly text: boolean
+
+  constructor(config: GrpcWebTransportConfig, handlers: CallHandlers) {
+    super(config, handlers)
+    this.text = config.format === "text"
+  }
+
+  start({ path, message, metadata, options }: CallRequest): void {
+    const contentType = this.text ? "application/grpc-web-text" : "application/grpc-web+proto"
+    const headers = metadataToHeaders(metadata)
+    headers.set("content-type", contentType)
+    headers.set("accept", contentType)
+    headers.set("x-grpc-web", "1")
+
+    const timeoutMs = deadlineToTimeout(options.deadline)
+    if (timeoutMs !== undefined) {
+      headers.set("grpc-timeout", encodeTimeout(timeoutMs))
+    }
+
+    const frame = encodeFrame(DATA_FRAME, message)
+    this.send(
+      path,
+      { method: "POST", headers, body: this.text ? frame.toString("base64") : frame },
+      timeoutMs
+    )
+  }
+
+  protected async read(response: Response): Promise<void> {
+    // A response without messages can carry its status in the headers
+    if (response.headers.has("grpc-status")) {
+      this.finish(headersToStatus(response.headers))
+      return
+    }
+    if (!response.ok) {
+      this.finish(
+        callStatus(
+          httpStatusToGrpc(response.status),
+          `Received HTTP status ${String(response.status)}`,
+          headersToMetadata(response.headers, RESERVED_HEADERS)
+        )
+      )
+      return
+    }
+
+    this.handlers.onMetadata(headersToMetadata(response.headers, RESERVED_HEADERS))
+    if (response.body !== null) {
+      for await (const frame of readFrames(response.body, this.text)) {
+        this.signal.throwIfAborted()
+        if ((frame.flags & TRAILER_FRAME) !== 0) {
+          this.finish(parseTrailers(frame.payload))
+          return
+        }
+        await this.handlers.onMessage(frame.payload)
+      }
+    }
+    this.finish(callStatus(StatusCode.INTERNAL, "Response ended without trailers", new Metadata()))
+  }
+}
+
+/**
+ * Encodes a timeout as a `grpc-timeout` header value.
+ *
+ * The gRPC spec allows at most 8 digits, so longer timeouts are sent in
+ * seconds, minutes or hours, rounded up, as grpc-js does.
+ */
+function encodeTimeout(timeoutMs: number): string {
+  let amount = timeoutMs
+  let unit = "m"
+  for (const [largerUnit, factor] of LARGER_TIMEOUT_UNITS) {
+    if (amount <= MAX_TIMEOUT_VALUE) {
+      break
+    }
+    amount = Math.ceil(timeoutMs / factor)
+    unit = largerUnit
+  }
+  return `${String(Math.min(amount, MAX_TIMEOUT_VALUE))}${unit}`
+}
+
+/**
+ * Describes the failure of methods that need client streaming.
+ */
+function unsupported(method: string): string {
+  return `${method} needs client streaming, which the gRPC-Web transport does not support`
+}
+
+/**
+ * Reads the call status from response headers or trailers.
+ */
+function headersToStatus(headers: Headers): TransportStatus {
+  const code = Number(headers.get("grpc-status") ?? NaN)
+  const message = headers.get("grpc-message") ?? ""
+  let details = message
+  try {
+    details = decodeURIComponent(message)
+  } catch {
+    // Keep a message that is not percent-encoded as it is
+  }
+  return callStatus(
+    Number.isInteger(code) && code in StatusCode ? code : StatusCode.UNKNOWN,
+    details,
+    headersToMetadata(headers, RESERVED_HEADERS)
+  )
+}
+
+/**
+ * Parses the trailers frame, a block of HTTP/1.1 header lines.
+ */
+function parseTrailers(payload: Buffer): TransportStatus {
+  const headers = new Headers()
+  for (const line of payload.toString("utf8").split(/\r?\n/)) {
+    const separator = line.indexOf(":")
+    if (separator > 0) {
+      headers.append(line.slice(0, separator).trim(), line.slice(separator + 1).trim())
+    }
+  }
+  return headersToStatus(headers)
+}
@@ -0,0 +1,375 @@
+/**
+ * Helpers for transports that make calls with `fetch`.
+ *
+ * Covers what the gRPC-Web and Connect protocols share: resolving the
+ * transport options, the HTTP exchange behind each call, carrying metadata
+ * in HTTP headers, mapping HTTP statuses to gRPC codes, and the framing of
+ * streamed messages behind a flags byte and a length prefix.
+ *
+ * @packageDocumentation
+ */
+
+import { type CallDriver, type CallHandlers, callStatus } from "./calls.js"
+import { Metadata } from "./metadata.js"
+import {
+  type CallListener,
+  type ClientStreamingCall,
+  StatusCode,
+  type TransportStatus
+} from "./transport.js"
+import { type FetchFunction, type FlightClientOptions, FlightError } from "./types.js"
+
+/** Length of the flags and length prefix of every frame. */
+const FRAME_HEADER_LENGTH = 5
+
+/**
+ * A frame of a streamed response body.
+ *
+ * @internal
+ */
+export type Frame = { flags: number; payload: Buffer }
+
+/**
+ * Settings of a transport that makes calls with fetch.
+ *
+ * @internal
+ */
+export type FetchTransportConfig<TFormat extends string> = {
+  /** URL of the server, without a trailing slash. */
+  baseUrl: string
+  format: TFormat
+  fetch: FetchFunction
+}
+
+/**
+ * The options a client sets for a transport that makes calls with fetch.
+ *
+ * @internal
+ */
+export type FetchTransportOptions<TFormat extends string> = {
+  baseUrl?: string
+  format?: TFormat
+  fetch?: FetchFunction
+}
+
+/**
+ * Resolves the settings of a fetch transport from the options of a client.
+ *
+ * Without a `baseUrl`, calls go to the client address over HTTPS, or HTTP
+ * when TLS is off.
+ *
+ * @param protocol - Name of the protocol, for error messages
+ * @param address - The `host:port` address of the server
+ * @param options - Options of the client
+ * @param transport - The transport options of the client
+ * @param defaultFormat - Format used when the options set none
+ *
+ * @throws {FlightError} If the client uses a Unix domain socket and no
+ *   `baseUrl` is set
+ *
+ * @internal
+ */
+export function resolveFetchTransportConfig<TFormat extends string>(
+  protocol: string,
+  address: string,
+  options: FlightClientOptions,
+  transport: FetchTransportOptions<TFormat>,
+  defaultFormat: TFormat
+): FetchTransportConfig<TFormat> {
+  if (transport.baseUrl === undefined && options.socketPath !== undefined) {
+    throw new FlightError(
+      `the ${protocol} transport needs a baseUrl to reach a Unix domain socket`,
+      "INVALID_ARGUMENT"
+    )
+  }
+  const baseUrl = transport.baseUrl ?? `${options.tls === false ? "http" : "https"}://${address}`
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ""),
+    format: transport.format ?? defaultFormat,
+    fetch: transport.fetch ?? (async (input, init) => fetch(input, init))
+  }
+}
+
+/**
+ * The HTTP exchange behind a call made with fetch.
+ *
+ * Reports the response headers, each message and then exactly one status
+ * to its handlers. Cancelling the call or reaching its deadline aborts the
+ * request. Subclasses build the request and read the response of their
+ * protocol.
+ *
+ * @internal
+ */
+export abstract class FetchExchange implements CallDriver {
+  protected readonly handlers: CallHandlers
+  private readonly baseUrl: string
+  private readonly fetch: FetchFunction
+  private readonly controller = new AbortController()
+  private finished = false
+  private timer: ReturnType<typeof setTimeout> | undefined
+
+  constructor(config: FetchTransportConfig<string>, handlers: CallHandlers) {
+    this.baseUrl = config.baseUrl
+    this.fetch = config.fetch
+    this.handlers = handlers
+  }
+
+  get peer(): string {
+    return new URL(this.baseUrl).host
+  }
+
+  /** Aborted when the call ends. */
+  protected get signal(): AbortSignal {
+    return this.controller.signal
+  }
+
+  cancel(): void {
+    this.finish(callStatus(StatusCode.CANCELLED, "Cancelled on client", new Metadata()))
+  }
+
+  /**
+   * Ends the call with a status, aborting the request if it is still
+   * running. Later calls are ignored.
+   */
+  finish(status: TransportStatus): void {
+    if (this.finished) {
+      return
+    }
+    this.finished = true
+    clearTimeout(this.timer)
+    this.controller.abort()
+    this.handlers.onStatus(status)
+  }
+
+  /**
+   * Sends the request of the call and reads its response.
+   *
+   * @param path - Path of the method, appended to the base URL
+   * @param init - The request, without its signal
+   * @param timeoutMs - Time after which the call ends with
+   *   `DEADLINE_EXCEEDED`
+   */
+  protected send(path: string, init: RequestInit, timeoutMs: number | undefined): void {
+    if (timeoutMs !== undefined) {
+      this.timer = setTimeout(() => {
+        this.finish(callStatus(StatusCode.DEADLINE_EXCEEDED, "Deadline exceeded", new Metadata()))
+      }, timeoutMs)
+    }
+    this.run(`${this.baseUrl}${path}`, { ...init, signal: this.controller.signal }).catch(
+      (error: unknown) => {
+        this.finish(callStatus(StatusCode.INTERNAL, errorMessage(error), new Metadata()))
+      }
+    )
+  }
+
+  /**
+   * Reads the response of the call, ending it with a status.
+   *
+   * @throws {Error} If the response is malformed or the call has ended,
+   *   which ends the call with `INTERNAL` unless it has already ended
+   */
+  protected abstract read(response: Response): Promise<void>
+
+  private async run(url: string, init: RequestInit): Promise<void> {
+    // Called unbound: browsers reject a fetch called on another object
+    const fetchResponse = this.fetch
+    let response: Response
+    try {
+      response = await fetchResponse(url, init)
+    } catch (error) {
+      this.finish(callStatus(StatusCode.UNAVAILABLE, errorMessage(error), new Metadata()))
+      return
+    }
+    this.controller.signal.throwIfAborted()
+    await this.read(response)
+  }
+}
+
+/**
+ * Starts a call of a method that needs client streaming, which fetch
+ * cannot send.
+ *
+ * The call fails with `UNIMPLEMENTED` a microtask later, as other calls
+ * report their status, and drops the requests written to it.
+ *
+ * @param config - The settings of the transport
+ * @param details - Message of the failed status
+ * @param listener - Receives the status of the call
+ *
+ * @internal
+ */
+export function startUnsupportedCall<TRequest, TResponse>(
+  config: FetchTransportConfig<string>,
+  details: string,
+  listener: CallListener<TResponse>
+): ClientStreamingCall<TRequest> {
+  let status = callStatus(StatusCode.UNIMPLEMENTED, details, new Metadata())
+  queueMicrotask(() => {
+    listener.onStatus(status)
+  })
+  return {
+    cancel: () => {
+      status = callStatus(StatusCode.CANCELLED, "Cancelled on client", new Metadata())
+    },
+    getPeer: () => new URL(config.baseUrl).host,
+    write: () => true,
+    end: () => undefined
+  }
+}
+
+/**
+ * Gets the message of a thrown value.
+ *
+ * @internal
+ */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
+
+/**
+ * Maps the HTTP status of a failed response to a gRPC status code, as
+ * specified for gRPC over HTTP.
+ *
+ * @internal
+ */
+export function httpStatusToGrpc(status: number): StatusCode {
+  switch (status) {
+    case 400:
+      return StatusCode.INTERNAL
+    case 401:
+      return StatusCode.UNAUTHENTICATED
+    case 403:
+      return StatusCode.PERMISSION_DENIED
+    case 404:
+      return StatusCode.UNIMPLEMENTED
+    case 429:
+    case 502:
+    case 503:
+    case 504:
+      return StatusCode.UNAVAILABLE
+    default:
+      return StatusCode.UNKNOWN
+  }
+}
+
+/**
+ * Converts call metadata to request headers, base64-encoding binary values.
+ *
+ * @internal
+ */
+export function metadataToHeaders(metadata: Metadata): Headers {
+  const headers = new Headers()
+  for (const [key, values] of Object.entries(metadata.toJSON())) {
+    for (const value of values) {
+      headers.append(key, typeof value === "string" ? value : value.toString("base64"))
+    }
+  }
+  return headers
+}
+
+/**
+ * Converts response headers or trailers to call metadata.
+ *
+ * Binary values are base64-decoded. Headers that are not valid gRPC
+ * metadata keys are skipped, as grpc-js does.
+ *
+ * @param headers - The headers to convert
+ * @param reserved - Headers of the protocol, which are not metadata
+ *
+ * @internal
+ */
+export function headersToMetadata(headers: Headers, reserved: ReadonlySet<string>): Metadata {
+  const metadata = new Metadata()
+  headers.forEach((value, key) => {
+    if (reserved.has(key)) {
+      return
+    }
+    try {
+      if (key.endsWith("-bin")) {
+        for (const part of value.split(",")) {
+          metadata.add(key, Buffer.from(part.trim(), "base64"))
+        }
+      } else {
+        metadata.add(key, value)
+      }
+    } catch {
+      // Not a valid metadata key
+    }
+  })
+  return metadata
+}
+
+/**
+ * Prefixes a payload with its frame flags and length.
+ *
+ * @internal
+ */
+export function encodeFrame(flags: number, payload: Buffer): Buffer {
+  const header = Buffer.alloc(FRAME_HEADER_LENGTH)
+  header.writeUInt8(flags, 0)
+  header.writeUInt32BE(payload.length, 1)
+  return Buffer.concat([header, payload])
+}
+
+/**
+ * Decodes base64 text that may join several padded base64 strings, as a
+ * text-mode response does with one string per write.
+ */
+function decodeBase64(text: string): Buffer {
+  return Buffer.concat(text.split(/(?<==)(?=[^=])/).map((part) => Buffer.from(part, "base64")))
+}
+
+/**
+ * Reads the frames of a response body.
+ *
+ * @param body - The response body
+ * @param text - Whether the body is base64 text, as in gRPC-Web text mode
+ *
+ * @throws {Error} If the body ends inside a frame
+ *
+ * @internal
+ */
+export async function* readFrames(
+  body: ReadableStream<Uint8Array>,
+  text: boolean
+): AsyncGenerator<Frame, void, undefined> {
+  const reader = body.getReader()
+  let buffered: Buffer = Buffer.alloc(0)
+  let pendingText = ""
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) {
+        break
+      }
+
+      let chunk: Buffer = Buffer.from(value)
+      if (text) {
+        // Only whole groups of four characters can be decoded
+        pendingText += chunk.toString("latin1")
+        const length = pendingText.length - (pendingText.length % 4)
+        chunk = decodeBase64(pendingText.slice(0, length))
+        pendingText = pendingText.slice(length)
+      }
+      buffered = Buffer.concat([buffered, chunk])
+
+      while (buffered.length >= FRAME_HEADER_LENGTH) {
+        const end = FRAME_HEADER_LENGTH + buffered.readUInt32BE(1)
+        if (buffered.length < end) {
+          break
+        }
+        yield {
+          flags: buffered[0],
+          payload: buffered.subarray(FRAME_HEADER_LENGTH, end)
+        }
+        buffered = buffered.subarray(end)
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+
+  if (buffered.length > 0 || pendingText.length > 0) {
+    throw new Error("Response ended inside a frame")
+  }
+}
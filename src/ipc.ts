@@ -6,7 +6,19 @@
  * @packageDocumentation
  */
 
-import type { FlightData } from "./generated/arrow/flight/protocol/Flight.js"
+import {
+  type AsyncRecordBatchStreamReader,
+  Message,
+  MessageHeader,
+  type RecordBatch,
+  RecordBatchReader,
+  RecordBatchStreamWriter,
+  Schema,
+  Table
+} from "apache-arrow"
+
+import type { FlightData, FlightDescriptor } from "./generated/arrow/flight/protocol/Flight.js"
+import { FlightError } from "./types.js"
 
 /**
  * IPC continuation token (0xFFFFFFFF).
@@ -124,6 +136,264 @@ export async function collectFlightDataAsIpc(
   return flightDataToIpc(flightData)
 }
 
+/**
+ * A decoded record batch with the application metadata sent alongside it.
+ */
+export type FlightRecordBatch = {
+  /**
+   * The decoded record batch, with any dictionaries applied.
+   */
+  batch: RecordBatch
+
+  /**
+   * The `app_metadata` of the FlightData message that carried the batch.
+   */
+  appMetadata: Buffer
+}
+
+/**
+ * Options for reading a FlightData stream as record batches.
+ */
+export type FlightRecordBatchStreamOptions = {
+  /**
+   * Called with the `app_metadata` of each message that carries no Arrow
+   * data, such as progress or checkpoint markers sent between batches.
+   *
+   * Calls keep the order of the stream: the metadata of a message is passed
+   * on before the batch that follows it is yielded.
+   */
+  onAppMetadata?: (appMetadata: Buffer) => void
+}
+
+/**
+ * The `app_metadata` of a message, queued until the batches before it
+ * have been read.
+ */
+type QueuedAppMetadata = {
+  /** Whether the message carried a record batch rather than no data. */
+  batch: boolean
+  appMetadata: Buffer
+}
+
+/**
+ * Incrementally decodes a FlightData stream into Arrow record batches.
+ *
+ * Unlike `collectFlightDataAsIpc`, messages are decoded as they arrive, so
+ * only the batch being processed is held in memory. The schema is read
+ * when the stream is opened and is available before the first batch.
+ *
+ * @example
+ * ```ts
+ * const stream = await FlightRecordBatchStream.from(client.doGet(ticket))
+ * console.log("Fields:", stream.schema.names)
+ *
+ * for await (const { batch, appMetadata } of stream) {
+ *   console.log("Rows:", batch.numRows, "metadata:", appMetadata.length)
+ * }
+ * ```
+ */
+export class FlightRecordBatchStream implements AsyncIterable<FlightRecordBatch> {
+  /**
+   * The schema of the stream.
+   */
+  readonly schema: Schema
+
+  private readonly reader: AsyncRecordBatchStreamReader
+  private readonly appMetadata: QueuedAppMetadata[]
+  private readonly onAppMetadata: ((appMetadata: Buffer) => void) | undefined
+
+  private constructor(
+    reader: AsyncRecordBatchStreamReader,
+    appMetadata: QueuedAppMetadata[],
+    options: FlightRecordBatchStreamOptions | undefined
+  ) {
+    this.schema = reader.schema
+    this.reader = reader
+    this.appMetadata = appMetadata
+    this.onAppMetadata = options?.onAppMetadata
+  }
+
+  /**
+   * Opens a stream over FlightData messages and reads its schema.
+   *
+   * @param source - FlightData messages, e.g. from doGet or doExchange
+   * @param options - Options for reading the stream
+   * @returns The opened stream
+   * @throws {FlightError} If the source ends before a schema is received
+   */
+  static async from(
+    source: AsyncIterable<FlightData>,
+    options?: FlightRecordBatchStreamOptions
+  ): Promise<FlightRecordBatchStream> {
+    // The reader reads ahead of the batches it yields, so metadata is queued in message order
+    const appMetadata: QueuedAppMetadata[] = []
+
+    async function* frames(): AsyncGenerator<Uint8Array, void, undefined> {
+      for await (const data of source) {
+        if (data.dataHeader.length === 0) {
+          if (data.appMetadata.length > 0) {
+            appMetadata.push({ batch: false, appMetadata: data.appMetadata })
+          }
+          continue
+        }
+        if (Message.decode(data.dataHeader).headerType === MessageHeader.RecordBatch) {
+          appMetadata.push({ batch: true, appMetadata: data.appMetadata })
+        }
+        yield flightDataToIpc([data])
+      }
+    }
+
+    const reader = (await RecordBatchReader.from(frames())) as AsyncRecordBatchStreamReader
+    await reader.open()
+    // The reader is typed as always having a schema, but it is missing for an empty stream
+    if ((reader.schema as Schema | undefined) === undefined) {
+      throw new FlightError("stream ended before a schema was received", "INTERNAL")
+    }
+
+    return new FlightRecordBatchStream(reader, appMetadata, options)
+  }
+
+  async *[Symbol.asyncIterator](): AsyncGenerator<FlightRecordBatch, void, undefined> {
+    for await (const batch of this.reader) {
+      // Every decoded batch has had its metadata queued by the time it is read
+      yield { batch, appMetadata: this.takeAppMetadata() }
+    }
+    this.takeAppMetadata()
+  }
+
+  /**
+   * Passes on the queued metadata of messages without data up to the next
+   * record batch, and returns the metadata of that batch.
+   */
+  private takeAppMetadata(): Buffer {
+    let queued = this.appMetadata.shift()
+    while (queued !== undefined && !queued.batch) {
+      this.onAppMetadata?.(queued.appMetadata)
+      queued = this.appMetadata.shift()
+    }
+    return queued?.appMetadata ?? Buffer.alloc(0)
+  }
+}
+
+/**
+ * Converts Arrow record batches to FlightData messages.
+ *
+ * Each batch is encoded as Arrow IPC and split into one FlightData message
+ * per IPC message: the schema first, then any dictionary batches the record
+ * batch needs, then the record batch itself. The descriptor, if given, is
+ * attached to the first (schema) message as required by DoPut.
+ *
+ * Batches are encoded one at a time, so async sources are never buffered.
+ * A source without batches still produces the schema message, so the
+ * server receives the descriptor: with `schema` if given, or else with an
+ * empty schema.
+ *
+ * @param source - A Table, or an iterable or async iterable of RecordBatches
+ * @param descriptor - Optional descriptor to attach to the first message
+ * @param schema - Optional schema to send when `source` has no batches
+ * @returns An async iterable of FlightData messages
+ *
+ * @example
+ * ```ts
+ * import { tableFromArrays } from "apache-arrow"
+ *
+ * const table = tableFromArrays({ id: Int32Array.from([1, 2, 3]) })
+ * const stream = client.doPut()
+ * for await (const data of recordBatchesToFlightData(table, descriptor)) {
+ *   stream.write(data)
+ * }
+ * stream.end()
+ * ```
+ */
+export async function* recordBatchesToFlightData(
+  source: Table | Iterable<RecordBatch> | AsyncIterable<RecordBatch>,
+  descriptor?: FlightDescriptor,
+  schema?: Schema
+): AsyncGenerator<FlightData, void, undefined> {
+  const writer = new CapturingStreamWriter()
+  let pendingDescriptor = descriptor
+
+  const drain = function* (): Generator<FlightData, void, undefined> {
+    for (const data of splitIpcMessages(writer.take())) {
+      yield { ...data, flightDescriptor: pendingDescriptor }
+      pendingDescriptor = undefined
+    }
+  }
+
+  if (source instanceof Table) {
+    // Writing the table as a whole also emits the schema of an empty table
+    writer.write(source)
+    yield* drain()
+  } else {
+    let empty = true
+    for await (const batch of source) {
+      writer.write(batch)
+      empty = false
+      yield* drain()
+    }
+    if (empty) {
+      writer.write(new Table(schema ?? new Schema([])))
+      yield* drain()
+    }
+  }
+}
+
+/**
+ * RecordBatchStreamWriter that keeps its output in memory, so that the
+ * bytes for each written batch can be taken synchronously.
+ */
+class CapturingStreamWriter extends RecordBatchStreamWriter {
+  private chunks: Uint8Array[] = []
+
+  /**
+   * Returns and clears the bytes written so far.
+   */
+  take(): Uint8Array {
+    const bytes = Buffer.concat(this.chunks)
+    this.chunks = []
+    return bytes
+  }
+
+  // Overrides the writer's output hook, which apache-arrow names with a leading underscore
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  protected override _write(chunk: ArrayBufferView): this {
+    this.chunks.push(new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength))
+    this._position += chunk.byteLength
+    return this
+  }
+}
+
+/**
+ * Splits encapsulated Arrow IPC stream bytes into FlightData messages.
+ *
+ * The end-of-stream marker is dropped; Flight ends a stream by closing it.
+ */
+function splitIpcMessages(bytes: Uint8Array): Omit<FlightData, "flightDescriptor">[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const messages: Omit<FlightData, "flightDescriptor">[] = []
+  let offset = 0
+
+  while (offset < bytes.byteLength) {
+    // Skip the continuation token, then read the padded metadata length
+    offset += 4
+    const metadataLength = view.getInt32(offset, true)
+    offset += 4
+    if (metadataLength === 0) {
+      break
+    }
+
+    const dataHeader = Buffer.from(bytes.subarray(offset, offset + metadataLength))
+    offset += metadataLength
+    const { bodyLength } = Message.decode(dataHeader)
+    const dataBody = Buffer.from(bytes.subarray(offset, offset + bodyLength))
+    offset += bodyLength
+
+    messages.push({ dataHeader, dataBody, appMetadata: Buffer.alloc(0) })
+  }
+
+  return messages
+}
+
 /**
  * Calculates padding needed to reach 8-byte alignment.
  */
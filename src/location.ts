@@ -1,4 +1,4 @@
-import type { Location } from "./types.js"
+import type { FlightClientOptions, Location, LocationClientOptions } from "./types.js"
 
 /**
  * Supported Flight location URI schemes.
@@ -150,3 +150,48 @@ export function createLocation(scheme: LocationScheme, host: string, port?: numb
 
   return { uri }
 }
+
+/**
+ * Derive client options for connecting to a parsed location.
+ *
+ * The scheme selects the channel target: `grpc+unix` connects to the Unix
+ * socket at the location's path, `grpc+tls` and `https` use TLS, and
+ * `grpc` and `http` connect without it. A `tls` options object in
+ * `options` configures TLS for secure locations and is ignored otherwise.
+ *
+ * @param location - The parsed location to connect to.
+ * @param options - Settings other than the server address.
+ * @returns Options for a client connected to the location.
+ * @throws {LocationParseError} If the location has no address of its own.
+ *
+ * @internal
+ */
+export function locationToClientOptions(
+  location: ParsedLocation,
+  options: LocationClientOptions = {}
+): FlightClientOptions {
+  if (location.reuseConnection) {
+    throw new LocationParseError("reuse connection location has no address")
+  }
+
+  if (location.scheme === "grpc+unix") {
+    if (location.host === "") {
+      throw new LocationParseError(`missing socket path: ${location.uri}`)
+    }
+    // grpc-js uses "localhost" as the authority of Unix socket channels
+    return {
+      ...options,
+      host: "localhost",
+      port: undefined,
+      socketPath: location.host,
+      tls: false
+    }
+  }
+
+  let tls: FlightClientOptions["tls"] = false
+  if (location.secure) {
+    tls = typeof options.tls === "object" ? options.tls : true
+  }
+
+  return { ...options, host: location.host, port: location.port, socketPath: undefined, tls }
+}
@@ -0,0 +1,533 @@
+/**
+ * In-process loopback transport.
+ *
+ * Serves a FlightClient's calls with FlightServiceHandlers in the same
+ * process, without a server or a network connection, so code built on a
+ * client can be tested against handlers directly. Messages are still
+ * encoded and decoded as on the wire, and handlers see the same metadata,
+ * cancellation and deadlines as behind a FlightServer.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  type CallDriver,
+  type CallHandlers,
+  callStatus,
+  deadlineToTimeout,
+  errorStatus,
+  startStreamingCall,
+  startUnaryCall
+} from "./calls.js"
+import type {
+  Action,
+  ActionType,
+  Criteria,
+  Empty,
+  FlightData,
+  FlightDescriptor,
+  FlightInfo,
+  HandshakeRequest,
+  HandshakeResponse,
+  PollInfo,
+  PutResult,
+  Result,
+  SchemaResult,
+  Ticket
+} from "./generated/arrow/flight/protocol/Flight.js"
+import { Metadata } from "./metadata.js"
+import type {
+  BidiStreamingHandler,
+  FlightServiceHandlers,
+  ServerCallContext,
+  ServerStreamingHandler,
+  UnaryHandler
+} from "./server.js"
+import { FlightServiceService } from "./service.js"
+import {
+  type CallListener,
+  type ClientCall,
+  type ClientStreamingCall,
+  type DuplexCallListener,
+  type FlightTransport,
+  StatusCode,
+  type TransportCallOptions,
+  type TransportStatus
+} from "./transport.js"
+
+/** Peer reported by loopback calls, to both the client and the handlers. */
+const LOOPBACK_PEER = "loopback"
+
+/**
+ * Number of requests a call holds for its handler before writes report
+ * backpressure.
+ */
+const MAX_PENDING_REQUESTS = 16
+
+/**
+ * A Flight method, with the functions that encode its messages on both
+ * sides of a call.
+ */
+type LoopbackMethod<TRequest, TResponse> = {
+  path: string
+  requestSerialize: (request: TRequest) => Buffer
+  requestDeserialize: (message: Buffer) => TRequest
+  responseSerialize: (response: TResponse) => Buffer
+  responseDeserialize: (message: Buffer) => TResponse
+}
+
+/**
+ * Runs a handler for a call, returning its responses.
+ */
+type Serve<TResponse> = (
+  context: ServerCallContext
+) => AsyncIterable<TResponse> | Iterable<TResponse>
+
+/**
+ * What a client sends to start a unary or server-streaming call.
+ */
+type LoopbackRequest<TRequest, TResponse> = {
+  request: TRequest
+  metadata: Metadata
+  options: TransportCallOptions
+  listener: CallListener<TResponse>
+}
+
+/**
+ * What a client sends to start a bidirectional streaming call.
+ */
+type LoopbackDuplexRequest<TResponse> = {
+  metadata: Metadata
+  options: TransportCallOptions
+  listener: DuplexCallListener<TResponse>
+}
+
+/**
+ * Flight transport that calls FlightServiceHandlers in-process.
+ *
+ * Calls to a method without a handler fail with `UNIMPLEMENTED`, and a
+ * handler that throws fails its call as it would behind a FlightServer.
+ *
+ * @example
+ * ```ts
+ * const handlers: FlightServiceHandlers = {
+ *   async *doAction(action) {
+ *     yield { body: Buffer.from(`ran ${action.type}`) }
+ *   }
+ * }
+ * const client = await createFlightClient({
+ *   host: "loopback",
+ *   transport: { type: "custom", createTransport: () => new LoopbackTransport(handlers) }
+ * })
+ * ```
+ */
+export class LoopbackTransport implements FlightTransport {
+  private readonly handlers: FlightServiceHandlers
+
+  constructor(handlers: FlightServiceHandlers) {
+    this.handlers = handlers
+  }
+
+  handshake(
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: DuplexCallListener<HandshakeResponse>
+  ): ClientStreamingCall<HandshakeRequest> {
+    return new LoopbackDuplexCall(FlightServiceService.handshake, this.handlers.handshake, {
+      metadata,
+      options,
+      listener
+    })
+  }
+
+  listFlights(
+    request: Criteria,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<FlightInfo>
+  ): ClientCall {
+    return this.serverStreaming(FlightServiceService.listFlights, this.handlers.listFlights, {
+      request,
+      metadata,
+      options,
+      listener
+    })
+  }
+
+  getFlightInfo(
+    request: FlightDescriptor,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<FlightInfo>
+  ): ClientCall {
+    return this.unary(FlightServiceService.getFlightInfo, this.handlers.getFlightInfo, {
+      request,
+      metadata,
+      options,
+      listener
+    })
+  }
+
+  pollFlightInfo(
+    request: FlightDescriptor,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<PollInfo>
+  ): ClientCall {
+    return this.unary(FlightServiceService.pollFlightInfo, this.handlers.pollFlightInfo, {
+      request,
+      metadata,
+      options,
+      listener
+    })
+  }
+
+  getSchema(
+    request: FlightDescriptor,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<SchemaResult>
+  ): ClientCall {
+    return this.unary(FlightServiceService.getSchema, this.handlers.getSchema, {
+      request,
+      metadata,
+      options,
+      listener
+    })
+  }
+
+  doGet(
+    request: Ticket,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<FlightData>
+  ): ClientCall {
+    return this.serverStreaming(FlightServiceService.doGet, this.handlers.doGet, {
+      request,
+      metadata,
+      options,
+      listener
+    })
+  }
+
+  doPut(
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: DuplexCallListener<PutResult>
+  ): ClientStreamingCall<FlightData> {
+    return new LoopbackDuplexCall(FlightServiceService.doPut, this.handlers.doPut, {
+      metadata,
+      options,
+      listener
+    })
+  }
+
+  doExchange(
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: DuplexCallListener<FlightData>
+  ): ClientStreamingCall<FlightData> {
+    return new LoopbackDuplexCall(FlightServiceService.doExchange, this.handlers.doExchange, {
+      metadata,
+      options,
+      listener
+    })
+  }
+
+  doAction(
+    request: Action,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<Result>
+  ): ClientCall {
+    return this.serverStreaming(FlightServiceService.doAction, this.handlers.doAction, {
+      request,
+      metadata,
+      options,
+      listener
+    })
+  }
+
+  listActions(
+    request: Empty,
+    metadata: Metadata,
+    options: TransportCallOptions,
+    listener: CallListener<ActionType>
+  ): ClientCall {
+    const { listActions } = this.handlers
+    return this.serverStreaming(
+      FlightServiceService.listActions,
+      listActions && ((_request, context) => listActions(context)),
+      { request, metadata, options, listener }
+    )
+  }
+
+  /**
+   * Calls back at once: the handlers are always ready.
+   */
+  waitForReady(_deadline: Date | number, callback: (error?: Error) => void): void {
+    callback()
+  }
+
+  /**
+   * Does nothing: there are no connections, and calls in progress run to
+   * completion as they do on a closed grpc-js channel.
+   */
+  close(): void {
+    // Nothing to release
+  }
+
+  private unary<TRequest, TResponse>(
+    method: LoopbackMethod<TRequest, TResponse>,
+    handler: UnaryHandler<TRequest, TResponse> | undefined,
+    { request, metadata, options, listener }: LoopbackRequest<TRequest, TResponse>
+  ): ClientCall {
+    const message = method.requestSerialize(request)
+    return startUnaryCall(
+      (handlers) => {
+        const exchange = new LoopbackExchange(handlers)
+        exchange.start(
+          method,
+          handler &&
+            async function* (context): AsyncGenerator<TResponse> {
+              yield await handler(method.requestDeserialize(message), context)
+            },
+          metadata,
+          options
+        )
+        return exchange
+      },
+      method.responseDeserialize,
+      listener
+    )
+  }
+
+  private serverStreaming<TRequest, TResponse>(
+    method: LoopbackMethod<TRequest, TResponse>,
+    handler: ServerStreamingHandler<TRequest, TResponse> | undefined,
+    { request, metadata, options, listener }: LoopbackRequest<TRequest, TResponse>
+  ): ClientCall {
+    const message = method.requestSerialize(request)
+    return startStreamingCall(
+      (handlers) => {
+        const exchange = new LoopbackExchange(handlers)
+        exchange.start(
+          method,
+          handler && ((context) => handler(method.requestDeserialize(message), context)),
+          metadata,
+          options
+        )
+        return exchange
+      },
+      method.responseDeserialize,
+      listener
+    )
+  }
+}
+
+/**
+ * A bidirectional streaming loopback call.
+ *
+ * Each request is passed to the handler when it reads it, and writes
+ * report backpressure while the handler has requests left to read, so a
+ * handler that falls behind holds back the client as a server would.
+ */
+class LoopbackDuplexCall<TRequest, TResponse> implements ClientStreamingCall<TRequest> {
+  private readonly serialize: (request: TRequest) => Buffer
+  private readonly exchange: LoopbackExchange
+  private readonly listener: DuplexCallListener<TResponse>
+  private readonly pending: Buffer[] = []
+  private requestsEnded = false
+  private blocked = false
+  private nextRequest: (() => void) | null = null
+
+  constructor(
+    method: LoopbackMethod<TRequest, TResponse>,
+    handler: BidiStreamingHandler<TRequest, TResponse> | undefined,
+    { metadata, options, listener }: LoopbackDuplexRequest<TResponse>
+  ) {
+    this.serialize = method.requestSerialize
+    this.listener = listener
+    this.exchange = new LoopbackExchange({
+      onMetadata: (headers) => {
+        this.listener.onMetadata(headers)
+      },
+      onMessage: (message): Promise<void> | undefined =>
+        this.listener.onMessage(method.responseDeserialize(message)),
+      onStatus: (status) => {
+        this.endRequests()
+        this.listener.onStatus(status)
+      }
+    })
+    const requests = this.requests(method.requestDeserialize)
+    this.exchange.start(
+      method,
+      handler && ((context) => handler(requests, context)),
+      metadata,
+      options
+    )
+  }
+
+  write(request: TRequest): boolean {
+    if (this.requestsEnded) {
+      // The call has ended, so nothing reads the request
+      return true
+    }
+    this.pending.push(this.serialize(request))
+    this.notifyRequest()
+    this.blocked = this.pending.length >= MAX_PENDING_REQUESTS
+    return !this.blocked
+  }
+
+  end(): void {
+    this.requestsEnded = true
+    this.notifyRequest()
+  }
+
+  cancel(): void {
+    this.exchange.cancel()
+  }
+
+  getPeer(): string {
+    return this.exchange.peer
+  }
+
+  /**
+   * Yields the requests written to the call until the client ends them or
+   * the call ends.
+   */
+  private async *requests(deserialize: (message: Buffer) => TRequest): AsyncGenerator<TRequest> {
+    for (;;) {
+      const next = this.pending.shift()
+      if (next !== undefined) {
+        this.drain()
+        yield deserialize(next)
+      } else if (this.requestsEnded) {
+        return
+      } else {
+        await new Promise<void>((resolve) => {
+          this.nextRequest = resolve
+        })
+      }
+    }
+  }
+
+  /**
+   * Stops taking requests, dropping those nothing will read.
+   */
+  private endRequests(): void {
+    this.requestsEnded = true
+    this.pending.splice(0)
+    this.drain()
+    this.notifyRequest()
+  }
+
+  /**
+   * Tells the client it can write again once the handler has caught up.
+   */
+  private drain(): void {
+    if (this.blocked && this.pending.length < MAX_PENDING_REQUESTS) {
+      this.blocked = false
+      this.listener.onDrain()
+    }
+  }
+
+  private notifyRequest(): void {
+    const { nextRequest } = this
+    this.nextRequest = null
+    nextRequest?.()
+  }
+}
+
+/**
+ * The handler side of a loopback call.
+ *
+ * Runs the handler once the caller has the call, and reports its responses
+ * and then exactly one status. Cancelling the call or reaching its deadline
+ * aborts the handler's signal and stops iterating its responses.
+ */
+class LoopbackExchange implements CallDriver {
+  readonly peer = LOOPBACK_PEER
+  private readonly handlers: CallHandlers
+  private readonly controller = new AbortController()
+  private finished = false
+  private timer: ReturnType<typeof setTimeout> | undefined
+
+  constructor(handlers: CallHandlers) {
+    this.handlers = handlers
+  }
+
+  start<TRequest, TResponse>(
+    method: LoopbackMethod<TRequest, TResponse>,
+    serve: Serve<TResponse> | undefined,
+    metadata: Metadata,
+    options: TransportCallOptions
+  ): void {
+    const timeoutMs = deadlineToTimeout(options.deadline)
+    if (timeoutMs !== undefined) {
+      this.timer = setTimeout(() => {
+        this.finish(callStatus(StatusCode.DEADLINE_EXCEEDED, "Deadline exceeded", new Metadata()))
+      }, timeoutMs)
+    }
+
+    this.run(method, serve, metadata.clone()).catch((error: unknown) => {
+      // A call that has already ended stops its handler by aborting it
+      if (this.finished) {
+        return
+      }
+      this.finish(errorStatus(error))
+    })
+  }
+
+  cancel(): void {
+    this.finish(callStatus(StatusCode.CANCELLED, "Cancelled on client", new Metadata()))
+  }
+
+  /**
+   * Ends the call with a status, aborting the handler if it is still
+   * running. Later calls are ignored.
+   *
+   * As with grpc-js, the status is reported asynchronously, so a call
+   * cancelled as soon as it is made still reaches its listeners.
+   */
+  finish(status: TransportStatus): void {
+    if (this.finished) {
+      return
+    }
+    this.finished = true
+    clearTimeout(this.timer)
+    this.controller.abort()
+    queueMicrotask(() => {
+      this.handlers.onStatus(status)
+    })
+  }
+
+  private async run<TRequest, TResponse>(
+    method: LoopbackMethod<TRequest, TResponse>,
+    serve: Serve<TResponse> | undefined,
+    metadata: Metadata
+  ): Promise<void> {
+    // Nothing is reported before the caller has the call
+    await Promise.resolve()
+    const { signal } = this.controller
+    signal.throwIfAborted()
+
+    if (serve === undefined) {
+      this.finish(
+        callStatus(
+          StatusCode.UNIMPLEMENTED,
+          `The server does not implement the method ${method.path}`,
+          new Metadata()
+        )
+      )
+      return
+    }
+
+    this.handlers.onMetadata(new Metadata())
+    for await (const response of serve({ metadata, peer: LOOPBACK_PEER, signal })) {
+      signal.throwIfAborted()
+      await this.handlers.onMessage(method.responseSerialize(response))
+    }
+    this.finish(callStatus(StatusCode.OK, "OK", new Metadata()))
+  }
+}
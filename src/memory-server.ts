@@ -0,0 +1,216 @@
+/**
+ * In-memory reference Flight server.
+ *
+ * Stores datasets uploaded with DoPut and serves them back, so that
+ * examples and tests can run without an external Flight server.
+ *
+ * @packageDocumentation
+ */
+
+import { Message } from "apache-arrow"
+
+import {
+  type Action,
+  type ActionType,
+  CancelFlightInfoRequest,
+  CancelFlightInfoResult,
+  CancelStatus,
+  type FlightData,
+  type FlightDescriptor,
+  FlightDescriptor_DescriptorType as DescriptorType,
+  type FlightInfo,
+  type PutResult,
+  type Result,
+  type Ticket
+} from "./generated/arrow/flight/protocol/Flight.js"
+import { flightDataToIpc } from "./ipc.js"
+import { FlightServer, type FlightServerOptions, type FlightServiceHandlers } from "./server.js"
+import { FlightError } from "./types.js"
+
+/**
+ * A dataset uploaded with DoPut.
+ */
+type StoredFlight = {
+  descriptor: FlightDescriptor
+  schema: Buffer
+  messages: FlightData[]
+  totalRecords: number
+  totalBytes: number
+}
+
+const CANCEL_FLIGHT_INFO: ActionType = {
+  type: "CancelFlightInfo",
+  description: "Cancel a flight and discard its data"
+}
+
+/**
+ * Options for creating an InMemoryFlightServer.
+ */
+export type InMemoryFlightServerOptions = FlightServerOptions & {
+  /**
+   * Adds handlers to the in-memory ones or replaces them, for example to
+   * authenticate clients or run custom actions. It is called with the
+   * in-memory handlers, which a replacement may delegate to.
+   */
+  extendHandlers?: (handlers: FlightServiceHandlers) => FlightServiceHandlers
+}
+
+/**
+ * Flight server that keeps uploaded datasets in memory.
+ *
+ * Each DoPut upload is stored under the path of its PathDescriptor,
+ * replacing any earlier upload to the same path. Stored datasets are
+ * described by GetFlightInfo, GetSchema and ListFlights, read back with
+ * DoGet, and discarded by the `CancelFlightInfo` action. Every flight has
+ * one endpoint that is read from this server.
+ *
+ * @example
+ * ```ts
+ * const server = new InMemoryFlightServer()
+ * const client = await createFlightClient(await server.listen())
+ *
+ * await client.putTable(pathDescriptor("scores"), table)
+ * const info = await client.getFlightInfo(pathDescriptor("scores"))
+ * const copy = await client.readFlightTable(info)
+ * ```
+ */
+export class InMemoryFlightServer extends FlightServer {
+  /**
+   * Creates a new, empty InMemoryFlightServer.
+   *
+   * @param options - Server options
+   */
+  constructor(options: InMemoryFlightServerOptions = {}) {
+    const handlers = createHandlers(new Map())
+    super({ ...handlers, ...options.extendHandlers?.(handlers) }, options)
+  }
+}
+
+/**
+ * Creates the handlers serving the given store.
+ */
+function createHandlers(flights: Map<string, StoredFlight>): FlightServiceHandlers {
+  const find = (descriptor: FlightDescriptor): StoredFlight => {
+    const flight = flights.get(flightKey(descriptor))
+    if (flight === undefined) {
+      throw new FlightError(`flight not found: ${descriptor.path.join("/")}`, "NOT_FOUND")
+    }
+    return flight
+  }
+
+  return {
+    async *doPut(messages): AsyncGenerator<PutResult> {
+      let descriptor: FlightDescriptor | undefined
+      const stored: FlightData[] = []
+      for await (const message of messages) {
+        if (descriptor === undefined) {
+          descriptor = message.flightDescriptor
+          if (descriptor === undefined) {
+            throw new FlightError("first DoPut message has no descriptor", "INVALID_ARGUMENT")
+          }
+          // Reject unsupported descriptors before reading the upload
+          flightKey(descriptor)
+        }
+        // Messages without an IPC header only carry app metadata, which is not stored
+        if (message.dataHeader.length > 0) {
+          stored.push({ ...message, flightDescriptor: undefined })
+        }
+      }
+      if (descriptor === undefined) {
+        throw new FlightError("DoPut stream is empty", "INVALID_ARGUMENT")
+      }
+
+      flights.set(flightKey(descriptor), storeFlight(descriptor, stored))
+      yield { appMetadata: Buffer.alloc(0) }
+    },
+
+    getFlightInfo: (descriptor) => toFlightInfo(find(descriptor)),
+
+    getSchema: (descriptor) => ({ schema: find(descriptor).schema }),
+
+    listFlights: () => Array.from(flights.values(), toFlightInfo),
+
+    doGet(ticket: Ticket): FlightData[] {
+      const flight = flights.get(ticket.ticket.toString())
+      if (flight === undefined) {
+        throw new FlightError("unknown ticket", "NOT_FOUND")
+      }
+      return flight.messages
+    },
+
+    doAction(action: Action): Result[] {
+      if (action.type !== CANCEL_FLIGHT_INFO.type) {
+        throw new FlightError(`unknown action: ${action.type}`, "UNIMPLEMENTED")
+      }
+
+      const { info } = CancelFlightInfoRequest.decode(action.body)
+      if (info?.flightDescriptor === undefined) {
+        throw new FlightError("CancelFlightInfo request has no flight", "INVALID_ARGUMENT")
+      }
+      const { descriptor } = find(info.flightDescriptor)
+      flights.delete(flightKey(descriptor))
+
+      const result = { status: CancelStatus.CANCEL_STATUS_CANCELLED }
+      return [{ body: Buffer.from(CancelFlightInfoResult.encode(result).finish()) }]
+    },
+
+    listActions: () => [CANCEL_FLIGHT_INFO]
+  }
+}
+
+/**
+ * Returns the key a descriptor's dataset is stored under, which is also
+ * the ticket of its endpoint.
+ */
+function flightKey(descriptor: FlightDescriptor): string {
+  if (descriptor.type !== DescriptorType.PATH) {
+    throw new FlightError("only path descriptors are supported", "INVALID_ARGUMENT")
+  }
+  return JSON.stringify(descriptor.path)
+}
+
+/**
+ * Validates an uploaded stream and computes its statistics.
+ */
+function storeFlight(descriptor: FlightDescriptor, messages: FlightData[]): StoredFlight {
+  if (messages.length === 0 || !Message.decode(messages[0].dataHeader).isSchema()) {
+    throw new FlightError("DoPut stream does not start with a schema", "INVALID_ARGUMENT")
+  }
+
+  let totalRecords = 0
+  let totalBytes = 0
+  for (const message of messages) {
+    const decoded = Message.decode(message.dataHeader)
+    if (decoded.isRecordBatch()) {
+      totalRecords += decoded.header().length
+    }
+    totalBytes += message.dataBody.length
+  }
+
+  return {
+    descriptor,
+    schema: Buffer.from(flightDataToIpc([messages[0]])),
+    messages,
+    totalRecords,
+    totalBytes
+  }
+}
+
+function toFlightInfo(flight: StoredFlight): FlightInfo {
+  return {
+    schema: flight.schema,
+    flightDescriptor: flight.descriptor,
+    endpoint: [
+      {
+        ticket: { ticket: Buffer.from(flightKey(flight.descriptor)) },
+        location: [],
+        expirationTime: undefined,
+        appMetadata: Buffer.alloc(0)
+      }
+    ],
+    totalRecords: flight.totalRecords,
+    totalBytes: flight.totalBytes,
+    ordered: false,
+    appMetadata: Buffer.alloc(0)
+  }
+}
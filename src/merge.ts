@@ -0,0 +1,242 @@
+/**
+ * Concurrent reading of multiple async streams.
+ *
+ * Used by FlightClient to read the endpoints of a flight in parallel.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Options for merging streams.
+ *
+ * @internal
+ */
+export type MergeOptions = {
+  /**
+   * Maximum number of sources read at the same time.
+   */
+  concurrency: number
+
+  /**
+   * Whether to yield every item of a source before any item of the next.
+   */
+  ordered: boolean
+
+  /**
+   * Maximum number of items read ahead of the consumer, per source when
+   * ordered and across all sources otherwise. A source is not read while
+   * its buffer is full.
+   */
+  bufferSize: number
+}
+
+/**
+ * Reads several sources concurrently and yields their items as one stream.
+ *
+ * Sources are opened in order, at most `concurrency` at a time. When
+ * `ordered` is set, items are yielded source by source in order while later
+ * sources are already being read ahead; otherwise items are yielded as soon
+ * as any source produces them. At most `bufferSize` items are read ahead
+ * into each buffer, so memory stays bounded however large the sources are.
+ *
+ * The first source error fails the merged stream at once, even if it comes
+ * from a source whose items would only be yielded later. Sources that are
+ * still open when the merged stream ends or fails are returned early.
+ *
+ * @param sources - Functions that open each source
+ * @param options - Concurrency and ordering options
+ * @returns An async iterable over the items of all sources
+ *
+ * @internal
+ */
+export async function* mergeStreams<T>(
+  sources: readonly (() => AsyncIterable<T>)[],
+  options: MergeOptions
+): AsyncGenerator<T, void, undefined> {
+  const shared = new StreamBuffer<T>(options.bufferSize)
+  const buffers: StreamBuffer<T>[] = options.ordered ? [] : [shared]
+  let opened = 0
+  let active = 0
+
+  // Fails every buffer, so the one being drained throws without waiting for its turn
+  const fail = (error: unknown): void => {
+    for (const buffer of buffers) {
+      buffer.fail(error)
+    }
+  }
+
+  const openNext = (): void => {
+    const open = sources[opened]
+    opened++
+    active++
+
+    const buffer = options.ordered ? new StreamBuffer<T>(options.bufferSize) : shared
+    if (options.ordered) {
+      buffers.push(buffer)
+    }
+    void buffer.fill(open(), fail, () => {
+      active--
+      if (options.ordered) {
+        buffer.end()
+      } else if (opened < sources.length) {
+        openNext()
+      } else if (active === 0) {
+        shared.end()
+      }
+    })
+  }
+
+  try {
+    if (sources.length === 0) {
+      return
+    }
+    while (opened < Math.min(options.concurrency, sources.length)) {
+      openNext()
+    }
+
+    if (!options.ordered) {
+      yield* shared.drain()
+      return
+    }
+
+    for (let index = 0; index < sources.length; index++) {
+      yield* buffers[index].drain()
+      if (opened < sources.length) {
+        openNext()
+      }
+    }
+  } finally {
+    for (const buffer of buffers) {
+      buffer.stop()
+    }
+  }
+}
+
+/**
+ * Items read from one or more sources, waiting to be consumed.
+ */
+class StreamBuffer<T> {
+  private readonly capacity: number
+  private readonly items: T[] = []
+  private ended = false
+  private failure: { error: unknown } | null = null
+  private stopped = false
+  private notify: (() => void) | null = null
+  private spaceWaiters: (() => void)[] = []
+
+  /**
+   * @param capacity - Number of items held before sources are paused
+   */
+  constructor(capacity: number) {
+    this.capacity = capacity
+  }
+
+  /**
+   * Reads a source into the buffer until it ends, fails, or is stopped,
+   * pausing while the buffer is full.
+   *
+   * Errors are passed to `onError` and never rejected, so the returned
+   * promise can be left floating.
+   *
+   * @param source - The source to read
+   * @param onError - Called with the error if the source fails
+   * @param onDone - Called when the source has ended successfully
+   */
+  async fill(
+    source: AsyncIterable<T>,
+    onError: (error: unknown) => void,
+    onDone: () => void
+  ): Promise<void> {
+    try {
+      for await (const item of source) {
+        if (this.stopped) {
+          return
+        }
+        this.items.push(item)
+        this.wake()
+        while (this.isFull()) {
+          await new Promise<void>((resolve) => {
+            this.spaceWaiters.push(resolve)
+          })
+        }
+      }
+      if (!this.stopped) {
+        onDone()
+      }
+    } catch (error) {
+      onError(error)
+    }
+  }
+
+  /**
+   * Marks the buffer as complete once all sources feeding it have ended.
+   */
+  end(): void {
+    this.ended = true
+    this.wake()
+  }
+
+  /**
+   * Fails the buffer: draining throws the error before any buffered item.
+   * Only the first error is kept.
+   */
+  fail(error: unknown): void {
+    this.failure ??= { error }
+    this.wake()
+  }
+
+  /**
+   * Stops reading; sources return early at their next item.
+   */
+  stop(): void {
+    this.stopped = true
+    this.releaseSpace()
+  }
+
+  /**
+   * Yields buffered items until the buffer ends, throwing the first error.
+   */
+  async *drain(): AsyncGenerator<T, void, undefined> {
+    for (;;) {
+      if (this.failure !== null) {
+        throw this.failure.error
+      } else if (this.items.length > 0) {
+        const item = this.items[0]
+        this.items.splice(0, 1)
+        this.releaseSpace()
+        yield item
+      } else if (this.ended) {
+        return
+      } else {
+        await new Promise<void>((resolve) => {
+          this.notify = resolve
+        })
+      }
+    }
+  }
+
+  /**
+   * Whether a running source has to wait for the consumer.
+   */
+  private isFull(): boolean {
+    return this.items.length >= this.capacity && !this.stopped
+  }
+
+  private wake(): void {
+    if (this.notify !== null) {
+      this.notify()
+      this.notify = null
+    }
+  }
+
+  /**
+   * Resumes the paused sources, which check for space again.
+   */
+  private releaseSpace(): void {
+    const waiters = this.spaceWaiters
+    this.spaceWaiters = []
+    for (const resolve of waiters) {
+      resolve()
+    }
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Call metadata.
+ *
+ * The headers and trailers of a Flight call, independent of the transport
+ * that carries them. Keys follow the gRPC rules: they are lowercase, and
+ * keys ending in `-bin` hold binary values while all others hold printable
+ * ASCII strings.
+ *
+ * @packageDocumentation
+ */
+
+/** Characters allowed in a metadata key. */
+const LEGAL_KEY = /^[:0-9a-z_.-]+$/
+
+/** Characters allowed in a string metadata value. */
+const LEGAL_STRING_VALUE = /^[ -~]*$/
+
+/**
+ * A metadata value: a Buffer for `-bin` keys, a string for others.
+ */
+export type MetadataValue = string | Buffer
+
+/**
+ * Headers or trailers of a call, with any number of values per key.
+ *
+ * @example
+ * ```ts
+ * const metadata = new Metadata()
+ * metadata.set("x-request-id", "42")
+ * metadata.add("x-trace-bin", Buffer.from([1, 2, 3]))
+ * console.log(metadata.get("x-request-id")) // ["42"]
+ * ```
+ */
+export class Metadata {
+  private readonly entries = new Map<string, MetadataValue[]>()
+
+  /**
+   * Replaces the values of a key with a single value.
+   *
+   * @throws {Error} If the key or value is not valid metadata
+   */
+  set(key: string, value: MetadataValue): void {
+    const normalized = validate(key, value)
+    this.entries.set(normalized, [value])
+  }
+
+  /**
+   * Adds a value to a key, keeping its other values.
+   *
+   * @throws {Error} If the key or value is not valid metadata
+   */
+  add(key: string, value: MetadataValue): void {
+    const normalized = validate(key, value)
+    const values = this.entries.get(normalized)
+    if (values === undefined) {
+      this.entries.set(normalized, [value])
+    } else {
+      values.push(value)
+    }
+  }
+
+  /**
+   * Removes every value of a key.
+   */
+  remove(key: string): void {
+    this.entries.delete(key.toLowerCase())
+  }
+
+  /**
+   * Gets the values of a key, in the order they were added.
+   */
+  get(key: string): MetadataValue[] {
+    return [...(this.entries.get(key.toLowerCase()) ?? [])]
+  }
+
+  /**
+   * Gets the first value of each key.
+   */
+  getMap(): Record<string, MetadataValue> {
+    const map: Record<string, MetadataValue> = {}
+    for (const [key, [value]] of this.entries) {
+      map[key] = value
+    }
+    return map
+  }
+
+  /**
+   * Gets every value of each key.
+   */
+  toJSON(): Record<string, MetadataValue[]> {
+    const record: Record<string, MetadataValue[]> = {}
+    for (const [key, values] of this.entries) {
+      record[key] = [...values]
+    }
+    return record
+  }
+
+  /**
+   * Copies the metadata, including its binary values.
+   */
+  clone(): Metadata {
+    const copy = new Metadata()
+    for (const [key, values] of this.entries) {
+      copy.entries.set(
+        key,
+        values.map((value) => (typeof value === "string" ? value : Buffer.from(value)))
+      )
+    }
+    return copy
+  }
+
+  /**
+   * Adds every value of other metadata.
+   */
+  merge(other: Metadata): void {
+    for (const [key, values] of other.entries) {
+      this.entries.set(key, [...(this.entries.get(key) ?? []), ...values])
+    }
+  }
+}
+
+/**
+ * Checks a key and value, returning the lowercase key.
+ *
+ * @throws {Error} If the key has illegal characters, or the value does not
+ *   match the kind of key
+ */
+function validate(key: string, value: MetadataValue): string {
+  const normalized = key.toLowerCase()
+  if (!LEGAL_KEY.test(normalized)) {
+    throw new Error(`Metadata key "${key}" contains illegal characters`)
+  }
+  if (normalized.endsWith("-bin")) {
+    if (typeof value === "string") {
+      throw new Error("keys that end with '-bin' must have Buffer values")
+    }
+  } else if (typeof value !== "string") {
+    throw new Error("keys that don't end with '-bin' must have String values")
+  } else if (!LEGAL_STRING_VALUE.test(value)) {
+    throw new Error(`Metadata string value "${value}" contains illegal characters`)
+  }
+  return normalized
+}
@@ -0,0 +1,120 @@
+/**
+ * Client middleware support.
+ *
+ * Runs the configured ClientMiddleware hooks around each call made by
+ * FlightClient.
+ *
+ * @packageDocumentation
+ */
+
+import type { Metadata } from "./metadata.js"
+import { type CallListener, StatusCode } from "./transport.js"
+import {
+  type CallOptions,
+  type CallStatus,
+  type ClientMiddleware,
+  type ClientMiddlewareFactory,
+  type FlightMethod,
+  grpcStatusToFlightCode
+} from "./types.js"
+
+/**
+ * Wraps the listener of a call so that its response headers and final
+ * status also reach the middleware of the call.
+ *
+ * @internal
+ */
+export type CallObserver = <L extends CallListener<never>>(listener: L) => L
+
+/**
+ * Starts middleware for a call.
+ *
+ * Each factory is asked for middleware, which may modify the outgoing
+ * headers immediately. The returned observer must be applied to the
+ * listener the call is started with, so that its response headers and
+ * final status reach the middleware.
+ *
+ * @param factories - The configured middleware factories
+ * @param method - The RPC method being called
+ * @param headers - The outgoing headers of the call
+ * @returns An observer for the started call
+ *
+ * @internal
+ */
+export function startCallMiddleware(
+  factories: readonly ClientMiddlewareFactory[],
+  method: FlightMethod,
+  headers: Metadata
+): CallObserver {
+  const middleware: ClientMiddleware[] = []
+  for (const factory of factories) {
+    const instance = factory({ method })
+    if (instance !== undefined) {
+      middleware.push(instance)
+    }
+  }
+
+  if (middleware.length === 0) {
+    return (listener) => listener
+  }
+
+  for (const instance of middleware) {
+    instance.sendingHeaders?.(headers)
+  }
+
+  const startedAt = performance.now()
+
+  return (listener) => ({
+    ...listener,
+    onMetadata: (received: Metadata) => {
+      for (const instance of middleware) {
+        instance.receivedHeaders?.(received)
+      }
+      listener.onMetadata(received)
+    },
+    onStatus: (status) => {
+      const result: CallStatus = {
+        code: status.code === StatusCode.OK ? "OK" : grpcStatusToFlightCode(status.code),
+        details: status.details,
+        trailers: status.metadata,
+        durationMs: performance.now() - startedAt
+      }
+      for (const instance of middleware) {
+        instance.callCompleted?.(result)
+      }
+      listener.onStatus(status)
+    }
+  })
+}
+
+/**
+ * Adapts the `onHeaders` and `onTrailers` options of a call to middleware,
+ * so that they run after the configured middleware.
+ *
+ * @param factories - The configured middleware factories
+ * @param callOptions - The options of the call
+ * @returns The middleware factories for the call
+ *
+ * @internal
+ */
+export function withResponseCallbacks(
+  factories: readonly ClientMiddlewareFactory[],
+  callOptions: CallOptions | undefined
+): readonly ClientMiddlewareFactory[] {
+  const onHeaders = callOptions?.onHeaders
+  const onTrailers = callOptions?.onTrailers
+  if (onHeaders === undefined && onTrailers === undefined) {
+    return factories
+  }
+
+  const callbacks: ClientMiddleware = {
+    receivedHeaders: onHeaders,
+    callCompleted:
+      onTrailers === undefined
+        ? undefined
+        : ({ trailers }) => {
+            onTrailers(trailers)
+          }
+  }
+  return [...factories, () => callbacks]
+}
@@ -0,0 +1,144 @@
+/**
+ * Retry policy for idempotent Flight RPCs.
+ *
+ * Provides the defaults and backoff calculation used by FlightClient
+ * when a `retry` policy is configured.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  FlightError,
+  type FlightErrorCode,
+  type RetryableMethod,
+  type RetryOptions
+} from "./types.js"
+
+/**
+ * A retry policy with every option resolved to a concrete value.
+ *
+ * @internal
+ */
+export type ResolvedRetryPolicy = {
+  maxAttempts: number
+  initialBackoffMs: number
+  maxBackoffMs: number
+  backoffMultiplier: number
+  jitter: number
+  retriableCodes: ReadonlySet<FlightErrorCode>
+  methods: ReadonlySet<RetryableMethod>
+}
+
+/**
+ * Error codes retried by default, matching `FlightError.isRetriable()`.
+ */
+const DEFAULT_RETRIABLE_CODES: readonly FlightErrorCode[] = [
+  "UNAVAILABLE",
+  "RESOURCE_EXHAUSTED",
+  "ABORTED"
+]
+
+/**
+ * Methods retried by default. `doGet` is opt-in.
+ */
+const DEFAULT_METHODS: readonly RetryableMethod[] = [
+  "getFlightInfo",
+  "getSchema",
+  "listFlights",
+  "listActions"
+]
+
+/**
+ * Resolves retry options against the defaults.
+ *
+ * @param options - The configured retry options
+ * @returns The resolved policy, or null if retries are disabled
+ * @throws {FlightError} If an option is out of range
+ *
+ * @internal
+ */
+export function resolveRetryPolicy(options: RetryOptions | undefined): ResolvedRetryPolicy | null {
+  if (options === undefined) {
+    return null
+  }
+
+  const policy: ResolvedRetryPolicy = {
+    maxAttempts: options.maxAttempts ?? 3,
+    initialBackoffMs: options.initialBackoffMs ?? 100,
+    maxBackoffMs: options.maxBackoffMs ?? 10_000,
+    backoffMultiplier: options.backoffMultiplier ?? 2,
+    jitter: options.jitter ?? 0.2,
+    retriableCodes: new Set(options.retriableCodes ?? DEFAULT_RETRIABLE_CODES),
+    methods: new Set(options.methods ?? DEFAULT_METHODS)
+  }
+
+  if (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1) {
+    throw new FlightError("retry maxAttempts must be a positive integer", "INVALID_ARGUMENT")
+  }
+  if (policy.jitter < 0 || policy.jitter > 1) {
+    throw new FlightError("retry jitter must be between 0 and 1", "INVALID_ARGUMENT")
+  }
+
+  return policy
+}
+
+/**
+ * Checks whether a failed attempt should be retried.
+ *
+ * @param policy - The resolved retry policy
+ * @param method - The method that failed
+ * @param error - The error raised by the attempt
+ * @param attempt - The number of attempts made so far (1-based)
+ *
+ * @internal
+ */
+export function shouldRetry(
+  policy: ResolvedRetryPolicy,
+  method: RetryableMethod,
+  error: unknown,
+  attempt: number
+): boolean {
+  return (
+    attempt < policy.maxAttempts &&
+    policy.methods.has(method) &&
+    error instanceof FlightError &&
+    policy.retriableCodes.has(error.code)
+  )
+}
+
+/**
+ * Calculates the delay before the next attempt.
+ *
+ * The delay grows exponentially from `initialBackoffMs` by
+ * `backoffMultiplier`, is capped at `maxBackoffMs`, and is then reduced
+ * by a random fraction of up to `jitter` to spread out retries.
+ *
+ * @param policy - The resolved retry policy
+ * @param attempt - The number of attempts made so far (1-based)
+ * @returns The delay in milliseconds
+ *
+ * @internal
+ */
+export function backoffDelay(policy: ResolvedRetryPolicy, attempt: number): number {
+  const exponential = policy.initialBackoffMs * policy.backoffMultiplier ** (attempt - 1)
+  const capped = Math.min(exponential, policy.maxBackoffMs)
+  return capped * (1 - policy.jitter * Math.random())
+}
+
+/**
+ * Calculates the delay before retrying a failed attempt.
+ *
+ * A delay requested by the server in a `RetryInfo` error detail is used
+ * as given, without jitter or cap. Otherwise the backoff delay applies.
+ *
+ * @param policy - The resolved retry policy
+ * @param attempt - The number of attempts made so far (1-based)
+ * @param error - The error raised by the attempt
+ * @returns The delay in milliseconds
+ *
+ * @internal
+ */
+export function retryDelay(policy: ResolvedRetryPolicy, attempt: number, error: unknown): number {
+  const requested = error instanceof FlightError ? error.retryDelayMs : undefined
+  return requested ?? backoffDelay(policy, attempt)
+}
@@ -0,0 +1,452 @@
+/**
+ * Arrow Flight server.
+ *
+ * Serves FlightServiceHandlers over gRPC using `@grpc/grpc-js`, for local
+ * Flight services and hermetic tests.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  type ChannelOptions,
+  type handleBidiStreamingCall,
+  type handleServerStreamingCall,
+  type handleUnaryCall,
+  Server,
+  ServerCredentials,
+  type ServerDuplexStream,
+  type ServerUnaryCall,
+  type ServerWritableStream,
+  type ServiceError,
+  type UntypedServiceImplementation
+} from "@grpc/grpc-js"
+import { type EventEmitter, once } from "events"
+
+import { errorStatus } from "./calls.js"
+import type {
+  Action,
+  ActionType,
+  Criteria,
+  Empty,
+  FlightData,
+  FlightDescriptor,
+  FlightInfo,
+  HandshakeRequest,
+  HandshakeResponse,
+  PollInfo,
+  PutResult,
+  Result,
+  SchemaResult,
+  Ticket
+} from "./generated/arrow/flight/protocol/Flight.js"
+import { fromGrpcMetadata, toGrpcMetadata } from "./grpc-transport.js"
+import { createLocation, parseLocation } from "./location.js"
+import type { Metadata } from "./metadata.js"
+import { FlightServiceService } from "./service.js"
+import { FlightError, type Location } from "./types.js"
+
+/**
+ * Details of an incoming call, passed to every handler.
+ */
+export type ServerCallContext = {
+  /**
+   * Headers sent by the client.
+   */
+  metadata: Metadata
+
+  /**
+   * Address of the client.
+   */
+  peer: string
+
+  /**
+   * Aborted when the client cancels the call or its deadline passes.
+   */
+  signal: AbortSignal
+}
+
+/**
+ * Handles a call with one request and one response.
+ */
+export type UnaryHandler<Req, Res> = (
+  request: Req,
+  context: ServerCallContext
+) => Promise<Res> | Res
+
+/**
+ * Handles a call with one request and a stream of responses.
+ */
+export type ServerStreamingHandler<Req, Res> = (
+  request: Req,
+  context: ServerCallContext
+) => AsyncIterable<Res> | Iterable<Res>
+
+/**
+ * Handles a call with a stream of requests and a stream of responses.
+ */
+export type BidiStreamingHandler<Req, Res> = (
+  requests: AsyncIterable<Req>,
+  context: ServerCallContext
+) => AsyncIterable<Res> | Iterable<Res>
+
+/**
+ * Handlers for the RPC methods of a Flight service.
+ *
+ * Every handler is optional; calls to a method without a handler fail with
+ * `UNIMPLEMENTED`. A handler fails its call by throwing, and a thrown
+ * FlightError keeps its code and metadata. Streaming handlers are usually
+ * async generators; the server stops iterating them when the call is
+ * cancelled.
+ *
+ * @example
+ * ```ts
+ * const handlers: FlightServiceHandlers = {
+ *   async *listActions() {
+ *     yield { type: "ping", description: "Check the server is alive" }
+ *   },
+ *   async *doAction(action) {
+ *     if (action.type !== "ping") {
+ *       throw new FlightError(`unknown action: ${action.type}`, "INVALID_ARGUMENT")
+ *     }
+ *     yield { body: Buffer.from("pong") }
+ *   }
+ * }
+ * ```
+ */
+export type FlightServiceHandlers = {
+  /**
+   * Authenticates the client, with as many round-trips as needed.
+   */
+  handshake?: BidiStreamingHandler<HandshakeRequest, HandshakeResponse>
+
+  /**
+   * Lists the flights matching the criteria.
+   */
+  listFlights?: ServerStreamingHandler<Criteria, FlightInfo>
+
+  /**
+   * Describes how to read a flight.
+   */
+  getFlightInfo?: UnaryHandler<FlightDescriptor, FlightInfo>
+
+  /**
+   * Starts or polls a long-running query.
+   */
+  pollFlightInfo?: UnaryHandler<FlightDescriptor, PollInfo>
+
+  /**
+   * Returns the Arrow schema of a flight.
+   */
+  getSchema?: UnaryHandler<FlightDescriptor, SchemaResult>
+
+  /**
+   * Streams the data of a ticket to the client.
+   */
+  doGet?: ServerStreamingHandler<Ticket, FlightData>
+
+  /**
+   * Receives data uploaded by the client.
+   */
+  doPut?: BidiStreamingHandler<FlightData, PutResult>
+
+  /**
+   * Exchanges data with the client in both directions.
+   */
+  doExchange?: BidiStreamingHandler<FlightData, FlightData>
+
+  /**
+   * Runs a custom action.
+   */
+  doAction?: ServerStreamingHandler<Action, Result>
+
+  /**
+   * Lists the custom actions the service supports.
+   */
+  listActions?: (context: ServerCallContext) => AsyncIterable<ActionType> | Iterable<ActionType>
+}
+
+/**
+ * Options for creating a FlightServer.
+ */
+export type FlightServerOptions = {
+  /**
+   * Credentials the server listens with.
+   * Required for `grpc+tls` locations.
+   *
+   * @default ServerCredentials.createInsecure()
+   */
+  credentials?: ServerCredentials
+
+  /**
+   * Additional gRPC channel options, e.g. `"grpc.max_receive_message_length"`.
+   */
+  channelOptions?: ChannelOptions
+}
+
+/**
+ * Server lifecycle state.
+ */
+export type ServerState = "idle" | "listening" | "closed"
+
+/**
+ * Arrow Flight server running in this process.
+ *
+ * @example
+ * ```ts
+ * const table = tableFromArrays({ id: Int32Array.from([1, 2, 3]) })
+ * const server = new FlightServer({
+ *   doGet: () => recordBatchesToFlightData(table)
+ * })
+ *
+ * const location = await server.listen("grpc://localhost:0")
+ * const client = await createFlightClient(location)
+ *
+ * // Use client methods...
+ *
+ * client.close()
+ * await server.close()
+ * ```
+ */
+export class FlightServer {
+  private readonly server: Server
+  private readonly credentials: ServerCredentials | undefined
+  private _state: ServerState = "idle"
+  private _location: Location | null = null
+
+  /**
+   * Creates a new FlightServer instance.
+   *
+   * @param handlers - Handlers for the RPC methods the server implements
+   * @param options - Server options
+   */
+  constructor(handlers: FlightServiceHandlers, options: FlightServerOptions = {}) {
+    this.server = new Server(options.channelOptions)
+    this.credentials = options.credentials
+    this.server.addService(FlightServiceService, createImplementation(handlers))
+  }
+
+  /**
+   * Current server state.
+   */
+  get state(): ServerState {
+    return this._state
+  }
+
+  /**
+   * Location clients can connect to, once the server is listening.
+   */
+  get location(): Location | null {
+    return this._location
+  }
+
+  /**
+   * Starts listening for connections.
+   *
+   * Without a port, or with port 0, a free port is picked; the returned
+   * location contains the port actually bound. `grpc+unix` locations listen on a Unix domain socket.
+   *
+   * @param location - The location to listen on
+   * @returns The location clients can connect to
+   * @throws {LocationParseError} If the location is invalid
+   * @throws {FlightError} If the server is not idle, a TLS location has no
+   *   credentials, or the address cannot be bound
+   *
+   * @example
+   * ```ts
+   * const location = await server.listen("grpc://0.0.0.0:8815")
+   * ```
+   */
+  async listen(location: Location | string = "grpc://localhost:0"): Promise<Location> {
+    if (this._state !== "idle") {
+      throw new FlightError(`server is ${this._state}`, "FAILED_PRECONDITION")
+    }
+
+    const parsed = parseLocation(location)
+    if (parsed.reuseConnection) {
+      throw new FlightError("cannot listen on a reuse connection location", "INVALID_ARGUMENT")
+    }
+    if (parsed.secure && this.credentials === undefined) {
+      throw new FlightError(`${parsed.uri} requires server credentials`, "INVALID_ARGUMENT")
+    }
+    const credentials = this.credentials ?? ServerCredentials.createInsecure()
+
+    const unix = parsed.scheme === "grpc+unix"
+    const address = unix ? `unix:${parsed.host}` : `${parsed.host}:${String(parsed.port ?? 0)}`
+
+    const port = await new Promise<number>((resolve, reject) => {
+      this.server.bindAsync(address, credentials, (error, boundPort) => {
+        if (error === null) {
+          resolve(boundPort)
+        } else {
+          reject(
+            new FlightError(`failed to listen on ${parsed.uri}: ${error.message}`, "UNAVAILABLE", {
+              cause: error
+            })
+          )
+        }
+      })
+    })
+
+    this._state = "listening"
+    this._location = unix ? { uri: parsed.uri } : createLocation(parsed.scheme, parsed.host, port)
+    return this._location
+  }
+
+  /**
+   * Stops accepting calls and waits for running calls to finish.
+   */
+  async close(): Promise<void> {
+    if (this._state === "closed") {
+      return
+    }
+    this._state = "closed"
+
+    await new Promise<void>((resolve) => {
+      this.server.tryShutdown(() => {
+        resolve()
+      })
+    })
+  }
+
+  /**
+   * Stops the server immediately, cancelling running calls.
+   */
+  forceClose(): void {
+    this._state = "closed"
+    this.server.forceShutdown()
+  }
+}
+
+/**
+ * The grpc-js handlers of the Flight service methods.
+ */
+type FlightServiceServer = {
+  handshake: handleBidiStreamingCall<HandshakeRequest, HandshakeResponse>
+  listFlights: handleServerStreamingCall<Criteria, FlightInfo>
+  getFlightInfo: handleUnaryCall<FlightDescriptor, FlightInfo>
+  pollFlightInfo: handleUnaryCall<FlightDescriptor, PollInfo>
+  getSchema: handleUnaryCall<FlightDescriptor, SchemaResult>
+  doGet: handleServerStreamingCall<Ticket, FlightData>
+  doPut: handleBidiStreamingCall<FlightData, PutResult>
+  doExchange: handleBidiStreamingCall<FlightData, FlightData>
+  doAction: handleServerStreamingCall<Action, Result>
+  listActions: handleServerStreamingCall<Empty, ActionType>
+}
+
+/**
+ * Adapts handlers to the grpc-js service implementation.
+ *
+ * Methods without a handler are left out, so grpc-js answers them with
+ * `UNIMPLEMENTED`.
+ */
+function createImplementation(handlers: FlightServiceHandlers): UntypedServiceImplementation {
+  const { listActions } = handlers
+  const implementation: Partial<FlightServiceServer> = {
+    handshake: handlers.handshake && serveBidiStreaming(handlers.handshake),
+    listFlights: handlers.listFlights && serveServerStreaming(handlers.listFlights),
+    getFlightInfo: handlers.getFlightInfo && serveUnary(handlers.getFlightInfo),
+    pollFlightInfo: handlers.pollFlightInfo && serveUnary(handlers.pollFlightInfo),
+    getSchema: handlers.getSchema && serveUnary(handlers.getSchema),
+    doGet: handlers.doGet && serveServerStreaming(handlers.doGet),
+    doPut: handlers.doPut && serveBidiStreaming(handlers.doPut),
+    doExchange: handlers.doExchange && serveBidiStreaming(handlers.doExchange),
+    doAction: handlers.doAction && serveServerStreaming(handlers.doAction),
+    listActions:
+      listActions &&
+      serveServerStreaming<Empty, ActionType>((_request, context) => listActions(context))
+  }
+
+  return implementation as UntypedServiceImplementation
+}
+
+function serveUnary<Req, Res>(handler: UnaryHandler<Req, Res>): handleUnaryCall<Req, Res> {
+  return (call, callback) => {
+    const context = createContext(call)
+    const respond = async (): Promise<Res> => handler(call.request, context)
+    respond().then(
+      (response) => {
+        callback(null, response)
+      },
+      (error: unknown) => {
+        callback(toServiceError(error))
+      }
+    )
+  }
+}
+
+function serveServerStreaming<Req, Res>(
+  handler: ServerStreamingHandler<Req, Res>
+): handleServerStreamingCall<Req, Res> {
+  return (call) => {
+    const context = createContext(call)
+    void writeResponses(call, () => handler(call.request, context), context.signal)
+  }
+}
+
+function serveBidiStreaming<Req, Res>(
+  handler: BidiStreamingHandler<Req, Res>
+): handleBidiStreamingCall<Req, Res> {
+  return (call) => {
+    const context = createContext(call)
+    // Keep the call open for responses when the handler stops reading early
+    const requests = call.iterator({ destroyOnReturn: false }) as AsyncIterableIterator<Req>
+    void writeResponses(call, () => handler(requests, context), context.signal)
+  }
+}
+
+/**
+ * Creates the context of a call, aborting its signal when the call is
+ * cancelled.
+ */
+function createContext(
+  call: Pick<ServerUnaryCall<unknown, unknown>, "metadata" | "getPeer"> & EventEmitter
+): ServerCallContext {
+  const controller = new AbortController()
+  call.once("cancelled", () => {
+    controller.abort()
+  })
+  return {
+    metadata: fromGrpcMetadata(call.metadata),
+    peer: call.getPeer(),
+    signal: controller.signal
+  }
+}
+
+/**
+ * Writes the responses of a streaming handler to its call, honouring
+ * backpressure, then ends the call with the handler's outcome.
+ */
+async function writeResponses<Res>(
+  call: ServerWritableStream<unknown, Res> | ServerDuplexStream<unknown, Res>,
+  open: () => AsyncIterable<Res> | Iterable<Res>,
+  signal: AbortSignal
+): Promise<void> {
+  try {
+    for await (const response of open()) {
+      signal.throwIfAborted()
+      if (!call.write(response)) {
+        await once(call, "drain", { signal })
+      }
+    }
+    call.end()
+  } catch (error) {
+    // A cancelled call has already ended
+    if (!signal.aborted) {
+      call.emit("error", toServiceError(error))
+    }
+  }
+}
+
+/**
+ * Converts an error thrown by a handler into the status sent to the client.
+ *
+ * @internal
+ */
+export function toServiceError(error: unknown): ServiceError {
+  const { code, details, metadata } = errorStatus(error)
+  return Object.assign(new Error(details), {
+    code: code as number,
+    details,
+    metadata: toGrpcMetadata(metadata)
+  })
+}
@@ -0,0 +1,72 @@
+/**
+ * The methods of the Flight service.
+ *
+ * Gives each method of the generated service definition its gRPC path and
+ * serializers, in the shape grpc-js expects of a service definition, so
+ * the transports and the server share one description of the service
+ * without loading `@grpc/grpc-js`.
+ *
+ * @packageDocumentation
+ */
+
+import {
+  FlightServiceDefinition,
+  type MessageFns
+} from "./generated/arrow/flight/protocol/Flight.js"
+
+/**
+ * A method of the Flight service.
+ *
+ * @internal
+ */
+export type ServiceMethod<TRequest, TResponse> = {
+  path: string
+  requestStream: boolean
+  responseStream: boolean
+  requestSerialize: (value: TRequest) => Buffer
+  requestDeserialize: (value: Buffer) => TRequest
+  responseSerialize: (value: TResponse) => Buffer
+  responseDeserialize: (value: Buffer) => TResponse
+}
+
+const { methods } = FlightServiceDefinition
+
+/**
+ * The methods of the Flight service.
+ *
+ * @internal
+ */
+export const FlightServiceService = {
+  handshake: serviceMethod(methods.handshake),
+  listFlights: serviceMethod(methods.listFlights),
+  getFlightInfo: serviceMethod(methods.getFlightInfo),
+  pollFlightInfo: serviceMethod(methods.pollFlightInfo),
+  getSchema: serviceMethod(methods.getSchema),
+  doGet: serviceMethod(methods.doGet),
+  doPut: serviceMethod(methods.doPut),
+  doExchange: serviceMethod(methods.doExchange),
+  doAction: serviceMethod(methods.doAction),
+  listActions: serviceMethod(methods.listActions)
+}
+
+/**
+ * Describes a method of the generated service definition.
+ */
+function serviceMethod<TRequest, TResponse>(method: {
+  name: string
+  requestType: MessageFns<TRequest>
+  requestStream: boolean
+  responseType: MessageFns<TResponse>
+  responseStream: boolean
+}): ServiceMethod<TRequest, TResponse> {
+  const { requestType, responseType } = method
+  return {
+    path: `/${FlightServiceDefinition.fullName}/${method.name}`,
+    requestStream: method.requestStream,
+    responseStream: method.responseStream,
+    requestSerialize: (value) => Buffer.from(requestType.encode(value).finish()),
+    requestDeserialize: (value) => requestType.decode(value),
+    responseSerialize: (value) => Buffer.from(responseType.encode(value).finish()),
+    responseDeserialize: (value) => responseType.decode(value)
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Decoding of rich error details sent by Flight servers.
+ *
+ * Servers may describe an error beyond its status code and message with a
+ * `google.rpc.Status` in the `grpc-status-details-bin` trailer, and Arrow
+ * C++ based servers also send their own status in `x-arrow-status` trailers.
+ *
+ * @packageDocumentation
+ */
+
+import type { Duration } from "./generated/google/protobuf/duration.js"
+import {
+  BadRequest,
+  DebugInfo,
+  ErrorInfo,
+  Help,
+  LocalizedMessage,
+  PreconditionFailure,
+  QuotaFailure,
+  RequestInfo,
+  ResourceInfo,
+  RetryInfo
+} from "./generated/google/rpc/error_details.js"
+import { Status as StatusProto } from "./generated/google/rpc/status.js"
+import type { Metadata } from "./metadata.js"
+import type { ArrowStatus, ErrorDetail, RichStatus } from "./types.js"
+
+/**
+ * Type URL prefix of the `google.rpc` detail messages.
+ */
+const TYPE_URL_PREFIX = "type.googleapis.com/google.rpc."
+
+/**
+ * Decoders of the `google.rpc` detail messages, keyed by type URL.
+ */
+const DETAIL_DECODERS = new Map<string, (value: Buffer) => ErrorDetail>([
+  [rpcTypeUrl("ErrorInfo"), (value) => ({ type: "errorInfo", ...ErrorInfo.decode(value) })],
+  [
+    rpcTypeUrl("RetryInfo"),
+    (value) => ({
+      type: "retryInfo",
+      retryDelayMs: durationToMs(RetryInfo.decode(value).retryDelay)
+    })
+  ],
+  [rpcTypeUrl("DebugInfo"), (value) => ({ type: "debugInfo", ...DebugInfo.decode(value) })],
+  [
+    rpcTypeUrl("QuotaFailure"),
+    (value) => ({ type: "quotaFailure", ...QuotaFailure.decode(value) })
+  ],
+  [
+    rpcTypeUrl("PreconditionFailure"),
+    (value) => ({ type: "preconditionFailure", ...PreconditionFailure.decode(value) })
+  ],
+  [rpcTypeUrl("BadRequest"), (value) => ({ type: "badRequest", ...BadRequest.decode(value) })],
+  [rpcTypeUrl("RequestInfo"), (value) => ({ type: "requestInfo", ...RequestInfo.decode(value) })],
+  [
+    rpcTypeUrl("ResourceInfo"),
+    (value) => ({ type: "resourceInfo", ...ResourceInfo.decode(value) })
+  ],
+  [rpcTypeUrl("Help"), (value) => ({ type: "help", ...Help.decode(value) })],
+  [
+    rpcTypeUrl("LocalizedMessage"),
+    (value) => ({ type: "localizedMessage", ...LocalizedMessage.decode(value) })
+  ]
+])
+
+/**
+ * Decodes the `grpc-status-details-bin` trailer of a failed call.
+ *
+ * Details of unknown types are kept encoded.
+ *
+ * @param buffer - The encoded `google.rpc.Status`
+ * @returns The rich status, or undefined if the trailer is malformed
+ */
+export function decodeRichStatus(buffer: Buffer): RichStatus | undefined {
+  try {
+    const status = StatusProto.decode(buffer)
+    return {
+      code: status.code,
+      message: status.message,
+      details: status.details.map(({ typeUrl, value }): ErrorDetail => {
+        const decode = DETAIL_DECODERS.get(typeUrl)
+        return decode !== undefined ? decode(value) : { type: "unknown", typeUrl, value }
+      })
+    }
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Reads the Arrow status from the trailers of a failed call.
+ *
+ * @param metadata - The trailing metadata
+ * @returns The Arrow status, or undefined if the server did not send one
+ */
+export function decodeArrowStatus(metadata: Metadata): ArrowStatus | undefined {
+  const [code] = metadata.get("x-arrow-status")
+  if (typeof code !== "string" || !/^\d+$/.test(code)) {
+    return undefined
+  }
+
+  const [message] = metadata.get("x-arrow-status-message-bin")
+  const [detail] = metadata.get("x-arrow-status-detail-bin")
+  return {
+    code: Number(code),
+    message: Buffer.isBuffer(message) ? message.toString() : undefined,
+    detail: Buffer.isBuffer(detail) ? detail : undefined
+  }
+}
+
+/**
+ * Returns the type URL of a `google.rpc` message.
+ */
+function rpcTypeUrl(name: string): string {
+  return `${TYPE_URL_PREFIX}${name}`
+}
+
+/**
+ * Converts a protobuf Duration to milliseconds.
+ */
+function durationToMs(duration: Duration | undefined): number {
+  return duration !== undefined ? duration.seconds * 1000 + duration.nanos / 1_000_000 : 0
+}
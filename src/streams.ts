@@ -0,0 +1,409 @@
+/**
+ * Flow-controlled reading and writing of call streams.
+ *
+ * Reads hold back the transport while the consumer is behind, and writes
+ * wait for the call to drain, so the flow control of the transport bounds
+ * the memory used by either side of a call.
+ *
+ * @packageDocumentation
+ */
+
+import { callStatus, statusError } from "./calls.js"
+import { Metadata } from "./metadata.js"
+import {
+  type CallListener,
+  type ClientCall,
+  type ClientStreamingCall,
+  type DuplexCallListener,
+  StatusCode,
+  type TransportStatus
+} from "./transport.js"
+import { FlightError } from "./types.js"
+
+/**
+ * Default number of received messages buffered for each stream.
+ *
+ * @internal
+ */
+export const DEFAULT_READ_QUEUE_SIZE = 16
+
+/**
+ * Creates the error raised when a call is aborted through its AbortSignal.
+ *
+ * @internal
+ */
+export function abortError(signal: AbortSignal | undefined): FlightError {
+  const reason: unknown = signal?.reason
+  return new FlightError("call was aborted", "CANCELLED", {
+    cause: reason instanceof Error ? reason : undefined
+  })
+}
+
+/**
+ * Options for reading a stream.
+ *
+ * @internal
+ */
+export type ReadStreamOptions = {
+  /** Converts the errors of failed calls to FlightErrors. */
+  wrapError: (err: unknown) => FlightError
+  /** Maximum number of received messages buffered before reading pauses. */
+  queueSize: number
+  /** Cancels the call and fails the iteration when aborted. */
+  signal?: AbortSignal
+}
+
+/**
+ * Checks that a read queue size is a positive integer.
+ *
+ * @throws {FlightError} If the size is out of range
+ *
+ * @internal
+ */
+export function validateReadQueueSize(size: number): number {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new FlightError("readQueueSize must be a positive integer", "INVALID_ARGUMENT")
+  }
+  return size
+}
+
+/**
+ * A received response, or how the responses of a call ended.
+ */
+type QueueItem<T> =
+  | { type: "data"; value: T }
+  | { type: "status"; value: TransportStatus }
+  | { type: "error"; value: FlightError }
+
+/**
+ * The responses of a call waiting for the consumer.
+ *
+ * Once `queueSize` responses are waiting, the transport is held back until
+ * the consumer catches up. If the consumer stops early, the remaining
+ * responses are discarded so the call can still complete.
+ *
+ * @internal
+ */
+export class ResponseQueue<T> {
+  private readonly queueSize: number
+  private readonly items: QueueItem<T>[] = []
+  private notify: (() => void) | null = null
+  private wake: (() => void) | null = null
+  private discarding = false
+
+  constructor(queueSize: number) {
+    this.queueSize = queueSize
+  }
+
+  /**
+   * Adds a response.
+   *
+   * @returns A promise that resolves once the consumer catches up, if the
+   *   queue is full
+   */
+  push(message: T): Promise<void> | undefined {
+    if (this.discarding) {
+      return undefined
+    }
+    this.add({ type: "data", value: message })
+    if (this.items.length < this.queueSize) {
+      return undefined
+    }
+    return new Promise((resolve) => {
+      this.wake = resolve
+    })
+  }
+
+  /**
+   * Ends the responses with the final status of the call.
+   */
+  close(status: TransportStatus): void {
+    this.add({ type: "status", value: status })
+  }
+
+  /**
+   * Ends the responses with an error.
+   */
+  fail(error: FlightError): void {
+    this.add({ type: "error", value: error })
+  }
+
+  /**
+   * Yields the responses until the call ends, failing with the wrapped
+   * error of a call that fails.
+   *
+   * @param cancel - Cancels the call when the signal aborts
+   * @param options - Options for reading
+   */
+  async *read(
+    cancel: () => void,
+    options: Omit<ReadStreamOptions, "queueSize">
+  ): AsyncGenerator<T, void, undefined> {
+    const { wrapError, signal } = options
+
+    // Cancel the call and fail the iteration when the signal aborts
+    const onAbort = (): void => {
+      cancel()
+      this.fail(abortError(signal))
+    }
+    if (signal?.aborted === true) {
+      onAbort()
+    } else {
+      signal?.addEventListener("abort", onAbort, { once: true })
+    }
+
+    let done = false
+    try {
+      while (!done) {
+        while (this.items.length === 0) {
+          await new Promise<void>((resolve) => {
+            this.notify = resolve
+          })
+        }
+
+        // Queue is guaranteed to have items after the inner while loop
+        // Use index access and then mutate to avoid non-null assertion
+        const item = this.items[0]
+        this.items.splice(0, 1)
+
+        if (this.items.length < this.queueSize) {
+          this.resume()
+        }
+
+        switch (item.type) {
+          case "data":
+            yield item.value
+            break
+          case "status":
+            done = true
+            if (item.value.code !== StatusCode.OK) {
+              throw wrapError(statusError(item.value))
+            }
+            break
+          case "error":
+            done = true
+            throw item.value
+        }
+      }
+    } finally {
+      signal?.removeEventListener("abort", onAbort)
+      if (!done) {
+        this.discarding = true
+        this.items.splice(0)
+        this.resume()
+      }
+    }
+  }
+
+  private add(item: QueueItem<T>): void {
+    this.items.push(item)
+    const { notify } = this
+    this.notify = null
+    notify?.()
+  }
+
+  private resume(): void {
+    const { wake } = this
+    this.wake = null
+    wake?.()
+  }
+}
+
+/**
+ * Starts a call and reads its responses as an async iterable.
+ *
+ * @param start - Starts the call with a listener
+ * @param options - Options for reading
+ *
+ * @internal
+ */
+export function readStream<T>(
+  start: (listener: CallListener<T>) => ClientCall,
+  options: ReadStreamOptions
+): AsyncGenerator<T, void, undefined> {
+  const responses = new ResponseQueue<T>(options.queueSize)
+  const call = start({
+    onMetadata: () => undefined,
+    onMessage: (message): Promise<void> | undefined => responses.push(message),
+    onStatus: (status) => {
+      responses.close(status)
+    }
+  })
+  return responses.read(() => {
+    call.cancel()
+  }, options)
+}
+
+/**
+ * A call that sends a stream of requests, as DoPut and DoExchange streams
+ * make it.
+ *
+ * The transport call can start after the stream is created, once the
+ * client has the metadata for it. Until then, requests are held and
+ * writes report backpressure. Cancelling the call before it starts ends it
+ * with `CANCELLED`, as does aborting its signal.
+ *
+ * @internal
+ */
+export class DuplexCall<TRequest, TResponse> {
+  /** The listener to start the transport call with. */
+  readonly listener: DuplexCallListener<TResponse>
+  private readonly responses: ResponseQueue<TResponse>
+  private readonly wrapError: (err: unknown) => FlightError
+  private readonly signal: AbortSignal | undefined
+  private readonly held: TRequest[] = []
+  private readonly waiting = new Set<() => void>()
+  private call: ClientStreamingCall<TRequest> | null = null
+  private requestsEnded = false
+  private cancelled = false
+  private finished = false
+  private failure: FlightError | null = null
+
+  constructor(queueSize: number, wrapError: (err: unknown) => FlightError, signal?: AbortSignal) {
+    this.responses = new ResponseQueue(queueSize)
+    this.wrapError = wrapError
+    this.signal = signal
+    this.listener = {
+      onMetadata: () => undefined,
+      onMessage: (message): Promise<void> | undefined => this.responses.push(message),
+      onStatus: (status) => {
+        this.finish(status)
+      },
+      onDrain: () => {
+        this.drained()
+      }
+    }
+
+    if (signal?.aborted === true) {
+      this.cancel()
+    } else {
+      signal?.addEventListener("abort", this.onAbort, { once: true })
+    }
+  }
+
+  /**
+   * Starts sending to the transport call, with the requests written so far.
+   */
+  start(call: ClientStreamingCall<TRequest>): void {
+    this.call = call
+    if (this.cancelled) {
+      call.cancel()
+      return
+    }
+    let ready = true
+    for (const request of this.held.splice(0)) {
+      ready = call.write(request)
+    }
+    if (this.requestsEnded) {
+      call.end()
+    }
+    if (ready) {
+      this.drained()
+    }
+  }
+
+  /**
+   * Ends the call with an error, when its transport call cannot start.
+   */
+  fail(error: unknown): void {
+    if (this.finished) {
+      return
+    }
+    this.finished = true
+    this.signal?.removeEventListener("abort", this.onAbort)
+    this.failure = this.wrapError(error)
+    this.responses.fail(this.failure)
+    this.drained()
+  }
+
+  /**
+   * Sends a request.
+   *
+   * @returns False if the caller should wait for the call to drain
+   */
+  write(request: TRequest): boolean {
+    if (this.call !== null) {
+      return this.call.write(request)
+    }
+    if (!this.finished) {
+      this.held.push(request)
+    }
+    return false
+  }
+
+  /**
+   * Sends a request, waiting for the call to drain if it holds as many
+   * requests as it buffers.
+   *
+   * @throws {FlightError} If the call fails or ends before it drains
+   */
+  async writeAsync(request: TRequest): Promise<void> {
+    if (this.write(request)) {
+      return
+    }
+    if (!this.finished) {
+      await new Promise<void>((resolve) => {
+        this.waiting.add(resolve)
+      })
+    }
+    if (this.failure !== null) {
+      throw this.failure
+    }
+    if (this.finished) {
+      throw new FlightError("stream closed before it drained", "CANCELLED")
+    }
+  }
+
+  end(): void {
+    if (this.call === null) {
+      this.requestsEnded = true
+    } else {
+      this.call.end()
+    }
+  }
+
+  cancel(): void {
+    if (this.call !== null) {
+      this.call.cancel()
+    } else if (!this.cancelled) {
+      this.cancelled = true
+      this.finish(callStatus(StatusCode.CANCELLED, "Cancelled on client", new Metadata()))
+    }
+  }
+
+  /**
+   * Yields the responses until the call ends.
+   */
+  read(): AsyncGenerator<TResponse, void, undefined> {
+    return this.responses.read(
+      () => {
+        this.cancel()
+      },
+      { wrapError: this.wrapError, signal: this.signal }
+    )
+  }
+
+  private readonly onAbort = (): void => {
+    this.cancel()
+  }
+
+  private finish(status: TransportStatus): void {
+    if (this.finished) {
+      return
+    }
+    this.finished = true
+    this.signal?.removeEventListener("abort", this.onAbort)
+    if (status.code !== StatusCode.OK) {
+      this.failure = this.wrapError(statusError(status))
+    }
+    this.responses.close(status)
+    this.drained()
+  }
+
+  private drained(): void {
+    for (const resolve of this.waiting) {
+      resolve()
+    }
+    this.waiting.clear()
+  }
+}
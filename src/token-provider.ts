@@ -0,0 +1,105 @@
+/**
+ * Caching of bearer tokens from an async token provider.
+ *
+ * Used by FlightClient when `auth` is a `tokenProvider`, so that the
+ * provider is only consulted when the cached token is missing or expiring.
+ *
+ * @packageDocumentation
+ */
+
+import type { FlightTokenProviderOptions } from "./types.js"
+
+/**
+ * Default time before its expiry at which a cached JWT is replaced.
+ */
+const DEFAULT_EXPIRY_MARGIN_MS = 30_000
+
+/**
+ * Caches the token returned by a token provider until it expires.
+ *
+ * @internal
+ */
+export class TokenCache {
+  private readonly getToken: () => Promise<string>
+  private readonly expiryMarginMs: number
+  private token: string | null = null
+  private expiresAt = Infinity
+  private pending: Promise<string> | null = null
+
+  constructor(options: FlightTokenProviderOptions) {
+    this.getToken = options.getToken
+    this.expiryMarginMs = options.expiryMarginMs ?? DEFAULT_EXPIRY_MARGIN_MS
+  }
+
+  /**
+   * Returns the cached token, or null if there is none or it is about to
+   * expire.
+   */
+  current(): string | null {
+    if (this.token === null || Date.now() >= this.expiresAt - this.expiryMarginMs) {
+      return null
+    }
+    return this.token
+  }
+
+  /**
+   * Returns a valid token, calling the provider if the cached one is
+   * missing or about to expire.
+   *
+   * Callers waiting at the same time share a single provider call.
+   */
+  async get(): Promise<string> {
+    const token = this.current()
+    if (token !== null) {
+      return token
+    }
+
+    this.pending ??= (async () => {
+      try {
+        const fresh = await this.getToken()
+        this.token = fresh
+        this.expiresAt = tokenExpiry(fresh) ?? Infinity
+        return fresh
+      } finally {
+        this.pending = null
+      }
+    })()
+    return this.pending
+  }
+
+  /**
+   * Discards the cached token, for example after the server rejected it.
+   */
+  invalidate(): void {
+    this.token = null
+  }
+}
+
+/**
+ * Reads the expiry time of a JWT from its `exp` claim.
+ *
+ * @param token - The bearer token
+ * @returns The expiry in milliseconds since the epoch, or null if the token
+ *   is not a JWT with an `exp` claim
+ *
+ * @internal
+ */
+export function tokenExpiry(token: string): number | null {
+  const parts = token.split(".")
+  if (parts.length !== 3) {
+    return null
+  }
+
+  try {
+    const claims: unknown = JSON.parse(Buffer.from(parts[1], "base64url").toString())
+    if (typeof claims === "object" && claims !== null && "exp" in claims) {
+      const { exp } = claims
+      if (typeof exp === "number") {
+        return exp * 1000
+      }
+    }
+  } catch {
+    // Not a JWT
+  }
+  return null
+}
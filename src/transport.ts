@@ -0,0 +1,177 @@
+/**
+ * The RPC surface a FlightClient makes its calls through.
+ *
+ * A transport starts each Flight method with the request, the metadata and
+ * the options of the call, and reports what happens on the call to a
+ * listener: the response headers, each response and then exactly one
+ * status, never from within the function starting the call. Cancelling a
+ * call ends it with `CANCELLED`, and a call still running at its deadline
+ * ends with `DEADLINE_EXCEEDED`.
+ *
+ * These types do not depend on `@grpc/grpc-js` or Node.js streams, so a
+ * transport can run wherever `fetch` does.
+ *
+ * @packageDocumentation
+ */
+
+import type {
+  Action,
+  ActionType,
+  Criteria,
+  Empty,
+  FlightData,
+  FlightDescriptor,
+  FlightInfo,
+  HandshakeRequest,
+  HandshakeResponse,
+  PollInfo,
+  PutResult,
+  Result,
+  SchemaResult,
+  Ticket
+} from "./generated/arrow/flight/protocol/Flight.js"
+import type { Metadata } from "./metadata.js"
+
+/**
+ * gRPC status codes.
+ */
+export enum StatusCode {
+  OK = 0,
+  CANCELLED = 1,
+  UNKNOWN = 2,
+  INVALID_ARGUMENT = 3,
+  DEADLINE_EXCEEDED = 4,
+  NOT_FOUND = 5,
+  ALREADY_EXISTS = 6,
+  PERMISSION_DENIED = 7,
+  RESOURCE_EXHAUSTED = 8,
+  FAILED_PRECONDITION = 9,
+  ABORTED = 10,
+  OUT_OF_RANGE = 11,
+  UNIMPLEMENTED = 12,
+  INTERNAL = 13,
+  UNAVAILABLE = 14,
+  DATA_LOSS = 15,
+  UNAUTHENTICATED = 16
+}
+
+/**
+ * The final status of a call.
+ */
+export type TransportStatus = {
+  code: StatusCode
+  details: string
+  /** The trailers of the call. */
+  metadata: Metadata
+}
+
+/**
+ * Options for a single call on a transport.
+ */
+export type TransportCallOptions = {
+  /** Time, as a Date or in milliseconds since the epoch, at which the call ends. */
+  deadline?: Date | number
+}
+
+/**
+ * Receives the events of a call from its transport.
+ */
+export type CallListener<TResponse> = {
+  /** Receives the response headers, before any response. */
+  onMetadata: (metadata: Metadata) => void
+  /**
+   * Receives a response. May return a promise to hold back the next one,
+   * so a consumer that falls behind holds back the server.
+   */
+  onMessage: (message: TResponse) => Promise<void> | undefined
+  /** Receives the final status, after every response. */
+  onStatus: (status: TransportStatus) => void
+}
+
+/**
+ * Receives the events of a call that also sends a stream of requests.
+ */
+export type DuplexCallListener<TResponse> = CallListener<TResponse> & {
+  /** Called when a call whose `write` returned false can take more requests. */
+  onDrain: () => void
+}
+
+/**
+ * A call in progress.
+ */
+export type ClientCall = {
+  /** Ends the call with `CANCELLED`. Does nothing once the call has ended. */
+  cancel: () => void
+  /** Gets the address of the server. */
+  getPeer: () => string
+}
+
+/**
+ * A call in progress that sends a stream of requests.
+ */
+export type ClientStreamingCall<TRequest> = ClientCall & {
+  /**
+   * Sends a request.
+   *
+   * @returns False if the transport holds as many requests as it will
+   *   buffer, in which case the listener's `onDrain` is called once it can
+   *   take more. Requests written after the call has ended are dropped.
+   */
+  write: (request: TRequest) => boolean
+  /** Ends the stream of requests. */
+  end: () => void
+}
+
+/**
+ * Starts a call with one request and one response. Once the call has
+ * succeeded, the listener receives the response and then the status.
+ */
+export type UnaryMethod<TRequest, TResponse> = (
+  request: TRequest,
+  metadata: Metadata,
+  options: TransportCallOptions,
+  listener: CallListener<TResponse>
+) => ClientCall
+
+/**
+ * Starts a call with one request and a stream of responses.
+ */
+export type ServerStreamingMethod<TRequest, TResponse> = (
+  request: TRequest,
+  metadata: Metadata,
+  options: TransportCallOptions,
+  listener: CallListener<TResponse>
+) => ClientCall
+
+/**
+ * Starts a call with a stream of requests and a stream of responses.
+ */
+export type BidiStreamingMethod<TRequest, TResponse> = (
+  metadata: Metadata,
+  options: TransportCallOptions,
+  listener: DuplexCallListener<TResponse>
+) => ClientStreamingCall<TRequest>
+
+/**
+ * The Flight service methods and connection lifecycle of a transport.
+ *
+ * Implemented by the default `@grpc/grpc-js` transport, the gRPC-Web and
+ * Connect transports and `LoopbackTransport`; an application can supply
+ * its own through the `{ type: "custom" }` transport option.
+ */
+export type FlightTransport = {
+  handshake: BidiStreamingMethod<HandshakeRequest, HandshakeResponse>
+  listFlights: ServerStreamingMethod<Criteria, FlightInfo>
+  getFlightInfo: UnaryMethod<FlightDescriptor, FlightInfo>
+  pollFlightInfo: UnaryMethod<FlightDescriptor, PollInfo>
+  getSchema: UnaryMethod<FlightDescriptor, SchemaResult>
+  doGet: ServerStreamingMethod<Ticket, FlightData>
+  doPut: BidiStreamingMethod<FlightData, PutResult>
+  doExchange: BidiStreamingMethod<FlightData, FlightData>
+  doAction: ServerStreamingMethod<Action, Result>
+  listActions: ServerStreamingMethod<Empty, ActionType>
+  /** Calls back once the transport can start calls, or with an error at the deadline. */
+  waitForReady: (deadline: Date | number, callback: (error?: Error) => void) => void
+  /** Releases the transport's connections. */
+  close: () => void
+}
@@ -7,18 +7,32 @@
  * @packageDocumentation
  */
 
-import {
-  type ChannelCredentials,
-  type Metadata,
-  status as GrpcStatus,
-  type StatusObject
-} from "@grpc/grpc-js"
+import type { ChannelCredentials } from "@grpc/grpc-js"
 
 import type {
   CancelStatus as ProtoCancelStatus,
+  CloseSessionResult_Status as ProtoCloseSessionStatus,
   FlightDescriptor,
-  FlightDescriptor_DescriptorType as ProtoDescriptorType
+  FlightDescriptor_DescriptorType as ProtoDescriptorType,
+  HandshakeResponse,
+  PollInfo,
+  SessionOptionValue as ProtoSessionOptionValue,
+  SetSessionOptionsResult_ErrorValue as ProtoSessionOptionError
 } from "./generated/arrow/flight/protocol/Flight.js"
+import type {
+  BadRequest,
+  DebugInfo,
+  ErrorInfo,
+  Help,
+  LocalizedMessage,
+  PreconditionFailure,
+  QuotaFailure,
+  RequestInfo,
+  ResourceInfo
+} from "./generated/google/rpc/error_details.js"
+import type { Metadata } from "./metadata.js"
+import { decodeArrowStatus, decodeRichStatus } from "./status-details.js"
+import { type FlightTransport, StatusCode, type TransportStatus } from "./transport.js"
 
 // Re-export proto message types that are already well-designed
 export type {
@@ -37,6 +51,7 @@ export type {
   Location,
   PollInfo,
   PutResult,
+  RenewFlightEndpointRequest,
   Result,
   SchemaResult,
   Ticket
@@ -116,6 +131,167 @@ export function fromDescriptorTypeProto(type: ProtoDescriptorType): DescriptorTy
   }
 }
 
+/**
+ * Value of a session option.
+ *
+ * Each variant maps onto one field of the proto `SessionOptionValue` union:
+ * `string` → string, `boolean` → bool, `bigint` → int64, `number` → double,
+ * `string[]` → string list. `null` sends a valueless option, which by
+ * convention asks the server to unset it.
+ *
+ * int64 values are transported as JavaScript numbers and must lie within
+ * `Number.MIN_SAFE_INTEGER` and `Number.MAX_SAFE_INTEGER`; values outside
+ * that range are rejected with `INVALID_ARGUMENT`.
+ */
+export type SessionOptionValue = string | boolean | bigint | number | string[] | null
+
+/**
+ * Reason a session option could not be set.
+ */
+export type SessionOptionError = "unspecified" | "invalid-name" | "invalid-value" | "error"
+
+/**
+ * Status of a close session request.
+ */
+export type CloseSessionStatus = "unspecified" | "closed" | "closing" | "not-closeable"
+
+/**
+ * Result of a SetSessionOptions action.
+ */
+export type SetSessionOptionsResult = {
+  /**
+   * Options that could not be set, keyed by option name.
+   * Options missing from this record were set successfully.
+   */
+  errors: Record<string, SessionOptionError>
+}
+
+/**
+ * Converts a SessionOptionValue to the proto message.
+ *
+ * @throws {FlightError} If a `bigint` value is outside the range of safe
+ *   integers, which the proto message cannot carry without losing precision
+ *
+ * @internal
+ */
+export function toSessionOptionValueProto(value: SessionOptionValue): ProtoSessionOptionValue {
+  if (value === null) {
+    return {}
+  }
+  if (Array.isArray(value)) {
+    return { stringListValue: { values: value } }
+  }
+  if (typeof value === "string") {
+    return { stringValue: value }
+  }
+  if (typeof value === "boolean") {
+    return { boolValue: value }
+  }
+  if (typeof value === "bigint") {
+    const int64Value = Number(value)
+    if (!Number.isSafeInteger(int64Value)) {
+      throw new FlightError(
+        `session option value ${String(value)} is outside the safe integer range`,
+        "INVALID_ARGUMENT"
+      )
+    }
+    return { int64Value }
+  }
+  return { doubleValue: value }
+}
+
+/**
+ * Converts a proto SessionOptionValue to the public type.
+ *
+ * @internal
+ */
+export function fromSessionOptionValueProto(value: ProtoSessionOptionValue): SessionOptionValue {
+  if (value.stringValue !== undefined) {
+    return value.stringValue
+  }
+  if (value.boolValue !== undefined) {
+    return value.boolValue
+  }
+  if (value.int64Value !== undefined) {
+    return BigInt(value.int64Value)
+  }
+  if (value.doubleValue !== undefined) {
+    return value.doubleValue
+  }
+  if (value.stringListValue !== undefined) {
+    return value.stringListValue.values
+  }
+  return null
+}
+
+/**
+ * Converts a SessionOptionError to the proto enum value.
+ *
+ * @internal
+ */
+export function toSessionOptionErrorProto(error: SessionOptionError): ProtoSessionOptionError {
+  const mapping: Record<SessionOptionError, ProtoSessionOptionError> = {
+    unspecified: 0,
+    "invalid-name": 1,
+    "invalid-value": 2,
+    error: 3
+  }
+  return mapping[error]
+}
+
+/**
+ * Converts a proto SessionOptionError to the public type.
+ *
+ * @internal
+ */
+export function fromSessionOptionErrorProto(error: ProtoSessionOptionError): SessionOptionError {
+  const value = error as number
+  switch (value) {
+    case 1:
+      return "invalid-name"
+    case 2:
+      return "invalid-value"
+    case 3:
+      return "error"
+    default:
+      return "unspecified"
+  }
+}
+
+/**
+ * Converts a CloseSessionStatus to the proto enum value.
+ *
+ * @internal
+ */
+export function toCloseSessionStatusProto(status: CloseSessionStatus): ProtoCloseSessionStatus {
+  const mapping: Record<CloseSessionStatus, ProtoCloseSessionStatus> = {
+    unspecified: 0,
+    closed: 1,
+    closing: 2,
+    "not-closeable": 3
+  }
+  return mapping[status]
+}
+
+/**
+ * Converts a proto CloseSessionStatus to the public type.
+ *
+ * @internal
+ */
+export function fromCloseSessionStatusProto(status: ProtoCloseSessionStatus): CloseSessionStatus {
+  const value = status as number
+  switch (value) {
+    case 1:
+      return "closed"
+    case 2:
+      return "closing"
+    case 3:
+      return "not-closeable"
+    default:
+      return "unspecified"
+  }
+}
+
 /**
  * Options for creating a FlightClient connection.
  */
@@ -135,6 +311,13 @@ export type FlightClientOptions = {
    */
   port?: number
 
+  /**
+   * Path of a Unix domain socket to connect to instead of `host` and `port`.
+   *
+   * @example "/var/run/flight.sock"
+   */
+  socketPath?: string
+
   /**
    * Whether to use TLS for the connection.
    * Set to `false` for insecure connections.
@@ -162,8 +345,285 @@ export type FlightClientOptions = {
    * Authentication configuration.
    */
   auth?: FlightAuthOptions
+
+  /**
+   * Default timeout in milliseconds for every call made by the client.
+   * Can be overridden per call with `CallOptions.timeoutMs`.
+   *
+   * If not set, calls have no deadline.
+   */
+  defaultTimeoutMs?: number
+
+  /**
+   * Automatic retry policy for idempotent calls.
+   *
+   * If not set, failed calls are never retried.
+   */
+  retry?: RetryOptions
+
+  /**
+   * How to obtain a new bearer token when a call fails with `UNAUTHENTICATED`.
+   * The call is then replayed once with the new token.
+   *
+   * If not set, `UNAUTHENTICATED` errors are returned to the caller.
+   */
+  tokenRefresh?: TokenRefresh
+
+  /**
+   * Middleware that observes and decorates every call, in order.
+   */
+  middleware?: ClientMiddlewareFactory[]
+
+  /**
+   * Maximum number of received messages buffered for each stream before
+   * the client stops reading from the server until the consumer catches up.
+   * Also bounds the record batches `readFlight()` reads ahead.
+   *
+   * @default 16
+   */
+  readQueueSize?: number
+
+  /**
+   * Transport to make calls through.
+   *
+   * @default `{ type: "grpc" }`, HTTP/2 calls made with `@grpc/grpc-js`
+   */
+  transport?: FlightTransportOptions
+}
+
+/**
+ * Options for creating a FlightClient from a location URI.
+ *
+ * The server address comes from the URI. TLS is enabled by the
+ * `grpc+tls` and `https` schemes; a `tls` options object configures it.
+ */
+export type LocationClientOptions = Omit<FlightClientOptions, "host" | "port" | "socketPath">
+
+/**
+ * Options for reading every endpoint of a flight.
+ */
+export type ReadFlightOptions = CallOptions & {
+  /**
+   * Maximum number of endpoints read at the same time.
+   *
+   * @default 4
+   */
+  concurrency?: number
+}
+
+/**
+ * Options for a handshake.
+ */
+export type HandshakeOptions = CallOptions & {
+  /**
+   * Payload of the first request.
+   *
+   * Defaults to the payload for the configured `auth`.
+   */
+  payload?: Buffer
+
+  /**
+   * Continues a multi-step handshake, such as a SASL or challenge/response
+   * exchange.
+   *
+   * Without it, the handshake sends a single request.
+   */
+  exchange?: HandshakeExchange
+}
+
+/**
+ * Callback driving a multi-step handshake.
+ *
+ * Receives each response from the server, in order, and returns the
+ * payload of the next request, or null once the client has nothing more
+ * to send.
+ */
+export type HandshakeExchange = (response: HandshakeResponse) => Promise<Buffer | null>
+
+/**
+ * How the client refreshes its bearer token.
+ *
+ * - `"handshake"`: run `handshake()` again and use the token it returns
+ * - A function: call it and use the token it resolves to
+ *
+ * Unary and server-streaming calls are replayed after a refresh, streams
+ * only if they have not yielded any message. DoPut and DoExchange are
+ * never replayed.
+ */
+export type TokenRefresh = "handshake" | (() => Promise<string>)
+
+/**
+ * Client methods that can be retried automatically.
+ *
+ * Streaming methods are only retried while no message has been yielded yet.
+ */
+export type RetryableMethod =
+  | "getFlightInfo"
+  | "getSchema"
+  | "listFlights"
+  | "listActions"
+  | "doGet"
+
+/**
+ * Retry policy with exponential backoff and jitter.
+ *
+ * Each attempt gets its own deadline from `timeoutMs`. Aborting the call's
+ * AbortSignal also stops any pending retry.
+ *
+ * @example
+ * ```ts
+ * const client = new FlightClient({
+ *   host: "localhost",
+ *   retry: { maxAttempts: 5, methods: ["getFlightInfo", "doGet"] }
+ * })
+ * ```
+ */
+export type RetryOptions = {
+  /**
+   * Maximum number of attempts, including the first one.
+   *
+   * @default 3
+   */
+  maxAttempts?: number
+
+  /**
+   * Delay before the first retry in milliseconds.
+   *
+   * @default 100
+   */
+  initialBackoffMs?: number
+
+  /**
+   * Upper bound for the delay between attempts in milliseconds.
+   *
+   * @default 10000
+   */
+  maxBackoffMs?: number
+
+  /**
+   * Factor the delay grows by after each failed attempt.
+   *
+   * @default 2
+   */
+  backoffMultiplier?: number
+
+  /**
+   * Fraction (0 to 1) by which each delay is randomly reduced,
+   * so that clients do not retry in lockstep.
+   *
+   * @default 0.2
+   */
+  jitter?: number
+
+  /**
+   * Error codes that trigger a retry.
+   *
+   * @default ["UNAVAILABLE", "RESOURCE_EXHAUSTED", "ABORTED"]
+   */
+  retriableCodes?: FlightErrorCode[]
+
+  /**
+   * Methods the policy applies to.
+   *
+   * @default ["getFlightInfo", "getSchema", "listFlights", "listActions"]
+   */
+  methods?: RetryableMethod[]
+}
+
+/**
+ * Names of the Flight RPC methods, as they appear on the wire.
+ */
+export type FlightMethod =
+  | "Handshake"
+  | "ListFlights"
+  | "GetFlightInfo"
+  | "PollFlightInfo"
+  | "GetSchema"
+  | "DoGet"
+  | "DoPut"
+  | "DoExchange"
+  | "DoAction"
+  | "ListActions"
+
+/**
+ * Information about a call that is being started.
+ */
+export type CallInfo = {
+  /**
+   * The RPC method being called.
+   */
+  method: FlightMethod
+}
+
+/**
+ * Final status of a completed call.
+ */
+export type CallStatus = {
+  /**
+   * The status code, or `"OK"` if the call succeeded.
+   */
+  code: FlightErrorCode | "OK"
+
+  /**
+   * The status message sent by the server.
+   */
+  details: string
+
+  /**
+   * Trailing metadata sent by the server.
+   */
+  trailers: Metadata
+
+  /**
+   * Time from the start of the call until its status was received, in milliseconds.
+   */
+  durationMs: number
+}
+
+/**
+ * Per-call middleware, created by a ClientMiddlewareFactory.
+ *
+ * All hooks are optional. They run synchronously; `receivedHeaders` and
+ * `callCompleted` must not throw.
+ */
+export type ClientMiddleware = {
+  /**
+   * Called before the call starts. Headers may be added or changed.
+   */
+  sendingHeaders?: (headers: Metadata) => void
+
+  /**
+   * Called when the server's response headers arrive.
+   */
+  receivedHeaders?: (headers: Metadata) => void
+
+  /**
+   * Called once when the call completes, successfully or not.
+   */
+  callCompleted?: (status: CallStatus) => void
 }
 
+/**
+ * Creates middleware for each call made by a FlightClient.
+ *
+ * Return `undefined` to skip a call.
+ *
+ * @example
+ * ```ts
+ * const logging: ClientMiddlewareFactory = ({ method }) => ({
+ *   sendingHeaders: (headers) => {
+ *     headers.set("x-request-id", crypto.randomUUID())
+ *   },
+ *   callCompleted: ({ code, durationMs }) => {
+ *     console.log(`${method} ${code} in ${durationMs}ms`)
+ *   }
+ * })
+ *
+ * const client = new FlightClient({ host: "localhost", middleware: [logging] })
+ * ```
+ */
+export type ClientMiddlewareFactory = (info: CallInfo) => ClientMiddleware | undefined
+
 /**
  * TLS configuration options for secure connections.
  */
@@ -250,12 +710,132 @@ export type FlightChannelOptions = {
   connectTimeoutMs?: number
 }
 
+/**
+ * Transport the client makes its calls through.
+ */
+export type FlightTransportOptions =
+  | GrpcTransportOptions
+  | GrpcWebTransportOptions
+  | ConnectTransportOptions
+  | CustomTransportOptions
+
+/**
+ * Makes HTTP/2 gRPC calls with `@grpc/grpc-js`. This is the default.
+ */
+export type GrpcTransportOptions = {
+  type: "grpc"
+}
+
+/**
+ * Wire format of gRPC-Web calls. `binary` sends messages as they are;
+ * `text` base64-encodes them, for proxies and runtimes that cannot stream
+ * binary response bodies.
+ */
+export type GrpcWebFormat = "binary" | "text"
+
+/**
+ * Makes calls with `fetch` using the gRPC-Web protocol, through a gRPC-Web
+ * proxy such as Envoy, so the client also runs where HTTP/2 gRPC is not
+ * available, such as in browsers.
+ *
+ * gRPC-Web has no client streaming, so `handshake()`, `doPut()` and
+ * `doExchange()` fail with `UNIMPLEMENTED`. TLS is handled by `fetch`: the
+ * `tls`, `credentials` and `channelOptions` options do not apply.
+ */
+export type GrpcWebTransportOptions = {
+  type: "grpcWeb"
+
+  /**
+   * URL of the gRPC-Web proxy.
+   *
+   * @default `https://host:port`, or `http://host:port` when `tls` is false
+   */
+  baseUrl?: string
+
+  /**
+   * Wire format of the calls.
+   *
+   * @default "binary"
+   */
+  format?: GrpcWebFormat
+
+  /**
+   * The fetch implementation to make requests with.
+   *
+   * @default globalThis.fetch
+   */
+  fetch?: FetchFunction
+}
+
+/**
+ * Message encoding of Connect calls. `proto` sends binary Protocol Buffers;
+ * `json` sends their JSON mapping, for gateways that only handle JSON.
+ */
+export type ConnectFormat = "proto" | "json"
+
+/**
+ * Makes calls with `fetch` using the Connect protocol, which works over
+ * HTTP/1.1 and so through proxies that do not carry HTTP/2.
+ *
+ * Only unary and server-streaming methods can be called over HTTP/1.1, so
+ * `handshake()`, `doPut()` and `doExchange()` fail with `UNIMPLEMENTED`.
+ * TLS is handled by `fetch`: the `tls`, `credentials` and `channelOptions`
+ * options do not apply.
+ */
+export type ConnectTransportOptions = {
+  type: "connect"
+
+  /**
+   * URL of the Connect server or gateway.
+   *
+   * @default `https://host:port`, or `http://host:port` when `tls` is false
+   */
+  baseUrl?: string
+
+  /**
+   * Message encoding of the calls.
+   *
+   * @default "proto"
+   */
+  format?: ConnectFormat
+
+  /**
+   * The fetch implementation to make requests with.
+   *
+   * @default globalThis.fetch
+   */
+  fetch?: FetchFunction
+}
+
+/**
+ * Makes calls through a transport created by the application, such as a
+ * `LoopbackTransport` serving Flight handlers in-process.
+ *
+ * The `tls`, `credentials` and `channelOptions` options are passed to the
+ * factory and only apply if it uses them.
+ */
+export type CustomTransportOptions = {
+  type: "custom"
+
+  /**
+   * Creates the transport when the client connects. Location clients
+   * created by `getLocationClient()` call it with their own options.
+   */
+  createTransport: (options: FlightClientOptions) => FlightTransport
+}
+
+/**
+ * A `fetch` implementation.
+ */
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>
+
 /**
  * Authentication options for the Flight client.
  */
 export type FlightAuthOptions =
   | FlightBasicAuthOptions
   | FlightBearerTokenOptions
+  | FlightTokenProviderOptions
   | FlightMTLSOptions
   | FlightHandshakeOptions
 
@@ -276,6 +856,28 @@ export type FlightBearerTokenOptions = {
   token: string
 }
 
+/**
+ * Bearer token authentication with tokens from an async provider, such as
+ * an OAuth or OIDC client.
+ *
+ * The provider is called when a call starts without a valid cached token.
+ * JWTs are cached until shortly before their `exp` claim; other tokens are
+ * cached until the server rejects them with `UNAUTHENTICATED`.
+ */
+export type FlightTokenProviderOptions = {
+  type: "tokenProvider"
+  /**
+   * Returns a new bearer token.
+   */
+  getToken: () => Promise<string>
+  /**
+   * How long before its expiry a cached JWT is replaced, in milliseconds.
+   *
+   * @default 30000
+   */
+  expiryMarginMs?: number
+}
+
 /**
  * Mutual TLS (mTLS) authentication using client certificates.
  */
@@ -314,6 +916,12 @@ export type FlightHandshakeOptions = {
 export type CallOptions = {
   /**
    * Timeout for this call in milliseconds.
+   *
+   * Applied as a gRPC deadline. For streaming calls the deadline covers the
+   * whole stream, not each message. When it passes, the call fails with a
+   * `DEADLINE_EXCEEDED` FlightError.
+   *
+   * Overrides `FlightClientOptions.defaultTimeoutMs`.
    */
   timeoutMs?: number
 
@@ -321,6 +929,50 @@ export type CallOptions = {
    * Additional metadata headers to send with this call.
    */
   headers?: Record<string, string>
+
+  /**
+   * Signal that cancels the call when aborted.
+   *
+   * Aborting cancels the underlying gRPC call. Pending promises reject and
+   * stream iteration throws a FlightError with code `CANCELLED`.
+   */
+  signal?: AbortSignal
+
+  /**
+   * Called with the response headers when the server sends them.
+   *
+   * Values of binary (`-bin`) keys are Buffers. Calls that are retried or
+   * replayed report the headers of every attempt.
+   */
+  onHeaders?: (headers: Metadata) => void
+
+  /**
+   * Called with the trailing metadata when the call completes, whether it
+   * succeeded or failed.
+   *
+   * Values of binary (`-bin`) keys are Buffers. Calls that are retried or
+   * replayed report the trailers of every attempt.
+   */
+  onTrailers?: (trailers: Metadata) => void
+}
+
+/**
+ * Options for polling a long-running query with PollFlightInfo.
+ */
+export type PollFlightInfoOptions = CallOptions & {
+  /**
+   * Delay between consecutive polls in milliseconds.
+   *
+   * @default 1000
+   */
+  intervalMs?: number
+
+  /**
+   * Called with every PollInfo received while waiting for the query.
+   * Use `progress` to report completion and `info` to start reading
+   * partial results early.
+   */
+  onProgress?: (poll: PollInfo) => void
 }
 
 /**
@@ -449,16 +1101,30 @@ export type DoPutResult = {
 export class FlightError extends Error {
   readonly code: FlightErrorCode
   readonly details?: string
-  readonly metadata?: Record<string, string>
+  /**
+   * Trailing metadata of the failed call. Values of binary (`-bin`) keys
+   * are Buffers.
+   */
+  readonly metadata?: Record<string, string | Buffer>
   readonly grpcCode?: number
+  /**
+   * Rich error status from the `grpc-status-details-bin` trailer.
+   */
+  readonly richStatus?: RichStatus
+  /**
+   * Arrow status from the `x-arrow-status` trailers.
+   */
+  readonly arrowStatus?: ArrowStatus
 
   constructor(
     message: string,
     code: FlightErrorCode,
     options?: {
       details?: string
-      metadata?: Record<string, string>
+      metadata?: Record<string, string | Buffer>
       grpcCode?: number
+      richStatus?: RichStatus
+      arrowStatus?: ArrowStatus
       cause?: Error
     }
   ) {
@@ -468,6 +1134,21 @@ export class FlightError extends Error {
     this.details = options?.details
     this.metadata = options?.metadata
     this.grpcCode = options?.grpcCode
+    this.richStatus = options?.richStatus
+    this.arrowStatus = options?.arrowStatus
+  }
+
+  /**
+   * The delay the server asked the client to wait before retrying, from a
+   * `RetryInfo` detail of the rich error status.
+   */
+  get retryDelayMs(): number | undefined {
+    for (const detail of this.richStatus?.details ?? []) {
+      if (detail.type === "retryInfo") {
+        return detail.retryDelayMs
+      }
+    }
+    return undefined
   }
 
   /**
@@ -490,6 +1171,7 @@ export class FlightError extends Error {
         details: error.details.length > 0 ? error.details : undefined,
         metadata,
         grpcCode: error.code,
+        ...extractStatusDetails(error.metadata),
         cause: error
       })
     }
@@ -607,62 +1289,160 @@ function isGrpcServiceError(error: unknown): error is GrpcServiceError {
   )
 }
 
+/**
+ * Decodes the rich and Arrow statuses from the trailers of a gRPC error.
+ *
+ * @internal
+ */
+function extractStatusDetails(metadata: Metadata | undefined): {
+  richStatus?: RichStatus
+  arrowStatus?: ArrowStatus
+} {
+  if (metadata === undefined) {
+    return {}
+  }
+
+  const [details] = metadata.get("grpc-status-details-bin")
+  return {
+    richStatus: Buffer.isBuffer(details) ? decodeRichStatus(details) : undefined,
+    arrowStatus: decodeArrowStatus(metadata)
+  }
+}
+
 /**
  * gRPC ServiceError shape for type checking.
  *
  * @internal
  */
-type GrpcServiceError = StatusObject & Error
+type GrpcServiceError = TransportStatus & Error
 
 /**
  * Converts a gRPC status code to a FlightErrorCode.
  *
  * @internal
  */
-function grpcStatusToFlightCode(code: number): FlightErrorCode {
+export function grpcStatusToFlightCode(code: number): FlightErrorCode {
   const mapping: Record<number, FlightErrorCode> = {
-    [GrpcStatus.CANCELLED]: "CANCELLED",
-    [GrpcStatus.UNKNOWN]: "UNKNOWN",
-    [GrpcStatus.INVALID_ARGUMENT]: "INVALID_ARGUMENT",
-    [GrpcStatus.DEADLINE_EXCEEDED]: "DEADLINE_EXCEEDED",
-    [GrpcStatus.NOT_FOUND]: "NOT_FOUND",
-    [GrpcStatus.ALREADY_EXISTS]: "ALREADY_EXISTS",
-    [GrpcStatus.PERMISSION_DENIED]: "PERMISSION_DENIED",
-    [GrpcStatus.RESOURCE_EXHAUSTED]: "RESOURCE_EXHAUSTED",
-    [GrpcStatus.FAILED_PRECONDITION]: "FAILED_PRECONDITION",
-    [GrpcStatus.ABORTED]: "ABORTED",
-    [GrpcStatus.OUT_OF_RANGE]: "OUT_OF_RANGE",
-    [GrpcStatus.UNIMPLEMENTED]: "UNIMPLEMENTED",
-    [GrpcStatus.INTERNAL]: "INTERNAL",
-    [GrpcStatus.UNAVAILABLE]: "UNAVAILABLE",
-    [GrpcStatus.DATA_LOSS]: "DATA_LOSS",
-    [GrpcStatus.UNAUTHENTICATED]: "UNAUTHENTICATED"
+    [StatusCode.CANCELLED]: "CANCELLED",
+    [StatusCode.UNKNOWN]: "UNKNOWN",
+    [StatusCode.INVALID_ARGUMENT]: "INVALID_ARGUMENT",
+    [StatusCode.DEADLINE_EXCEEDED]: "DEADLINE_EXCEEDED",
+    [StatusCode.NOT_FOUND]: "NOT_FOUND",
+    [StatusCode.ALREADY_EXISTS]: "ALREADY_EXISTS",
+    [StatusCode.PERMISSION_DENIED]: "PERMISSION_DENIED",
+    [StatusCode.RESOURCE_EXHAUSTED]: "RESOURCE_EXHAUSTED",
+    [StatusCode.FAILED_PRECONDITION]: "FAILED_PRECONDITION",
+    [StatusCode.ABORTED]: "ABORTED",
+    [StatusCode.OUT_OF_RANGE]: "OUT_OF_RANGE",
+    [StatusCode.UNIMPLEMENTED]: "UNIMPLEMENTED",
+    [StatusCode.INTERNAL]: "INTERNAL",
+    [StatusCode.UNAVAILABLE]: "UNAVAILABLE",
+    [StatusCode.DATA_LOSS]: "DATA_LOSS",
+    [StatusCode.UNAUTHENTICATED]: "UNAUTHENTICATED"
   }
   return mapping[code] ?? "UNKNOWN"
 }
 
+/**
+ * Converts a FlightErrorCode to a gRPC status code.
+ *
+ * @internal
+ */
+export function flightCodeToGrpcStatus(code: FlightErrorCode): StatusCode {
+  const mapping: Record<FlightErrorCode, StatusCode> = {
+    CANCELLED: StatusCode.CANCELLED,
+    UNKNOWN: StatusCode.UNKNOWN,
+    INVALID_ARGUMENT: StatusCode.INVALID_ARGUMENT,
+    DEADLINE_EXCEEDED: StatusCode.DEADLINE_EXCEEDED,
+    NOT_FOUND: StatusCode.NOT_FOUND,
+    ALREADY_EXISTS: StatusCode.ALREADY_EXISTS,
+    PERMISSION_DENIED: StatusCode.PERMISSION_DENIED,
+    RESOURCE_EXHAUSTED: StatusCode.RESOURCE_EXHAUSTED,
+    FAILED_PRECONDITION: StatusCode.FAILED_PRECONDITION,
+    ABORTED: StatusCode.ABORTED,
+    OUT_OF_RANGE: StatusCode.OUT_OF_RANGE,
+    UNIMPLEMENTED: StatusCode.UNIMPLEMENTED,
+    INTERNAL: StatusCode.INTERNAL,
+    UNAVAILABLE: StatusCode.UNAVAILABLE,
+    DATA_LOSS: StatusCode.DATA_LOSS,
+    UNAUTHENTICATED: StatusCode.UNAUTHENTICATED
+  }
+  return mapping[code]
+}
+
 /**
  * Extracts metadata from a gRPC error as a plain object.
  *
+ * Values of binary (`-bin`) keys are kept as Buffers.
+ *
  * @internal
  */
-function extractGrpcMetadata(metadata: Metadata | undefined): Record<string, string> | undefined {
+function extractGrpcMetadata(
+  metadata: Metadata | undefined
+): Record<string, string | Buffer> | undefined {
   if (metadata === undefined) {
     return undefined
   }
 
-  const result: Record<string, string> = {}
   const map = metadata.getMap()
-  let hasEntries = false
+  return Object.keys(map).length > 0 ? map : undefined
+}
 
-  for (const [key, value] of Object.entries(map)) {
-    if (typeof value === "string") {
-      result[key] = value
-      hasEntries = true
-    }
-  }
+/**
+ * A detail message of a rich error status.
+ *
+ * The well-known `google.rpc` detail messages are decoded. Others are kept
+ * with their type URL and encoded value.
+ */
+export type ErrorDetail =
+  | ({ type: "errorInfo" } & ErrorInfo)
+  | { type: "retryInfo"; retryDelayMs: number }
+  | ({ type: "debugInfo" } & DebugInfo)
+  | ({ type: "quotaFailure" } & QuotaFailure)
+  | ({ type: "preconditionFailure" } & PreconditionFailure)
+  | ({ type: "badRequest" } & BadRequest)
+  | ({ type: "requestInfo" } & RequestInfo)
+  | ({ type: "resourceInfo" } & ResourceInfo)
+  | ({ type: "help" } & Help)
+  | ({ type: "localizedMessage" } & LocalizedMessage)
+  | { type: "unknown"; typeUrl: string; value: Buffer }
 
-  return hasEntries ? result : undefined
+/**
+ * Rich error status (`google.rpc.Status`) sent by the server in the
+ * `grpc-status-details-bin` trailer.
+ */
+export type RichStatus = {
+  /**
+   * The gRPC status code.
+   */
+  code: number
+  /**
+   * The developer-facing error message.
+   */
+  message: string
+  /**
+   * The detail messages, in the order the server sent them.
+   */
+  details: ErrorDetail[]
+}
+
+/**
+ * Status of an Arrow C++ based server, sent in the `x-arrow-status`
+ * trailers.
+ */
+export type ArrowStatus = {
+  /**
+   * The Arrow status code, from `x-arrow-status`.
+   */
+  code: number
+  /**
+   * The status message, from `x-arrow-status-message-bin`.
+   */
+  message?: string
+  /**
+   * The application-specific status detail, from `x-arrow-status-detail-bin`.
+   */
+  detail?: Buffer
 }
 
 /**
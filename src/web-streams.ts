@@ -0,0 +1,98 @@
+/**
+ * WHATWG stream adapters for Flight streams.
+ *
+ * Lets code built on web streams, such as edge functions and Deno, read and
+ * write Flight data as `ReadableStream`s and `WritableStream`s. Both
+ * adapters keep the flow control of the underlying call: a readable only
+ * pulls a message when its reader asks for one, and a writable only
+ * accepts more chunks once the call can take them.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * A Flight stream that can be written to with backpressure.
+ *
+ * @internal
+ */
+export type AsyncWritableTarget<T> = {
+  writeAsync: (data: T) => Promise<void>
+  end: () => void
+  cancel: () => void
+}
+
+/**
+ * Creates a ReadableStream over an async iterable opened on first read.
+ *
+ * Cancelling the readable aborts the signal given to `open`, which should
+ * cancel the underlying call, and stops the iteration. An abort of `signal`
+ * errors the readable.
+ *
+ * @param open - Opens the source; called at most once
+ * @param signal - Optional signal that aborts the source
+ *
+ * @internal
+ */
+export function iterableToReadableStream<T>(
+  open: (signal: AbortSignal) => AsyncIterable<T>,
+  signal?: AbortSignal
+): ReadableStream<T> {
+  const controller = new AbortController()
+  const sourceSignal =
+    signal === undefined ? controller.signal : AbortSignal.any([signal, controller.signal])
+  let iterator: AsyncIterator<T> | null = null
+
+  return new ReadableStream<T>(
+    {
+      async pull(readable) {
+        iterator ??= open(sourceSignal)[Symbol.asyncIterator]()
+        const result = await iterator.next()
+        if (result.done === true) {
+          readable.close()
+        } else {
+          readable.enqueue(result.value)
+        }
+      },
+      async cancel(reason) {
+        controller.abort(reason)
+        await iterator?.return?.()
+      }
+    },
+    // Nothing is read from the call before the reader asks for it
+    { highWaterMark: 0 }
+  )
+}
+
+/**
+ * Creates a WritableStream that writes to a Flight stream.
+ *
+ * Each chunk is written with `writeAsync`, so chunks queue in the writable
+ * while the call is applying backpressure and `desiredSize` drops to zero
+ * or below. Closing the writable ends the call's request stream; aborting
+ * it cancels the call.
+ *
+ * @param target - The stream to write to
+ * @param highWaterMark - Number of chunks the writable queues before
+ *   signalling backpressure
+ *
+ * @internal
+ */
+export function targetToWritableStream<T>(
+  target: AsyncWritableTarget<T>,
+  highWaterMark: number
+): WritableStream<T> {
+  return new WritableStream<T>(
+    {
+      async write(chunk) {
+        await target.writeAsync(chunk)
+      },
+      close() {
+        target.end()
+      },
+      abort() {
+        target.cancel()
+      }
+    },
+    new CountQueuingStrategy({ highWaterMark })
+  )
+}
@@ -0,0 +1,164 @@
+/**
+ * Arrow Flight client for browsers.
+ *
+ * Everything the package exports except the servers, which need Node.js.
+ * Nothing this entry point loads imports `@grpc/grpc-js` or Node.js
+ * modules; it needs a global `Buffer`, which bundlers provide with the
+ * `buffer` package. Clients connect with the gRPC-Web, Connect or custom
+ * transports, as browsers cannot make gRPC calls.
+ *
+ * @packageDocumentation
+ */
+
+// Core types
+export type {
+  // Proto types (re-exported)
+  Action,
+  ActionType,
+  ArrowStatus,
+  BasicAuth,
+  CallInfo,
+  CallOptions,
+  CallStatus,
+  CancelFlightInfoRequest,
+  CancelFlightInfoResult,
+  // Status types
+  CancelStatus,
+  // Middleware
+  ClientMiddleware,
+  ClientMiddlewareFactory,
+  CloseSessionStatus,
+  CmdDescriptor,
+  ConnectFormat,
+  ConnectTransportOptions,
+  Criteria,
+  CustomTransportOptions,
+  Descriptor,
+  DescriptorType,
+  // Results
+  DoGetResult,
+  DoPutResult,
+  ErrorDetail,
+  FetchFunction,
+  FlightAuthOptions,
+  FlightBasicAuthOptions,
+  FlightBearerTokenOptions,
+  FlightChannelOptions,
+  // Client options
+  FlightClientOptions,
+  FlightData,
+  FlightDescriptor,
+  FlightEndpoint,
+  // Errors
+  FlightErrorCode,
+  FlightHandshakeOptions,
+  FlightInfo,
+  FlightMethod,
+  FlightMTLSOptions,
+  FlightTokenProviderOptions,
+  // Transports
+  FlightTransportOptions,
+  GrpcTransportOptions,
+  GrpcWebFormat,
+  GrpcWebTransportOptions,
+  HandshakeExchange,
+  HandshakeOptions,
+  HandshakeRequest,
+  HandshakeResponse,
+  Location,
+  LocationClientOptions,
+  // Descriptors
+  PathDescriptor,
+  PollFlightInfoOptions,
+  PollInfo,
+  PutResult,
+  ReadFlightOptions,
+  RenewFlightEndpointRequest,
+  Result,
+  RetryableMethod,
+  RetryOptions,
+  RichStatus,
+  SchemaResult,
+  SessionOptionError,
+  SessionOptionValue,
+  SetSessionOptionsResult,
+  Ticket,
+  // TLS
+  TlsOptions,
+  // Token refresh
+  TokenRefresh
+} from "./types.js"
+export {
+  cmdDescriptor,
+  // Error class
+  FlightError,
+  fromCancelStatusProto,
+  fromCloseSessionStatusProto,
+  fromDescriptorTypeProto,
+  fromSessionOptionErrorProto,
+  fromSessionOptionValueProto,
+  // Helper functions
+  pathDescriptor,
+  // Proto conversion utils (internal but exported for advanced use)
+  toCancelStatusProto,
+  toCloseSessionStatusProto,
+  toDescriptorTypeProto,
+  toFlightDescriptor,
+  toSessionOptionErrorProto,
+  toSessionOptionValueProto
+} from "./types.js"
+
+// Client
+export type { ConnectionState, HandshakeResult } from "./client.js"
+export { createFlightClient, DoExchangeStream, DoPutStream, FlightClient } from "./client.js"
+
+// Transports
+export { LoopbackTransport } from "./loopback.js"
+export type { MetadataValue } from "./metadata.js"
+export { Metadata } from "./metadata.js"
+export type {
+  BidiStreamingMethod,
+  CallListener,
+  ClientCall,
+  ClientStreamingCall,
+  DuplexCallListener,
+  FlightTransport,
+  ServerStreamingMethod,
+  TransportCallOptions,
+  TransportStatus,
+  UnaryMethod
+} from "./transport.js"
+export { StatusCode } from "./transport.js"
+
+// Cookies
+export { CookieStore, createCookieMiddleware } from "./cookies.js"
+
+// Server handlers, for LoopbackTransport
+export type {
+  BidiStreamingHandler,
+  FlightServiceHandlers,
+  ServerCallContext,
+  ServerStreamingHandler,
+  UnaryHandler
+} from "./server.js"
+
+// Location utilities
+export type { LocationScheme, ParsedLocation } from "./location.js"
+export { createLocation, LocationParseError, parseLocation } from "./location.js"
+
+// Proto encoders/decoders for advanced use cases (e.g. arrow-flight-sql)
+export {
+  CancelFlightInfoRequest as CancelFlightInfoRequestCodec,
+  CancelFlightInfoResult as CancelFlightInfoResultCodec,
+  FlightEndpoint as FlightEndpointCodec,
+  RenewFlightEndpointRequest as RenewFlightEndpointRequestCodec
+} from "./generated/arrow/flight/protocol/Flight.js"
+
+// IPC utilities for converting Flight data to Arrow IPC format
+export type { FlightRecordBatch, FlightRecordBatchStreamOptions } from "./ipc.js"
+export {
+  collectFlightDataAsIpc,
+  flightDataToIpc,
+  FlightRecordBatchStream,
+  recordBatchesToFlightData
+} from "./ipc.js"
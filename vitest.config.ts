@@ -3,10 +3,23 @@ import { defineConfig } from "vitest/config"
 export default defineConfig({
   test: {
     globals: false,
-    include: ["src/__tests__/**/*.test.ts"],
     exclude: ["**/node_modules/**", "**/dist/**"],
     testTimeout: 30000,
     hookTimeout: 30000,
+    projects: [
+      {
+        extends: true,
+        test: { name: "unit", include: ["src/__tests__/unit/**/*.test.ts"] }
+      },
+      {
+        extends: true,
+        test: {
+          name: "integration",
+          include: ["src/__tests__/integration/**/*.test.ts"],
+          globalSetup: ["src/__tests__/integration/global-setup.ts"]
+        }
+      }
+    ],
     coverage: {
       provider: "v8",
       include: ["src/**/*.ts"],